@@ -319,13 +319,14 @@ async function showStats() {
     console.log(`Bloom filter size:     ${stats.bloomFilterSize} bits\n`)
 }
 
-// Semantic search
+// Search, narrowed by author:, file:, state:, before:, after: and "quoted phrases"
 async function searchPRs(query: string, limit: number = 10) {
     log.title('🔍 Semantic Search')
 
     if (!query) {
         log.error('Please provide a search query')
-        console.log('\n💡 Usage: prsense search "your query here"\n')
+        console.log('\n💡 Usage: prsense search "your query here"')
+        console.log(`💡 Filters: prsense search 'author:alice file:src/storage/** state:merged before:2026-01-01 "cache eviction"'\n`)
         process.exit(1)
     }
 
@@ -352,6 +353,9 @@ async function searchPRs(query: string, limit: number = 10) {
             const scoreBar = '█'.repeat(Math.round(r.score * 10)) + '░'.repeat(10 - Math.round(r.score * 10))
             console.log(`${colors.bold}${i + 1}. PR #${r.prId}${colors.reset} - ${r.title}`)
             console.log(`   ${colors.green}${scoreBar}${colors.reset} ${(r.score * 100).toFixed(1)}%`)
+            if (r.author || r.state) {
+                console.log(`   ${[r.author && `@${r.author}`, r.state].filter(Boolean).join(' · ')}`)
+            }
             if (r.description) {
                 const desc = r.description.length > 80 ? r.description.slice(0, 77) + '...' : r.description
                 console.log(`   ${colors.cyan}${desc}${colors.reset}`)
@@ -427,7 +431,7 @@ ${colors.bold}USAGE:${colors.reset}
 ${colors.bold}COMMANDS:${colors.reset}
   ${colors.green}describe${colors.reset}   Generate an AI PR description based on local changes
   ${colors.green}check${colors.reset}      Check current git branch for duplicates (auto-detects)
-  ${colors.green}search${colors.reset}     Search PRs using natural language (semantic search)
+  ${colors.green}search${colors.reset}     Search PRs using natural language (filters: author: file: state: before: after: "phrase")
   ${colors.green}quick${colors.reset}      Quick interactive check (manual input)
   ${colors.green}setup${colors.reset}      Setup wizard (first-time configuration)
   ${colors.green}stats${colors.reset}      Show statistics
@@ -438,6 +442,7 @@ ${colors.bold}EXAMPLES:${colors.reset}
   prsense                          # Auto-check current branch
   prsense check                    # Same as above
   prsense search "auth bug fix"    # Search for similar PRs
+  prsense search 'state:open file:src/auth/** "token refresh"'
   prsense quick                    # Interactive mode
   prsense setup                    # Run setup wizard
 
@@ -495,9 +500,10 @@ ${colors.reset}`)
             break
 
         case 'search':
-            const query = process.argv[3] || ''
-            const searchLimit = process.argv[4] ? parseInt(process.argv[4], 10) : 10
-            await searchPRs(query, searchLimit)
+            // A trailing number is the limit: prsense search "auth bug" 5
+            const terms = process.argv.slice(3)
+            const searchLimit = terms.length > 1 && /^\d+$/.test(terms[terms.length - 1]!) ? parseInt(terms.pop()!, 10) : 10
+            await searchPRs(terms.join(' '), searchLimit)
             break
 
         case 'quick':
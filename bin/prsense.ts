@@ -3,17 +3,32 @@
  * PRSense CLI - Repository Memory Infrastructure v1.0.2
  *
  * Usage:
- *   prsense check <pr-file.json> [--dry-run] [--detailed]
- *   prsense search "query" [--limit=10]
+ *   prsense check <pr-file.json> [--dry-run] [--detailed] [--top=5]
+ *   prsense search "query" [--limit=10] [--mode=hybrid|semantic|lexical]
  *   prsense stats
+ *   prsense eval <dataset.jsonl> [--duplicate-threshold=0.9] [--possible-threshold=0.82]
+ *   prsense calibrate <pairs-or-dataset.jsonl> [--target-precision=0.95] [--out=calibration.json]
+ *   prsense reembed [--db=prsense.db] [--to=openai|onnx] [--no-promote]
+ *   prsense clusters [--db=prsense.db] [--limit=10] [--min-size=2] [--format=markdown|json] [--out=clusters.md]
  *   prsense help
  */
 
 import { PRSenseDetector } from '../src/prsense.js'
+import type { PRSenseConfig, SearchOptions } from '../src/prsense.js'
+import { parseDataset, evaluate, formatReport } from '../src/evaluate.js'
+import { calibrate, pairsFromDataset } from '../src/calibration.js'
+import type { LabelledPair } from '../src/calibration.js'
+import { formatEmbedder } from '../src/embeddingPipeline.js'
 import type { Embedder } from '../src/embeddingPipeline.js'
+import { reembedStorage } from '../src/reembed.js'
+import { buildClusterReports, formatClustersMarkdown } from '../src/clusterReport.js'
+import type { StorageBackend } from '../src/storage/interface.js'
+import { SQLiteStorage } from '../src/storage/sqlite.js'
+import { createPostgresStorage } from '../src/storage/postgres.js'
 import { createOpenAIEmbedder } from '../src/embedders/openai.js'
 import { createONNXEmbedder } from '../src/embedders/onnx.js'
-import { readFileSync, existsSync } from 'fs'
+import { ValidationError } from '../src/errors.js'
+import { readFileSync, writeFileSync, existsSync } from 'fs'
 
 // ─── Parse CLI flags ─────────────────────────────────────────────────────────
 
@@ -26,8 +41,22 @@ const limitVal = limitArg ? (() => {
   const value = parts[1]
   return value !== undefined ? parseInt(value, 10) : 10
 })() : 10
+const topArg = args.find(a => a.startsWith('--top='))
+const topVal = topArg ? parseInt(topArg.split('=')[1] ?? '5', 10) : 5
 const filteredArgs = args.filter(arg => !arg.startsWith('--'))
 
+function stringFlag(name: string): string | undefined {
+    const arg = args.find(a => a.startsWith(`--${name}=`))
+    return arg ? arg.slice(name.length + 3) : undefined
+}
+
+function numberFlag(name: string): number | undefined {
+    const arg = args.find(a => a.startsWith(`--${name}=`))
+    if (!arg) return undefined
+    const value = parseFloat(arg.slice(name.length + 3))
+    return Number.isFinite(value) ? value : undefined
+}
+
 // ─── Colors ──────────────────────────────────────────────────────────────────
 
 const c = {
@@ -58,6 +87,15 @@ const dummyEmbedder: Embedder = {
 // ─── Embedder selection ───────────────────────────────────────────────────────
 
 function createEmbedder(): Embedder {
+    // reembed names its target model explicitly
+    const target = stringFlag('to')
+    if (target === 'openai') return createOpenAIEmbedder()
+    if (target === 'onnx') return createONNXEmbedder()
+    if (target !== undefined) {
+        console.error(`${c.red}Error: --to must be openai or onnx${c.reset}`)
+        process.exit(1)
+    }
+
     if (dryRunFlag) {
         console.log(`${c.dim}🧪 Dry-run mode: using mock embedder (no API calls)${c.reset}`)
         return dummyEmbedder
@@ -94,6 +132,17 @@ function printResult(result: any) {
         console.log(`  ${c.green}${c.bold}✅ UNIQUE${c.reset} — No duplicates found`)
         console.log(`  Confidence: ${c.dim}${pct(result.confidence)}${c.reset}`)
     }
+
+    if (result.matches && result.matches.length > 1) {
+        console.log(`\n  ${c.bold}Related PRs:${c.reset}`)
+        for (const m of result.matches) {
+            const color = m.type === 'DUPLICATE' ? c.red : c.yellow
+            const detail = detailedFlag
+                ? `  ${c.dim}text ${pct(m.breakdown.textSimilarity)} · diff ${pct(m.breakdown.diffSimilarity)} · files ${pct(m.breakdown.fileSimilarity)}${c.reset}`
+                : ''
+            console.log(`    #${m.prId}  ${color}${m.type.padEnd(9)}${c.reset} ${bar(m.confidence)} ${pct(m.confidence)}${detail}`)
+        }
+    }
     console.log('')
 }
 
@@ -102,7 +151,7 @@ function printResult(result: any) {
 async function checkCommand(detector: PRSenseDetector, filePath?: string) {
     if (!filePath) {
         console.error(`${c.red}Error: Please provide a JSON file with PR data${c.reset}`)
-        console.log('Usage: prsense check <pr-file.json> [--dry-run] [--detailed]')
+        console.log('Usage: prsense check <pr-file.json> [--dry-run] [--detailed] [--top=5]')
         process.exit(1)
     }
 
@@ -127,7 +176,7 @@ async function checkCommand(detector: PRSenseDetector, filePath?: string) {
     }
 
     if (detailedFlag) {
-        const result = await detector.checkDetailed(prData, { dryRun: dryRunFlag })
+        const result = await detector.checkDetailed(prData, { dryRun: dryRunFlag, topK: topVal })
         console.log('\n📊 Detailed Result:')
         printResult(result)
 
@@ -137,11 +186,28 @@ async function checkCommand(detector: PRSenseDetector, filePath?: string) {
             console.log(`  Text similarity:  ${bar(b.textSimilarity)} ${pct(b.textSimilarity)}  (weight ${pct(b.weights[0])}) → ${pct(b.textContribution)}`)
             console.log(`  Diff similarity:  ${bar(b.diffSimilarity)} ${pct(b.diffSimilarity)}  (weight ${pct(b.weights[1])}) → ${pct(b.diffContribution)}`)
             console.log(`  File similarity:  ${bar(b.fileSimilarity)} ${pct(b.fileSimilarity)}  (weight ${pct(b.weights[2])}) → ${pct(b.fileContribution)}`)
+            if (b.hunkMatch) {
+                console.log(`  Best hunk match:  ${b.hunkMatch.file} ↔ ${b.hunkMatch.matchedFile} ${c.dim}(${pct(b.hunkMatch.similarity)})${c.reset}`)
+            }
             console.log(`  ${c.bold}Final score:      ${bar(b.finalScore)} ${pct(b.finalScore)}${c.reset}`)
             console.log('')
         }
+
+        const n = result.normalization
+        if (n && n.removedChars > 0) {
+            console.log(`${c.bold}Diff Normalisation:${c.reset} ${c.dim}removed ${n.removedChars} chars${c.reset}`)
+            for (const dropped of n.droppedFiles) {
+                console.log(`  Dropped ${dropped.file} ${c.dim}(${dropped.reason})${c.reset}`)
+            }
+            for (const rename of n.renames) {
+                console.log(`  Rename ${rename.from} → ${rename.to}`)
+            }
+            if (n.whitespaceOnlyHunks > 0) console.log(`  Whitespace-only hunks: ${n.whitespaceOnlyHunks}`)
+            if (n.contextLinesRemoved > 0) console.log(`  Context lines:         ${n.contextLinesRemoved}`)
+            console.log('')
+        }
     } else {
-        const result = await detector.check(prData, { dryRun: dryRunFlag })
+        const result = await detector.check(prData, { dryRun: dryRunFlag, topK: topVal })
         console.log('\n📊 Result:')
         printResult(result)
     }
@@ -150,13 +216,27 @@ async function checkCommand(detector: PRSenseDetector, filePath?: string) {
 async function searchCommand(detector: PRSenseDetector, query?: string) {
     if (!query) {
         console.error(`${c.red}Error: Please provide a search query${c.reset}`)
-        console.log('Usage: prsense search "your query" [--limit=10]')
+        console.log('Usage: prsense search "your query" [--limit=10] [--mode=hybrid|semantic|lexical]')
+        console.log(`Filters: prsense search 'author:alice file:src/storage/** state:merged before:2026-01-01 "cache eviction"'`)
+        process.exit(1)
+    }
+
+    const mode = stringFlag('mode')
+    if (mode !== undefined && mode !== 'hybrid' && mode !== 'semantic' && mode !== 'lexical') {
+        console.error(`${c.red}Error: --mode must be hybrid, semantic or lexical${c.reset}`)
         process.exit(1)
     }
 
     console.log(`\n${c.bold}🔍 Searching:${c.reset} "${query}" ${c.dim}(limit: ${limitVal})${c.reset}\n`)
 
-    const results = await detector.search(query, limitVal)
+    let results
+    try {
+        results = await detector.search(query, limitVal, mode ? { mode } as SearchOptions : {})
+    } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        console.error(`${c.red}Error: ${error.message}${c.reset}`)
+        process.exit(1)
+    }
 
     if (results.length === 0) {
         console.log(`${c.yellow}No matching PRs found. Index some PRs first with: prsense check <file.json>${c.reset}\n`)
@@ -168,6 +248,9 @@ async function searchCommand(detector: PRSenseDetector, query?: string) {
     results.forEach((r, i) => {
         console.log(`${c.bold}${i + 1}. PR #${r.prId}${c.reset} — ${r.title}`)
         console.log(`   ${bar(r.score)} ${pct(r.score)} similarity`)
+        if (r.author || r.state) {
+            console.log(`   ${c.dim}${[r.author && `@${r.author}`, r.state].filter(Boolean).join(' · ')}${c.reset}`)
+        }
         if (r.description) {
             const desc = r.description.length > 100 ? r.description.slice(0, 97) + '...' : r.description
             console.log(`   ${c.dim}${desc}${c.reset}`)
@@ -190,6 +273,188 @@ async function statsCommand(detector: PRSenseDetector) {
     console.log(`  Storage backend:       ${c.dim}${stats.storage ?? 'in-memory'}${c.reset}\n`)
 }
 
+async function evalCommand(embedder: Embedder, fileConfig: Partial<PRSenseConfig>, filePath?: string) {
+    if (!filePath || !existsSync(filePath)) {
+        console.error(`${c.red}Error: Please provide an existing JSONL dataset${c.reset}`)
+        console.log('Usage: prsense eval <dataset.jsonl> [--duplicate-threshold=0.9] [--possible-threshold=0.82]')
+        process.exit(1)
+    }
+
+    const dataset = parseDataset(readFileSync(filePath, 'utf-8'))
+    console.log(`\n${c.bold}🧪 Evaluating ${dataset.prs.length} PRs / ${dataset.pairs.length} labelled pairs${c.reset}\n`)
+
+    const duplicateThreshold = numberFlag('duplicate-threshold')
+    const possibleThreshold = numberFlag('possible-threshold')
+    const report = await evaluate(dataset, {
+        ...fileConfig,
+        embedder,
+        ...(duplicateThreshold !== undefined ? { duplicateThreshold } : {}),
+        ...(possibleThreshold !== undefined ? { possibleThreshold } : {}),
+        onProgress: (done, total) => {
+            if (done % 50 === 0 || done === total) {
+                process.stdout.write(`${c.dim}  replayed ${done}/${total}${c.reset}\r`)
+            }
+        }
+    })
+
+    console.log('\n')
+    console.log(formatReport(report))
+    console.log('')
+}
+
+async function calibrateCommand(embedder: Embedder, filePath?: string) {
+    if (!filePath || !existsSync(filePath)) {
+        console.error(`${c.red}Error: Please provide an existing JSONL file of labelled pairs or an eval dataset${c.reset}`)
+        console.log('Usage: prsense calibrate <pairs-or-dataset.jsonl> [--target-precision=0.95] [--out=calibration.json]')
+        process.exit(1)
+    }
+
+    const content = readFileSync(filePath, 'utf-8')
+    let pairs: LabelledPair[]
+    if (content.trimStart().startsWith('[')) {
+        // JSON array, e.g. the output of detector.exportTrainingData()
+        pairs = JSON.parse(content)
+    } else {
+        const lines = content.split('\n').filter(line => line.trim())
+        const entries = lines.map(line => { try { return JSON.parse(line) } catch { return null } })
+        if (entries.length > 0 && entries.every(e => e && typeof e.label === 'number')) {
+            pairs = entries
+        } else {
+            const dataset = parseDataset(content)
+            console.log(`\n${c.bold}🧪 Replaying ${dataset.prs.length} PRs / ${dataset.pairs.length} labelled pairs${c.reset}`)
+            pairs = await pairsFromDataset(dataset, { embedder })
+        }
+    }
+
+    const targetPrecision = numberFlag('target-precision')
+    const possiblePrecision = numberFlag('possible-precision')
+    const result = calibrate(pairs, {
+        ...(targetPrecision !== undefined ? { targetPrecision } : {}),
+        ...(possiblePrecision !== undefined ? { possiblePrecision } : {})
+    })
+
+    const { duplicate, possible } = result.expected
+    console.log(`\n${c.bold}🎯 Calibrated on ${result.samples.total} pairs (${result.samples.positives} duplicate / ${result.samples.negatives} not)${c.reset}\n`)
+    console.log(`  Weights:    text ${pct(result.config.weights[0])} · diff ${pct(result.config.weights[1])} · files ${pct(result.config.weights[2])}`)
+    console.log(`  DUPLICATE   >= ${duplicate.threshold.toFixed(4)}   precision ${pct(duplicate.precision)}   recall ${pct(duplicate.recall)}${duplicate.met ? '' : `  ${c.yellow}(target not reached, best F1)${c.reset}`}`)
+    console.log(`  POSSIBLE    >= ${possible.threshold.toFixed(4)}   precision ${pct(possible.precision)}   recall ${pct(possible.recall)}${possible.met ? '' : `  ${c.yellow}(target not reached, best F1)${c.reset}`}`)
+
+    const json = JSON.stringify(result.config, null, 2)
+    const out = stringFlag('out')
+    if (out) {
+        writeFileSync(out, json + '\n')
+        console.log(`\n${c.dim}Wrote ${out} — load it with --config=${out}${c.reset}\n`)
+    } else {
+        console.log(`\n${json}\n`)
+    }
+}
+
+/**
+ * --db=<file> for SQLite, otherwise DATABASE_URL for Postgres
+ */
+function openStorage(usage: string): StorageBackend {
+    const dbPath = stringFlag('db')
+    if (dbPath) return new SQLiteStorage(dbPath)
+    if (process.env.DATABASE_URL) return createPostgresStorage()
+    console.error(`${c.red}Error: Set --db=<file.db> (SQLite) or DATABASE_URL (Postgres)${c.reset}`)
+    console.log(`Usage: ${usage}`)
+    process.exit(1)
+}
+
+async function clustersCommand(embedder: Embedder, fileConfig: Partial<PRSenseConfig>) {
+    const format = stringFlag('format') ?? 'markdown'
+    if (format !== 'markdown' && format !== 'json') {
+        console.error(`${c.red}Error: --format must be markdown or json${c.reset}`)
+        process.exit(1)
+    }
+    const storage = openStorage('prsense clusters [--db=prsense.db] [--limit=10] [--min-size=2] [--format=markdown|json] [--out=clusters.md]')
+    const minSize = numberFlag('min-size')
+
+    try {
+        const detector = new PRSenseDetector({ embedder, storage, ...fileConfig })
+        await detector.init()
+        let clusters
+        try {
+            clusters = await buildClusterReports(detector, { limit: limitVal, ...(minSize !== undefined ? { minSize } : {}) })
+        } catch (error) {
+            if (!(error instanceof ValidationError)) throw error
+            console.error(`${c.red}Error: ${error.message}${c.reset}`)
+            process.exit(1)
+        }
+
+        const output = format === 'json' ? JSON.stringify({ clusters }, null, 2) + '\n' : formatClustersMarkdown(clusters)
+        const out = stringFlag('out')
+        if (out) {
+            writeFileSync(out, output)
+            console.log(`\n${c.dim}Wrote ${clusters.length} cluster${clusters.length === 1 ? '' : 's'} to ${out}${c.reset}\n`)
+        } else {
+            process.stdout.write(output)
+        }
+    } finally {
+        await storage.close()
+    }
+}
+
+async function reembedCommand(embedder: Embedder) {
+    const storage = openStorage('prsense reembed [--db=prsense.db] [--to=openai|onnx] [--no-promote]')
+
+    const controller = new AbortController()
+    process.once('SIGINT', () => controller.abort())
+
+    console.log(`\n${c.bold}🔁 Re-embedding stored PRs${c.reset} ${c.dim}(Ctrl-C stops; staged vectors are kept and the next run resumes)${c.reset}\n`)
+    try {
+        const report = await reembedStorage(storage, embedder, {
+            promote: !args.includes('--no-promote'),
+            signal: controller.signal,
+            onProgress: p => {
+                const done = p.staged + p.resumed + p.failed
+                if (done % 25 === 0 || done === p.total) {
+                    process.stdout.write(`${c.dim}  ${done}/${p.total} (${p.resumed} resumed, ${p.failed} failed)${c.reset}\r`)
+                }
+            }
+        })
+
+        console.log('\n')
+        console.log(`  Target model:  ${c.cyan}${formatEmbedder(report.embedder)}${c.reset}`)
+        console.log(`  Staged:        ${report.staged} new, ${report.resumed} from an earlier run`)
+        if (report.missingDiff.length > 0) {
+            console.log(`  ${c.yellow}No stored diff: ${report.missingDiff.length} PRs re-embedded from title and description only${c.reset}`)
+        }
+        for (const failure of report.failures.slice(0, 10)) {
+            console.log(`  ${c.red}✗ PR ${failure.prId}: ${failure.error}${c.reset}`)
+        }
+        if (report.complete) {
+            console.log(`  ${c.green}✓ Promoted ${report.promoted} PRs — restart detectors with the new embedder${c.reset}\n`)
+        } else if (report.failed > 0) {
+            console.log(`  ${c.yellow}${report.failed} PRs failed; live vectors are unchanged. Run again to retry.${c.reset}\n`)
+        } else if (args.includes('--no-promote')) {
+            console.log(`  ${c.dim}Staged only; run without --no-promote to switch over${c.reset}\n`)
+        } else {
+            console.log(`  ${c.yellow}Promoted ${report.promoted} of ${report.total}; PRs updated during the run kept their old vectors. Run again.${c.reset}\n`)
+        }
+    } finally {
+        await storage.close()
+    }
+}
+
+/**
+ * Weights/thresholds from --config=<file> (e.g. the output of calibrate)
+ */
+function loadConfigFile(): Pick<PRSenseConfig, 'weights' | 'duplicateThreshold' | 'possibleThreshold'> {
+    const path = stringFlag('config')
+    if (!path) return {}
+    if (!existsSync(path)) {
+        console.error(`${c.red}Error: Config file not found: ${path}${c.reset}`)
+        process.exit(1)
+    }
+    const { weights, duplicateThreshold, possibleThreshold } = JSON.parse(readFileSync(path, 'utf-8'))
+    return {
+        ...(weights !== undefined ? { weights } : {}),
+        ...(duplicateThreshold !== undefined ? { duplicateThreshold } : {}),
+        ...(possibleThreshold !== undefined ? { possibleThreshold } : {})
+    }
+}
+
 function printHelp() {
     console.log(`
 ${c.bold}${c.cyan}PRSense v1.0.2 — Repository Memory Infrastructure${c.reset}
@@ -199,14 +464,31 @@ ${c.bold}USAGE:${c.reset}
 
 ${c.bold}COMMANDS:${c.reset}
   ${c.green}check${c.reset} <file.json>   Check if a PR is a duplicate
-  ${c.green}search${c.reset} "query"      Semantic search over indexed PRs
+  ${c.green}search${c.reset} "query"      Search indexed PRs (filters: author: file: state: before: after: "phrase")
   ${c.green}stats${c.reset}               Show memory statistics
+  ${c.green}eval${c.reset} <data.jsonl>   Measure precision/recall on a labelled dataset
+  ${c.green}calibrate${c.reset} <file>    Fit weights and thresholds from labelled pairs
+  ${c.green}reembed${c.reset}             Move stored PRs to the current embedding model
+  ${c.green}clusters${c.reset}            List duplicate clusters, largest and most recent first
   ${c.green}help${c.reset}                Show this help
 
 ${c.bold}OPTIONS:${c.reset}
   --dry-run           Use mock embedder (no API calls, for CI/testing)
   --detailed          Show full score breakdown (text / diff / file weights)
-  --limit=N           Max results for search (default: 10)
+  --limit=N           Max results for search and clusters (default: 10)
+  --mode=MODE         Search ranking: hybrid, semantic or lexical (default: hybrid)
+  --top=N             Max related PRs listed by check (default: 5)
+  --duplicate-threshold=X, --possible-threshold=X
+                      Thresholds to evaluate with eval (default: 0.90 / 0.82)
+  --target-precision=X, --possible-precision=X
+                      Precision calibrate aims for (default: 0.95 / 0.80)
+  --out=FILE          Write the calibrated config or the clusters to FILE
+  --config=FILE       Load weights/thresholds from FILE (check, search, stats, eval, clusters)
+  --db=FILE           SQLite database for reembed and clusters (default: DATABASE_URL)
+  --to=MODEL          Embedder reembed moves to: openai or onnx (default: as selected below)
+  --no-promote        Stage new vectors without switching over
+  --min-size=N        Smallest cluster listed by clusters (default: 2)
+  --format=FORMAT     clusters output: markdown or json (default: markdown)
 
 ${c.bold}EMBEDDER SELECTION:${c.reset}
   OPENAI_API_KEY set  → OpenAI text-embedding-3-small (recommended)
@@ -219,7 +501,14 @@ ${c.bold}EXAMPLES:${c.reset}
   prsense check pr.json --dry-run         # No API calls
   prsense search "fix auth bug"           # Semantic search
   prsense search "database migration" --limit=5
+  prsense search 'author:alice file:src/storage/** state:merged "cache eviction"'
   prsense stats
+  prsense eval labelled.jsonl --duplicate-threshold=0.88
+  prsense calibrate labelled.jsonl --out=calibration.json
+  prsense reembed --db=prsense.db --to=onnx
+  prsense clusters --db=prsense.db --format=json
+  prsense clusters --db=prsense.db --out=clusters.md
+  prsense check pr.json --config=calibration.json
 
 ${c.bold}PR FILE FORMAT (JSON):${c.reset}
   {
@@ -230,6 +519,13 @@ ${c.bold}PR FILE FORMAT (JSON):${c.reset}
     "diff": "optional unified diff content"
   }
 
+${c.bold}EVAL DATASET (JSONL):${c.reset}
+  {"prId": 1, "title": "...", "description": "...", "files": [...], "createdAt": "2024-01-01"}
+  {"prA": 2, "prB": 1}                     # known duplicate pair
+
+${c.bold}CALIBRATION PAIRS (JSONL or JSON array, as from exportTrainingData):${c.reset}
+  {"textSimilarity": 0.91, "diffSimilarity": 0.88, "fileSimilarity": 1, "label": 1}
+
 ${c.bold}DOCS:${c.reset}  https://github.com/prsense-labs/prsense
 `.trim())
 }
@@ -245,7 +541,29 @@ async function main() {
     }
 
     const embedder = createEmbedder()
-    const detector = new PRSenseDetector({ embedder })
+    const fileConfig = loadConfigFile()
+
+    // eval and calibrate replay into their own fresh detector
+    if (command === 'eval') {
+        await evalCommand(embedder, fileConfig, filteredArgs[1])
+        return
+    }
+    if (command === 'calibrate') {
+        await calibrateCommand(embedder, filteredArgs[1])
+        return
+    }
+    // reembed works on storage directly, leaving serving detectors untouched
+    if (command === 'reembed') {
+        await reembedCommand(embedder)
+        return
+    }
+    // clusters reads what a serving detector stored
+    if (command === 'clusters') {
+        await clustersCommand(embedder, fileConfig)
+        return
+    }
+
+    const detector = new PRSenseDetector({ embedder, ...fileConfig })
     // v1.0.2: must await init() to load persisted state from storage
     await detector.init()
 
@@ -254,7 +572,8 @@ async function main() {
             await checkCommand(detector, filteredArgs[1])
             break
         case 'search':
-            await searchCommand(detector, filteredArgs[1])
+            // Unquoted words are one query: prsense search state:open retry logic
+            await searchCommand(detector, filteredArgs.slice(1).join(' ') || undefined)
             break
         case 'stats':
             await statsCommand(detector)
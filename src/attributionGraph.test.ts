@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { AttributionGraph } from './attributionGraph.js'
+import { PRSenseDetector } from './prsense.js'
+import { SQLiteStorage } from './storage/sqlite.js'
 
 describe('AttributionGraph', () => {
     describe('addEdge and getOriginal', () => {
@@ -179,4 +181,115 @@ describe('AttributionGraph', () => {
             expect(allDuplicates).toContain(13)
         })
     })
+
+    describe('cycles and re-linking', () => {
+        it('should refuse links that would close a cycle', () => {
+            const graph = new AttributionGraph()
+            graph.addEdge(2, 1)
+            graph.addEdge(3, 2)
+
+            expect(graph.addEdge(1, 3)).toBe(false)
+            expect(graph.addEdge(1, 1)).toBe(false)
+            expect(graph.getParent(1)).toBeUndefined()
+            expect(graph.getOriginal(3)).toBe(1)
+        })
+
+        it('should move a re-linked PR with its duplicates', () => {
+            const graph = new AttributionGraph()
+            graph.addEdge(2, 1)
+            graph.addEdge(3, 2)
+            graph.addEdge(2, 10)
+
+            expect(graph.getAllDuplicates(1)).toEqual([])
+            expect(graph.getOriginal(3)).toBe(10)
+            expect(graph.getClusters()).toEqual([{ original: 10, members: [10, 2, 3] }])
+        })
+    })
+
+    describe('unlink, merge and split', () => {
+        it('should unlink a direct link or split the non-canonical PR off', () => {
+            const graph = new AttributionGraph()
+            graph.addEdge(2, 1)
+            graph.addEdge(3, 2)
+            graph.addEdge(4, 1)
+
+            // 3 and 4 are only related through the cluster
+            expect(graph.unlink(1, 3)).toBe(true)
+            expect(graph.getOriginal(3)).toBe(3)
+            expect(graph.getOriginal(2)).toBe(1)
+
+            expect(graph.unlink(4, 1)).toBe(true)
+            expect(graph.unlink(4, 1)).toBe(false)
+            expect(graph.getAllDuplicates(1)).toEqual([2])
+        })
+
+        it('should merge clusters under the first original and split them again', () => {
+            const graph = new AttributionGraph()
+            graph.addEdge(2, 1)
+            graph.addEdge(11, 10)
+            graph.addEdge(12, 11)
+
+            expect(graph.merge(2, 12)).toBe(true)
+            expect(graph.merge(1, 11)).toBe(false)
+            expect(graph.getOriginal(12)).toBe(1)
+            expect(new Set(graph.getAllDuplicates(1))).toEqual(new Set([2, 10, 11, 12]))
+
+            expect(graph.split(11)).toBe(true)
+            expect(graph.split(11)).toBe(false)
+            expect(graph.getOriginal(12)).toBe(11)
+            expect(graph.getOriginal(10)).toBe(1)
+        })
+
+        it('should round-trip through export and import', () => {
+            const graph = new AttributionGraph<string>()
+            graph.addEdge('b', 'a')
+            graph.addEdge('c', 'b')
+
+            const restored = new AttributionGraph<string>()
+            restored.import(JSON.parse(JSON.stringify(graph.export())))
+            expect(restored.getOriginal('c')).toBe('a')
+            expect(restored.getClusters()).toEqual(graph.getClusters())
+        })
+    })
+})
+
+describe('PRSenseDetector duplicate clusters', () => {
+    // One direction per topic, slightly perturbed by length
+    const embedder = {
+        embedText: async (text: string) => text.includes('login') ? new Float32Array([1, text.length / 1000, 0]) : new Float32Array([0, text.length / 1000, 1]),
+        embedDiff: async (diff: string) => diff.includes('login') ? new Float32Array([1, diff.length / 1000, 0]) : new Float32Array([0, diff.length / 1000, 1])
+    }
+    const pr = (prId: number, title: string, diff: string) => ({ prId, title, description: 'Fix', files: [diff.includes('login') ? 'src/auth.ts' : 'src/road.ts'], diff })
+
+    it('should list clusters and keep links across restarts', async () => {
+        const storage = new SQLiteStorage(':memory:')
+        const detector = new PRSenseDetector({ embedder, storage })
+        await detector.init()
+        await detector.check(pr(1, 'Fix login bug', '+ const login = true'))
+        await detector.check(pr(2, 'Fix login bug', '+ const login = okay'))
+        await detector.check(pr(3, 'Fix login bug', '+ const login = true'))
+        await detector.check(pr(4, 'Zebra crossing', '@@ totally different'))
+        await detector.check(pr(5, 'Zebra crossing', '@@ totally different'))
+
+        const clusters = detector.getClusters()
+        expect(clusters.map(c => c.members.map(m => m.prId))).toEqual([[1, 2, 3], [4, 5]])
+        expect(clusters[0]).toMatchObject({ original: 1, originalKey: { number: 1 } })
+        expect(clusters[0]!.firstCreatedAt).toBeLessThanOrEqual(clusters[0]!.lastCreatedAt!)
+
+        await detector.recordFeedback({ prA: 3, prB: 1, verdict: 'not-duplicate' })
+        expect(detector.getCluster(3)).toBeUndefined()
+        const merged = await detector.mergeClusters(5, 2)
+        expect(merged.original).toBe(1)
+        expect(merged.members.map(m => m.prId)).toEqual([1, 2, 4, 5])
+
+        const reloaded = new PRSenseDetector({ embedder, storage })
+        await reloaded.init()
+        expect(reloaded.getClusters()).toEqual(detector.getClusters())
+
+        expect(await reloaded.splitCluster(4)).toBe(true)
+        const imported = new PRSenseDetector({ embedder })
+        imported.importState(JSON.parse(JSON.stringify(reloaded.exportState())))
+        expect(imported.getClusters().map(c => c.members.map(m => m.prId))).toEqual([[4, 5], [1, 2]])
+        await storage.close()
+    })
 })
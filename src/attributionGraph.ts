@@ -1,22 +1,54 @@
 /**
- * 
- * Directed acyclic graph tracking PR duplication lineage
- * 
- * ensures original authorship is preserved
+ *
+ * Duplicate clusters with their lineage
+ *
+ * Each PR links to at most one PR it duplicates, so the links form a
+ * forest and every tree is a cluster whose root is the canonical
+ * original. A union-find over the same nodes answers "which cluster" in
+ * near-constant time; unlinking rebuilds it for the detached subtree only.
+ *
+ * ensures original authorship is preserved; nodes are detector ids by
+ * default, or any other identifier such as formatted PR keys
  */
-export class AttributionGraph {
-    private parent = new Map<number, number>()
-    private children = new Map<number, Set<number>>()
+
+/**
+ * Serialised links, duplicate first
+ */
+export interface AttributionGraphState<Id = number> {
+    version: 1
+    edges: Array<[duplicate: Id, original: Id]>
+}
+
+export interface AttributionCluster<Id = number> {
+    /** Canonical original (the lineage root) */
+    original: Id
+    /** Every PR in the cluster, the original first */
+    members: Id[]
+}
+
+export class AttributionGraph<Id = number> {
+    private parent = new Map<Id, Id>()
+    private children = new Map<Id, Set<Id>>()
+    /** Union-find links; a node without one leads its cluster */
+    private leader = new Map<Id, Id>()
 
     /**
-     * record that duplicatedPRId is derived from originalPRId
+     * record that duplicatedPRId is derived from originalPRId, replacing
+     * any earlier original. Returns false, changing nothing, when the
+     * link would close a cycle (the original descends from the duplicate).
      */
 
     addEdge(
-        duplicatedPrId: number,
-        originalPrId: number
-    ): void {
-        this.parent.set(duplicatedPrId,originalPrId)
+        duplicatedPrId: Id,
+        originalPrId: Id
+    ): boolean {
+        if (this.parent.get(duplicatedPrId) === originalPrId) return true
+        for (let node: Id | undefined = originalPrId; node !== undefined; node = this.parent.get(node)) {
+            if (node === duplicatedPrId) return false
+        }
+
+        this.detach(duplicatedPrId)
+        this.parent.set(duplicatedPrId, originalPrId)
 
         if (! this.children.has(originalPrId)) {
             this.children.set(originalPrId, new Set())
@@ -24,25 +56,92 @@ export class AttributionGraph {
         }
 
         this.children.get(originalPrId)!.add(duplicatedPrId)
+        this.leader.set(duplicatedPrId, this.find(originalPrId))
+        return true
     }
 
     /**
-     * returns the root/original pr in the lineage
+     * remove a duplication link between two PRs (either direction)
+     * returns true if an edge was removed
      */
+    removeEdge(prA: Id, prB: Id): boolean {
+        if (this.parent.get(prA) === prB) {
+            this.detach(prA)
+            return true
+        }
+        if (this.parent.get(prB) === prA) {
+            this.detach(prB)
+            return true
+        }
+        return false
+    }
 
-    getOriginal(prId: number): number {
-        let current = prId
-        while (this.parent.has(current)) {
-            current = this.parent.get(current)!
+    /**
+     * Separate two PRs judged not to be duplicates: their direct link is
+     * removed, or, when they share a cluster through other PRs, the one
+     * that is not the canonical original is split off with its duplicates
+     */
+    unlink(prA: Id, prB: Id): boolean {
+        if (this.removeEdge(prA, prB)) return true
+        if (this.find(prA) !== this.find(prB)) return false
+        return this.split(this.parent.has(prA) ? prA : prB)
+    }
+
+    /**
+     * Join the cluster of `b` into the cluster of `a`; a's original stays
+     * canonical and b's original becomes its duplicate
+     */
+    merge(a: Id, b: Id): boolean {
+        const original = this.find(a)
+        const joining = this.find(b)
+        if (original === joining) return false
+        return this.addEdge(joining, original)
+    }
+
+    /**
+     * Detach a PR and its duplicates into a cluster of their own
+     */
+    split(prId: Id): boolean {
+        if (!this.parent.has(prId)) return false
+        this.detach(prId)
+        return true
+    }
+
+    /**
+     * Remove a PR, linking its direct duplicates to its original; those of
+     * a removed original become originals themselves. Returns them.
+     */
+    remove(prId: Id): Id[] {
+        const original = this.parent.get(prId)
+        const duplicates = [...(this.children.get(prId) ?? [])]
+        this.detach(prId)
+        for (const duplicate of duplicates) {
+            this.detach(duplicate)
+            if (original !== undefined) this.addEdge(duplicate, original)
         }
-        return current
+        return duplicates
+    }
+
+    /**
+     * returns the direct original of a PR, if it was marked as a duplicate
+     */
+    getParent(prId: Id): Id | undefined {
+        return this.parent.get(prId)
+    }
+
+    /**
+     * returns the root/original pr in the lineage
+     */
+
+    getOriginal(prId: Id): Id {
+        return this.find(prId)
     }
     /**
      * returns all transitive duplicates of a PR
      */
-    getAllDuplicates(prId: number): number[] {
-        const result: number[] = []
-        const stack: number[] = [prId]
+    getAllDuplicates(prId: Id): Id[] {
+        const result: Id[] = []
+        const stack: Id[] = [prId]
 
         while (stack.length > 0) {
             const node = stack.pop()!
@@ -56,5 +155,65 @@ export class AttributionGraph {
         }
         return result
     }
-}
 
+    /**
+     * Every cluster with at least one duplicate
+     */
+    getClusters(): AttributionCluster<Id>[] {
+        const clusters: AttributionCluster<Id>[] = []
+        for (const node of this.children.keys()) {
+            if (this.parent.has(node)) continue
+            clusters.push({ original: node, members: [node, ...this.getAllDuplicates(node)] })
+        }
+        return clusters
+    }
+
+    export(): AttributionGraphState<Id> {
+        return { version: 1, edges: Array.from(this.parent) }
+    }
+
+    /**
+     * Replace all links with a snapshot's; links that would close a cycle are skipped
+     */
+    import(state: AttributionGraphState<Id>): void {
+        this.parent.clear()
+        this.children.clear()
+        this.leader.clear()
+        for (const [duplicate, original] of state.edges) {
+            this.addEdge(duplicate, original)
+        }
+    }
+
+    /**
+     * Union-find lookup with path compression
+     */
+    private find(prId: Id): Id {
+        let root = prId
+        while (this.leader.has(root)) root = this.leader.get(root)!
+        for (let node = prId; node !== root;) {
+            const next = this.leader.get(node)!
+            this.leader.set(node, root)
+            node = next
+        }
+        return root
+    }
+
+    /**
+     * Cut a PR from its original. Union-find links only ever point at
+     * nodes whose tree holds the linking node, so rebuilding the detached
+     * subtree's links is enough.
+     */
+    private detach(prId: Id): void {
+        const original = this.parent.get(prId)
+        if (original === undefined) return
+        this.parent.delete(prId)
+        const kids = this.children.get(original)
+        kids?.delete(prId)
+        if (kids && kids.size === 0) this.children.delete(original)
+
+        this.leader.delete(prId)
+        for (const node of this.getAllDuplicates(prId)) {
+            this.leader.set(node, prId)
+        }
+    }
+}
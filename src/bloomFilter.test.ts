@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { BloomFilter } from './bloomFilter.js'
+import { BloomFilter, expectedItemsForSize } from './bloomFilter.js'
+import { ConfigurationError, ValidationError } from './errors.js'
 
 describe('BloomFilter', () => {
     describe('add and mightContain', () => {
@@ -68,6 +69,12 @@ describe('BloomFilter', () => {
             expect(bloom.mightContain('custom')).toBe(true)
         })
 
+        it('should work with custom expected items and false-positive rate', () => {
+            const bloom = new BloomFilter({ expectedItems: 10, falsePositiveRate: 0.1 })
+            bloom.add('custom')
+            expect(bloom.mightContain('custom')).toBe(true)
+        })
+
         it('should handle special characters', () => {
             const bloom = new BloomFilter()
             const special = '!@#$%^&*()_+-=[]{}|;:,.<>?'
@@ -90,6 +97,112 @@ describe('BloomFilter', () => {
         })
     })
 
+    describe('scaling and removal', () => {
+        it('should add slices past capacity and keep the false-positive rate near the target', () => {
+            const bloom = new BloomFilter({ expectedItems: 100, falsePositiveRate: 0.01 })
+            const added = Array.from({ length: 2000 }, (_, i) => `pr-${i}`)
+            added.forEach(item => bloom.add(item))
+
+            expect(bloom.sliceCount).toBeGreaterThan(1)
+            expect(bloom.count).toBe(2000)
+            added.forEach(item => expect(bloom.mightContain(item)).toBe(true))
+
+            const probes = Array.from({ length: 5000 }, (_, i) => `other-${i}`)
+            const measured = probes.filter(item => bloom.mightContain(item)).length / probes.length
+            expect(measured).toBeLessThan(0.02)
+            expect(bloom.estimatedFalsePositiveRate()).toBeLessThan(0.01)
+        })
+
+        it('should forget removed values and keep values added twice', () => {
+            const bloom = new BloomFilter()
+            bloom.add('gone')
+            bloom.add('twice')
+            bloom.add('twice')
+
+            expect(bloom.remove('gone')).toBe(true)
+            expect(bloom.mightContain('gone')).toBe(false)
+            expect(bloom.remove('twice')).toBe(true)
+            expect(bloom.mightContain('twice')).toBe(true)
+            expect(bloom.remove('never-added')).toBe(false)
+            expect(bloom.count).toBe(1)
+        })
+
+        it('should take the count off the newest slice that might hold the value', () => {
+            // Tiny slices at a loose rate make cross-slice false positives common
+            const withOld = (value: string) => {
+                const bloom = new BloomFilter({ expectedItems: 1, falsePositiveRate: 0.5 })
+                bloom.add('old')
+                bloom.add(value)
+                return bloom
+            }
+            const shared = Array.from({ length: 1000 }, (_, i) => `new-${i}`).find(value => {
+                const bloom = withOld(value)
+                bloom.remove('old')
+                return !bloom.mightContain(value)
+            })
+            expect(shared).toBeDefined()
+
+            // 'old' sits in the first slice but reads as present in the second,
+            // where the removal lands instead
+            const bloom = withOld(shared!)
+            expect(bloom.sliceCount).toBe(2)
+            expect(bloom.remove('old')).toBe(true)
+            expect(bloom.mightContain('old')).toBe(true)
+            expect(bloom.mightContain(shared!)).toBe(false)
+        })
+
+        it('should reject invalid configuration', () => {
+            expect(() => new BloomFilter({ expectedItems: 0 })).toThrow(ConfigurationError)
+            expect(() => new BloomFilter({ falsePositiveRate: 1 })).toThrow(ConfigurationError)
+            expect(() => new BloomFilter(0)).toThrow(ConfigurationError)
+            expect(() => new BloomFilter(1024, 0)).toThrow(ConfigurationError)
+        })
+
+        it('should scale past a fixed first slice', () => {
+            const bloom = new BloomFilter(1024, 3)
+            expect(bloom.size).toBe(1024)
+            const added = Array.from({ length: 500 }, (_, i) => `pr-${i}`)
+            added.forEach(item => bloom.add(item))
+            expect(bloom.sliceCount).toBeGreaterThan(1)
+            added.forEach(item => expect(bloom.mightContain(item)).toBe(true))
+        })
+
+        it('should derive expected items from a legacy counter count', () => {
+            // 8192 counters at 1% hold roughly 650 items in the first slice
+            expect(expectedItemsForSize(8192)).toBeGreaterThan(500)
+            expect(expectedItemsForSize(8192)).toBeLessThan(800)
+        })
+    })
+
+    describe('export and import', () => {
+        it('should round-trip every slice', () => {
+            const bloom = new BloomFilter({ expectedItems: 10 })
+            const items = Array.from({ length: 50 }, (_, i) => `item${i}`)
+            items.forEach(item => bloom.add(item))
+
+            const copy = new BloomFilter({ expectedItems: 10 })
+            copy.import(bloom.export())
+            expect(copy.sliceCount).toBe(bloom.sliceCount)
+            expect(copy.count).toBe(50)
+            items.forEach(item => expect(copy.mightContain(item)).toBe(true))
+            expect(copy.remove('item0')).toBe(true)
+        })
+
+        it('should refuse state sized differently or from the fixed-size filter', () => {
+            const bloom = new BloomFilter({ expectedItems: 10 })
+            bloom.add('kept')
+            const other = new BloomFilter({ expectedItems: 20 })
+            other.add('foreign')
+
+            expect(() => bloom.import(other.export())).toThrow(ValidationError)
+            expect(() => bloom.import(Buffer.from(new Uint8Array(1024)).toString('base64'))).toThrow(ValidationError)
+            expect(() => bloom.import('not json')).toThrow(ValidationError)
+            expect(() => new BloomFilter(4096, 5).import(new BloomFilter(8192, 5).export())).toThrow(ValidationError)
+            expect(bloom.mightContain('kept')).toBe(true)
+            expect(bloom.mightContain('foreign')).toBe(false)
+        })
+    })
+
     describe('deterministic behavior', () => {
         it('should give consistent results for same input', () => {
             const bloom = new BloomFilter()
@@ -1,65 +1,309 @@
 /**
  * probabilistic set for fast rejection of unrelated PRs
- * 
+ *
  * 0(1) lookup
  * false positives allowed
- * false negatives forbidden
+ * false negatives forbidden (as long as only added values are removed)
+ *
+ * Scalable counting Bloom filter (Almeida et al., 2007): slices of 8-bit
+ * counters, each sized for twice the items of the one before at half its
+ * false-positive rate, so the overall rate stays under the target however
+ * many items arrive. Counters make removal possible; a counter that
+ * reaches 255 stays there. Positions come from double hashing two
+ * MurmurHash3 values.
  */
+
+import { ConfigurationError, ValidationError } from './errors.js'
+
+export interface BloomFilterConfig {
+    /** Items the first slice is sized for (default: 1000) */
+    expectedItems?: number
+    /** Target false-positive rate across all slices (default: 0.01) */
+    falsePositiveRate?: number
+}
+
+interface BloomSlice {
+    /** Items the slice holds before the next one is added */
+    capacity: number
+    hashes: number
+    counters: Uint8Array
+    /** Items currently counted in the slice */
+    count: number
+    /** Counters above zero */
+    filled: number
+}
+
+interface BloomFilterState {
+    version: 1
+    expectedItems: number
+    falsePositiveRate: number
+    slices: Array<{ capacity: number; hashes: number; count: number; counters: string }>
+}
+
+/** Each slice's false-positive rate is this share of the previous one's */
+const TIGHTENING = 0.5
+const GROWTH = 2
+const MAX_COUNT = 255
+
 export class BloomFilter {
-    private bits: Uint8Array
-    private size: number
-    private hashes: number
+    readonly expectedItems: number
+    readonly falsePositiveRate: number
+    private slices: BloomSlice[] = []
+    /** Fixed first slice given as (size, hashes) */
+    private first?: { size: number; hashes: number }
 
-    constructor(size = 8192, hashes = 5) {
-        this.size = size
-        this.hashes = hashes
-        this.bits = new Uint8Array(size)
+    constructor(config?: BloomFilterConfig)
+    /**
+     * First slice of `size` counters probed `hashes` times; later slices
+     * scale from the items it holds at a 1% rate
+     */
+    constructor(size: number, hashes?: number)
+    constructor(config: BloomFilterConfig | number = {}, hashes?: number) {
+        if (typeof config === 'number') {
+            if (!Number.isInteger(config) || config < 1) {
+                throw new ConfigurationError('Bloom filter size must be a positive integer')
+            }
+            const first = { size: config, hashes: hashes ?? 5 }
+            if (!Number.isInteger(first.hashes) || first.hashes < 1) {
+                throw new ConfigurationError('Bloom filter hash count must be a positive integer')
+            }
+            this.first = first
+            config = { expectedItems: expectedItemsForSize(config) }
+        }
+        this.expectedItems = config.expectedItems ?? 1000
+        this.falsePositiveRate = config.falsePositiveRate ?? 0.01
+        if (!Number.isInteger(this.expectedItems) || this.expectedItems < 1) {
+            throw new ConfigurationError('bloomFilter.expectedItems must be a positive integer')
+        }
+        if (!(this.falsePositiveRate > 0 && this.falsePositiveRate < 1)) {
+            throw new ConfigurationError('bloomFilter.falsePositiveRate must be between 0 and 1')
+        }
+        this.addSlice()
     }
 
-    private hash(value: string, seed: number): number {
-        let h = seed
-        for (let i = 0; i < value.length; i++) {
-            h = (h * 31 + value.charCodeAt(i)) % this.size
-        }
-        return h
+    /** Counters across all slices */
+    get size(): number {
+        return this.slices.reduce((sum, slice) => sum + slice.counters.length, 0)
+    }
+
+    /** Items counted across all slices */
+    get count(): number {
+        return this.slices.reduce((sum, slice) => sum + slice.count, 0)
+    }
+
+    get sliceCount(): number {
+        return this.slices.length
     }
+
     /**
-     * inserts a value into the filter
+     * inserts a value into the filter; adding a value twice counts it twice
      */
     add(value: string): void {
-        for (let i = 0; i < this.hashes; i++) {
-            this.bits[this.hash(value, i + 1)] = 1
+        let slice = this.slices[this.slices.length - 1]!
+        if (slice.count >= slice.capacity) slice = this.addSlice()
+
+        const [h1, h2] = hashPair(value)
+        for (let i = 0; i < slice.hashes; i++) {
+            const position = (h1 + i * h2) % slice.counters.length
+            const counter = slice.counters[position]!
+            if (counter === 0) slice.filled++
+            if (counter < MAX_COUNT) slice.counters[position] = counter + 1
+        }
+        slice.count++
+    }
+
+    /**
+     * removes one count of a value; returns false if the value is
+     * definitely not present. The count comes off the newest slice that
+     * might contain the value, which is not always the slice it was added
+     * to: when a newer slice holds it as a false positive, that slice's
+     * counters drop instead, and values sharing them can read as absent.
+     * Removing a value that was never added can do the same.
+     */
+    remove(value: string): boolean {
+        const [h1, h2] = hashPair(value)
+        for (let s = this.slices.length - 1; s >= 0; s--) {
+            const slice = this.slices[s]!
+            if (!contains(slice, h1, h2)) continue
+            for (let i = 0; i < slice.hashes; i++) {
+                const position = (h1 + i * h2) % slice.counters.length
+                const counter = slice.counters[position]!
+                if (counter === MAX_COUNT) continue
+                slice.counters[position] = counter - 1
+                if (counter === 1) slice.filled--
+            }
+            slice.count = Math.max(0, slice.count - 1)
+            return true
         }
+        return false
     }
 
     /**
      * returns false only if value is definitely not present
      */
     mightContain(value: string): boolean {
-        for (let i = 0; i < this.hashes; i++) {
-            if (this.bits[this.hash(value, i + 1)] === 0) {
-                return false
-            }
+        const [h1, h2] = hashPair(value)
+        return this.slices.some(slice => contains(slice, h1, h2))
+    }
+
+    /**
+     * False-positive rate implied by how full the counters are
+     */
+    estimatedFalsePositiveRate(): number {
+        let miss = 1
+        for (const slice of this.slices) {
+            miss *= 1 - Math.pow(slice.filled / slice.counters.length, slice.hashes)
         }
-        return true
+        return 1 - miss
     }
 
     /**
-     * Export filter state as base64 string
+     * Export filter state as a JSON string with base64 counters
      */
     export(): string {
-        return Buffer.from(this.bits).toString('base64')
+        const state: BloomFilterState = {
+            version: 1,
+            expectedItems: this.expectedItems,
+            falsePositiveRate: this.falsePositiveRate,
+            slices: this.slices.map(slice => ({
+                capacity: slice.capacity,
+                hashes: slice.hashes,
+                count: slice.count,
+                counters: Buffer.from(slice.counters).toString('base64')
+            }))
+        }
+        return JSON.stringify(state)
     }
 
     /**
-     * Import filter state from base64 string
+     * Import filter state. Throws, leaving the filter unchanged, for state
+     * sized for another item count or rate, or from the older fixed-size
+     * filter; the caller re-adds its items to migrate.
      */
     import(data: string): void {
-        const buffer = Buffer.from(data, 'base64')
-        if (buffer.length !== this.size) {
-            throw new Error(`Bloom filter size mismatch: expected ${this.size}, got ${buffer.length}`)
+        let state: BloomFilterState
+        try {
+            state = JSON.parse(data)
+        } catch {
+            throw new ValidationError('Bloom filter state is not from this filter version')
+        }
+        if (state?.version !== 1) {
+            throw new ValidationError('Bloom filter state is not from this filter version')
         }
-        this.bits = new Uint8Array(buffer)
+        if (state.expectedItems !== this.expectedItems || state.falsePositiveRate !== this.falsePositiveRate) {
+            throw new ValidationError(`Bloom filter size mismatch: expected ${this.expectedItems} items at ${this.falsePositiveRate}, got ${state.expectedItems} at ${state.falsePositiveRate}`)
+        }
+
+        const slices = state.slices.map((entry, i): BloomSlice | null => {
+            const expected = this.layout(i)
+            const counters = new Uint8Array(Buffer.from(entry.counters, 'base64'))
+            if (entry.capacity !== expected.capacity || entry.hashes !== expected.hashes || counters.length !== expected.size) {
+                return null
+            }
+            return { capacity: entry.capacity, hashes: entry.hashes, count: entry.count, counters, filled: counters.reduce((n, c) => n + (c > 0 ? 1 : 0), 0) }
+        })
+        if (slices.length === 0 || slices.some(slice => slice === null)) {
+            throw new ValidationError('Bloom filter size mismatch: slices do not match this filter')
+        }
+        this.slices = slices as BloomSlice[]
+    }
+
+    /**
+     * Drop every item
+     */
+    clear(): void {
+        this.slices = []
+        this.addSlice()
+    }
+
+    private layout(index: number): { capacity: number; hashes: number; size: number } {
+        const layout = sliceLayout(this.expectedItems, this.falsePositiveRate, index)
+        return index === 0 && this.first ? { ...layout, ...this.first } : layout
+    }
+
+    private addSlice(): BloomSlice {
+        const layout = this.layout(this.slices.length)
+        const slice = { capacity: layout.capacity, hashes: layout.hashes, counters: new Uint8Array(layout.size), count: 0, filled: 0 }
+        this.slices.push(slice)
+        return slice
     }
 }
 
+/**
+ * Slice i holds expectedItems * 2^i items at rate p0 * 0.5^i, where
+ * p0 = target * (1 - 0.5) keeps the sum of all slice rates under target
+ */
+function sliceLayout(expectedItems: number, falsePositiveRate: number, index: number): { capacity: number; hashes: number; size: number } {
+    const capacity = expectedItems * Math.pow(GROWTH, index)
+    const rate = falsePositiveRate * (1 - TIGHTENING) * Math.pow(TIGHTENING, index)
+    const hashes = Math.max(1, Math.ceil(-Math.log2(rate)))
+    const size = Math.max(hashes, Math.ceil(-capacity * Math.log(rate) / (Math.LN2 * Math.LN2)))
+    return { capacity, hashes, size }
+}
+
+function contains(slice: BloomSlice, h1: number, h2: number): boolean {
+    for (let i = 0; i < slice.hashes; i++) {
+        if (slice.counters[(h1 + i * h2) % slice.counters.length] === 0) return false
+    }
+    return true
+}
+
+/**
+ * Two independent 32-bit hashes; the second is odd so it never maps
+ * every probe onto one counter
+ */
+function hashPair(value: string): [number, number] {
+    const bytes = Buffer.from(value, 'utf8')
+    const h1 = murmur3(bytes, 0)
+    const h2 = murmur3(bytes, h1) | 1
+    return [h1, h2 >>> 0]
+}
+
+/**
+ * MurmurHash3 x86 32-bit
+ */
+function murmur3(bytes: Uint8Array, seed: number): number {
+    const c1 = 0xcc9e2d51
+    const c2 = 0x1b873593
+    let h = seed >>> 0
+    const blocks = bytes.length - (bytes.length % 4)
+
+    for (let i = 0; i < blocks; i += 4) {
+        let k = bytes[i]! | (bytes[i + 1]! << 8) | (bytes[i + 2]! << 16) | (bytes[i + 3]! << 24)
+        k = Math.imul(k, c1)
+        k = (k << 15) | (k >>> 17)
+        k = Math.imul(k, c2)
+        h ^= k
+        h = (h << 13) | (h >>> 19)
+        h = (Math.imul(h, 5) + 0xe6546b64) | 0
+    }
+
+    const tail = bytes.length & 3
+    if (tail > 0) {
+        let k = 0
+        if (tail === 3) k ^= bytes[blocks + 2]! << 16
+        if (tail >= 2) k ^= bytes[blocks + 1]! << 8
+        k ^= bytes[blocks]!
+        k = Math.imul(k, c1)
+        k = (k << 15) | (k >>> 17)
+        k = Math.imul(k, c2)
+        h ^= k
+    }
+
+    h ^= bytes.length
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h >>> 0
+}
+
+/**
+ * Items a first slice of `counters` counters holds at the given rate, for
+ * configurations that still give a size
+ */
+export function expectedItemsForSize(counters: number, falsePositiveRate = 0.01): number {
+    const rate = falsePositiveRate * (1 - TIGHTENING)
+    return Math.max(1, Math.floor(counters * Math.LN2 * Math.LN2 / -Math.log(rate)))
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { BM25Index, tokenize, reciprocalRankFusion } from './bm25.js'
+import { PRSenseDetector } from './prsense.js'
+import { ConfigurationError } from './errors.js'
+
+/** Embeds every text alike, so only the lexical index can tell PRs apart */
+const flatEmbedder = {
+    embedText: async () => new Float32Array([1, 0, 0]),
+    embedDiff: async () => new Float32Array([0, 1, 0])
+}
+
+const prs = [
+    { prId: 1, title: 'Fix login timeout', description: 'Users were logged out early', files: ['src/auth/session.ts'] },
+    {
+        prId: 2,
+        title: 'Handle dropped connections',
+        description: 'Retry when the socket resets (PROJ-481)',
+        files: ['src/db/pool.ts'],
+        diff: '--- a/src/db/pool.ts\n+++ b/src/db/pool.ts\n@@ -1,1 +1,2 @@\n+if (err.code === \'ERR_CONN_RESET\') return retry()'
+    },
+    { prId: 3, title: 'Add user lookup', description: 'New getUserById helper', files: ['src/users.ts'] }
+]
+
+describe('tokenize', () => {
+    it('should keep compound identifiers whole and split them into parts', () => {
+        expect(tokenize('getUserById')).toEqual(['getuserbyid', 'get', 'user', 'by', 'id'])
+        expect(tokenize('ERR_CONN_RESET in src/db/pool.ts.')).toEqual(
+            ['err_conn_reset', 'err', 'conn', 'reset', 'in', 'src/db/pool.ts', 'src', 'db', 'pool', 'ts']
+        )
+        expect(tokenize('PROJ-481')).toEqual(['proj-481', 'proj', '481'])
+    })
+})
+
+describe('BM25Index', () => {
+    it('should rank rare and title terms higher', () => {
+        const index = new BM25Index()
+        index.add(1, { title: 'Cache eviction', description: 'Fix cache', files: [] })
+        index.add(2, { title: 'Logging', description: 'Cache warmup logging', files: [] })
+        index.add(3, { title: 'Docs', description: 'Update readme', files: [] })
+
+        const hits = index.search('cache eviction', 3)
+        expect(hits.map(h => h.id)).toEqual([1, 2])
+        expect(hits[0]!.matchedTerms).toEqual(['cache', 'eviction'])
+        expect(index.search('nothing here', 3)).toEqual([])
+    })
+
+    it('should index only changed diff lines and replace documents', () => {
+        const index = new BM25Index()
+        index.add(1, { title: 'a', description: '', files: [], diff: '--- a/old.ts\n+++ b/new.ts\n context\n+added' })
+        expect(index.search('added', 1)).toHaveLength(1)
+        expect(index.search('context', 1)).toEqual([])
+
+        index.add(1, { title: 'b', description: '', files: [] })
+        expect(index.search('added', 1)).toEqual([])
+        expect(index.remove(1)).toBe(true)
+        expect(index.size).toBe(0)
+        expect(index.terms).toBe(0)
+    })
+
+    it('should round-trip through export and import', () => {
+        const index = new BM25Index()
+        for (const pr of prs) index.add(pr.prId, pr)
+        const restored = new BM25Index()
+        restored.import(JSON.parse(JSON.stringify(index.export())))
+        expect(restored.search('ERR_CONN_RESET', 3)).toEqual(index.search('ERR_CONN_RESET', 3))
+    })
+
+    it('should reject invalid config', () => {
+        expect(() => new BM25Index({ b: 2 })).toThrow(ConfigurationError)
+        expect(() => new BM25Index({ fieldWeights: { title: -1 } })).toThrow(ConfigurationError)
+    })
+})
+
+describe('reciprocalRankFusion', () => {
+    it('should favour ids ranked well in several lists', () => {
+        const fused = reciprocalRankFusion([[1, 2, 3], [3, 1]], 60)
+        expect(fused.get(1)).toBeCloseTo(1 / 61 + 1 / 62)
+        expect([...fused.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id)).toEqual([1, 3, 2])
+    })
+})
+
+describe('hybrid search', () => {
+    it('should find exact identifiers the embedding misses', async () => {
+        const detector = new PRSenseDetector({ embedder: flatEmbedder })
+        for (const pr of prs) await detector.check(pr)
+
+        const [top] = await detector.search('ERR_CONN_RESET', 3)
+        expect(top).toMatchObject({ prId: 2, matchedTerms: ['err_conn_reset', 'err', 'conn', 'reset'] })
+        expect(top!.score).toBeCloseTo(1)
+        expect((await detector.search('PROJ-481', 1, { mode: 'lexical' }))[0]).toMatchObject({ prId: 2, score: 1 })
+        expect((await detector.search('getUserById', 1))[0]!.prId).toBe(3)
+        expect(detector.getStats().lexicalTerms).toBeGreaterThan(0)
+    })
+
+    it('should persist the lexical index with the detector state', async () => {
+        const source = new PRSenseDetector({ embedder: flatEmbedder })
+        for (const pr of prs) await source.check(pr)
+        const state = JSON.parse(JSON.stringify(source.exportState()))
+
+        const restored = new PRSenseDetector({ embedder: flatEmbedder })
+        restored.importState(state)
+        // Diff lines only reach the index through the snapshot
+        expect((await restored.search('retry', 1, { mode: 'lexical' }))[0]?.prId).toBe(2)
+
+        delete state.lexical
+        const legacy = new PRSenseDetector({ embedder: flatEmbedder })
+        legacy.importState(state)
+        expect((await legacy.search('getUserById', 1, { mode: 'lexical' }))[0]?.prId).toBe(3)
+    })
+
+    it('should refuse lexical modes when the index is disabled', async () => {
+        const detector = new PRSenseDetector({ embedder: flatEmbedder, lexical: false })
+        await detector.check(prs[0]!)
+        await expect(detector.search('login', 1, { mode: 'hybrid' })).rejects.toThrow(ConfigurationError)
+        const [hit] = await detector.search('login', 1)
+        expect(hit!.matchedTerms).toBeUndefined()
+    })
+})
@@ -0,0 +1,249 @@
+/**
+ * BM25 lexical index for hybrid search
+ *
+ * catches what embeddings blur: exact identifiers, error codes, ticket keys
+ * and file paths. Results are fused with vector hits by reciprocal rank
+ * fusion, which needs only ranks, not comparable scores.
+ */
+
+import { ConfigurationError } from './errors.js'
+
+/**
+ * The text of a PR that goes into the index
+ */
+export interface LexicalDocument {
+    title: string
+    description: string
+    files: string[]
+    /** Unified diff; only added and removed lines are indexed */
+    diff?: string
+}
+
+export type LexicalField = keyof LexicalDocument
+
+export interface BM25Config {
+    /** Term frequency saturation (default: 1.2) */
+    k1?: number
+    /** Document length normalisation, 0-1 (default: 0.75) */
+    b?: number
+    /** Weight of each field's term counts (default: title 3, files 2, description 1, diff 1) */
+    fieldWeights?: Partial<Record<LexicalField, number>>
+    /** Diff tokens indexed per PR (default: 5000) */
+    maxDiffTokens?: number
+}
+
+export interface LexicalHit {
+    id: number
+    score: number
+    /** Query terms found in the document */
+    matchedTerms: string[]
+}
+
+export interface BM25State {
+    version: 1
+    documents: Array<[id: number, terms: Array<[term: string, frequency: number]>]>
+}
+
+const DEFAULT_FIELD_WEIGHTS: Record<LexicalField, number> = { title: 3, files: 2, description: 1, diff: 1 }
+
+/**
+ * Lowercased terms of a text. Compound tokens are kept whole, so an exact
+ * `getUserById`, `ERR_CONN_RESET`, `PROJ-123` or `src/db/pool.ts` matches,
+ * and are also split into their parts (`get`, `user`, `by`, `id`; `src`,
+ * `db`, `pool`, `ts`) so partial queries match too.
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = []
+    for (const match of text.matchAll(/[\p{L}\p{N}_][\p{L}\p{N}_.\/-]*/gu)) {
+        const token = match[0].replace(/[.\/-]+$/, '')
+        const whole = token.toLowerCase()
+        if (whole.length >= 2) terms.push(whole)
+
+        const parts = token
+            .split(/[._\/-]+/)
+            .flatMap(part => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u))
+        if (parts.length < 2) continue
+        for (const part of parts) {
+            const term = part.toLowerCase()
+            if (term.length >= 2 && term !== whole) terms.push(term)
+        }
+    }
+    return terms
+}
+
+/**
+ * Added and removed lines of a unified diff, without file headers
+ */
+function changedLines(diff: string): string {
+    return diff
+        .split('\n')
+        .filter(line => (line.startsWith('+') && !line.startsWith('+++')) || (line.startsWith('-') && !line.startsWith('---')))
+        .map(line => line.slice(1))
+        .join('\n')
+}
+
+/**
+ * Inverted index with Okapi BM25 scoring; fields are weighted by scaling
+ * their term counts (a simple BM25F)
+ */
+export class BM25Index {
+    private k1: number
+    private b: number
+    private fieldWeights: Record<LexicalField, number>
+    private maxDiffTokens: number
+    private postings = new Map<string, Map<number, number>>()
+    private documents = new Map<number, Map<string, number>>()
+    private lengths = new Map<number, number>()
+    private totalLength = 0
+
+    constructor(config: BM25Config = {}) {
+        this.k1 = config.k1 ?? 1.2
+        this.b = config.b ?? 0.75
+        this.fieldWeights = { ...DEFAULT_FIELD_WEIGHTS, ...config.fieldWeights }
+        this.maxDiffTokens = config.maxDiffTokens ?? 5000
+
+        if (!Number.isFinite(this.k1) || this.k1 < 0) {
+            throw new ConfigurationError('lexical.k1 must be a non-negative number')
+        }
+        if (!Number.isFinite(this.b) || this.b < 0 || this.b > 1) {
+            throw new ConfigurationError('lexical.b must be between 0 and 1')
+        }
+        if (Object.values(this.fieldWeights).some(w => !Number.isFinite(w) || w < 0)) {
+            throw new ConfigurationError('lexical.fieldWeights must be non-negative numbers')
+        }
+        if (!Number.isInteger(this.maxDiffTokens) || this.maxDiffTokens < 0) {
+            throw new ConfigurationError('lexical.maxDiffTokens must be a non-negative integer')
+        }
+    }
+
+    get size(): number {
+        return this.documents.size
+    }
+
+    /** Distinct terms in the index */
+    get terms(): number {
+        return this.postings.size
+    }
+
+    has(id: number): boolean {
+        return this.documents.has(id)
+    }
+
+    /**
+     * Index a PR, replacing its previous text
+     */
+    add(id: number, document: LexicalDocument): void {
+        const frequencies = new Map<string, number>()
+        const count = (terms: string[], weight: number) => {
+            if (weight === 0) return
+            for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + weight)
+        }
+        count(tokenize(document.title), this.fieldWeights.title)
+        count(tokenize(document.description), this.fieldWeights.description)
+        count(document.files.flatMap(tokenize), this.fieldWeights.files)
+        if (document.diff) {
+            count(tokenize(changedLines(document.diff)).slice(0, this.maxDiffTokens), this.fieldWeights.diff)
+        }
+        this.set(id, frequencies)
+    }
+
+    remove(id: number): boolean {
+        const frequencies = this.documents.get(id)
+        if (!frequencies) return false
+        for (const term of frequencies.keys()) {
+            const posting = this.postings.get(term)!
+            posting.delete(id)
+            if (posting.size === 0) this.postings.delete(term)
+        }
+        this.totalLength -= this.lengths.get(id) ?? 0
+        this.documents.delete(id)
+        this.lengths.delete(id)
+        return true
+    }
+
+    /**
+     * Top-k documents for a free-text query, best first; `accept` restricts
+     * the documents considered
+     */
+    search(query: string, k: number, accept?: (id: number) => boolean): LexicalHit[] {
+        const terms = [...new Set(tokenize(query))]
+        if (terms.length === 0 || this.documents.size === 0 || k <= 0) return []
+
+        const averageLength = this.totalLength / this.documents.size || 1
+        const hits = new Map<number, LexicalHit>()
+        for (const term of terms) {
+            const posting = this.postings.get(term)
+            if (!posting) continue
+            const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5))
+            for (const [id, frequency] of posting) {
+                if (accept && !accept(id)) continue
+                const length = this.lengths.get(id)!
+                const score = idf * (frequency * (this.k1 + 1))
+                    / (frequency + this.k1 * (1 - this.b + this.b * length / averageLength))
+                const hit = hits.get(id) ?? { id, score: 0, matchedTerms: [] }
+                hit.score += score
+                hit.matchedTerms.push(term)
+                hits.set(id, hit)
+            }
+        }
+
+        return [...hits.values()]
+            .sort((a, b) => b.score - a.score || a.id - b.id)
+            .slice(0, k)
+    }
+
+    clear(): void {
+        this.postings.clear()
+        this.documents.clear()
+        this.lengths.clear()
+        this.totalLength = 0
+    }
+
+    export(): BM25State {
+        return {
+            version: 1,
+            documents: Array.from(this.documents.entries()).map(([id, frequencies]) => [id, Array.from(frequencies.entries())])
+        }
+    }
+
+    /**
+     * Restore exported documents; field weights are baked into the counts,
+     * so a snapshot taken with other weights keeps its own
+     */
+    import(state: BM25State): void {
+        for (const [id, terms] of state.documents) {
+            this.set(id, new Map(terms))
+        }
+    }
+
+    private set(id: number, frequencies: Map<string, number>): void {
+        this.remove(id)
+        let length = 0
+        for (const [term, frequency] of frequencies) {
+            let posting = this.postings.get(term)
+            if (!posting) {
+                posting = new Map()
+                this.postings.set(term, posting)
+            }
+            posting.set(id, frequency)
+            length += frequency
+        }
+        this.documents.set(id, frequencies)
+        this.lengths.set(id, length)
+        this.totalLength += length
+    }
+}
+
+/**
+ * Reciprocal rank fusion: each list adds 1 / (k + rank) to an id's score
+ * (rank from 1). `k` damps the advantage of the very top ranks (default: 60).
+ */
+export function reciprocalRankFusion(lists: number[][], k: number = 60): Map<number, number> {
+    const fused = new Map<number, number>()
+    for (const list of lists) {
+        list.forEach((id, index) => {
+            fused.set(id, (fused.get(id) ?? 0) + 1 / (k + index + 1))
+        })
+    }
+    return fused
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { calibrate, calibrateFromFeedback, pairsFromDataset } from './calibration.js'
+import type { LabelledPair } from './calibration.js'
+import { parseDataset } from './evaluate.js'
+import { PRSenseDetector } from './prsense.js'
+import { ValidationError } from './errors.js'
+
+const mockEmbedder = {
+    embedText: async (text: string) => new Float32Array([text.length / 100, text.charCodeAt(0) / 255, 0.5]),
+    embedDiff: async (diff: string) => new Float32Array([diff.length / 100, diff.charCodeAt(0) / 255, 0.8])
+}
+
+/**
+ * Duplicates share their diff; text and files are noise for both classes
+ */
+function syntheticPairs(count: number): LabelledPair[] {
+    let seed = 7
+    const random = () => {
+        seed = (seed * 16807) % 2147483647
+        return seed / 2147483647
+    }
+    const pairs: LabelledPair[] = []
+    for (let i = 0; i < count; i++) {
+        const label = i % 2 === 0 ? 1 : 0
+        pairs.push({
+            textSimilarity: 0.5 + random() * 0.4,
+            diffSimilarity: label ? 0.85 + random() * 0.15 : 0.3 + random() * 0.45,
+            fileSimilarity: random(),
+            label
+        })
+    }
+    return pairs
+}
+
+describe('calibrate', () => {
+    it('should weight the informative signal and separate the classes', () => {
+        const result = calibrate(syntheticPairs(200))
+
+        const [text, diff, file] = result.config.weights
+        expect(diff).toBeGreaterThan(text)
+        expect(diff).toBeGreaterThan(file)
+        expect(text + diff + file).toBeCloseTo(1, 3)
+
+        expect(result.expected.duplicate.met).toBe(true)
+        expect(result.expected.duplicate.precision).toBeGreaterThanOrEqual(0.95)
+        expect(result.config.possibleThreshold).toBeLessThanOrEqual(result.config.duplicateThreshold)
+        expect(result.samples).toEqual({ total: 200, positives: 100, negatives: 100 })
+    })
+
+    it('should emit a config the detector accepts', () => {
+        const { config } = calibrate(syntheticPairs(50))
+        const detector = new PRSenseDetector({ embedder: mockEmbedder, ...config })
+        expect(detector.getWeights()).toEqual(config.weights)
+        expect(detector.getThresholds()).toEqual({
+            duplicateThreshold: config.duplicateThreshold,
+            possibleThreshold: config.possibleThreshold
+        })
+    })
+
+    it('should fall back to best F1 when the target precision is out of reach', () => {
+        const pairs: LabelledPair[] = [
+            { textSimilarity: 0.9, diffSimilarity: 0.9, fileSimilarity: 0.9, label: 1 },
+            { textSimilarity: 0.9, diffSimilarity: 0.9, fileSimilarity: 0.9, label: 0 },
+            { textSimilarity: 0.2, diffSimilarity: 0.2, fileSimilarity: 0.2, label: 0 }
+        ]
+        const result = calibrate(pairs, { targetPrecision: 0.99, possiblePrecision: 0.9 })
+        expect(result.expected.duplicate.met).toBe(false)
+        expect(result.expected.duplicate.precision).toBe(0.5)
+        expect(result.expected.duplicate.recall).toBe(1)
+    })
+
+    it('should require both classes and valid options', () => {
+        const positives = syntheticPairs(10).filter(p => p.label === 1)
+        expect(() => calibrate(positives)).toThrow(ValidationError)
+        expect(() => calibrate(syntheticPairs(10), { targetPrecision: 1.5 })).toThrow(ValidationError)
+        expect(() => calibrate(syntheticPairs(10), { targetPrecision: 0.8, possiblePrecision: 0.9 })).toThrow(ValidationError)
+    })
+})
+
+describe('calibrateFromFeedback', () => {
+    it('should calibrate from recorded verdicts', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await detector.check({ prId: 1, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = true' })
+        await detector.check({ prId: 2, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = okay' })
+        await detector.check({ prId: 3, title: 'Add billing CSV export', description: 'Exports invoices', files: ['src/billing.ts'], diff: '- legacy export removed' })
+
+        detector.recordFeedback({ prA: 2, prB: 1, verdict: 'duplicate' })
+        detector.recordFeedback({ prA: 3, prB: 1, verdict: 'not-duplicate' })
+
+        const result = calibrateFromFeedback(detector)
+        expect(result.samples).toEqual({ total: 2, positives: 1, negatives: 1 })
+        expect(result.expected.duplicate).toMatchObject({ precision: 1, recall: 1, met: true })
+    })
+})
+
+describe('pairsFromDataset', () => {
+    it('should label replayed matches by duplicate cluster', async () => {
+        const dataset = parseDataset([
+            { prId: 1, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = true', createdAt: '2024-01-01' },
+            { prId: 2, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = okay', createdAt: '2024-01-02' },
+            { prId: 3, title: 'Add billing CSV export', description: 'Exports invoices', files: ['src/billing.ts'], diff: '- legacy export removed', createdAt: '2024-01-03' },
+            { prA: 2, prB: 1 }
+        ].map(entry => JSON.stringify(entry)).join('\n'))
+
+        const pairs = await pairsFromDataset(dataset, { embedder: mockEmbedder })
+        const labelOf = (a: number, b: number) => pairs.find(p => p.prA === a && p.prB === b)?.label
+
+        expect(labelOf(2, 1)).toBe(1)
+        expect(labelOf(3, 1)).toBe(0)
+        expect(pairs.filter(p => (p.prA === 2 && p.prB === 1) || (p.prA === 1 && p.prB === 2))).toHaveLength(1)
+    })
+})
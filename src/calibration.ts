@@ -0,0 +1,296 @@
+/**
+ * Weight and threshold calibration
+ *
+ * fits the [text, diff, file] weights with a logistic regression over the
+ * ScoreBreakdown similarities of labelled pairs, then picks the duplicate and
+ * possible thresholds that reach a target precision on those pairs
+ *
+ * the emitted `config` can be spread straight into PRSenseConfig
+ */
+
+import { PRSenseDetector } from './prsense.js'
+import type { PRSenseConfig } from './prsense.js'
+import type { TrainingExample } from './feedback.js'
+import type { EvalDataset } from './evaluate.js'
+import { replayOrder, duplicateClusters } from './evaluate.js'
+import { ValidationError } from './errors.js'
+
+/**
+ * A pair's similarity signals and whether it is a duplicate (1) or not (0)
+ */
+export interface LabelledPair {
+    textSimilarity: number
+    diffSimilarity: number
+    fileSimilarity: number
+    label: 0 | 1
+}
+
+export interface CalibrationOptions {
+    /** Precision the duplicate threshold must reach (default: 0.95) */
+    targetPrecision?: number
+    /** Precision the possible threshold must reach (default: 0.80) */
+    possiblePrecision?: number
+    /** Gradient descent iterations (default: 2000) */
+    iterations?: number
+    /** Gradient descent step size (default: 0.5) */
+    learningRate?: number
+    /** L2 regularisation strength (default: 0.01) */
+    l2?: number
+}
+
+/**
+ * Expected precision/recall on the labelled pairs at a calibrated threshold
+ */
+export interface CalibrationBand {
+    threshold: number
+    precision: number
+    recall: number
+    /** false when no threshold reached the target precision (best F1 was used) */
+    met: boolean
+}
+
+export interface CalibrationResult {
+    /** Loadable config: `new PRSenseDetector({ embedder, ...result.config })` */
+    config: Required<Pick<PRSenseConfig, 'weights' | 'duplicateThreshold' | 'possibleThreshold'>>
+    expected: {
+        duplicate: CalibrationBand
+        possible: CalibrationBand
+    }
+    /** Raw logistic regression fit, before clipping and normalisation */
+    model: {
+        coefficients: [number, number, number]
+        intercept: number
+    }
+    samples: {
+        total: number
+        positives: number
+        negatives: number
+    }
+}
+
+export interface ReplayPairsOptions extends PRSenseConfig {
+    /** Matches per replayed PR kept as labelled pairs (default: 5) */
+    topK?: number
+}
+
+/**
+ * Fit weights and thresholds from labelled pairs
+ */
+export function calibrate(pairs: LabelledPair[], options: CalibrationOptions = {}): CalibrationResult {
+    const targetPrecision = options.targetPrecision ?? 0.95
+    const possiblePrecision = options.possiblePrecision ?? 0.80
+    const iterations = options.iterations ?? 2000
+    const learningRate = options.learningRate ?? 0.5
+    const l2 = options.l2 ?? 0.01
+
+    for (const [field, value] of [['targetPrecision', targetPrecision], ['possiblePrecision', possiblePrecision]] as const) {
+        if (!Number.isFinite(value) || value <= 0 || value > 1) {
+            throw new ValidationError(`${field} must be between 0 and 1`, field)
+        }
+    }
+    if (possiblePrecision > targetPrecision) {
+        throw new ValidationError('possiblePrecision must be <= targetPrecision', 'possiblePrecision')
+    }
+    if (!Number.isInteger(iterations) || iterations < 1) {
+        throw new ValidationError('iterations must be a positive integer', 'iterations')
+    }
+    if (!(learningRate > 0) || !(l2 >= 0)) {
+        throw new ValidationError('learningRate must be positive and l2 non-negative', 'learningRate')
+    }
+
+    const rows = pairs.map((pair, index) => {
+        const features: [number, number, number] = [pair.textSimilarity, pair.diffSimilarity, pair.fileSimilarity]
+        if (!features.every(Number.isFinite) || (pair.label !== 0 && pair.label !== 1)) {
+            throw new ValidationError(`Pair ${index} needs finite similarities and a 0/1 label`, 'pairs')
+        }
+        return { features, label: pair.label }
+    })
+
+    const positives = rows.filter(r => r.label === 1).length
+    const negatives = rows.length - positives
+    if (positives === 0 || negatives === 0) {
+        throw new ValidationError('Calibration needs both duplicate and non-duplicate pairs', 'pairs')
+    }
+
+    const model = fitLogistic(rows, iterations, learningRate, l2)
+
+    // Negative coefficients would reward dissimilarity; drop them and rescale
+    // so the final score stays in [0, 1] like the default weights
+    const clipped = model.coefficients.map(c => Math.max(0, c)) as [number, number, number]
+    const sum = clipped[0] + clipped[1] + clipped[2]
+    const weights: [number, number, number] = sum > 0
+        ? [round(clipped[0] / sum), round(clipped[1] / sum), round(clipped[2] / sum)]
+        : [1 / 3, 1 / 3, 1 / 3].map(round) as [number, number, number]
+
+    const scored = rows
+        .map(r => ({ score: weights[0] * r.features[0] + weights[1] * r.features[1] + weights[2] * r.features[2], label: r.label }))
+        .sort((a, b) => b.score - a.score)
+
+    const duplicate = pickThreshold(scored, targetPrecision, positives)
+    let possible = pickThreshold(scored, possiblePrecision, positives)
+    if (possible.threshold > duplicate.threshold) {
+        possible = { ...measure(scored, duplicate.threshold, positives), met: possible.met }
+    }
+
+    return {
+        config: {
+            weights,
+            duplicateThreshold: duplicate.threshold,
+            possibleThreshold: possible.threshold
+        },
+        expected: { duplicate, possible },
+        model,
+        samples: { total: rows.length, positives, negatives }
+    }
+}
+
+/**
+ * Calibrate from the maintainer verdicts recorded on a detector
+ */
+export function calibrateFromFeedback(detector: PRSenseDetector, options: CalibrationOptions = {}): CalibrationResult {
+    return calibrate(detector.exportTrainingData(), options)
+}
+
+/**
+ * Build labelled pairs from an evaluation dataset
+ *
+ * replays the PRs in time order and labels each PR's top matches by known
+ * duplicate cluster, so confusable non-duplicates become negatives; the
+ * dataset's explicit pairs are added as well
+ */
+export async function pairsFromDataset(dataset: EvalDataset, options: ReplayPairsOptions): Promise<TrainingExample[]> {
+    const { topK = 5, ...config } = options
+    const detector = new PRSenseDetector({ ...config, possibleThreshold: 0 })
+    const clusterOf = duplicateClusters(dataset.pairs)
+    const labelled = new Map<string, 0 | 1>()
+
+    for (const pr of replayOrder(dataset.prs)) {
+        const { createdAt, ...input } = pr
+        const result = await detector.check(input, { topK })
+        for (const match of result.matches ?? []) {
+            labelled.set(`${pr.prId}:${match.prId}`, clusterOf(pr.prId) === clusterOf(match.prId) ? 1 : 0)
+        }
+    }
+
+    // Explicit labels win over cluster membership (e.g. a labelled non-duplicate)
+    for (const pair of dataset.pairs) {
+        labelled.delete(`${pair.prB}:${pair.prA}`)
+        labelled.set(`${pair.prA}:${pair.prB}`, pair.duplicate ? 1 : 0)
+    }
+
+    const examples: TrainingExample[] = []
+    for (const [key, label] of labelled) {
+        const [prA, prB] = key.split(':').map(Number) as [number, number]
+        const breakdown = detector.scorePair(prA, prB)
+        if (!breakdown) continue
+        examples.push({
+            prA,
+            prB,
+            label,
+            textSimilarity: breakdown.textSimilarity,
+            diffSimilarity: breakdown.diffSimilarity,
+            fileSimilarity: breakdown.fileSimilarity,
+            actor: 'dataset',
+            timestamp: 0
+        })
+    }
+    return examples
+}
+
+// ─── Fitting ─────────────────────────────────────────────────────────────────
+
+function fitLogistic(
+    rows: Array<{ features: [number, number, number]; label: 0 | 1 }>,
+    iterations: number,
+    learningRate: number,
+    l2: number
+): CalibrationResult['model'] {
+    const w: [number, number, number] = [0, 0, 0]
+    let b = 0
+    const n = rows.length
+
+    // Weight classes equally so a handful of duplicates is not drowned out
+    const positives = rows.filter(r => r.label === 1).length
+    const classWeight = [n / (2 * (n - positives)), n / (2 * positives)] as const
+
+    for (let iter = 0; iter < iterations; iter++) {
+        const grad = [0, 0, 0]
+        let gradB = 0
+        for (const { features, label } of rows) {
+            const z = b + w[0] * features[0] + w[1] * features[1] + w[2] * features[2]
+            const error = (sigmoid(z) - label) * classWeight[label]
+            grad[0]! += error * features[0]
+            grad[1]! += error * features[1]
+            grad[2]! += error * features[2]
+            gradB += error
+        }
+        for (let i = 0; i < 3; i++) {
+            w[i] = w[i]! - learningRate * (grad[i]! / n + l2 * w[i]!)
+        }
+        b -= learningRate * gradB / n
+    }
+
+    return { coefficients: w, intercept: b }
+}
+
+function sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z))
+}
+
+// ─── Threshold selection ─────────────────────────────────────────────────────
+
+/**
+ * Lowest threshold (highest recall) reaching the target precision, else best F1.
+ * Thresholds sit halfway between adjacent scores so the cut generalises.
+ */
+function pickThreshold(
+    scored: Array<{ score: number; label: 0 | 1 }>,
+    target: number,
+    positives: number
+): CalibrationBand {
+    let tp = 0, fp = 0
+    let bestTarget: CalibrationBand | null = null
+    let bestF1: (CalibrationBand & { f1: number }) | null = null
+
+    for (let i = 0; i < scored.length; i++) {
+        const current = scored[i]!
+        if (current.label === 1) tp++
+        else fp++
+
+        // Only cut between distinct scores
+        const next = scored[i + 1]
+        if (next && next.score === current.score) continue
+
+        const cut = Math.min(1, Math.max(0, next ? (current.score + next.score) / 2 : current.score))
+        // Keep the config readable unless rounding would move the cut past a score
+        const threshold = round(cut) <= current.score && (!next || round(cut) > next.score) ? round(cut) : cut
+        const precision = tp / (tp + fp)
+        const recall = tp / positives
+        const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0
+
+        if (precision >= target) bestTarget = { threshold, precision, recall, met: true }
+        if (!bestF1 || f1 > bestF1.f1) bestF1 = { threshold, precision, recall, met: false, f1 }
+    }
+
+    if (bestTarget) return bestTarget
+    const { f1, ...band } = bestF1!
+    return band
+}
+
+function measure(
+    scored: Array<{ score: number; label: 0 | 1 }>,
+    threshold: number,
+    positives: number
+): Omit<CalibrationBand, 'met'> {
+    const flagged = scored.filter(s => s.score >= threshold)
+    const tp = flagged.filter(s => s.label === 1).length
+    return {
+        threshold,
+        precision: flagged.length > 0 ? tp / flagged.length : 0,
+        recall: tp / positives
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 1e4) / 1e4
+}
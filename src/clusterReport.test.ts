@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { buildClusterReports, formatClustersMarkdown } from './clusterReport.js'
+import { PRSenseDetector } from './prsense.js'
+import { InMemoryStorage } from './storage/memory.js'
+import { ValidationError } from './errors.js'
+
+// One direction per topic, slightly perturbed by length
+const embedder = {
+    embedText: async (text: string) => text.includes('dark') ? new Float32Array([1, text.length / 1000, 0]) : new Float32Array([0, text.length / 1000, 1]),
+    embedDiff: async (diff: string) => diff.includes('dark') ? new Float32Array([1, diff.length / 1000, 0]) : new Float32Array([0, diff.length / 1000, 1])
+}
+
+function pr(number: number, title: string, author: string) {
+    const dark = title.includes('dark')
+    return {
+        key: { provider: 'github', repo: 'acme/web', number },
+        title,
+        description: 'Theme support',
+        files: [dark ? 'src/theme.ts' : 'src/retry.ts'],
+        diff: dark ? `+ const dark = ${number}` : `+ const retries = ${number}`,
+        author
+    }
+}
+
+describe('buildClusterReports', () => {
+    it('should rank clusters by size with members, authors, states and check confidence', async () => {
+        const storage = new InMemoryStorage()
+        const detector = new PRSenseDetector({ embedder, storage })
+        await detector.init()
+        await detector.check(pr(10, 'Add dark mode toggle', 'alice'))
+        await detector.check(pr(11, 'Add a dark mode toggle | settings', 'bob'))
+        await detector.check(pr(12, 'Support dark mode', 'carol'))
+        await detector.check(pr(20, 'Retry failed uploads', 'dave'))
+        await detector.check(pr(21, 'Retry uploads', 'erin'))
+        await detector.updateState({ provider: 'github', repo: 'acme/web', number: 12 }, 'closed')
+
+        const reports = await buildClusterReports(detector)
+        expect(reports.map(r => r.size)).toEqual([3, 2])
+
+        const [dark] = reports
+        expect(dark).toMatchObject({
+            originalKey: 'github:acme/web#10',
+            title: 'Add dark mode toggle',
+            authors: ['alice', 'bob', 'carol'],
+            states: { open: 2, closed: 1 }
+        })
+        expect(dark!.members.map(m => m.key)).toEqual(['github:acme/web#10', 'github:acme/web#11', 'github:acme/web#12'])
+        expect(dark!.members[0]!.confidence).toBeUndefined()
+        expect(dark!.members[1]!.confidence).toBeGreaterThan(0.9)
+        expect(dark!.lastActivityAt).toBeGreaterThanOrEqual(dark!.lastCreatedAt!)
+
+        expect(await buildClusterReports(detector, { minSize: 3 })).toHaveLength(1)
+        expect(await buildClusterReports(detector, { limit: 1 })).toEqual([dark])
+        await expect(buildClusterReports(detector, { minSize: 1 })).rejects.toThrow(ValidationError)
+    })
+
+    it('should render one Markdown table per cluster', async () => {
+        const detector = new PRSenseDetector({ embedder })
+        expect(formatClustersMarkdown(await buildClusterReports(detector))).toBe('_No duplicate clusters._\n')
+
+        await detector.check(pr(10, 'Add dark mode toggle', 'alice'))
+        await detector.check(pr(11, 'Add a dark mode toggle | settings', 'bob'))
+        const markdown = formatClustersMarkdown(await buildClusterReports(detector))
+
+        expect(markdown).toContain('### 1. Add dark mode toggle (2 PRs)')
+        expect(markdown).toContain('Authors: @alice, @bob')
+        expect(markdown).toContain('| `github:acme/web#10` (original) | Add dark mode toggle | @alice | open |')
+        // Pipes in titles do not break the table
+        expect(markdown).toContain('Add a dark mode toggle \\| settings')
+    })
+})
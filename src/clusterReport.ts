@@ -0,0 +1,177 @@
+/**
+ * Duplicate cluster reports
+ *
+ * joins the detector's duplicate clusters with stored check results, so a
+ * backlog can be triaged one cluster at a time rather than pair by pair,
+ * and renders them as Markdown that can be pasted into an issue
+ */
+
+import type { PRSenseDetector, DuplicateCluster } from './prsense.js'
+import type { PRState } from './types.js'
+import type { CheckResult } from './storage/interface.js'
+import { formatPRKey } from './prKey.js'
+import { jaccard } from './jaccard.js'
+import { ValidationError } from './errors.js'
+
+export interface ClusterReportOptions {
+    /** Clusters returned (default: all) */
+    limit?: number
+    /** Smallest cluster reported (default: 2) */
+    minSize?: number
+}
+
+export interface ClusterReportMember {
+    prId: number
+    /** Formatted PR key, e.g. github:acme/web#12 */
+    key: string
+    title?: string
+    author?: string
+    state?: PRState
+    createdAt?: number
+    /** Confidence of the latest check that flagged this PR against a cluster member */
+    confidence?: number
+    /** Time of the latest stored check of this PR */
+    checkedAt?: number
+}
+
+export interface ClusterReport {
+    original: number
+    originalKey: string
+    /** The member title sharing the most words with the others */
+    title: string
+    size: number
+    /** Distinct authors, in member order */
+    authors: string[]
+    /** Members per lifecycle state */
+    states: Partial<Record<PRState, number>>
+    firstCreatedAt?: number
+    lastCreatedAt?: number
+    /** Latest creation or check time of any member */
+    lastActivityAt?: number
+    members: ClusterReportMember[]
+}
+
+/**
+ * Duplicate clusters ranked by size, then by latest activity
+ */
+export async function buildClusterReports(detector: PRSenseDetector, options: ClusterReportOptions = {}): Promise<ClusterReport[]> {
+    const minSize = options.minSize ?? 2
+    if (!Number.isInteger(minSize) || minSize < 2) {
+        throw new ValidationError('minSize must be an integer of at least 2', 'minSize')
+    }
+    if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+        throw new ValidationError('limit must be a positive integer', 'limit')
+    }
+
+    const clusters = detector.getClusters().filter(cluster => cluster.members.length >= minSize)
+    const checks = await detector.getCheckResults(clusters.flatMap(cluster => cluster.members.map(member => member.prId)))
+    const reports = clusters
+        .map(cluster => describe(cluster, checks))
+        .sort((a, b) => b.size - a.size
+            || (b.lastActivityAt ?? 0) - (a.lastActivityAt ?? 0)
+            || a.original - b.original)
+    return options.limit === undefined ? reports : reports.slice(0, options.limit)
+}
+
+/**
+ * Markdown with one section and member table per cluster
+ */
+export function formatClustersMarkdown(reports: ClusterReport[]): string {
+    if (reports.length === 0) return '_No duplicate clusters._\n'
+
+    const lines: string[] = []
+    reports.forEach((report, i) => {
+        lines.push(`### ${i + 1}. ${escape(report.title)} (${report.size} PRs)`)
+        lines.push('')
+        const span = report.firstCreatedAt !== undefined && report.lastCreatedAt !== undefined
+            ? `${formatDate(report.firstCreatedAt)} – ${formatDate(report.lastCreatedAt)}`
+            : 'unknown'
+        const states = Object.entries(report.states).map(([state, count]) => `${count} ${state}`).join(', ')
+        lines.push(`Original: \`${report.originalKey}\` · Span: ${span} · ${states || 'no known states'}`)
+        if (report.authors.length > 0) {
+            lines.push(`Authors: ${report.authors.map(author => `@${author}`).join(', ')}`)
+        }
+        lines.push('')
+        lines.push('| PR | Title | Author | State | Created | Confidence |')
+        lines.push('| --- | --- | --- | --- | --- | --- |')
+        for (const member of report.members) {
+            const pr = member.prId === report.original ? `\`${member.key}\` (original)` : `\`${member.key}\``
+            lines.push(`| ${[
+                pr,
+                member.title !== undefined ? escape(member.title) : '',
+                member.author !== undefined ? `@${member.author}` : '',
+                member.state ?? '',
+                member.createdAt !== undefined ? formatDate(member.createdAt) : '',
+                member.confidence !== undefined ? `${(member.confidence * 100).toFixed(1)}%` : ''
+            ].join(' | ')} |`)
+        }
+        lines.push('')
+    })
+    return lines.join('\n')
+}
+
+function describe(cluster: DuplicateCluster, checks: CheckResult[]): ClusterReport {
+    const ids = new Set(cluster.members.map(member => member.prId))
+    const members = cluster.members.map((member): ClusterReportMember => {
+        // Oldest first, so the last match is the latest
+        const own = checks.filter(check => check.prId === member.prId)
+        const flagged = own.filter(check => check.originalPrId !== undefined && ids.has(check.originalPrId)).pop()
+        const checkedAt = own[own.length - 1]?.timestamp
+        return {
+            prId: member.prId,
+            key: formatPRKey(member.key),
+            ...(member.title !== undefined ? { title: member.title } : {}),
+            ...(member.author !== undefined ? { author: member.author } : {}),
+            ...(member.state !== undefined ? { state: member.state } : {}),
+            ...(member.createdAt !== undefined ? { createdAt: member.createdAt } : {}),
+            ...(flagged ? { confidence: flagged.confidence } : {}),
+            ...(checkedAt !== undefined ? { checkedAt } : {})
+        }
+    })
+
+    const states: Partial<Record<PRState, number>> = {}
+    for (const member of members) {
+        if (member.state) states[member.state] = (states[member.state] ?? 0) + 1
+    }
+    const times = members.flatMap(member => [member.createdAt, member.checkedAt].filter((t): t is number => t !== undefined))
+
+    return {
+        original: cluster.original,
+        originalKey: formatPRKey(cluster.originalKey),
+        title: representativeTitle(members) ?? formatPRKey(cluster.originalKey),
+        size: members.length,
+        authors: [...new Set(members.flatMap(member => member.author !== undefined ? [member.author] : []))],
+        states,
+        ...(cluster.firstCreatedAt !== undefined ? { firstCreatedAt: cluster.firstCreatedAt } : {}),
+        ...(cluster.lastCreatedAt !== undefined ? { lastCreatedAt: cluster.lastCreatedAt } : {}),
+        ...(times.length > 0 ? { lastActivityAt: Math.max(...times) } : {}),
+        members
+    }
+}
+
+/**
+ * Title with the highest mean word overlap with the other titles; ties
+ * go to the earlier member, so the original wins them
+ */
+function representativeTitle(members: ClusterReportMember[]): string | undefined {
+    const titles = members.flatMap(member => member.title !== undefined ? [member.title] : [])
+    const words = titles.map(title => new Set(title.toLowerCase().split(/\W+/).filter(Boolean)))
+    let best: string | undefined
+    let bestScore = -1
+    titles.forEach((title, i) => {
+        const score = words.reduce((sum, other, j) => i === j ? sum : sum + jaccard(words[i]!, other), 0)
+        if (score > bestScore) {
+            best = title
+            bestScore = score
+        }
+    })
+    return best
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+function escape(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
@@ -4,6 +4,8 @@
  */
 
 import type { Decision } from './types.js'
+import { DEFAULT_THRESHOLDS } from './thresholds.js'
+import type { Thresholds } from './thresholds.js'
 
 /***
  * centralized decision logic based on final score
@@ -14,11 +16,12 @@ import type { Decision } from './types.js'
 
 export function decide(
     score: number,
-    originalPr: number
+    originalPr: number,
+    thresholds: Thresholds = DEFAULT_THRESHOLDS
 ): Decision {
-    if (score >= 0.9) return { type: 'DUPLICATE', originalPr }
+    if (score >= thresholds.duplicate) return { type: 'DUPLICATE', originalPr }
 
-    if (score >= 0.82) return { type: 'POSSIBLE', originalPr }
+    if (score >= thresholds.possible) return { type: 'POSSIBLE', originalPr }
 
     return { type: 'IGNORE' }
 }
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { parseUnifiedDiff, selectHunks, bestHunkMatch, packHunkVectors, unpackHunkVectors, hunkLines, hunkLocations } from './diffHunks.js'
+import { PRSenseDetector } from './prsense.js'
+
+const sharedHunk = `@@ -10,3 +10,4 @@ export function login(req) {
+-    const token = req.headers.auth
++    const token = req.headers.authorization ?? ''
++    if (!token) throw new UnauthorizedError('missing token')
+     return verify(token, secret)`
+
+function fileDiff(file: string, hunk: string): string {
+    return `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n${hunk}`
+}
+
+function churn(file: string, words: string[]): string {
+    const body = words.map(w => `+${w} ${w}Total ${w}Rate ${w}Count ${w}Limit`).join('\n')
+    return fileDiff(file, `@@ -0,0 +1,${words.length} @@\n${body}`)
+}
+
+/**
+ * Bag-of-words hashing embedder: identical hunks embed identically, while
+ * unrelated churn pulls whole-diff vectors apart
+ */
+const hashingEmbedder = {
+    embedText: async (text: string) => embed(text),
+    embedDiff: async (diff: string) => embed(diff)
+}
+
+function embed(text: string): Float32Array {
+    const vec = new Float32Array(256)
+    for (const word of text.split(/\W+/).filter(Boolean)) {
+        let hash = 0
+        for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0
+        vec[hash % 256]! += 1
+    }
+    return vec
+}
+
+describe('parseUnifiedDiff', () => {
+    it('should split a git diff into per-file hunks', () => {
+        const diff = [
+            fileDiff('src/auth.ts', sharedHunk),
+            'diff --git a/src/old.ts b/src/old.ts\ndeleted file mode 100644\n--- a/src/old.ts\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-export const a = 1\n--- not a header, a removed line'
+        ].join('\n')
+
+        const hunks = parseUnifiedDiff(diff)
+        expect(hunks.map(h => h.file)).toEqual(['src/auth.ts', 'src/old.ts'])
+        expect(hunks[0]!.changedLines).toBe(3)
+        expect(hunks[0]!.lines).toHaveLength(4)
+        expect(hunks[1]!.lines).toEqual(['-export const a = 1', '--- not a header, a removed line'])
+    })
+
+    it('should read line ranges from hunk headers', () => {
+        const [added, removed] = parseUnifiedDiff([
+            fileDiff('src/auth.ts', sharedHunk),
+            fileDiff('src/old.ts', '@@ -5,2 +4,0 @@\n-a\n-b')
+        ].join('\n'))
+        expect(hunkLines(added!)).toEqual({ start: 10, end: 13 })
+        expect(hunkLines(removed!)).toEqual({ start: 5, end: 6 })
+    })
+
+    it('should return no hunks for text without hunk headers', () => {
+        expect(parseUnifiedDiff('+ const login = true')).toEqual([])
+    })
+})
+
+describe('selectHunks', () => {
+    it('should drop tiny hunks and keep the largest when capped', () => {
+        const hunks = parseUnifiedDiff([
+            churn('a.ts', ['one']),
+            churn('b.ts', ['one', 'two', 'three']),
+            churn('c.ts', ['one', 'two', 'three', 'four', 'five'])
+        ].join('\n'))
+
+        expect(selectHunks(hunks).map(h => h.file)).toEqual(['b.ts', 'c.ts'])
+        expect(selectHunks(hunks, { maxHunks: 1, minChangedLines: 1 }).map(h => h.file)).toEqual(['c.ts'])
+    })
+})
+
+describe('bestHunkMatch', () => {
+    it('should report the closest hunk pair', () => {
+        const match = bestHunkMatch(
+            [{ file: 'a.ts', vector: new Float32Array([1, 0]) }, { file: 'b.ts', vector: new Float32Array([0, 1]) }],
+            [{ file: 'c.ts', vector: new Float32Array([0, 2]) }]
+        )
+        expect(match).toEqual({ file: 'b.ts', matchedFile: 'c.ts', similarity: 1 })
+        expect(bestHunkMatch([], [])).toBeNull()
+    })
+
+    it('should round-trip packed vectors', () => {
+        const hunks = [
+            { file: 'a.ts', vector: new Float32Array([1, 2]) },
+            { file: 'b.ts', vector: new Float32Array([3, 4]) }
+        ]
+        expect(unpackHunkVectors(['a.ts', 'b.ts'], packHunkVectors(hunks))).toEqual(hunks)
+        expect(unpackHunkVectors(['a.ts', 'b.ts', 'c.ts'], packHunkVectors(hunks))).toEqual([])
+
+        const located = [{ ...hunks[0]!, lines: { start: 3, end: 9 } }, hunks[1]!]
+        expect(hunkLocations(located)).toEqual([{ file: 'a.ts', lines: { start: 3, end: 9 } }, 'b.ts'])
+        expect(unpackHunkVectors(hunkLocations(located), packHunkVectors(located))).toEqual(located)
+    })
+})
+
+describe('PRSenseDetector hunk scoring', () => {
+    const original = {
+        prId: 1,
+        title: 'Accept authorization header',
+        description: 'Login fix',
+        files: ['src/auth.ts', 'src/billing.ts'],
+        diff: [fileDiff('src/auth.ts', sharedHunk), churn('src/billing.ts', ['invoice', 'tax', 'ledger', 'refund', 'payout', 'credit', 'debit', 'vat', 'receipt', 'quote'])].join('\n')
+    }
+    const copy = {
+        prId: 2,
+        title: 'Handle missing auth token',
+        description: 'Login fix',
+        files: ['src/auth.ts', 'src/search.ts'],
+        diff: [fileDiff('src/auth.ts', sharedHunk), churn('src/search.ts', ['query', 'facet', 'ranking', 'shard', 'cursor', 'filter', 'stem', 'lexeme', 'boost', 'score'])].join('\n')
+    }
+
+    it('should match a shared hunk despite unrelated churn and report the file pair', async () => {
+        const detector = new PRSenseDetector({ embedder: hashingEmbedder, possibleThreshold: 0 })
+        await detector.check(original)
+        const result = await detector.checkDetailed(copy, { dryRun: true })
+
+        const whole = new PRSenseDetector({ embedder: hashingEmbedder, possibleThreshold: 0, hunks: false })
+        await whole.check(original)
+        const baseline = await whole.checkDetailed(copy, { dryRun: true })
+
+        expect(result.breakdown?.hunkMatch).toMatchObject({ file: 'src/auth.ts', matchedFile: 'src/auth.ts' })
+        expect(result.breakdown?.hunkMatch?.similarity).toBeCloseTo(1, 5)
+        expect(result.breakdown!.diffSimilarity).toBeGreaterThan(baseline.breakdown!.diffSimilarity + 0.1)
+        expect(baseline.breakdown?.hunkMatch).toBeUndefined()
+    })
+
+    it('should keep hunk vectors through export/import', async () => {
+        const detector = new PRSenseDetector({ embedder: hashingEmbedder, possibleThreshold: 0 })
+        await detector.check(original)
+        expect(detector.getStats().hunkVectors).toBe(2)
+
+        const restored = new PRSenseDetector({ embedder: hashingEmbedder, possibleThreshold: 0 })
+        restored.importState(JSON.parse(JSON.stringify(detector.exportState())))
+        expect(restored.getStats().hunkVectors).toBe(2)
+
+        const result = await restored.checkDetailed(copy, { dryRun: true })
+        expect(result.breakdown?.hunkMatch?.file).toBe('src/auth.ts')
+    })
+})
@@ -0,0 +1,228 @@
+/**
+ * Unified diff hunk parsing and multi-vector matching
+ *
+ * splits a diff into per-file hunks so each one can be embedded on its own;
+ * two PRs that share a single file change then match on that hunk even when
+ * the rest of their diffs is unrelated churn
+ */
+
+import { cosine } from './similarity.js'
+
+export interface DiffHunk {
+    /** Path of the file the hunk changes (new path, or old path for deletions) */
+    file: string
+    /** The `@@ -a,b +c,d @@` line */
+    header: string
+    /** Hunk body lines, each starting with '+', '-' or ' ' */
+    lines: string[]
+    /** Number of added + removed lines */
+    changedLines: number
+}
+
+export interface DiffHunkOptions {
+    /** Embed at most this many hunks per PR, largest first (default: 16) */
+    maxHunks?: number
+    /** Skip hunks with fewer changed lines, e.g. lone import tweaks (default: 3) */
+    minChangedLines?: number
+}
+
+/**
+ * Inclusive line range a hunk covers in the new file (old file for deletions)
+ */
+export interface HunkLines {
+    start: number
+    end: number
+}
+
+/**
+ * One embedded hunk of a PR's diff
+ */
+export interface HunkEmbedding {
+    file: string
+    vector: Float32Array
+    /** Absent for vectors stored before line ranges were recorded */
+    lines?: HunkLines
+}
+
+/**
+ * How a hunk is persisted next to its vector: the bare file path (older
+ * rows) or the path with its line range
+ */
+export type HunkLocation = string | { file: string; lines: HunkLines }
+
+/**
+ * Best-matching hunk pair between two PRs
+ */
+export interface HunkMatch {
+    /** File of the hunk in the PR being checked (or the first PR of a pair) */
+    file: string
+    /** File of the matching hunk in the other PR */
+    matchedFile: string
+    similarity: number
+    lines?: HunkLines
+    matchedLines?: HunkLines
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+/**
+ * Parse a unified diff (git or plain) into hunks. Text without `@@` hunk
+ * headers yields no hunks.
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = []
+    const lines = diff.split('\n')
+    let oldPath = ''
+    let newPath = ''
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!
+
+        if (line.startsWith('diff --git ')) {
+            const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line)
+            oldPath = match?.[1] ?? ''
+            newPath = match?.[2] ?? ''
+            continue
+        }
+        if (line.startsWith('--- ')) {
+            oldPath = stripDiffPathPrefix(line.slice(4))
+            continue
+        }
+        if (line.startsWith('+++ ')) {
+            newPath = stripDiffPathPrefix(line.slice(4))
+            continue
+        }
+
+        const header = HUNK_HEADER.exec(line)
+        if (!header) continue
+
+        // Walk the body by the header's line counts, so removed lines that
+        // look like '--- ' are not mistaken for file headers
+        let oldRemaining = header[2] !== undefined ? parseInt(header[2], 10) : 1
+        let newRemaining = header[4] !== undefined ? parseInt(header[4], 10) : 1
+        const body: string[] = []
+        let changedLines = 0
+
+        while (i + 1 < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+            const next = lines[i + 1]!
+            if (next.startsWith('+')) {
+                newRemaining--
+                changedLines++
+            } else if (next.startsWith('-')) {
+                oldRemaining--
+                changedLines++
+            } else if (next.startsWith(' ') || next === '') {
+                oldRemaining--
+                newRemaining--
+            } else if (!next.startsWith('\\')) {
+                break // malformed hunk - stop at the first foreign line
+            }
+            body.push(next)
+            i++
+        }
+
+        const file = newPath && newPath !== '/dev/null' ? newPath : oldPath
+        hunks.push({ file, header: line, lines: body, changedLines })
+    }
+
+    return hunks
+}
+
+/**
+ * Hunks worth embedding: big enough to be meaningful, capped at `maxHunks`
+ * (largest kept), in diff order
+ */
+export function selectHunks(hunks: DiffHunk[], options: DiffHunkOptions = {}): DiffHunk[] {
+    const maxHunks = options.maxHunks ?? 16
+    const minChangedLines = options.minChangedLines ?? 3
+
+    const eligible = hunks.filter(h => h.changedLines >= minChangedLines)
+    if (eligible.length <= maxHunks) return eligible
+
+    const keep = new Set(
+        [...eligible].sort((a, b) => b.changedLines - a.changedLines).slice(0, maxHunks)
+    )
+    return eligible.filter(h => keep.has(h))
+}
+
+/**
+ * Text embedded for a hunk: its body only, so a change moved to a renamed
+ * file still matches
+ */
+export function hunkText(hunk: DiffHunk): string {
+    return hunk.lines.join('\n')
+}
+
+/**
+ * Lines a hunk covers, read from its header: the new-file range, or the
+ * old-file range when the hunk only removes lines
+ */
+export function hunkLines(hunk: DiffHunk): HunkLines {
+    const header = HUNK_HEADER.exec(hunk.header)
+    if (!header) return { start: 0, end: 0 }
+    const newCount = header[4] !== undefined ? parseInt(header[4], 10) : 1
+    const [start, count] = newCount > 0
+        ? [parseInt(header[3]!, 10), newCount]
+        : [parseInt(header[1]!, 10), header[2] !== undefined ? parseInt(header[2], 10) : 1]
+    return { start, end: start + Math.max(count, 1) - 1 }
+}
+
+/**
+ * Max-sim over all hunk pairs: the single closest pair of hunks
+ */
+export function bestHunkMatch(a: HunkEmbedding[], b: HunkEmbedding[]): HunkMatch | null {
+    let best: HunkMatch | null = null
+    for (const hunkA of a) {
+        for (const hunkB of b) {
+            if (hunkA.vector.length !== hunkB.vector.length) continue
+            const similarity = cosine(hunkA.vector, hunkB.vector)
+            if (!best || similarity > best.similarity) {
+                best = {
+                    file: hunkA.file,
+                    matchedFile: hunkB.file,
+                    similarity,
+                    ...(hunkA.lines ? { lines: hunkA.lines } : {}),
+                    ...(hunkB.lines ? { matchedLines: hunkB.lines } : {})
+                }
+            }
+        }
+    }
+    return best
+}
+
+/**
+ * Concatenate hunk vectors for storage as one blob (all share a dimension)
+ */
+export function packHunkVectors(hunks: HunkEmbedding[]): Float32Array {
+    const dimension = hunks[0]?.vector.length ?? 0
+    const packed = new Float32Array(dimension * hunks.length)
+    hunks.forEach((hunk, index) => packed.set(hunk.vector, index * dimension))
+    return packed
+}
+
+/**
+ * Per-hunk locations stored alongside packHunkVectors' blob
+ */
+export function hunkLocations(hunks: HunkEmbedding[]): HunkLocation[] {
+    return hunks.map(h => h.lines ? { file: h.file, lines: h.lines } : h.file)
+}
+
+/**
+ * Inverse of packHunkVectors; returns [] when the blob does not fit the location list
+ */
+export function unpackHunkVectors(locations: HunkLocation[], packed: Float32Array): HunkEmbedding[] {
+    if (locations.length === 0 || packed.length % locations.length !== 0) return []
+    const dimension = packed.length / locations.length
+    return locations.map((location, index) => ({
+        ...(typeof location === 'string' ? { file: location } : location),
+        vector: packed.slice(index * dimension, (index + 1) * dimension)
+    }))
+}
+
+/**
+ * Path from a '---'/'+++' line without the a/ or b/ prefix or a trailing timestamp
+ */
+export function stripDiffPathPrefix(path: string): string {
+    const trimmed = path.split('\t')[0]!.trim()
+    return trimmed.startsWith('a/') || trimmed.startsWith('b/') ? trimmed.slice(2) : trimmed
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { DiffNormalizer } from './diffNormalizer.js'
+import { parseUnifiedDiff } from './diffHunks.js'
+import { PRSenseDetector } from './prsense.js'
+
+const authChange = `diff --git a/src/auth.ts b/src/auth.ts
+index 1a2b3c4..5d6e7f8 100644
+--- a/src/auth.ts
++++ b/src/auth.ts
+@@ -10,4 +10,4 @@ export function login(req) {
+     const user = find(req)
+-    const token = req.headers.auth
++    const token = req.headers.authorization
+     return verify(token, secret)
+ }`
+
+const lockfile = `diff --git a/package-lock.json b/package-lock.json
+--- a/package-lock.json
++++ b/package-lock.json
+@@ -1,2 +1,2 @@
+-    "version": "1.0.0",
++    "version": "1.0.1",
+     "lockfileVersion": 3`
+
+const reformat = `diff --git a/src/util.ts b/src/util.ts
+--- a/src/util.ts
++++ b/src/util.ts
+@@ -1,2 +1,2 @@
+-export function add(a,b){ return a+b }
++export function add(a, b) { return a + b }
+ export const x = 1`
+
+const rename = `diff --git a/src/old.ts b/src/new.ts
+similarity index 100%
+rename from src/old.ts
+rename to src/new.ts`
+
+const generated = `diff --git a/src/schema.ts b/src/schema.ts
+--- a/src/schema.ts
++++ b/src/schema.ts
+@@ -1,0 +1,2 @@
++// Code generated by protoc. DO NOT EDIT.
++export interface Schema {}`
+
+describe('DiffNormalizer', () => {
+    it('should drop excluded, generated, whitespace-only and renamed-only files', () => {
+        const { diff, report } = new DiffNormalizer().normalize([authChange, lockfile, reformat, rename, generated].join('\n'))
+
+        expect(report.droppedFiles).toEqual([
+            { file: 'package-lock.json', reason: 'excluded' },
+            { file: 'src/schema.ts', reason: 'generated' }
+        ])
+        expect(report.whitespaceOnlyHunks).toBe(1)
+        expect(report.renames).toEqual([{ from: 'src/old.ts', to: 'src/new.ts' }])
+        expect(report.contextLinesRemoved).toBe(3)
+        expect(report.removedChars).toBeGreaterThan(0)
+
+        expect(diff).not.toContain('package-lock')
+        expect(diff).not.toContain('src/util.ts')
+        expect(diff).not.toContain('index 1a2b3c4')
+        expect(parseUnifiedDiff(diff)).toEqual([{
+            file: 'src/auth.ts',
+            header: '@@ -10,1 +10,1 @@ export function login(req) {',
+            lines: ['-    const token = req.headers.auth', '+    const token = req.headers.authorization'],
+            changedLines: 2
+        }])
+    })
+
+    it('should rewrite an edited rename under its new path', () => {
+        const edited = `diff --git a/src/a.ts b/src/b.ts
+similarity index 90%
+rename from src/a.ts
+rename to src/b.ts
+--- a/src/a.ts
++++ b/src/b.ts
+@@ -1 +1 @@
+-export const a = 1
++export const b = 1`
+        const { diff } = new DiffNormalizer().normalize(edited)
+        expect(diff.split('\n').slice(0, 3)).toEqual(['diff --git a/src/b.ts b/src/b.ts', '--- a/src/b.ts', '+++ b/src/b.ts'])
+        expect(diff).not.toContain('rename')
+    })
+
+    it('should honour custom globs and leave non-diff text alone', () => {
+        const normalizer = new DiffNormalizer({ excludeFiles: ['src/**'], stripContext: false })
+        expect(normalizer.isExcluded('src/auth.ts')).toBe(true)
+        expect(normalizer.isExcluded('package-lock.json')).toBe(false)
+        expect(normalizer.normalize(authChange).report.droppedFiles).toEqual([{ file: 'src/auth.ts', reason: 'excluded' }])
+        expect(new DiffNormalizer().isExcluded('web/package-lock.json')).toBe(true)
+
+        expect(new DiffNormalizer().normalize('+ const login = true').diff).toBe('+ const login = true')
+    })
+})
+
+describe('PRSenseDetector diff normalisation', () => {
+    const embedder = {
+        embedText: async (text: string) => new Float32Array([text.length / 100, text.charCodeAt(0) / 255, 0.5]),
+        embedDiff: async (diff: string) => new Float32Array([diff.length / 100, diff.charCodeAt(0) / 255, 0.8])
+    }
+
+    it('should treat a lockfile bump as noise and report it', async () => {
+        const detector = new PRSenseDetector({ embedder })
+        await detector.check({ prId: 1, title: 'Accept authorization header', description: 'Auth fix', files: ['src/auth.ts'], diff: authChange })
+
+        const result = await detector.checkDetailed({
+            prId: 2,
+            title: 'Accept authorization header',
+            description: 'Auth fix',
+            files: ['src/auth.ts', 'package-lock.json'],
+            diff: [authChange, lockfile].join('\n')
+        })
+
+        // Identical once the lockfile is gone: exact-content match
+        expect(result.type).toBe('DUPLICATE')
+        expect(result.confidence).toBe(1)
+        expect(result.normalization?.droppedFiles).toEqual([{ file: 'package-lock.json', reason: 'excluded' }])
+    })
+
+    it('should hash the raw diff when normalisation is disabled', async () => {
+        const detector = new PRSenseDetector({ embedder, diffNormalization: false })
+        await detector.check({ prId: 1, title: 'Accept authorization header', description: 'Auth fix', files: ['src/auth.ts'], diff: authChange })
+
+        const result = await detector.checkDetailed({
+            prId: 2,
+            title: 'Accept authorization header',
+            description: 'Auth fix',
+            files: ['src/auth.ts'],
+            diff: [authChange, lockfile].join('\n')
+        })
+        expect(result.normalization).toBeUndefined()
+        expect(result.confidence).toBeLessThan(1)
+    })
+})
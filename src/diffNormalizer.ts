@@ -0,0 +1,267 @@
+/**
+ * Diff normalisation before embedding and hashing
+ *
+ * drops lockfiles, build output, snapshots and generated files, strips
+ * context lines and whitespace-only hunks, and rewrites renames as plain
+ * modifications, so similarity reflects the change rather than the noise
+ * around it
+ */
+
+import { minimatch } from 'minimatch'
+import { stripDiffPathPrefix } from './diffHunks.js'
+
+export interface DiffNormalizerConfig {
+    /** Globs of files to drop; patterns without '/' match at any depth (default: DEFAULT_EXCLUDED_FILES) */
+    excludeFiles?: string[]
+    /** Drop files marked `@generated` or `DO NOT EDIT` (default: true) */
+    dropGenerated?: boolean
+    /** Remove unchanged context lines from hunks (default: true) */
+    stripContext?: boolean
+    /** Drop hunks whose changes are whitespace only (default: true) */
+    dropWhitespaceOnly?: boolean
+    /** Rewrite renamed files under their new path and drop pure renames (default: true) */
+    normalizeRenames?: boolean
+}
+
+/**
+ * What normalisation removed from a diff
+ */
+export interface NormalizationReport {
+    droppedFiles: Array<{ file: string; reason: 'excluded' | 'generated' }>
+    whitespaceOnlyHunks: number
+    contextLinesRemoved: number
+    renames: Array<{ from: string; to: string }>
+    /** Characters removed overall */
+    removedChars: number
+}
+
+export interface NormalizedDiff {
+    diff: string
+    report: NormalizationReport
+}
+
+export const DEFAULT_EXCLUDED_FILES: readonly string[] = Object.freeze([
+    'package-lock.json',
+    'yarn.lock',
+    'pnpm-lock.yaml',
+    'Cargo.lock',
+    'Gemfile.lock',
+    'poetry.lock',
+    'composer.lock',
+    'go.sum',
+    'dist/**',
+    'build/**',
+    '*.min.js',
+    '*.map',
+    '*.snap',
+    '**/__snapshots__/**'
+])
+
+const GENERATED_MARKER = /@generated|DO NOT EDIT/
+
+interface Hunk {
+    header: string
+    lines: string[]
+}
+
+interface FileSection {
+    oldPath: string
+    newPath: string
+    header: string[]
+    hunks: Hunk[]
+    renameFrom?: string
+    renameTo?: string
+}
+
+export class DiffNormalizer {
+    private excludeFiles: string[]
+    private dropGenerated: boolean
+    private stripContext: boolean
+    private dropWhitespaceOnly: boolean
+    private normalizeRenames: boolean
+
+    constructor(config: DiffNormalizerConfig = {}) {
+        this.excludeFiles = [...(config.excludeFiles ?? DEFAULT_EXCLUDED_FILES)]
+        this.dropGenerated = config.dropGenerated ?? true
+        this.stripContext = config.stripContext ?? true
+        this.dropWhitespaceOnly = config.dropWhitespaceOnly ?? true
+        this.normalizeRenames = config.normalizeRenames ?? true
+    }
+
+    /**
+     * true when a path matches one of the exclude globs
+     */
+    isExcluded(file: string): boolean {
+        return this.excludeFiles.some(pattern => minimatch(file, pattern, { dot: true, matchBase: !pattern.includes('/') }))
+    }
+
+    /**
+     * Normalise a unified diff. Text outside file sections is kept as is, so
+     * plain (non-diff) input passes through unchanged.
+     */
+    normalize(diff: string): NormalizedDiff {
+        const report: NormalizationReport = {
+            droppedFiles: [],
+            whitespaceOnlyHunks: 0,
+            contextLinesRemoved: 0,
+            renames: [],
+            removedChars: 0
+        }
+        if (!diff) return { diff, report }
+
+        const { preamble, sections } = parseSections(diff)
+        const out: string[] = [...preamble]
+
+        for (const section of sections) {
+            const path = section.newPath && section.newPath !== '/dev/null' ? section.newPath : section.oldPath
+
+            if (this.isExcluded(path) || (section.oldPath && this.isExcluded(section.oldPath))) {
+                report.droppedFiles.push({ file: path, reason: 'excluded' })
+                continue
+            }
+            if (this.dropGenerated && section.hunks.some(h => h.lines.slice(0, 20).some(l => GENERATED_MARKER.test(l)))) {
+                report.droppedFiles.push({ file: path, reason: 'generated' })
+                continue
+            }
+
+            let header = section.header
+            if (section.renameFrom !== undefined && section.renameTo !== undefined) {
+                report.renames.push({ from: section.renameFrom, to: section.renameTo })
+                if (this.normalizeRenames) {
+                    // Pure renames carry no change; edited ones read as edits in place
+                    if (section.hunks.length === 0) continue
+                    header = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`]
+                }
+            }
+
+            const hunks: string[] = []
+            for (const hunk of section.hunks) {
+                if (this.dropWhitespaceOnly && isWhitespaceOnly(hunk)) {
+                    report.whitespaceOnlyHunks++
+                    continue
+                }
+                if (this.stripContext) {
+                    const changed = hunk.lines.filter(l => l.startsWith('+') || l.startsWith('-') || l.startsWith('\\'))
+                    report.contextLinesRemoved += hunk.lines.length - changed.length
+                    hunks.push(rewriteHeader(hunk.header, changed), ...changed)
+                } else {
+                    hunks.push(hunk.header, ...hunk.lines)
+                }
+            }
+
+            // Every hunk was whitespace-only: nothing left to compare
+            if (section.hunks.length > 0 && hunks.length === 0) continue
+            out.push(...header.filter(l => !l.startsWith('index ')), ...hunks)
+        }
+
+        const normalized = out.join('\n')
+        report.removedChars = Math.max(0, diff.length - normalized.length)
+        return { diff: normalized, report }
+    }
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/
+
+function parseSections(diff: string): { preamble: string[]; sections: FileSection[] } {
+    const preamble: string[] = []
+    const sections: FileSection[] = []
+    const lines = diff.split('\n')
+    let current: FileSection | null = null
+
+    const start = (line: string) => {
+        current = { oldPath: '', newPath: '', header: [line], hunks: [] }
+        sections.push(current)
+        return current
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!
+        let section = current as FileSection | null
+
+        if (line.startsWith('diff --git ')) {
+            section = start(line)
+            const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line)
+            section.oldPath = match?.[1] ?? ''
+            section.newPath = match?.[2] ?? ''
+            continue
+        }
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            // Plain diffs have no 'diff --git' line; '---' opens the section
+            if (!section || section.hunks.length > 0 || section.header.some(l => l.startsWith('--- '))) {
+                section = start(line)
+            } else {
+                section.header.push(line)
+            }
+            section.oldPath = stripDiffPathPrefix(line.slice(4))
+            continue
+        }
+        if (!section) {
+            preamble.push(line)
+            continue
+        }
+        if (line.startsWith('+++ ') && section.hunks.length === 0) {
+            section.newPath = stripDiffPathPrefix(line.slice(4))
+            section.header.push(line)
+            continue
+        }
+        if (line.startsWith('rename from ')) {
+            section.renameFrom = line.slice('rename from '.length)
+            section.header.push(line)
+            continue
+        }
+        if (line.startsWith('rename to ')) {
+            section.renameTo = line.slice('rename to '.length)
+            section.header.push(line)
+            continue
+        }
+
+        const header = HUNK_HEADER.exec(line)
+        if (!header) {
+            section.header.push(line)
+            continue
+        }
+
+        // Walk the body by the header's counts so removed '--- ' lines stay in the hunk
+        let oldRemaining = header[2] !== undefined ? parseInt(header[2], 10) : 1
+        let newRemaining = header[4] !== undefined ? parseInt(header[4], 10) : 1
+        const body: string[] = []
+        while (i + 1 < lines.length && (oldRemaining > 0 || newRemaining > 0)) {
+            const next = lines[i + 1]!
+            if (next.startsWith('+')) newRemaining--
+            else if (next.startsWith('-')) oldRemaining--
+            else if (next.startsWith(' ') || next === '') { oldRemaining--; newRemaining-- }
+            else if (!next.startsWith('\\')) break
+            body.push(next)
+            i++
+        }
+        // A trailing '\ No newline at end of file' belongs to the hunk
+        if (lines[i + 1]?.startsWith('\\')) body.push(lines[++i]!)
+        section.hunks.push({ header: line, lines: body })
+    }
+
+    return { preamble, sections }
+}
+
+/**
+ * Added and removed lines are identical once whitespace is ignored
+ */
+function isWhitespaceOnly(hunk: Hunk): boolean {
+    const squash = (prefix: string) => hunk.lines
+        .filter(l => l.startsWith(prefix))
+        .map(l => l.slice(1).replace(/\s+/g, ''))
+        .join('')
+    const removed = squash('-')
+    const added = squash('+')
+    return removed === added && hunk.lines.some(l => l.startsWith('+') || l.startsWith('-'))
+}
+
+/**
+ * Keep the hunk's start lines but fix the counts after context was removed
+ */
+function rewriteHeader(header: string, changed: string[]): string {
+    const match = HUNK_HEADER.exec(header)
+    if (!match) return header
+    const removed = changed.filter(l => l.startsWith('-')).length
+    const added = changed.filter(l => l.startsWith('+')).length
+    return `@@ -${match[1]},${removed} +${match[3]},${added} @@${match[5] ?? ''}`
+}
@@ -5,12 +5,16 @@
  * Faster and free (after setup), but requires Python
  */
 
-import type { Embedder } from '../embeddingPipeline.js'
+import type { Embedder, EmbedderInfo } from '../embeddingPipeline.js'
 import { EmbeddingError, ValidationError } from '../errors.js'
 
 export interface LocalEmbedderConfig {
     serviceUrl?: string
     timeout?: number
+    /** Model the service runs, recorded with stored vectors (default: 'all-MiniLM-L6-v2') */
+    model?: string
+    /** Vector length the service returns, when known */
+    dimensions?: number
 }
 
 /**
@@ -22,6 +26,7 @@ export interface LocalEmbedderConfig {
  * 3. Use this embedder
  */
 export class LocalEmbedder implements Embedder {
+    readonly info: EmbedderInfo
     private serviceUrl: string
     private timeout: number
 
@@ -41,6 +46,11 @@ export class LocalEmbedder implements Embedder {
             throw new ValidationError('timeout must be an integer between 1000 and 60000 milliseconds', 'timeout')
         }
         this.timeout = timeout
+        this.info = {
+            id: `local:${config.model || 'all-MiniLM-L6-v2'}`,
+            version: '1',
+            ...(config.dimensions !== undefined ? { dimension: config.dimensions } : {})
+        }
     }
 
     async embedText(text: string): Promise<Float32Array> {
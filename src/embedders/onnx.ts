@@ -9,7 +9,7 @@
  * 2. Download model: all-MiniLM-L6-v2 ONNX format
  */
 
-import type { Embedder } from '../embeddingPipeline.js'
+import type { Embedder, EmbedderInfo } from '../embeddingPipeline.js'
 
 export interface ONNXEmbedderConfig {
     /** Path to the ONNX model file */
@@ -93,6 +93,7 @@ function meanPooling(embeddings: Float32Array, attentionMask: number[], seqLen:
  * Runs entirely on your machine - no API calls!
  */
 export class ONNXEmbedder implements Embedder {
+    readonly info: EmbedderInfo
     private modelPath: string
     private maxLength: number
     private dimensions: number
@@ -103,6 +104,9 @@ export class ONNXEmbedder implements Embedder {
         this.modelPath = config.modelPath || './models/all-MiniLM-L6-v2.onnx'
         this.maxLength = config.maxLength || 256
         this.dimensions = config.dimensions || 384
+        // Named after the model file, e.g. 'onnx:all-MiniLM-L6-v2'
+        const modelName = this.modelPath.split(/[\\/]/).pop()!.replace(/\.onnx$/, '')
+        this.info = { id: `onnx:${modelName}`, version: '1', dimension: this.dimensions }
     }
 
     private async initialize(): Promise<void> {
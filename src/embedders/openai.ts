@@ -4,7 +4,7 @@
  * Production-ready embedder using OpenAI's text-embedding-3-small model
  */
 
-import type { Embedder } from '../embeddingPipeline.js'
+import type { Embedder, EmbedderInfo } from '../embeddingPipeline.js'
 import { EmbeddingError, ValidationError } from '../errors.js'
 
 export interface OpenAIConfig {
@@ -35,6 +35,7 @@ interface OpenAIError {
  * OpenAI embedder for production use
  */
 export class OpenAIEmbedder implements Embedder {
+    readonly info: EmbedderInfo
     private apiKey: string
     private model: string
     private dimensions: number
@@ -56,6 +57,7 @@ export class OpenAIEmbedder implements Embedder {
         } else {
             this.dimensions = 512 // Reduced dimensions for speed
         }
+        this.info = { id: `openai:${this.model}`, version: '1', dimension: this.dimensions }
     }
 
     async embedText(text: string): Promise<Float32Array> {
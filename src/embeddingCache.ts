@@ -4,9 +4,13 @@
  * Saves OpenAI API costs by caching computed embeddings
  */
 
+import type { HunkEmbedding } from './diffHunks.js'
+
 export interface CacheEntry {
     textEmbedding: Float32Array
     diffEmbedding: Float32Array
+    /** Per-hunk diff vectors; absent for entries restored from an export */
+    hunkEmbeddings?: HunkEmbedding[]
     cachedAt: number
 }
 
@@ -66,7 +70,8 @@ export class EmbeddingCache {
         description: string,
         diff: string,
         textEmbedding: Float32Array,
-        diffEmbedding: Float32Array
+        diffEmbedding: Float32Array,
+        hunkEmbeddings?: HunkEmbedding[]
     ): void {
         const key = this.generateKey(title, description, diff)
 
@@ -81,6 +86,7 @@ export class EmbeddingCache {
         this.cache.set(key, {
             textEmbedding,
             diffEmbedding,
+            ...(hunkEmbeddings ? { hunkEmbeddings } : {}),
             cachedAt: Date.now()
         })
     }
@@ -7,13 +7,76 @@
  * 
  */
 
+import { parseUnifiedDiff, selectHunks, hunkText, hunkLines } from './diffHunks.js'
+import type { DiffHunkOptions, HunkEmbedding } from './diffHunks.js'
+
+/**
+ * Identity of the model behind an embedder; stored vectors are only
+ * comparable with vectors from the same id, version and dimension
+ */
+export interface EmbedderInfo {
+    /** Provider and model, e.g. 'openai:text-embedding-3-small' */
+    id: string
+    /** Bump when the same model starts producing different vectors (preprocessing, pooling) */
+    version: string
+    /** Vector length, when the configuration fixes it */
+    dimension?: number
+}
+
+/**
+ * Model recorded with stored vectors
+ */
+export type EmbeddingStamp = Required<EmbedderInfo>
+
+/** Identity assumed for embedders that do not describe themselves */
+export const UNKNOWN_EMBEDDER: EmbedderInfo = { id: 'custom', version: '1' }
+
 export interface Embedder {
     embedText(text: string): Promise<Float32Array>
     embedDiff(diff: string): Promise<Float32Array>
+    /** Model identity recorded with stored vectors (default: UNKNOWN_EMBEDDER) */
+    readonly info?: EmbedderInfo
+}
+
+/**
+ * Stamp for vectors of the given length produced by an embedder
+ */
+export function embeddingStamp(embedder: Embedder, dimension: number): EmbeddingStamp {
+    const { id, version } = embedder.info ?? UNKNOWN_EMBEDDER
+    return { id, version, dimension }
+}
+
+/**
+ * Whether vectors from `a` can be compared with vectors from `b`; a
+ * dimension missing on either side is not compared
+ */
+export function sameEmbedder(a: EmbedderInfo, b: EmbedderInfo): boolean {
+    return a.id === b.id
+        && a.version === b.version
+        && (a.dimension === undefined || b.dimension === undefined || a.dimension === b.dimension)
+}
+
+/**
+ * `openai:text-embedding-3-small@1 (512d)`
+ */
+export function formatEmbedder(info: EmbedderInfo): string {
+    return `${info.id}@${info.version}${info.dimension !== undefined ? ` (${info.dimension}d)` : ''}`
+}
+
+export interface EmbeddingPipelineOptions {
+    /** Per-hunk diff embeddings (false to embed the whole diff only) */
+    hunks?: DiffHunkOptions | false
 }
 
 export class EmbeddingPipeline {
-    constructor(private embedder: Embedder) { }
+    constructor(private embedder: Embedder, private options: EmbeddingPipelineOptions = {}) { }
+
+    /**
+     * Stamp for vectors this pipeline produced
+     */
+    stamp(vector: Float32Array): EmbeddingStamp {
+        return embeddingStamp(this.embedder, vector.length)
+    }
 
     async run(
         title: string,
@@ -22,12 +85,41 @@ export class EmbeddingPipeline {
     ): Promise<{
         textEmbedding: Float32Array
         diffEmbedding: Float32Array
+        hunkEmbeddings: HunkEmbedding[]
     }> {
-        const text = `${title}\n${body}`
-
+        const textEmbedding = await this.embedText(title, body)
+        const diffEmbedding = await this.embedder.embedDiff(diff)
         return {
-            textEmbedding: await this.embedder.embedText(text),
-            diffEmbedding: await this.embedder.embedDiff(diff)
+            textEmbedding,
+            diffEmbedding,
+            hunkEmbeddings: await this.embedHunks(diff, diffEmbedding)
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Embed a PR's title and body alone, without its diff
+     */
+    embedText(title: string, body: string): Promise<Float32Array> {
+        return this.embedder.embedText(`${title}\n${body}`)
+    }
+
+    /**
+     * Embed each hunk of a unified diff. A diff with a single hunk reuses
+     * `diffEmbedding` instead of a second embedder call.
+     */
+    async embedHunks(diff: string, diffEmbedding?: Float32Array): Promise<HunkEmbedding[]> {
+        if (this.options.hunks === false || !diff) return []
+
+        const parsed = parseUnifiedDiff(diff)
+        const hunks = selectHunks(parsed, this.options.hunks)
+        if (parsed.length === 1 && hunks.length === 1 && diffEmbedding) {
+            return [{ file: hunks[0]!.file, vector: diffEmbedding, lines: hunkLines(hunks[0]!) }]
+        }
+
+        const embedded: HunkEmbedding[] = []
+        for (const hunk of hunks) {
+            embedded.push({ file: hunk.file, vector: await this.embedder.embedDiff(hunkText(hunk)), lines: hunkLines(hunk) })
+        }
+        return embedded
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { parseDataset, evaluate, scoreAt, formatReport } from './evaluate.js'
+import type { EvalPrediction } from './evaluate.js'
+import { ValidationError } from './errors.js'
+
+const mockEmbedder = {
+    embedText: async (text: string) => new Float32Array([text.length / 100, text.charCodeAt(0) / 255, 0.5]),
+    embedDiff: async (diff: string) => new Float32Array([diff.length / 100, diff.charCodeAt(0) / 255, 0.8])
+}
+
+const dataset = [
+    { prId: 1, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = true', createdAt: '2024-01-01' },
+    // Listed out of order - replay must sort by createdAt
+    { prId: 3, title: 'Add billing CSV export for finance', description: 'Exports invoices', files: ['src/billing.ts'], diff: '- legacy export removed entirely', createdAt: '2024-01-03' },
+    { prId: 2, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts'], diff: '+ const login = okay', createdAt: '2024-01-02' },
+    { prA: 2, prB: 1 }
+].map(entry => JSON.stringify(entry)).join('\n')
+
+describe('parseDataset', () => {
+    it('should split PRs and pairs', () => {
+        const parsed = parseDataset(dataset + '\n{"prA": 3, "prB": 1, "duplicate": false}\n')
+        expect(parsed.prs.map(p => p.prId)).toEqual([1, 3, 2])
+        expect(parsed.pairs).toEqual([
+            { prA: 2, prB: 1, duplicate: true },
+            { prA: 3, prB: 1, duplicate: false }
+        ])
+    })
+
+    it('should report the offending line', () => {
+        expect(() => parseDataset('{"prId": 1, "title": "x"}\nnot json')).toThrow(/line 2/)
+        expect(() => parseDataset('{"foo": 1}')).toThrow(ValidationError)
+    })
+})
+
+describe('scoreAt', () => {
+    const predictions: EvalPrediction[] = [
+        { prId: 2, predictedPr: 1, score: 0.95, actual: [1] },  // correct
+        { prId: 3, predictedPr: 1, score: 0.85, actual: [] },   // false alarm
+        { prId: 4, predictedPr: 3, score: 0.92, actual: [1] },  // wrong original
+        { prId: 5, predictedPr: 1, score: 0.60, actual: [1] },  // missed
+        { prId: 6, score: 0, actual: [] }
+    ]
+
+    it('should build the confusion matrix at a threshold', () => {
+        const m = scoreAt(predictions, 0.9)
+        expect(m).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1, trueNegatives: 2 })
+        expect(m.precision).toBeCloseTo(0.5)
+        expect(m.recall).toBeCloseTo(1 / 3)
+    })
+
+    it('should gain recall as the threshold drops', () => {
+        const m = scoreAt(predictions, 0.5)
+        expect(m).toMatchObject({ truePositives: 2, falsePositives: 2, falseNegatives: 0 })
+        expect(m.recall).toBeCloseTo(2 / 3)
+    })
+})
+
+describe('evaluate', () => {
+    it('should replay in time order and report bands and a sweep', async () => {
+        const report = await evaluate(parseDataset(dataset), {
+            embedder: mockEmbedder,
+            sweep: { from: 0.8, to: 0.9, step: 0.05 }
+        })
+
+        expect(report.predictions.map(p => p.prId)).toEqual([1, 2, 3])
+        expect(report.actualDuplicates).toBe(1)
+        expect(report.predictions[1]).toMatchObject({ prId: 2, predictedPr: 1, actual: [1] })
+        expect(report.bands.duplicate.truePositives).toBe(1)
+        expect(report.bands.duplicate.recall).toBe(1)
+        expect(report.sweep.map(m => m.threshold)).toEqual([0.8, 0.85, 0.9])
+        expect(formatReport(report)).toContain('best F1')
+    })
+})
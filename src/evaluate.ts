@@ -0,0 +1,302 @@
+/**
+ * Offline evaluation harness
+ *
+ * replays a labelled dataset through PRSenseDetector in time order and
+ * measures how well duplicates are flagged at the configured thresholds
+ * and across a threshold sweep
+ *
+ * Dataset format (JSONL, one object per line):
+ *   {"prId": 1, "title": "...", "description": "...", "files": [...], "diff": "...", "createdAt": "2024-01-01T00:00:00Z"}
+ *   {"prA": 2, "prB": 1}                      known duplicate pair
+ *   {"prA": 3, "prB": 1, "duplicate": false}  labelled non-duplicate (optional)
+ */
+
+import { PRSenseDetector } from './prsense.js'
+import type { PRInput, PRSenseConfig } from './prsense.js'
+import { ValidationError } from './errors.js'
+import { validateThresholds } from './validation.js'
+import { DEFAULT_THRESHOLDS } from './thresholds.js'
+
+export interface EvalPR extends PRInput {
+    /** Replay order key: epoch ms or ISO date (falls back to file order) */
+    createdAt?: number | string
+}
+
+export interface EvalPair {
+    prA: number
+    prB: number
+    duplicate: boolean
+}
+
+export interface EvalDataset {
+    prs: EvalPR[]
+    pairs: EvalPair[]
+}
+
+/**
+ * Outcome of replaying one PR: its best match and the known originals
+ */
+export interface EvalPrediction {
+    prId: number
+    /** Best-scoring earlier PR, if any candidate was found */
+    predictedPr?: number
+    score: number
+    /** Earlier PRs in the same known-duplicate cluster */
+    actual: number[]
+}
+
+export interface EvalMetrics {
+    threshold: number
+    /** Flagged against a PR in the same duplicate cluster */
+    truePositives: number
+    /** Flagged, but not a duplicate or matched to the wrong PR */
+    falsePositives: number
+    /** A duplicate that was not flagged */
+    falseNegatives: number
+    trueNegatives: number
+    precision: number
+    recall: number
+    f1: number
+}
+
+export interface EvaluationReport {
+    totalPRs: number
+    /** PRs with a known duplicate replayed before them */
+    actualDuplicates: number
+    duplicateThreshold: number
+    possibleThreshold: number
+    /** Flag only at DUPLICATE confidence, and at DUPLICATE or POSSIBLE */
+    bands: {
+        duplicate: EvalMetrics
+        possible: EvalMetrics
+    }
+    sweep: EvalMetrics[]
+    predictions: EvalPrediction[]
+}
+
+export interface EvaluateOptions extends PRSenseConfig {
+    /** Threshold sweep range (default: 0.50 to 0.99 in 0.01 steps) */
+    sweep?: { from: number; to: number; step: number }
+    /** Called after each replayed PR */
+    onProgress?: (done: number, total: number) => void
+}
+
+/**
+ * Parse a JSONL dataset of PRs and labelled pairs
+ */
+export function parseDataset(jsonl: string): EvalDataset {
+    const prs: EvalPR[] = []
+    const pairs: EvalPair[] = []
+
+    jsonl.split('\n').forEach((raw, index) => {
+        const line = raw.trim()
+        if (!line) return
+
+        let entry: any
+        try {
+            entry = JSON.parse(line)
+        } catch {
+            throw new ValidationError(`Invalid JSON on line ${index + 1}`, 'dataset')
+        }
+
+        if (typeof entry.prA === 'number' && typeof entry.prB === 'number') {
+            pairs.push({ prA: entry.prA, prB: entry.prB, duplicate: entry.duplicate !== false })
+        } else if (typeof entry.prId === 'number') {
+            prs.push({
+                ...entry,
+                description: entry.description ?? '',
+                files: Array.isArray(entry.files) ? entry.files : []
+            })
+        } else {
+            throw new ValidationError(`Line ${index + 1} is neither a PR (prId) nor a pair (prA/prB)`, 'dataset')
+        }
+    })
+
+    return { prs, pairs }
+}
+
+/**
+ * Replay a dataset through a fresh detector and score its decisions
+ */
+export async function evaluate(dataset: EvalDataset, options: EvaluateOptions): Promise<EvaluationReport> {
+    const { sweep, onProgress, ...config } = options
+    validateThresholds(config.duplicateThreshold, config.possibleThreshold)
+    const duplicateThreshold = config.duplicateThreshold ?? DEFAULT_THRESHOLDS.duplicate
+    const possibleThreshold = config.possibleThreshold ?? DEFAULT_THRESHOLDS.possible
+
+    // possibleThreshold 0 makes every result carry its best candidate, so any
+    // threshold can be applied afterwards from a single replay
+    const detector = new PRSenseDetector({ ...config, possibleThreshold: 0 })
+
+    const clusterOf = duplicateClusters(dataset.pairs)
+    const ordered = replayOrder(dataset.prs)
+
+    const seen: number[] = []
+    const predictions: EvalPrediction[] = []
+    for (const [done, pr] of ordered.entries()) {
+        const { createdAt, ...input } = pr
+        const result = await detector.checkDetailed(input)
+
+        const root = clusterOf(pr.prId)
+        predictions.push({
+            prId: pr.prId,
+            ...(result.type !== 'UNIQUE' ? { predictedPr: result.originalPr } : {}),
+            score: result.type !== 'UNIQUE' ? result.confidence : 0,
+            actual: seen.filter(id => clusterOf(id) === root)
+        })
+        seen.push(pr.prId)
+        onProgress?.(done + 1, ordered.length)
+    }
+
+    const range = sweep ?? { from: 0.5, to: 0.99, step: 0.01 }
+    if (!(range.step > 0) || range.from > range.to) {
+        throw new ValidationError('sweep needs from <= to and a positive step', 'sweep')
+    }
+    const thresholds: number[] = []
+    for (let i = 0; range.from + i * range.step <= range.to + 1e-9; i++) {
+        thresholds.push(Math.round((range.from + i * range.step) * 1e6) / 1e6)
+    }
+
+    return {
+        totalPRs: predictions.length,
+        actualDuplicates: predictions.filter(p => p.actual.length > 0).length,
+        duplicateThreshold,
+        possibleThreshold,
+        bands: {
+            duplicate: scoreAt(predictions, duplicateThreshold),
+            possible: scoreAt(predictions, possibleThreshold)
+        },
+        sweep: thresholds.map(t => scoreAt(predictions, t)),
+        predictions
+    }
+}
+
+/**
+ * Confusion matrix and derived metrics when flagging at `threshold`
+ */
+export function scoreAt(predictions: EvalPrediction[], threshold: number): EvalMetrics {
+    let tp = 0, fp = 0, fn = 0, tn = 0
+    for (const p of predictions) {
+        const isDuplicate = p.actual.length > 0
+        const flagged = p.predictedPr !== undefined && p.score >= threshold
+
+        if (flagged) {
+            if (p.actual.includes(p.predictedPr!)) tp++
+            else fp++
+        } else if (isDuplicate) {
+            fn++
+        } else {
+            tn++
+        }
+    }
+
+    // Recall counts duplicates matched to the wrong PR as missed
+    const positives = predictions.filter(p => p.actual.length > 0).length
+    const precision = tp + fp > 0 ? tp / (tp + fp) : 0
+    const recall = positives > 0 ? tp / positives : 0
+    const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0
+
+    return {
+        threshold,
+        truePositives: tp,
+        falsePositives: fp,
+        falseNegatives: fn,
+        trueNegatives: tn,
+        precision,
+        recall,
+        f1
+    }
+}
+
+/**
+ * Render a report as plain-text tables
+ */
+export function formatReport(report: EvaluationReport): string {
+    const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(6)
+    const lines: string[] = []
+
+    lines.push(`PRs replayed:       ${report.totalPRs}`)
+    lines.push(`Actual duplicates:  ${report.actualDuplicates}`)
+    lines.push('')
+
+    const bands: Array<[string, EvalMetrics]> = [
+        [`DUPLICATE (>= ${report.duplicateThreshold})`, report.bands.duplicate],
+        [`DUPLICATE+POSSIBLE (>= ${report.possibleThreshold})`, report.bands.possible]
+    ]
+    for (const [label, m] of bands) {
+        lines.push(label)
+        lines.push(`  Precision ${pct(m.precision)}   Recall ${pct(m.recall)}   F1 ${pct(m.f1)}`)
+        lines.push('                    Flagged   Not flagged')
+        lines.push(`  Duplicate      ${String(m.truePositives).padStart(10)} ${String(m.falseNegatives).padStart(13)}`)
+        lines.push(`  Not duplicate  ${String(m.falsePositives).padStart(10)} ${String(m.trueNegatives).padStart(13)}`)
+        lines.push('')
+    }
+
+    // Ties go to the higher (more conservative) threshold
+    const best = report.sweep.reduce<EvalMetrics | null>((acc, m) => (!acc || m.f1 >= acc.f1 ? m : acc), null)
+    lines.push('Threshold   Precision   Recall       F1     TP     FP     FN')
+    for (const m of report.sweep) {
+        const marker = m === best ? '  ← best F1' : ''
+        lines.push(
+            `${m.threshold.toFixed(2).padStart(9)}   ${pct(m.precision).padStart(9)}   ${pct(m.recall)}   ${pct(m.f1)}` +
+            `${String(m.truePositives).padStart(7)}${String(m.falsePositives).padStart(7)}${String(m.falseNegatives).padStart(7)}${marker}`
+        )
+    }
+
+    return lines.join('\n')
+}
+
+/**
+ * Sort PRs by createdAt, keeping file order for ties and missing dates
+ */
+export function replayOrder<T extends EvalPR>(prs: T[]): T[] {
+    return prs
+        .map((pr, position) => ({ pr, position, time: toTime(pr.createdAt) }))
+        .sort((a, b) => (a.time - b.time) || (a.position - b.position))
+        .map(entry => entry.pr)
+}
+
+/**
+ * Group known duplicate pairs into clusters; returns a PR -> cluster id lookup
+ */
+export function duplicateClusters(pairs: EvalPair[]): (prId: number) => number {
+    const clusters = new UnionFind()
+    for (const pair of pairs) {
+        if (pair.duplicate) clusters.union(pair.prA, pair.prB)
+    }
+    return prId => clusters.find(prId)
+}
+
+function toTime(value: number | string | undefined): number {
+    if (value === undefined) return 0
+    const time = typeof value === 'number' ? value : Date.parse(value)
+    return Number.isFinite(time) ? time : 0
+}
+
+/**
+ * Minimal union-find for grouping known duplicate pairs into clusters
+ */
+class UnionFind {
+    private parent = new Map<number, number>()
+
+    find(id: number): number {
+        let root = id
+        while (this.parent.has(root) && this.parent.get(root) !== root) {
+            root = this.parent.get(root)!
+        }
+        // Path compression
+        let current = id
+        while (current !== root) {
+            const next = this.parent.get(current)!
+            this.parent.set(current, root)
+            current = next
+        }
+        return root
+    }
+
+    union(a: number, b: number): void {
+        const rootA = this.find(a)
+        const rootB = this.find(b)
+        if (rootA !== rootB) this.parent.set(rootA, rootB)
+    }
+}
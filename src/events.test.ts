@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TypedEventEmitter } from './events.js'
+
+interface TestEvents {
+    ping: { n: number }
+    pong: string
+}
+
+describe('TypedEventEmitter', () => {
+    it('should await listeners one at a time in priority order', async () => {
+        const emitter = new TypedEventEmitter<TestEvents>()
+        const calls: string[] = []
+        emitter.on('ping', async ({ n }) => {
+            await new Promise(resolve => setTimeout(resolve, 5))
+            calls.push(`first ${n}`)
+        })
+        emitter.on('ping', ({ n }) => { calls.push(`second ${n}`) })
+        emitter.on('ping', ({ n }) => { calls.push(`urgent ${n}`) }, { priority: 10 })
+
+        await emitter.emit('ping', { n: 1 })
+        expect(calls).toEqual(['urgent 1', 'first 1', 'second 1'])
+        expect(emitter.listenerCount('ping')).toBe(3)
+        expect(emitter.listenerCount('pong')).toBe(0)
+    })
+
+    it('should unsubscribe, and run once-listeners a single time', async () => {
+        const emitter = new TypedEventEmitter<TestEvents>()
+        const listener = vi.fn()
+        const onceListener = vi.fn()
+        const unsubscribe = emitter.on('pong', listener)
+        emitter.once('pong', onceListener)
+
+        await emitter.emit('pong', 'a')
+        unsubscribe()
+        await emitter.emit('pong', 'b')
+
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(onceListener).toHaveBeenCalledWith('a')
+        expect(onceListener).toHaveBeenCalledTimes(1)
+        expect(emitter.off('pong', listener)).toBe(false)
+    })
+
+    it('should report a failing listener and keep calling the rest', async () => {
+        const onListenerError = vi.fn()
+        const emitter = new TypedEventEmitter<TestEvents>({ onListenerError })
+        const after = vi.fn()
+        emitter.on('pong', async () => { throw new Error('boom') })
+        emitter.on('pong', after)
+
+        await emitter.emit('pong', 'x')
+        expect(onListenerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }), 'pong')
+        expect(after).toHaveBeenCalledWith('x')
+    })
+})
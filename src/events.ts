@@ -0,0 +1,96 @@
+/**
+ * Typed async event emitter
+ *
+ * listeners run one after another in priority order and are awaited, so a
+ * subscriber that writes to a database finishes before the next one starts;
+ * a failing listener is reported and does not stop the others
+ */
+
+export type EventListener<T> = (payload: T) => void | Promise<void>
+
+export interface ListenerOptions {
+    /** Higher runs first; equal priorities run in registration order (default: 0) */
+    priority?: number
+    /** Remove the listener after its first call */
+    once?: boolean
+}
+
+export interface EventEmitterOptions {
+    /** Called when a listener throws or rejects (default: console.error) */
+    onListenerError?: (error: unknown, event: string) => void
+}
+
+interface Registration<T> {
+    listener: EventListener<T>
+    priority: number
+    once: boolean
+}
+
+export class TypedEventEmitter<Events extends object> {
+    private listeners = new Map<keyof Events, Array<Registration<any>>>()
+    private onListenerError: (error: unknown, event: string) => void
+
+    constructor(options: EventEmitterOptions = {}) {
+        this.onListenerError = options.onListenerError
+            ?? ((error, event) => console.error(`Listener for '${event}' failed:`, error))
+    }
+
+    /**
+     * Subscribe to an event; returns a function that unsubscribes
+     */
+    on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>, options: ListenerOptions = {}): () => void {
+        const registration: Registration<Events[E]> = {
+            listener,
+            priority: options.priority ?? 0,
+            once: options.once ?? false
+        }
+        const registered = this.listeners.get(event) ?? []
+        // Insert after every listener of the same or higher priority
+        const index = registered.findIndex(r => r.priority < registration.priority)
+        registered.splice(index === -1 ? registered.length : index, 0, registration)
+        this.listeners.set(event, registered)
+        return () => this.off(event, listener)
+    }
+
+    once<E extends keyof Events>(event: E, listener: EventListener<Events[E]>, options: Omit<ListenerOptions, 'once'> = {}): () => void {
+        return this.on(event, listener, { ...options, once: true })
+    }
+
+    /**
+     * Remove a listener; returns false if it was not subscribed
+     */
+    off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): boolean {
+        const registered = this.listeners.get(event)
+        const index = registered?.findIndex(r => r.listener === listener) ?? -1
+        if (index === -1) return false
+        registered!.splice(index, 1)
+        return true
+    }
+
+    listenerCount(event: keyof Events): number {
+        return this.listeners.get(event)?.length ?? 0
+    }
+
+    /**
+     * Call each listener in order and wait for it to settle
+     */
+    async emit<E extends keyof Events>(event: E, payload: Events[E]): Promise<void> {
+        const registered = this.listeners.get(event)
+        if (!registered || registered.length === 0) return
+
+        // Listeners added or removed while emitting take effect next time
+        for (const registration of [...registered]) {
+            if (registration.once) this.off(event, registration.listener)
+            try {
+                await registration.listener(payload)
+            } catch (error) {
+                this.onListenerError(error, String(event))
+            }
+        }
+    }
+
+    removeAllListeners(event?: keyof Events): void {
+        if (event === undefined) this.listeners.clear()
+        else this.listeners.delete(event)
+    }
+}
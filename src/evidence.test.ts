@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest'
+import { extractKeyTerms, sharedKeyTerms, buildMatchEvidence, justifyWithLLM, describeHunk } from './evidence.js'
+import { PRSenseDetector } from './prsense.js'
+
+const scores = { textSimilarity: 0.7, diffSimilarity: 0.95, fileSimilarity: 0.5, finalScore: 0.82 }
+
+const query = {
+    title: 'Fix token refresh race in session middleware',
+    description: 'Refresh the session token once when concurrent requests expire it',
+    files: ['src/session.ts', 'src/auth.ts']
+}
+const candidate = {
+    title: 'Session token refresh fires twice',
+    description: 'Concurrent requests both refresh the token',
+    files: ['src/auth.ts', 'src/session.ts', 'src/cache.ts']
+}
+
+describe('key terms', () => {
+    it('should drop stop words and short words', () => {
+        const terms = extractKeyTerms('Fix the token refresh for the API: token expiry')
+        expect([...terms.keys()]).toEqual(['token', 'refresh', 'api', 'expiry'])
+        expect(terms.get('token')).toBe(2)
+    })
+
+    it('should list shared terms by combined frequency', () => {
+        expect(sharedKeyTerms(`${query.title}\n${query.description}`, `${candidate.title}\n${candidate.description}`))
+            .toEqual(['refresh', 'token', 'session', 'concurrent', 'requests'])
+        expect(sharedKeyTerms('alpha beta', 'gamma delta')).toEqual([])
+    })
+})
+
+describe('buildMatchEvidence', () => {
+    it('should collect overlapping files, hunk pair and shared terms', () => {
+        const hunkMatch = { file: 'src/session.ts', matchedFile: 'src/session.ts', similarity: 0.97, lines: { start: 40, end: 52 }, matchedLines: { start: 38, end: 38 } }
+        const evidence = buildMatchEvidence(query, candidate, scores, hunkMatch)
+
+        expect(evidence.overlappingFiles).toEqual(['src/auth.ts', 'src/session.ts'])
+        expect(evidence.hunkMatch).toEqual(hunkMatch)
+        expect(evidence.justificationSource).toBe('template')
+        expect(evidence.justification).toContain('mostly on the code changes (95% similar)')
+        expect(evidence.justification).toContain('`src/session.ts` lines 40-52 and `src/session.ts` line 38, are 97% similar')
+        expect(evidence.justification).toContain('share: refresh, token, session')
+    })
+
+    it('should say so when nothing overlaps, and word exact copies plainly', () => {
+        const disjoint = buildMatchEvidence(query, { title: 'Other', description: '', files: [] }, scores)
+        expect(disjoint.overlappingFiles).toEqual([])
+        expect(disjoint.hunkMatch).toBeUndefined()
+        expect(disjoint.justification).toContain('no files in common')
+
+        expect(buildMatchEvidence(query, query, { ...scores, exact: true }).justification)
+            .toBe('Both PRs have the same title, description and diff.')
+        expect(describeHunk('a.ts')).toBe('`a.ts`')
+    })
+})
+
+describe('justifyWithLLM', () => {
+    it('should use the LLM text and fall back to the template on failure', async () => {
+        const evidence = buildMatchEvidence(query, candidate, scores)
+        const llm = { generate: vi.fn(async (_prompt: string) => '  Both PRs fix the same refresh race.  ') }
+
+        const written = await justifyWithLLM(llm, evidence, query, candidate, scores)
+        expect(written).toMatchObject({ justification: 'Both PRs fix the same refresh race.', justificationSource: 'llm' })
+        expect(llm.generate.mock.calls[0]![0]).toContain('src/auth.ts, src/session.ts')
+
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+        const failing = { generate: async (): Promise<string> => { throw new Error('offline') } }
+        expect(await justifyWithLLM(failing, evidence, query, candidate, scores)).toEqual(evidence)
+        expect(await justifyWithLLM({ generate: async () => '' }, evidence, query, candidate, scores)).toEqual(evidence)
+        warn.mockRestore()
+    })
+})
+
+describe('PRSenseDetector evidence', () => {
+    const embedder = {
+        embedText: async (text: string) => new Float32Array([text.length % 7, 1, 1]),
+        embedDiff: async (diff: string) => new Float32Array([1, diff.length % 5, 1])
+    }
+    const hunk = '@@ -10,2 +10,3 @@\n-const a = 1\n+const a = 2\n+const b = 3'
+    const original = { prId: 1, ...candidate, diff: `--- a/src/session.ts\n+++ b/src/session.ts\n${hunk}` }
+    const copy = { prId: 2, ...query, diff: `--- a/src/session.ts\n+++ b/src/session.ts\n${hunk.replace('-10,2 +10,3', '-20,2 +20,3')}` }
+
+    it('should attach evidence only when asked to', async () => {
+        const llm = { generate: vi.fn(async () => 'Same fix.') }
+        const detector = new PRSenseDetector({ embedder, possibleThreshold: 0.1, duplicateThreshold: 0.2, llm })
+        await detector.check(original)
+
+        const plain = await detector.checkDetailed(copy, { dryRun: true })
+        expect(plain.type).toBe('DUPLICATE')
+        expect(plain.type !== 'UNIQUE' && plain.evidence).toBeFalsy()
+        expect(llm.generate).not.toHaveBeenCalled()
+
+        const explained = await detector.checkDetailed(copy, { dryRun: true, explain: true })
+        if (explained.type === 'UNIQUE') throw new Error('expected a match')
+        expect(explained.evidence).toMatchObject({
+            overlappingFiles: ['src/auth.ts', 'src/session.ts'],
+            hunkMatch: { file: 'src/session.ts', lines: { start: 20, end: 21 }, matchedLines: { start: 10, end: 11 } },
+            justification: 'Same fix.',
+            justificationSource: 'llm'
+        })
+
+        // check() keeps its compact result
+        expect(await detector.check(copy, { dryRun: true, explain: true })).not.toHaveProperty('evidence')
+    })
+})
@@ -0,0 +1,193 @@
+/**
+ * Match evidence
+ *
+ * the concrete overlap behind a score - shared files, the closest hunk pair,
+ * shared key terms - plus a short justification reviewers can argue with
+ */
+
+import type { HunkLines, HunkMatch } from './diffHunks.js'
+import type { LLMProvider } from './rag/queryEngine.js'
+
+/**
+ * Why two PRs matched
+ */
+export interface MatchEvidence {
+    /** Files both PRs change (the intersection behind fileSimilarity), sorted */
+    overlappingFiles: string[]
+    /** Most similar hunk pair, when both PRs have per-hunk vectors */
+    hunkMatch?: HunkMatch
+    /** Key terms found in both PRs' titles/descriptions, most frequent first */
+    sharedTerms: string[]
+    /** One-paragraph explanation of the match */
+    justification: string
+    /** 'llm' when an LLMProvider wrote the justification, 'template' otherwise */
+    justificationSource: 'llm' | 'template'
+}
+
+/**
+ * One side of a matched pair
+ */
+export interface EvidenceSide {
+    title: string
+    description: string
+    files: string[]
+}
+
+/**
+ * Signals the match was scored on, used to word the justification
+ */
+export interface EvidenceScores {
+    textSimilarity: number
+    diffSimilarity: number
+    fileSimilarity: number
+    finalScore: number
+    /** Identical title, description and diff */
+    exact?: boolean
+}
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from', 'has', 'have', 'if', 'in',
+    'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we',
+    'when', 'which', 'will', 'with', 'pr', 'fix', 'fixes', 'fixed', 'add', 'adds', 'added', 'update',
+    'updates', 'updated', 'change', 'changes', 'changed', 'use', 'uses', 'now', 'also', 'should'
+])
+
+const MAX_SHARED_TERMS = 8
+
+/**
+ * Lowercased terms of a title/description: words of three or more
+ * characters, stop words dropped, with their counts
+ */
+export function extractKeyTerms(text: string): Map<string, number> {
+    const terms = new Map<string, number>()
+    for (const word of text.toLowerCase().match(/[a-z][a-z0-9_-]*[a-z0-9]/g) ?? []) {
+        if (word.length < 3 || STOP_WORDS.has(word)) continue
+        terms.set(word, (terms.get(word) ?? 0) + 1)
+    }
+    return terms
+}
+
+/**
+ * Terms present in both texts, most frequent (combined) first
+ */
+export function sharedKeyTerms(a: string, b: string, limit: number = MAX_SHARED_TERMS): string[] {
+    const termsA = extractKeyTerms(a)
+    const termsB = extractKeyTerms(b)
+    return [...termsA.keys()]
+        .filter(term => termsB.has(term))
+        .sort((x, y) => (termsA.get(y)! + termsB.get(y)!) - (termsA.get(x)! + termsB.get(x)!) || x.localeCompare(y))
+        .slice(0, limit)
+}
+
+/**
+ * Collect the evidence for a pair and word a template justification
+ */
+export function buildMatchEvidence(
+    query: EvidenceSide,
+    candidate: EvidenceSide,
+    scores: EvidenceScores,
+    hunkMatch?: HunkMatch
+): MatchEvidence {
+    const candidateFiles = new Set(candidate.files)
+    const evidence = {
+        overlappingFiles: [...new Set(query.files)].filter(f => candidateFiles.has(f)).sort(),
+        ...(hunkMatch ? { hunkMatch } : {}),
+        sharedTerms: sharedKeyTerms(
+            `${query.title}\n${query.description}`,
+            `${candidate.title}\n${candidate.description}`
+        )
+    }
+    return { ...evidence, justification: templateJustification(evidence, scores), justificationSource: 'template' }
+}
+
+/**
+ * Plain-language justification built from the evidence alone
+ */
+export function templateJustification(
+    evidence: Pick<MatchEvidence, 'overlappingFiles' | 'hunkMatch' | 'sharedTerms'>,
+    scores: EvidenceScores
+): string {
+    if (scores.exact) {
+        return 'Both PRs have the same title, description and diff.'
+    }
+
+    const sentences: string[] = []
+    const signals: Array<[string, number]> = [
+        ['description', scores.textSimilarity],
+        ['code changes', scores.diffSimilarity],
+        ['changed files', scores.fileSimilarity]
+    ]
+    const [strongest, similarity] = signals.sort((a, b) => b[1] - a[1])[0]!
+    sentences.push(`The match rests mostly on the ${strongest} (${percent(similarity)} similar).`)
+
+    const { overlappingFiles, hunkMatch, sharedTerms } = evidence
+    if (overlappingFiles.length > 0) {
+        const shown = overlappingFiles.slice(0, 3).map(f => `\`${f}\``).join(', ')
+        const more = overlappingFiles.length > 3 ? ` and ${overlappingFiles.length - 3} more` : ''
+        sentences.push(`Both change ${shown}${more}.`)
+    } else {
+        sentences.push('They change no files in common.')
+    }
+    if (hunkMatch) {
+        sentences.push(`Their closest hunks, ${describeHunk(hunkMatch.file, hunkMatch.lines)} and ${describeHunk(hunkMatch.matchedFile, hunkMatch.matchedLines)}, are ${percent(hunkMatch.similarity)} similar.`)
+    }
+    if (sharedTerms.length > 0) {
+        sentences.push(`The titles and descriptions share: ${sharedTerms.join(', ')}.`)
+    }
+    return sentences.join(' ')
+}
+
+/**
+ * Replace the template justification with one written by an LLM. Falls back
+ * to the template when the call fails or returns nothing.
+ */
+export async function justifyWithLLM(
+    llm: LLMProvider,
+    evidence: MatchEvidence,
+    query: EvidenceSide,
+    candidate: EvidenceSide,
+    scores: EvidenceScores
+): Promise<MatchEvidence> {
+    const prompt = `You are reviewing whether two pull requests are duplicates. In two or three sentences, explain to the PR author why they were matched. Cite only the evidence below and do not speculate.
+
+**New PR:** ${query.title}
+${truncate(query.description, 500)}
+
+**Matched PR:** ${candidate.title}
+${truncate(candidate.description, 500)}
+
+**Overall similarity:** ${percent(scores.finalScore)} (description ${percent(scores.textSimilarity)}, code ${percent(scores.diffSimilarity)}, files ${percent(scores.fileSimilarity)})
+**Files both change:** ${evidence.overlappingFiles.join(', ') || 'none'}
+**Closest hunks:** ${evidence.hunkMatch ? `${describeHunk(evidence.hunkMatch.file, evidence.hunkMatch.lines)} / ${describeHunk(evidence.hunkMatch.matchedFile, evidence.hunkMatch.matchedLines)} (${percent(evidence.hunkMatch.similarity)})` : 'n/a'}
+**Shared terms:** ${evidence.sharedTerms.join(', ') || 'none'}
+
+Justification:`
+
+    try {
+        const justification = (await llm.generate(prompt)).trim()
+        if (justification) {
+            return { ...evidence, justification, justificationSource: 'llm' }
+        }
+    } catch (error) {
+        console.warn('LLM justification failed, using template:', error)
+    }
+    return evidence
+}
+
+/**
+ * `src/auth.ts` lines 10-24
+ */
+export function describeHunk(file: string, lines?: HunkLines): string {
+    if (!lines) return `\`${file}\``
+    return lines.start === lines.end
+        ? `\`${file}\` line ${lines.start}`
+        : `\`${file}\` lines ${lines.start}-${lines.end}`
+}
+
+function percent(value: number): string {
+    return `${Math.round(value * 100)}%`
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}…` : text
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { FeedbackStore, parseFeedbackCommand } from './feedback.js'
+import { PRSenseDetector } from './prsense.js'
+import { InMemoryStorage } from './storage/memory.js'
+import { ValidationError } from './errors.js'
+
+const mockEmbedder = {
+    embedText: async (text: string) => new Float32Array([text.length / 100, text.charCodeAt(0) / 255, 0.5]),
+    embedDiff: async (diff: string) => new Float32Array([diff.length / 100, diff.charCodeAt(0) / 255, 0.8])
+}
+
+const original = {
+    prId: 1,
+    title: 'Fix login bug',
+    description: 'Standard login fix',
+    files: ['src/auth.ts'],
+    diff: '+ const login = true'
+}
+
+// Same signals as `original` but not an exact copy
+const lookalike = { ...original, prId: 2, diff: '+ const login = okay' }
+
+describe('parseFeedbackCommand', () => {
+    it('should parse verdicts with and without a target PR', () => {
+        expect(parseFeedbackCommand('@prsense-bot not-duplicate')).toEqual({ verdict: 'not-duplicate' })
+        expect(parseFeedbackCommand('Thanks! @PRSense-Bot duplicate #42')).toEqual({ verdict: 'duplicate', target: 42 })
+        expect(parseFeedbackCommand('not-duplicate')).toBeNull()
+        expect(parseFeedbackCommand('@prsense-bot help')).toBeNull()
+    })
+})
+
+describe('FeedbackStore', () => {
+    it('should key pairs order-independently and keep the latest verdict', () => {
+        const store = new FeedbackStore()
+        store.record({ prA: 2, prB: 1, verdict: 'duplicate', actor: 'a', timestamp: 10 })
+        store.record({ prA: 1, prB: 2, verdict: 'not-duplicate', actor: 'b', timestamp: 20 })
+        store.record({ prA: 2, prB: 1, verdict: 'duplicate', actor: 'c', timestamp: 5 })
+
+        expect(store.size).toBe(1)
+        expect(store.isRejected(2, 1)).toBe(true)
+        expect(store.get(1, 2)?.actor).toBe('b')
+    })
+})
+
+describe('PRSenseDetector feedback', () => {
+    it('should stop flagging a rejected pair and drop the graph edge', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await detector.check(original)
+        expect((await detector.check(lookalike)).type).toBe('DUPLICATE')
+        expect(detector.getDuplicateOf(2)).toBe(1)
+
+        await detector.recordFeedback({ prA: 2, prB: 1, verdict: 'not-duplicate', actor: 'maintainer' })
+
+        expect(detector.getDuplicateOf(2)).toBeUndefined()
+        expect(detector.getDuplicates(1)).not.toContain(2)
+        expect((await detector.check(lookalike, { dryRun: true })).type).toBe('UNIQUE')
+        // Exact copies of a rejected pair are not short-circuited either
+        expect((await detector.check({ ...original, prId: 2 }, { dryRun: true })).type).toBe('UNIQUE')
+    })
+
+    it('should persist feedback through storage and export/import', async () => {
+        const storage = new InMemoryStorage()
+        const detector = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await detector.check(original)
+        await detector.check(lookalike)
+        await detector.recordFeedback({ prA: 2, prB: 1, verdict: 'not-duplicate' })
+
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await reloaded.init()
+        expect(reloaded.getFeedback(1, 2)?.verdict).toBe('not-duplicate')
+
+        const imported = new PRSenseDetector({ embedder: mockEmbedder })
+        imported.importState(JSON.parse(JSON.stringify(detector.exportState())))
+        expect((await imported.check({ ...lookalike, prId: 2 }, { dryRun: true })).type).toBe('UNIQUE')
+    })
+
+    it('should export verdicts as labelled training data', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await detector.check(original)
+        await detector.check(lookalike)
+        await detector.recordFeedback({ prA: 2, prB: 1, verdict: 'not-duplicate', timestamp: 1 })
+        await detector.recordFeedback({ prA: 3, prB: 1, verdict: 'duplicate', timestamp: 2 })
+
+        const data = detector.exportTrainingData()
+        expect(data).toHaveLength(1) // PR 3 was never indexed
+        expect(data[0]).toMatchObject({ prA: 2, prB: 1, label: 0, fileSimilarity: 1 })
+        expect(data[0]?.textSimilarity).toBeCloseTo(1)
+    })
+
+    it('should reject invalid feedback', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await expect(detector.recordFeedback({ prA: 1, prB: 1, verdict: 'duplicate' })).rejects.toThrow(ValidationError)
+    })
+})
@@ -0,0 +1,98 @@
+/**
+ * Maintainer feedback on flagged PR pairs
+ *
+ * records "not a duplicate" overrides (and confirmations) so the detector
+ * stops re-flagging rejected pairs and so verdicts can be exported as
+ * labelled training data
+ */
+
+export type FeedbackVerdict = 'duplicate' | 'not-duplicate'
+
+export interface FeedbackRecord {
+    /** PR the verdict was given on (the flagged PR) */
+    prA: number
+    /** PR it was compared against */
+    prB: number
+    verdict: FeedbackVerdict
+    /** Who gave the verdict (username or 'api') */
+    actor: string
+    timestamp: number
+}
+
+/**
+ * A labelled pair with the similarity signals the detector scored it on
+ */
+export interface TrainingExample {
+    prA: number
+    prB: number
+    label: 0 | 1
+    textSimilarity: number
+    diffSimilarity: number
+    fileSimilarity: number
+    actor: string
+    timestamp: number
+}
+
+/**
+ * A parsed `@prsense-bot` command from a PR comment
+ */
+export interface FeedbackCommand {
+    verdict: FeedbackVerdict
+    /** Explicit PR the verdict refers to (`#123`), if given */
+    target?: number
+}
+
+const COMMAND_PATTERN = /@prsense-bot\s+(not-duplicate|duplicate)\b(?:\s+#?(\d+))?/i
+
+/**
+ * Parse `@prsense-bot not-duplicate [#123]` / `@prsense-bot duplicate [#123]`
+ */
+export function parseFeedbackCommand(body: string): FeedbackCommand | null {
+    const match = COMMAND_PATTERN.exec(body)
+    if (!match) return null
+
+    const verdict = match[1]!.toLowerCase() as FeedbackVerdict
+    const target = match[2] !== undefined ? parseInt(match[2], 10) : undefined
+    return target !== undefined ? { verdict, target } : { verdict }
+}
+
+/**
+ * In-memory feedback store keyed by unordered PR pair; the latest verdict wins
+ */
+export class FeedbackStore {
+    private records = new Map<string, FeedbackRecord>()
+
+    get size(): number {
+        return this.records.size
+    }
+
+    record(feedback: FeedbackRecord): void {
+        const key = pairKey(feedback.prA, feedback.prB)
+        const existing = this.records.get(key)
+        if (existing && existing.timestamp > feedback.timestamp) return
+        this.records.set(key, feedback)
+    }
+
+    get(prA: number, prB: number): FeedbackRecord | undefined {
+        return this.records.get(pairKey(prA, prB))
+    }
+
+    /**
+     * true when a maintainer has rejected this pair as a duplicate
+     */
+    isRejected(prA: number, prB: number): boolean {
+        return this.get(prA, prB)?.verdict === 'not-duplicate'
+    }
+
+    all(): FeedbackRecord[] {
+        return Array.from(this.records.values()).sort((a, b) => a.timestamp - b.timestamp)
+    }
+
+    clear(): void {
+        this.records.clear()
+    }
+}
+
+function pairKey(a: number, b: number): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`
+}
@@ -5,6 +5,7 @@
  */
 
 import { PRSenseDetector } from './prsense.js'
+import type { CheckEvent, DetectorEvents, MemoryBudgetConfig } from './prsense.js'
 import { createOpenAIEmbedder } from './embedders/openai.js'
 import type { StorageBackend } from './storage/interface.js'
 import { createHmac, timingSafeEqual } from 'crypto'
@@ -16,9 +17,15 @@ import { DescriptionGenerator } from './descriptionGenerator.js'
 import { OllamaProvider } from './llm/ollama.js'
 import { NotificationManager } from './notifications/index.js'
 import type { DuplicateAlert, ImpactAlert } from './notifications/index.js'
-import { createProvider, type GitProvider, type ProviderType } from './providers/index.js'
+import { createProvider, type GitProvider, type PRCommentEvent, type PRStateEvent, type ProviderType } from './providers/index.js'
+import type { CandidateFilter, PRState } from './types.js'
+import { parseFeedbackCommand } from './feedback.js'
+import type { PRKey } from './prKey.js'
+import { describeHunk } from './evidence.js'
+import type { MatchEvidence } from './evidence.js'
 import { LinearProvider } from './providers/linear.js'
 import { JiraProvider } from './providers/jira.js'
+import { ConfigurationError } from './errors.js'
 
 // Cache providers to reduce redundant initializations
 const providers: Record<string, GitProvider> = {}
@@ -26,10 +33,12 @@ const providers: Record<string, GitProvider> = {}
 export function getProvider(type: ProviderType): GitProvider {
     if (!providers[type]) {
         const apiUrl = process.env[`${type.toUpperCase()}_API_URL`]
+        const botLogin = process.env.PRSENSE_BOT_LOGIN
         providers[type] = createProvider(type, {
             token: process.env[`${type.toUpperCase()}_TOKEN`] || '',
             webhookSecret: process.env[`${type.toUpperCase()}_WEBHOOK_SECRET`] || '',
-            ...(apiUrl ? { apiUrl } : {})
+            ...(apiUrl ? { apiUrl } : {}),
+            ...(botLogin ? { botLogin } : {})
         })
     }
     return providers[type]
@@ -39,11 +48,15 @@ export function getProvider(type: ProviderType): GitProvider {
 let detector: PRSenseDetector | null = null
 let storage: StorageBackend | null = null
 
+// Read once when the bot loads so a bad value fails the deploy, not every webhook
+const topK = topKFromEnv()
+
 export async function getDetector(): Promise<PRSenseDetector> {
     if (!detector) {
         let embedder
+        let llm: OllamaProvider | undefined
         if (process.env.OLLAMA_URL) {
-            embedder = new OllamaProvider({
+            embedder = llm = new OllamaProvider({
                 baseUrl: process.env.OLLAMA_URL,
                 ...(process.env.OLLAMA_MODEL ? { model: process.env.OLLAMA_MODEL } : {}),
                 ...(process.env.OLLAMA_EMBEDDING_MODEL ? { embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL } : {})
@@ -60,18 +73,110 @@ export async function getDetector(): Promise<PRSenseDetector> {
             await (storage as any).init()
         }
 
+        const candidateFilter = candidateFilterFromEnv()
+        // Evicted PRs need storage to live in
+        const memory = storage ? memoryBudgetFromEnv() : undefined
         detector = new PRSenseDetector({
             embedder,
             ...(storage ? { storage } : {}),
+            ...(candidateFilter ? { candidateFilter } : {}),
+            ...(memory ? { memory } : {}),
+            // Match evidence in comments is justified by the local LLM when asked to
+            ...(llm && process.env.PRSENSE_LLM_JUSTIFICATION === 'true' ? { llm } : {}),
             duplicateThreshold: parseFloat(process.env.DUPLICATE_THRESHOLD || '0.90'),
             possibleThreshold: parseFloat(process.env.POSSIBLE_THRESHOLD || '0.82')
         })
+        await subscribeIntegrations(detector)
         // Load persisted state from storage
         await detector.init()
     }
     return detector
 }
 
+/**
+ * The knowledge graph and duplicate alerts follow check outcomes through
+ * detector events, so every check path feeds them, not just the webhook
+ */
+async function subscribeIntegrations(detector: PRSenseDetector): Promise<void> {
+    const graph = await getKnowledgeGraph()
+    const recordInGraph = ({ pr, result, dryRun }: CheckEvent) => {
+        if (dryRun) return
+        graph.addPR(
+            pr.key,
+            pr.title,
+            pr.author || 'unknown',
+            pr.files,
+            result.type === 'DUPLICATE' ? result.originalKey ?? result.originalPr : undefined
+        )
+    }
+    detector.on('duplicate', recordInGraph)
+    detector.on('possible', recordInGraph)
+    detector.on('unique', recordInGraph)
+
+    const alert = async ({ pr, result, dryRun, context }: DetectorEvents['duplicate'] | DetectorEvents['possible']) => {
+        if (dryRun) return
+        const url = typeof context?.url === 'string' ? context.url : ''
+        const repo = pr.key.repo
+        const originalPrId = prNumber(result.originalKey, result.originalPr)
+        const duplicateAlert: DuplicateAlert = {
+            type: result.type,
+            prId: prNumber(pr.key, pr.prId),
+            prTitle: pr.title,
+            ...(url ? { prUrl: url } : {}),
+            originalPrId,
+            ...(url && sameRepo(result.originalKey, repo)
+                ? { originalPrUrl: `${url.replace(/\/\d+$/, '')}/${originalPrId}` }
+                : {}),
+            confidence: result.confidence,
+            repo: typeof context?.repo === 'string' ? context.repo : repo,
+        }
+        await getNotificationManager().notifyDuplicate(duplicateAlert)
+    }
+    detector.on('duplicate', alert)
+    detector.on('possible', alert)
+}
+
+/**
+ * PRSENSE_MATCH_STATES (e.g. `open,merged`) and PRSENSE_CLOSED_MAX_AGE_DAYS
+ * limit which indexed PRs new ones are matched against
+ */
+function candidateFilterFromEnv(): CandidateFilter | undefined {
+    const states = (process.env.PRSENSE_MATCH_STATES || '').split(',').map(s => s.trim()).filter(Boolean) as PRState[]
+    const maxAge = process.env.PRSENSE_CLOSED_MAX_AGE_DAYS
+    if (states.length === 0 && !maxAge) return undefined
+    return {
+        ...(states.length > 0 ? { states } : {}),
+        ...(maxAge ? { closedMaxAgeDays: parseFloat(maxAge) } : {})
+    }
+}
+
+/**
+ * PRSENSE_MEMORY_MAX_PRS and PRSENSE_MEMORY_MAX_IDLE_DAYS bound the PRs
+ * held in memory; the rest are read from storage when needed
+ */
+function memoryBudgetFromEnv(): MemoryBudgetConfig | undefined {
+    const maxPRs = process.env.PRSENSE_MEMORY_MAX_PRS
+    const maxIdleDays = process.env.PRSENSE_MEMORY_MAX_IDLE_DAYS
+    if (!maxPRs && !maxIdleDays) return undefined
+    return {
+        ...(maxPRs ? { maxPRs: parseInt(maxPRs, 10) } : {}),
+        ...(maxIdleDays ? { maxIdleDays: parseFloat(maxIdleDays) } : {})
+    }
+}
+
+/**
+ * TOP_K_MATCHES caps the related PRs listed in bot comments (default 5)
+ */
+function topKFromEnv(): number {
+    const raw = process.env.TOP_K_MATCHES
+    if (!raw) return 5
+    const value = Number(raw)
+    if (!Number.isInteger(value) || value < 1) {
+        throw new ConfigurationError(`TOP_K_MATCHES must be a positive integer, got '${raw}'`)
+    }
+    return value
+}
+
 // v1.1.0: Triage classifier
 let classifier: PRTriageClassifier | null = null
 function getClassifier(): PRTriageClassifier {
@@ -174,7 +279,23 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
         // Assuming your standard pipeline validates signature before calling handleWebhook, 
         // or we pass a raw payload string if needed. For now, trusting standard implementations.
 
-        // 2. Parse Webhook
+        // 2. Bot commands in PR comments (`@prsense-bot not-duplicate`)
+        const comment = provider.parseCommentEvent
+            ? await provider.parseCommentEvent(event, headers)
+            : null
+        if (comment) {
+            return await handleCommentCommand(provider, providerType, comment)
+        }
+
+        // 3. Close / merge / reopen keeps the index's lifecycle state current
+        const stateEvent = provider.parseStateEvent
+            ? await provider.parseStateEvent(event, headers)
+            : null
+        if (stateEvent) {
+            return await handleStateEvent(providerType, stateEvent)
+        }
+
+        // 4. Parse Webhook
         const pr = await provider.parseWebhook(event, headers)
         if (!pr) {
             return { status: 200, body: 'Not a relevant PR event' }
@@ -185,11 +306,10 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
         const impactScorer = getScorer()
         const rulesEngine = getRulesEngine()
         const notificationManager = getNotificationManager()
-        const knowledgeGraph = await getKnowledgeGraph()
 
         console.log(`Processing ${providerType} PR #${pr.id}: ${pr.title}`)
 
-        // 3. Fetch PR content
+        // 5. Fetch PR content
         const changedFiles = await provider.fetchFiles(pr.id, pr.baseRepo)
         const diff = await provider.fetchDiff(pr.id, pr.baseRepo)
 
@@ -240,13 +360,20 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
             }
         }
 
-        // Check for duplicates
-        const result = await detector.check({
-            prId: typeof pr.id === 'string' ? parseInt(pr.id, 10) : pr.id,
+        // Check for duplicates; PR numbers are only unique per repository
+        const key: PRKey = { provider: providerType, repo: pr.baseRepo, number: pr.id }
+        const result = await detector.checkDetailed({
+            key,
             title: pr.title,
             description: pr.description,
             files: changedFiles,
             diff,
+            ...(pr.author ? { author: pr.author } : {}),
+        }, {
+            topK,
+            explain: true,
+            // Read by the knowledge graph and alert subscribers
+            context: { url: pr.url, repo: pr.baseRepo, provider: providerType }
         })
 
         // v1.1.0: Smart Triage
@@ -264,15 +391,6 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
             impactScorer.recordPR(pr.author, changedFiles)
         }
 
-        // v1.1.0: Add to Knowledge Graph
-        knowledgeGraph.addPR(
-            pr.id,
-            pr.title,
-            pr.author || 'unknown',
-            changedFiles,
-            result.type === 'DUPLICATE' ? result.originalPr : undefined
-        )
-
         // v1.1.0: Impact Score
         const diffLines = diff.split('\n')
         const linesAdded = diffLines.filter((l: string) => l.startsWith('+')).length
@@ -369,21 +487,6 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
             }
         }
 
-        // v1.1.0: Send notifications
-        if (result.type === 'DUPLICATE' || result.type === 'POSSIBLE') {
-            const duplicateAlert: DuplicateAlert = {
-                type: result.type,
-                prId: typeof pr.id === 'string' ? parseInt(pr.id, 10) : pr.id,
-                prTitle: pr.title,
-                prUrl: pr.url,
-                originalPrId: result.originalPr,
-                originalPrUrl: `${pr.url.replace(/\/\d+$/, '')}/${result.originalPr}`,
-                confidence: result.confidence,
-                repo: pr.baseRepo,
-            }
-            await notificationManager.notifyDuplicate(duplicateAlert)
-        }
-
         // Notify for high-risk PRs
         if (impactResult.riskLevel === 'high' || impactResult.riskLevel === 'critical') {
             const impactAlert: ImpactAlert = {
@@ -409,8 +512,120 @@ export async function handleWebhook(event: any, headers: Record<string, string>,
     }
 }
 
+// ─── Feedback Commands ──────────────────────────────────────────
+
+/**
+ * Handle `@prsense-bot not-duplicate [#N]` / `@prsense-bot duplicate [#N]`:
+ * record the verdict, fix the attribution graph and relabel the PR
+ */
+async function handleCommentCommand(provider: GitProvider, providerType: ProviderType, comment: PRCommentEvent): Promise<{ status: number; body: string }> {
+    const command = parseFeedbackCommand(comment.body)
+    if (!command) {
+        return { status: 200, body: 'No PRSense command' }
+    }
+
+    // PRSENSE_MAINTAINERS extends the provider's own author/role check
+    const maintainers = (process.env.PRSENSE_MAINTAINERS || '').split(',').map(m => m.trim()).filter(Boolean)
+    if (!comment.authorized && !maintainers.includes(comment.author)) {
+        await provider.postComment(comment.prId, comment.repo,
+            `@${comment.author} only the PR author or a maintainer can override PRSense verdicts.`)
+        return { status: 200, body: 'Commenter not authorized' }
+    }
+
+    const detector = await getDetector()
+    const key: PRKey = { provider: providerType, repo: comment.repo, number: comment.prId }
+    const duplicateOf = detector.getDuplicateOf(key)
+    // `#N` in a command always means a PR of the same repository
+    const otherKey: PRKey | undefined = command.target !== undefined
+        ? { provider: providerType, repo: comment.repo, number: command.target }
+        : duplicateOf !== undefined ? detector.getKey(duplicateOf) : undefined
+    const prId = prNumber(key, 0)
+    const otherPr = otherKey ? prLabel(otherKey, 0, comment.repo) : undefined
+    if (!otherKey || otherPr === `#${prId}`) {
+        await provider.postComment(comment.prId, comment.repo,
+            `@${comment.author} I couldn't tell which PR you mean. Mention @prsense-bot followed by \`${command.verdict} #<pr-number>\`.`)
+        return { status: 200, body: 'No target PR' }
+    }
+
+    await detector.recordFeedback({ prA: key, prB: otherKey, verdict: command.verdict, actor: comment.author })
+    console.log(`Feedback from @${comment.author}: #${prId} vs ${otherPr} → ${command.verdict}`)
+
+    const [add, remove] = command.verdict === 'not-duplicate'
+        ? ['not-duplicate', ['duplicate', 'possible-duplicate']]
+        : ['duplicate', ['possible-duplicate', 'not-duplicate']]
+    if (provider.removeLabel) {
+        for (const label of remove) {
+            await provider.removeLabel(comment.prId, comment.repo, label)
+        }
+    }
+    await provider.addLabel(comment.prId, comment.repo, add)
+
+    const ack = command.verdict === 'not-duplicate'
+        ? `Thanks @${comment.author}. #${prId} is no longer marked as a duplicate of ${otherPr}, and PRSense won't flag this pair again.`
+        : `Thanks @${comment.author}. #${prId} is confirmed as a duplicate of ${otherPr}.`
+    await provider.postComment(comment.prId, comment.repo, ack)
+
+    return { status: 200, body: 'Feedback recorded' }
+}
+
+/**
+ * Record a PR lifecycle change on the detector
+ */
+async function handleStateEvent(providerType: ProviderType, event: PRStateEvent): Promise<{ status: number; body: string }> {
+    const detector = await getDetector()
+    const updated = await detector.updateState({ provider: providerType, repo: event.repo, number: event.prId }, event.state)
+    if (!updated) {
+        return { status: 200, body: 'PR not indexed' }
+    }
+    console.log(`PR #${event.prId} in ${event.repo} is now ${event.state}`)
+    return { status: 200, body: `PR state updated: ${event.state}` }
+}
+
 // ─── Formatting Helper ──────────────────────────────────────────
 
+/**
+ * PR number of a match: the key's number, or the detector id for unkeyed PRs
+ */
+function prNumber(key: PRKey | undefined, fallback: number): number {
+    if (!key) return fallback
+    return typeof key.number === 'number' ? key.number : parseInt(key.number, 10) || fallback
+}
+
+function sameRepo(key: PRKey | undefined, repo: string): boolean {
+    return !key || !key.repo || key.repo.toLowerCase() === repo.toLowerCase()
+}
+
+/**
+ * `#12` for PRs in `repo`, `acme/other#12` for PRs elsewhere
+ */
+function prLabel(key: PRKey | undefined, fallback: number, repo: string): string {
+    const number = key ? key.number : fallback
+    return sameRepo(key, repo) ? `#${number}` : `${key!.repo}#${number}`
+}
+
+/**
+ * Match evidence as a collapsed block, so the verdict stays readable
+ */
+function formatEvidence(evidence: MatchEvidence, original: string): string {
+    const rows = [
+        `- **Files both change:** ${evidence.overlappingFiles.length > 0 ? evidence.overlappingFiles.map(f => `\`${f}\``).join(', ') : 'none'}`,
+        ...(evidence.hunkMatch
+            ? [`- **Closest hunks:** ${describeHunk(evidence.hunkMatch.file, evidence.hunkMatch.lines)} ↔ ${describeHunk(evidence.hunkMatch.matchedFile, evidence.hunkMatch.matchedLines)} (${Math.round(evidence.hunkMatch.similarity * 100)}% similar)`]
+            : []),
+        `- **Shared terms:** ${evidence.sharedTerms.length > 0 ? evidence.sharedTerms.join(', ') : 'none'}`
+    ]
+    return `
+<details>
+<summary>Why this PR was matched with ${original}</summary>
+
+${evidence.justification}
+
+${rows.join('\n')}
+
+</details>
+`
+}
+
 /**
  * Format comment for PR (v1.1.0: includes triage + impact + rules)
  */
@@ -449,6 +664,16 @@ function formatComment(
 | Factor | Score | Details |
 |--------|-------|---------|
 ${impactResult.factors.map((f: any) => `| ${f.name} | ${f.score}/10 | ${f.description} |`).join('\n')}
+` : ''
+
+    // Related PRs (top-K matches) - only worth a table when there is more than one
+    const matches: Array<{ prId: number; key?: PRKey; type: string; confidence: number }> = result.matches || []
+    const relatedSection = matches.length > 1 ? `
+### 🔗 Related PRs
+
+| PR | Match | Confidence |
+|----|-------|------------|
+${matches.map(m => `| ${prLabel(m.key, m.prId, pr.baseRepo)} | ${m.type === 'DUPLICATE' ? 'Duplicate' : 'Possible duplicate'} | ${Math.round(m.confidence * 100)}% |`).join('\n')}
 ` : ''
 
     // v1.1.0: Triage section
@@ -457,26 +682,30 @@ ${impactResult.factors.map((f: any) => `| ${f.name} | ${f.score}/10 | ${f.descri
 ${triageResult.suggestedReviewers.length > 0 ? `**Suggested Reviewers:** ${triageResult.suggestedReviewers.map((r: any) => `@${r.author}`).join(', ')}` : ''}
 ` : ''
 
+    const original = prLabel(result.originalKey, result.originalPr, pr.baseRepo)
+    const evidenceSection = result.evidence ? formatEvidence(result.evidence, original) : ''
+
     if (result.type === 'DUPLICATE') {
         const confidence = Math.round(result.confidence * 100)
         body = `
 ## 🔍 Duplicate PR Detected
 
-This PR appears to be a **duplicate** of #${result.originalPr} (${confidence}% confidence).
+This PR appears to be a **duplicate** of ${original} (${confidence}% confidence).
+${evidenceSection}${relatedSection}
 ${rulesSection}
 ${impactSection}
 ${triageSection}
 ### What this means:
-- ✅ The original PR (#${result.originalPr}) already addresses this issue
-- 🔄 Please review #${result.originalPr} before proceeding
+- ✅ The original PR (${original}) already addresses this issue
+- 🔄 Please review ${original} before proceeding
 - 💬 If your PR adds something new, please explain the difference below
 
 ### Actions:
-- Review the [original PR](#${result.originalPr})
+- Review the [original PR](#${prNumber(result.originalKey, result.originalPr)})
 - Close this PR if it's truly a duplicate
 - Or explain how this PR differs
 
-**Not a duplicate?** Comment \`@prsense-bot not-duplicate\` to override.
+**Not a duplicate?** Mention @prsense-bot followed by \`not-duplicate\` to override.
 
 ---
 *Powered by [PRSense v1.1.0](https://github.com/prsense-labs/prsense) • [Report Issue](https://github.com/prsense-labs/prsense/issues)*
@@ -486,7 +715,8 @@ ${triageSection}
         body = `
 ## ℹ️ Similar PR Found
 
-This PR may be similar to #${result.originalPr} (${confidence}% confidence).
+This PR may be similar to ${original} (${confidence}% confidence).
+${evidenceSection}${relatedSection}
 ${rulesSection}
 ${impactSection}
 ${triageSection}
@@ -494,6 +724,8 @@ Please review to ensure this is not a duplicate.
 
 **Maintainers:** Manual review recommended before merging.
 
+**Not related?** Mention @prsense-bot followed by \`not-duplicate${sameRepo(result.originalKey, pr.baseRepo) ? ` ${original}` : ''}\` so PRSense stops flagging this pair.
+
 ---
 *Powered by [PRSense v1.1.0](https://github.com/prsense-labs/prsense)*
         `.trim()
@@ -3,6 +3,7 @@
  */
 
 export * from './types.js'
+export * from './prKey.js'
 export * from './prsense.js'
 export * from './embedders/openai.js'
 export * from './embedders/local.js'
@@ -10,15 +11,32 @@ export * from './embedders/onnx.js'
 export * from './storage/memory.js'
 export * from './storage/interface.js'
 export * from './storage/file.js'
+export * from './snapshot.js'
 export * from './storage/sqlite.js'
 export * from './storage/postgres.js'
 export * from './similarity.js'
+export * from './vectorIndex.js'
+export * from './quantization.js'
+export * from './scoringPool.js'
+export * from './minhash.js'
+export * from './diffHunks.js'
+export * from './bm25.js'
+export * from './searchQuery.js'
+export * from './diffNormalizer.js'
+export * from './evidence.js'
+export * from './events.js'
+export * from './keyedMutex.js'
+export * from './feedback.js'
+export * from './clusterReport.js'
+export * from './evaluate.js'
+export * from './calibration.js'
 export * from './jaccard.js'
 export * from './ranker.js'
 export * from './thresholds.js'
 export * from './bloomFilter.js'
 export * from './attributionGraph.js'
 export * from './embeddingPipeline.js'
+export * from './reembed.js'
 export * from './candidateRetriever.js'
 export * from './decisionEngine.js'
 export * from './embeddingCache.js'
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { KeyedMutex } from './keyedMutex.js'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('KeyedMutex', () => {
+    it('should run calls with one key in arrival order and other keys alongside', async () => {
+        const mutex = new KeyedMutex()
+        const calls: string[] = []
+        const task = (name: string, ms: number) => async () => {
+            calls.push(`start ${name}`)
+            await sleep(ms)
+            calls.push(`end ${name}`)
+            return name
+        }
+
+        const results = await Promise.all([
+            mutex.run('a', task('a1', 20)),
+            mutex.run('a', task('a2', 1)),
+            mutex.run('b', task('b1', 5))
+        ])
+
+        expect(results).toEqual(['a1', 'a2', 'b1'])
+        expect(calls).toEqual(['start a1', 'start b1', 'end b1', 'end a1', 'start a2', 'end a2'])
+        expect(mutex.size).toBe(0)
+    })
+
+    it('should release the key when a call throws', async () => {
+        const mutex = new KeyedMutex()
+        const failing = mutex.run('a', async () => { throw new Error('boom') })
+        const next = mutex.run('a', async () => 'next')
+        expect(mutex.isLocked('a')).toBe(true)
+
+        await expect(failing).rejects.toThrow('boom')
+        expect(await next).toBe('next')
+        expect(mutex.isLocked('a')).toBe(false)
+    })
+})
@@ -0,0 +1,43 @@
+/**
+ * Per-key async mutex
+ *
+ * calls with the same key run one at a time in the order they arrived;
+ * calls with different keys run concurrently. Keys with nothing queued
+ * are dropped, so the map only holds keys in use.
+ */
+
+export class KeyedMutex {
+    /** Tail of each key's queue: settles once the last queued call has */
+    private tails = new Map<string, Promise<void>>()
+
+    /**
+     * Keys with a call running or queued
+     */
+    get size(): number {
+        return this.tails.size
+    }
+
+    isLocked(key: string): boolean {
+        return this.tails.has(key)
+    }
+
+    /**
+     * Run fn once every earlier call with the same key has settled
+     */
+    async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+        const previous = this.tails.get(key) ?? Promise.resolve()
+        let release!: () => void
+        const done = new Promise<void>(resolve => { release = resolve })
+        const tail = previous.then(() => done)
+        this.tails.set(key, tail)
+
+        await previous
+        try {
+            return await fn()
+        } finally {
+            release()
+            // Nothing was queued behind this call
+            if (this.tails.get(key) === tail) this.tails.delete(key)
+        }
+    }
+}
@@ -1,3 +1,6 @@
+import { formatPRKey } from './prKey.js'
+import type { PRKey } from './prKey.js'
+
 export interface GraphNode {
     id: string
     type: 'pr' | 'file' | 'author'
@@ -12,6 +15,13 @@ export interface GraphEdge {
     timestamp?: number // For time-decay calculations
 }
 
+/**
+ * Node id of a PR: `pr:github:acme/api#12` for a key, `pr:12` for a bare id
+ */
+export function prNodeId(pr: string | number | PRKey): string {
+    return typeof pr === 'object' ? `pr:${formatPRKey(pr)}` : `pr:${pr}`
+}
+
 export class KnowledgeGraph {
     private nodes: Map<string, GraphNode> = new Map()
     private edges: GraphEdge[] = new Array()
@@ -76,15 +86,15 @@ export class KnowledgeGraph {
     /**
      * High-level method to ingest a PR into the graph
      */
-    public addPR(prId: string | number, title: string, author: string, files: string[], originalPrId?: string | number) {
-        const prNodeId = `pr:${prId}`
+    public addPR(prId: string | number | PRKey, title: string, author: string, files: string[], originalPrId?: string | number | PRKey) {
+        const prNode = prNodeId(prId)
         const authorNodeId = `author:${author}`
 
         // 1. Add PR Node
         this.addNode({
-            id: prNodeId,
+            id: prNode,
             type: 'pr',
-            attributes: { id: prId, title }
+            attributes: { ...prAttributes(prId), title }
         })
 
         // 2. Add Author Node
@@ -97,7 +107,7 @@ export class KnowledgeGraph {
         }
 
         // Edge: Author -> PR
-        this.addEdge({ source: authorNodeId, target: prNodeId, relation: 'authored', timestamp: Date.now() })
+        this.addEdge({ source: authorNodeId, target: prNode, relation: 'authored', timestamp: Date.now() })
 
         // 3. Add File Nodes and Edges
         for (const file of files) {
@@ -110,39 +120,39 @@ export class KnowledgeGraph {
                 })
             }
             // Edge: PR -> File
-            this.addEdge({ source: prNodeId, target: fileNodeId, relation: 'touches' })
+            this.addEdge({ source: prNode, target: fileNodeId, relation: 'touches' })
         }
 
         // 4. Duplicate relations
         if (originalPrId) {
-            const originalNodeId = `pr:${originalPrId}`
+            const originalNodeId = prNodeId(originalPrId)
             // If original isn't in graph yet, add a stub so we can link to it
             if (!this.nodes.has(originalNodeId)) {
                 this.addNode({
                     id: originalNodeId,
                     type: 'pr',
-                    attributes: { id: originalPrId, title: 'Unknown (stub)' }
+                    attributes: { ...prAttributes(originalPrId), title: 'Unknown (stub)' }
                 })
             }
-            this.addEdge({ source: prNodeId, target: originalNodeId, relation: 'duplicate_of' })
+            this.addEdge({ source: prNode, target: originalNodeId, relation: 'duplicate_of' })
         }
     }
 
     /**
      * Add an explicit expertise link (e.g. from parsing review comments)
      */
-    public addReviewer(prId: string | number, reviewerId: string, isApproval: boolean = false) {
+    public addReviewer(prId: string | number | PRKey, reviewerId: string, isApproval: boolean = false) {
         const authorNodeId = `author:${reviewerId}`
-        const prNodeId = `pr:${prId}`
+        const prNode = prNodeId(prId)
 
         if (!this.nodes.has(authorNodeId)) {
             this.addNode({ id: authorNodeId, type: 'author', attributes: { username: reviewerId } })
         }
-        if (!this.nodes.has(prNodeId)) return
+        if (!this.nodes.has(prNode)) return
 
         this.addEdge({
             source: authorNodeId,
-            target: prNodeId,
+            target: prNode,
             relation: 'reviewed',
             weight: isApproval ? 2 : 1,
             timestamp: Date.now()
@@ -305,3 +315,12 @@ export class KnowledgeGraph {
         }
     }
 }
+
+/**
+ * PR node attributes: the number as `id`, plus provider and repo for keys
+ */
+function prAttributes(pr: string | number | PRKey): Record<string, any> {
+    return typeof pr === 'object'
+        ? { id: pr.number, provider: pr.provider, repo: pr.repo }
+        : { id: pr }
+}
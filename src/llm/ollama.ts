@@ -8,7 +8,7 @@
  */
 
 import type { LLMProvider } from '../rag/queryEngine.js'
-import type { Embedder } from '../embeddingPipeline.js'
+import type { Embedder, EmbedderInfo } from '../embeddingPipeline.js'
 
 export interface OllamaConfig {
     /** 
@@ -29,6 +29,7 @@ export interface OllamaConfig {
 }
 
 export class OllamaProvider implements LLMProvider, Embedder {
+    readonly info: EmbedderInfo
     private baseUrl: string
     private model: string
     private embeddingModel: string
@@ -37,6 +38,7 @@ export class OllamaProvider implements LLMProvider, Embedder {
         this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/$/, '')
         this.model = config.model || 'llama3'
         this.embeddingModel = config.embeddingModel || 'nomic-embed-text'
+        this.info = { id: `ollama:${this.embeddingModel}`, version: '1' }
     }
 
     // --- LLMProvider Implementation ---
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest'
+import { MinHasher, LSHIndex, extractShingles, estimateJaccard } from './minhash.js'
+import { PRSenseDetector } from './prsense.js'
+import { ConfigurationError } from './errors.js'
+
+const diffA = `--- a/src/auth.ts
++++ b/src/auth.ts
+-const token = req.headers.auth
++const token = req.headers.authorization ?? ''
++if (!token) throw new Error('missing token')
++return verify(token, secret)`
+
+const diffB = `--- a/src/cache.ts
++++ b/src/cache.ts
++export function evict(key: string) {
++    store.delete(key)
++    metrics.increment('cache.evict')
++}`
+
+function countingEmbedder() {
+    const embed = async (text: string) => {
+        const arr = new Float32Array(3)
+        arr[0] = text.length / 100
+        arr[1] = text.charCodeAt(0) / 255
+        arr[2] = 0.5
+        return arr
+    }
+    return {
+        embedText: vi.fn(embed),
+        embedDiff: vi.fn(embed)
+    }
+}
+
+describe('extractShingles', () => {
+    it('should shingle changed lines and include file paths', () => {
+        const shingles = extractShingles(diffA, ['src/auth.ts'], 3)
+        expect(shingles.has('file:src/auth.ts')).toBe(true)
+        expect([...shingles].some(s => s.includes('+++'))).toBe(false)
+        expect([...shingles].every(s => s.startsWith('diff:') || s.startsWith('file:'))).toBe(true)
+    })
+})
+
+describe('MinHasher', () => {
+    it('should estimate similarity of identical and unrelated inputs', () => {
+        const hasher = new MinHasher()
+        const a = hasher.signatureFor(diffA, ['src/auth.ts'])!
+        const b = hasher.signatureFor(diffA, ['src/auth.ts'])!
+        const c = hasher.signatureFor(diffB, ['src/cache.ts'])!
+
+        expect(estimateJaccard(a, b)).toBe(1)
+        expect(estimateJaccard(a, c)).toBeLessThan(0.2)
+    })
+
+    it('should return null for empty input', () => {
+        expect(new MinHasher().signatureFor('', [])).toBeNull()
+    })
+
+    it('should reject invalid configuration', () => {
+        expect(() => new MinHasher({ bands: 0 })).toThrow(ConfigurationError)
+        expect(() => new MinHasher({ rows: 1.5 })).toThrow(ConfigurationError)
+    })
+})
+
+describe('LSHIndex', () => {
+    it('should find near duplicates and forget removed entries', () => {
+        const hasher = new MinHasher({ bands: 8, rows: 4 })
+        const index = new LSHIndex(8, 4)
+        index.add(1, hasher.signatureFor(diffA, ['src/auth.ts'])!)
+        index.add(2, hasher.signatureFor(diffB, ['src/cache.ts'])!)
+
+        const query = hasher.signatureFor(diffA + '\n+log(token)', ['src/auth.ts'])!
+        expect(index.query(query, 0.5)[0]?.prId).toBe(1)
+
+        index.remove(1)
+        expect(index.query(query, 0.5)).toEqual([])
+    })
+
+    it('should round-trip through export/import and reject other layouts', () => {
+        const hasher = new MinHasher({ bands: 4, rows: 2 })
+        const index = new LSHIndex(4, 2)
+        const sig = hasher.signatureFor(diffA, [])!
+        index.add(7, sig)
+
+        const restored = new LSHIndex(4, 2)
+        expect(restored.import(JSON.parse(JSON.stringify(index.export())))).toBe(true)
+        expect(restored.query(sig)).toEqual([{ prId: 7, similarity: 1 }])
+
+        expect(new LSHIndex(8, 2).import(index.export())).toBe(false)
+        expect(() => new LSHIndex(8, 2).add(1, sig)).toThrow(ConfigurationError)
+    })
+})
+
+describe('PRSenseDetector LSH fast path', () => {
+    it('should embed only the text of a near-identical diff in a dry run', async () => {
+        const embedder = countingEmbedder()
+        const detector = new PRSenseDetector({
+            embedder,
+            lsh: { skipEmbeddingThreshold: 0.95 }
+        })
+
+        await detector.check({ prId: 1, title: 'Fix auth header', description: 'Use authorization', files: ['src/auth.ts'], diff: diffA })
+        const textCalls = embedder.embedText.mock.calls.length
+        const diffCalls = embedder.embedDiff.mock.calls.length
+
+        const result = await detector.checkDetailed(
+            { prId: 2, title: 'Auth fix (copy)', description: 'Same change', files: ['src/auth.ts'], diff: diffA },
+            { dryRun: true }
+        )
+
+        expect(embedder.embedText.mock.calls.length).toBe(textCalls + 1)
+        expect(embedder.embedText).toHaveBeenLastCalledWith('Auth fix (copy)\nSame change')
+        expect(embedder.embedDiff.mock.calls.length).toBe(diffCalls)
+        expect(result.type).toBe('DUPLICATE')
+        if (result.type === 'DUPLICATE') {
+            expect(result.originalPr).toBe(1)
+        }
+
+        const breakdown = result.breakdown!
+        expect(breakdown.estimated).toBe(true)
+        expect(breakdown.textSimilarity).toBeLessThan(1)
+        expect(breakdown.textContribution + breakdown.diffContribution + breakdown.fileContribution).toBeCloseTo(breakdown.finalScore)
+        expect(result.confidence).toBe(breakdown.finalScore)
+    })
+
+    it('should index a near-identical PR with its own vectors', async () => {
+        const embedder = countingEmbedder()
+        const detector = new PRSenseDetector({
+            embedder,
+            lsh: { skipEmbeddingThreshold: 0.95 }
+        })
+
+        await detector.check({ prId: 1, title: 'Fix auth header', description: 'Use authorization', files: ['src/auth.ts'], diff: diffA })
+        const result = await detector.checkDetailed({ prId: 2, title: 'Auth fix (copy)', description: 'Same change', files: ['src/auth.ts'], diff: diffA })
+
+        expect(result.type).toBe('DUPLICATE')
+        expect(result.breakdown?.estimated).toBeUndefined()
+        const records = detector.exportState().records
+        const original = records.find(r => r.prId === 1)!
+        const copy = records.find(r => r.prId === 2)!
+        expect(copy.textEmbedding).not.toEqual(original.textEmbedding)
+    })
+
+    it('should still embed when the fast path is not configured', async () => {
+        const embedder = countingEmbedder()
+        const detector = new PRSenseDetector({ embedder })
+
+        await detector.check({ prId: 1, title: 'Fix auth header', description: '', files: ['src/auth.ts'], diff: diffA })
+        const calls = embedder.embedText.mock.calls.length
+        await detector.check({ prId: 2, title: 'Fix the auth header', description: '', files: ['src/auth.ts'], diff: diffA })
+
+        expect(embedder.embedText.mock.calls.length).toBeGreaterThan(calls)
+        expect(detector.getStats().lshSignatures).toBe(2)
+    })
+
+    it('should persist signatures through export/import', async () => {
+        const detector = new PRSenseDetector({ embedder: countingEmbedder(), lsh: { skipEmbeddingThreshold: 0.95 } })
+        await detector.check({ prId: 1, title: 'Fix auth header', description: '', files: ['src/auth.ts'], diff: diffA })
+
+        const embedder = countingEmbedder()
+        const restored = new PRSenseDetector({ embedder, lsh: { skipEmbeddingThreshold: 0.95 } })
+        restored.importState(JSON.parse(JSON.stringify(detector.exportState())))
+
+        const result = await restored.checkDetailed({ prId: 2, title: 'Copy', description: '', files: ['src/auth.ts'], diff: diffA }, { dryRun: true })
+        expect(result.breakdown?.estimated).toBe(true)
+        expect(embedder.embedDiff).not.toHaveBeenCalled()
+    })
+
+    it('should reject a skip threshold below the duplicate threshold', () => {
+        expect(() => new PRSenseDetector({
+            embedder: countingEmbedder(),
+            lsh: { skipEmbeddingThreshold: 0.5 }
+        })).toThrow(ConfigurationError)
+    })
+})
@@ -0,0 +1,271 @@
+/**
+ * MinHash signatures + LSH banding for near-duplicate detection
+ *
+ * signatures estimate Jaccard similarity between shingle sets;
+ * banding turns that into a sub-linear candidate lookup
+ *
+ * P(candidate) = 1 - (1 - s^rows)^bands for true similarity s
+ */
+
+import { ConfigurationError } from './errors.js'
+
+export interface MinHashConfig {
+    /** Number of LSH bands (default: 16) */
+    bands?: number
+    /** Rows (hash functions) per band (default: 8) */
+    rows?: number
+    /** Tokens per diff shingle (default: 4) */
+    shingleSize?: number
+    /** Minimum estimated Jaccard for an LSH hit to count as a candidate (default: 0.5) */
+    minSimilarity?: number
+    /**
+     * Score a PR against its best LSH hit alone, skipping the ANN search,
+     * when the hit reaches this estimated Jaccard. Dry runs also skip the
+     * diff embedding and use the estimate as diff similarity. Off by default.
+     */
+    skipEmbeddingThreshold?: number
+}
+
+export interface NearDuplicate {
+    prId: number
+    similarity: number
+}
+
+export interface LSHState {
+    version: 1
+    bands: number
+    rows: number
+    signatures: Array<[prId: number, signature: number[]]>
+}
+
+const FNV_OFFSET = 0x811c9dc5
+const FNV_PRIME = 0x01000193
+
+/**
+ * 32-bit FNV-1a string hash
+ */
+function fnv1a(value: string): number {
+    let h = FNV_OFFSET
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i)
+        h = Math.imul(h, FNV_PRIME)
+    }
+    return h >>> 0
+}
+
+/**
+ * murmur3 finalizer - cheap, well-mixed 32-bit permutation
+ */
+function fmix32(h: number): number {
+    h ^= h >>> 16
+    h = Math.imul(h, 0x85ebca6b)
+    h ^= h >>> 13
+    h = Math.imul(h, 0xc2b2ae35)
+    h ^= h >>> 16
+    return h >>> 0
+}
+
+/**
+ * Extract the shingle set for a PR: token n-grams over changed diff lines
+ * plus one token per touched file path
+ */
+export function extractShingles(diff: string, files: string[], shingleSize = 4): Set<string> {
+    const shingles = new Set<string>()
+
+    const tokens: string[] = []
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++') || line.startsWith('---')) continue
+        if (!line.startsWith('+') && !line.startsWith('-')) continue
+        const body = line.slice(1).trim()
+        if (body.length === 0) continue
+        tokens.push(line[0]!)
+        tokens.push(...body.split(/\s+/))
+    }
+
+    if (tokens.length > 0 && tokens.length < shingleSize) {
+        shingles.add(`diff:${tokens.join(' ')}`)
+    }
+    for (let i = 0; i + shingleSize <= tokens.length; i++) {
+        shingles.add(`diff:${tokens.slice(i, i + shingleSize).join(' ')}`)
+    }
+
+    for (const file of files) {
+        shingles.add(`file:${file}`)
+    }
+
+    return shingles
+}
+
+export class MinHasher {
+    readonly bands: number
+    readonly rows: number
+    readonly shingleSize: number
+    private seeds: Uint32Array
+
+    constructor(config: Pick<MinHashConfig, 'bands' | 'rows' | 'shingleSize'> = {}) {
+        this.bands = config.bands ?? 16
+        this.rows = config.rows ?? 8
+        this.shingleSize = config.shingleSize ?? 4
+
+        if (!Number.isInteger(this.bands) || this.bands < 1 || this.bands > 512) {
+            throw new ConfigurationError('lsh.bands must be an integer between 1 and 512')
+        }
+        if (!Number.isInteger(this.rows) || this.rows < 1 || this.rows > 64) {
+            throw new ConfigurationError('lsh.rows must be an integer between 1 and 64')
+        }
+        if (!Number.isInteger(this.shingleSize) || this.shingleSize < 1) {
+            throw new ConfigurationError('lsh.shingleSize must be a positive integer')
+        }
+
+        // Deterministic per-function seeds so signatures are stable across processes
+        this.seeds = new Uint32Array(this.bands * this.rows)
+        for (let i = 0; i < this.seeds.length; i++) {
+            this.seeds[i] = fmix32(0x9e3779b9 + i * 0x7f4a7c15)
+        }
+    }
+
+    get numHashes(): number {
+        return this.seeds.length
+    }
+
+    /**
+     * Compute the MinHash signature of a shingle set.
+     * Returns null for empty sets (nothing to compare).
+     */
+    signature(shingles: Set<string>): Uint32Array | null {
+        if (shingles.size === 0) return null
+
+        const sig = new Uint32Array(this.seeds.length).fill(0xffffffff)
+        for (const shingle of shingles) {
+            const base = fnv1a(shingle)
+            for (let i = 0; i < this.seeds.length; i++) {
+                const h = fmix32(base ^ this.seeds[i]!)
+                if (h < sig[i]!) sig[i] = h
+            }
+        }
+        return sig
+    }
+
+    /**
+     * Signature for a PR's diff and file list
+     */
+    signatureFor(diff: string, files: string[]): Uint32Array | null {
+        return this.signature(extractShingles(diff, files, this.shingleSize))
+    }
+}
+
+/**
+ * Estimated Jaccard similarity from two signatures
+ */
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+    const len = Math.min(a.length, b.length)
+    if (len === 0) return 0
+    let equal = 0
+    for (let i = 0; i < len; i++) {
+        if (a[i] === b[i]) equal++
+    }
+    return equal / len
+}
+
+/**
+ * Banded LSH index over MinHash signatures
+ */
+export class LSHIndex {
+    private buckets: Array<Map<string, Set<number>>>
+    private signatures = new Map<number, Uint32Array>()
+
+    constructor(private bands: number, private rows: number) {
+        this.buckets = Array.from({ length: bands }, () => new Map())
+    }
+
+    get size(): number {
+        return this.signatures.size
+    }
+
+    has(prId: number): boolean {
+        return this.signatures.has(prId)
+    }
+
+    add(prId: number, signature: Uint32Array): void {
+        if (signature.length !== this.bands * this.rows) {
+            throw new ConfigurationError(`MinHash signature length ${signature.length} does not match ${this.bands}x${this.rows} LSH configuration`)
+        }
+        this.remove(prId)
+        this.signatures.set(prId, signature)
+        for (let band = 0; band < this.bands; band++) {
+            const key = this.bandKey(signature, band)
+            const bucket = this.buckets[band]!
+            let ids = bucket.get(key)
+            if (!ids) {
+                ids = new Set()
+                bucket.set(key, ids)
+            }
+            ids.add(prId)
+        }
+    }
+
+    remove(prId: number): boolean {
+        const signature = this.signatures.get(prId)
+        if (!signature) return false
+        this.signatures.delete(prId)
+        for (let band = 0; band < this.bands; band++) {
+            const key = this.bandKey(signature, band)
+            const bucket = this.buckets[band]!
+            const ids = bucket.get(key)
+            ids?.delete(prId)
+            if (ids && ids.size === 0) bucket.delete(key)
+        }
+        return true
+    }
+
+    /**
+     * Return PRs sharing at least one band, ranked by estimated similarity
+     */
+    query(signature: Uint32Array, minSimilarity = 0): NearDuplicate[] {
+        if (signature.length !== this.bands * this.rows) return []
+
+        const seen = new Set<number>()
+        for (let band = 0; band < this.bands; band++) {
+            const ids = this.buckets[band]!.get(this.bandKey(signature, band))
+            if (!ids) continue
+            for (const id of ids) seen.add(id)
+        }
+
+        const results: NearDuplicate[] = []
+        for (const prId of seen) {
+            const similarity = estimateJaccard(signature, this.signatures.get(prId)!)
+            if (similarity >= minSimilarity) results.push({ prId, similarity })
+        }
+        return results.sort((a, b) => b.similarity - a.similarity)
+    }
+
+    clear(): void {
+        this.signatures.clear()
+        this.buckets = Array.from({ length: this.bands }, () => new Map())
+    }
+
+    export(): LSHState {
+        return {
+            version: 1,
+            bands: this.bands,
+            rows: this.rows,
+            signatures: Array.from(this.signatures.entries()).map(([id, sig]) => [id, Array.from(sig)])
+        }
+    }
+
+    /**
+     * Import signatures; snapshots built with a different band layout are ignored
+     */
+    import(state: LSHState): boolean {
+        if (state.bands !== this.bands || state.rows !== this.rows) return false
+        for (const [prId, sig] of state.signatures) {
+            this.add(prId, Uint32Array.from(sig))
+        }
+        return true
+    }
+
+    private bandKey(signature: Uint32Array, band: number): string {
+        const start = band * this.rows
+        return signature.subarray(start, start + this.rows).join(',')
+    }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { PRKeyRegistry, normalizePRKey, formatPRKey, parsePRKey, prKeyEquals, legacyPRKey } from './prKey.js'
+import { ValidationError } from './errors.js'
+
+describe('PR keys', () => {
+    it('normalizes provider, repo and numeric strings', () => {
+        expect(normalizePRKey({ provider: 'GitHub', repo: 'Acme/API ', number: '12' }))
+            .toEqual({ provider: 'github', repo: 'acme/api', number: 12 })
+        expect(normalizePRKey({ provider: 'bitbucket', repo: 'acme/api', number: 'abc-1' }).number).toBe('abc-1')
+        expect(prKeyEquals({ provider: 'github', repo: 'Acme/Api', number: 12 }, { provider: 'GITHUB', repo: 'acme/api', number: '12' })).toBe(true)
+
+        expect(() => normalizePRKey({ provider: '', repo: 'acme/api', number: 1 })).toThrow(ValidationError)
+        expect(() => normalizePRKey({ provider: 'github', repo: 'acme#api', number: 1 })).toThrow('key.repo')
+        expect(() => normalizePRKey({ provider: 'github', repo: 'acme/api', number: 0 })).toThrow('key.number')
+    })
+
+    it('formats and parses provider:repo#number', () => {
+        const key = { provider: 'gitlab', repo: 'group/sub/project', number: 7 }
+        expect(formatPRKey(key)).toBe('gitlab:group/sub/project#7')
+        expect(parsePRKey('gitlab:group/sub/project#7')).toEqual(key)
+        expect(formatPRKey(legacyPRKey(3))).toBe('local:#3')
+        expect(parsePRKey('local:#3')).toEqual(legacyPRKey(3))
+        expect(() => parsePRKey('acme/api#7')).toThrow('Not a PR key')
+    })
+
+    it('allocates the PR number as id unless it is taken', () => {
+        const registry = new PRKeyRegistry()
+        const api = { provider: 'github', repo: 'acme/api', number: 12 }
+        const web = { provider: 'github', repo: 'acme/web', number: 12 }
+
+        expect(registry.allocate(api)).toBe(12)
+        expect(registry.peek(web)).toBe(13)
+        expect(registry.size).toBe(1)
+        expect(registry.allocate(web)).toBe(13)
+        expect(registry.allocate({ ...api, repo: 'ACME/api' })).toBe(12)
+        expect(registry.allocate({ provider: 'bitbucket', repo: 'acme/api', number: 'x' })).toBe(14)
+        expect(registry.allocate({ provider: 'github', repo: 'acme/docs', number: 1 }, 40)).toBe(40)
+        expect(registry.keyOf(13)).toEqual(web)
+
+        registry.delete(12)
+        expect(registry.idOf(api)).toBeUndefined()
+        expect(registry.allocate(web)).toBe(13)
+    })
+
+    it('set() replaces earlier bindings of the id and the key', () => {
+        const registry = new PRKeyRegistry()
+        const key = { provider: 'github', repo: 'acme/api', number: 5 }
+        registry.set(5, key)
+        registry.set(9, key)
+        expect(registry.keyOf(5)).toBeUndefined()
+        expect(registry.idOf(key)).toBe(9)
+
+        registry.set(9, legacyPRKey(9))
+        expect(registry.idOf(key)).toBeUndefined()
+        expect(registry.size).toBe(1)
+    })
+})
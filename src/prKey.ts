@@ -0,0 +1,172 @@
+/**
+ * Repository-scoped PR identifiers
+ *
+ * a PR number is only unique within one repository on one provider, so PRs
+ * are keyed by (provider, repo, number); the detector maps each key to a
+ * numeric id for its indexes and storage rows
+ */
+
+import { ValidationError } from './errors.js'
+
+export interface PRKey {
+    /** Git provider, e.g. 'github', 'gitlab', 'bitbucket' ('local' for unkeyed input) */
+    provider: string
+    /** Repository path, e.g. 'acme/api' */
+    repo: string
+    /** PR number; GitLab iids and Bitbucket ids may arrive as strings */
+    number: number | string
+}
+
+/**
+ * A PR referenced either by its numeric detector id or by its key
+ */
+export type PRRef = number | PRKey
+
+/** Provider recorded for PRs checked without a key */
+export const LOCAL_PROVIDER = 'local'
+
+/**
+ * Key given to PRs checked by numeric prId alone, and to rows stored
+ * before keys existed
+ */
+export function legacyPRKey(prId: number): PRKey {
+    return { provider: LOCAL_PROVIDER, repo: '', number: prId }
+}
+
+/**
+ * Canonical form: provider and repo lowercased (both are case-insensitive
+ * on every supported host), numeric strings turned into numbers
+ */
+export function normalizePRKey(key: PRKey): PRKey {
+    if (!key || typeof key !== 'object') {
+        throw new ValidationError('key must be an object with provider, repo and number', 'key')
+    }
+    if (typeof key.provider !== 'string' || key.provider.trim().length === 0 || /[:#]/.test(key.provider)) {
+        throw new ValidationError('key.provider must be a non-empty string without ":" or "#"', 'key')
+    }
+    if (typeof key.repo !== 'string' || key.repo.includes('#') || key.repo.length > 500) {
+        throw new ValidationError('key.repo must be a string without "#"', 'key')
+    }
+
+    let number = key.number
+    if (typeof number === 'string') {
+        number = number.trim()
+        if (/^[1-9]\d*$/.test(number) && Number.isSafeInteger(Number(number))) number = Number(number)
+    }
+    if (typeof number === 'number' ? !Number.isSafeInteger(number) || number <= 0 : number.length === 0 || number.length > 100) {
+        throw new ValidationError('key.number must be a positive integer or a non-empty string', 'key')
+    }
+
+    return {
+        provider: key.provider.trim().toLowerCase(),
+        repo: key.repo.trim().toLowerCase(),
+        number
+    }
+}
+
+/**
+ * `provider:repo#number`, e.g. `github:acme/api#12`
+ */
+export function formatPRKey(key: PRKey): string {
+    const normalized = normalizePRKey(key)
+    return `${normalized.provider}:${normalized.repo}#${normalized.number}`
+}
+
+/**
+ * Inverse of formatPRKey
+ */
+export function parsePRKey(text: string): PRKey {
+    const match = /^([^:#]+):([^#]*)#(.+)$/.exec(text.trim())
+    if (!match) {
+        throw new ValidationError(`Not a PR key (expected provider:repo#number): ${text}`, 'key')
+    }
+    return normalizePRKey({ provider: match[1]!, repo: match[2]!, number: match[3]! })
+}
+
+export function prKeyEquals(a: PRKey, b: PRKey): boolean {
+    return formatPRKey(a) === formatPRKey(b)
+}
+
+/**
+ * Two-way map between PR keys and numeric detector ids
+ *
+ * a new key takes its own PR number as id when that id is free, so unkeyed
+ * and single-repo setups keep ids equal to PR numbers; colliding keys get the
+ * next unused id
+ */
+export class PRKeyRegistry {
+    private ids = new Map<string, number>()
+    private keys = new Map<number, PRKey>()
+    private nextId = 1
+
+    get size(): number {
+        return this.keys.size
+    }
+
+    /**
+     * Id of a known key, or undefined
+     */
+    idOf(key: PRKey): number | undefined {
+        return this.ids.get(formatPRKey(key))
+    }
+
+    keyOf(id: number): PRKey | undefined {
+        return this.keys.get(id)
+    }
+
+    /**
+     * Id for a key, allocating one if the key is new. `preferred` is tried
+     * before the key's own number.
+     */
+    allocate(key: PRKey, preferred?: number): number {
+        const id = this.peek(key, preferred)
+        if (!this.keys.has(id)) this.set(id, key)
+        return id
+    }
+
+    /**
+     * The id allocate() would return, without binding it (dry runs)
+     */
+    peek(key: PRKey, preferred?: number): number {
+        const existing = this.idOf(key)
+        if (existing !== undefined) return existing
+
+        const { number } = normalizePRKey(key)
+        const candidates = [preferred, typeof number === 'number' ? number : undefined]
+        const free = candidates.find(c => c !== undefined && Number.isSafeInteger(c) && c > 0 && !this.keys.has(c))
+        if (free !== undefined) return free
+
+        let id = this.nextId
+        while (this.keys.has(id)) id++
+        return id
+    }
+
+    /**
+     * Bind an id to a key (loading persisted state); replaces earlier bindings of either
+     */
+    set(id: number, key: PRKey): void {
+        const normalized = normalizePRKey(key)
+        const canonical = formatPRKey(normalized)
+        const previousId = this.ids.get(canonical)
+        if (previousId !== undefined && previousId !== id) this.keys.delete(previousId)
+        const previousKey = this.keys.get(id)
+        if (previousKey) this.ids.delete(formatPRKey(previousKey))
+
+        this.ids.set(canonical, id)
+        this.keys.set(id, normalized)
+        if (id >= this.nextId) this.nextId = id + 1
+    }
+
+    delete(id: number): void {
+        const key = this.keys.get(id)
+        if (!key) return
+        this.keys.delete(id)
+        this.ids.delete(formatPRKey(key))
+    }
+
+    clear(): void {
+        this.ids.clear()
+        this.keys.clear()
+        this.nextId = 1
+    }
+}
@@ -2,7 +2,7 @@
  * Bitbucket Provider Implementation (v1.1.0)
  */
 
-import type { GitProvider, PRMetadata, ProviderConfig } from './index.js'
+import type { GitProvider, PRCommentEvent, PRMetadata, PRStateEvent, ProviderConfig } from './index.js'
 import { ProviderError } from './index.js'
 
 export class BitbucketProvider implements GitProvider {
@@ -41,6 +41,45 @@ export class BitbucketProvider implements GitProvider {
         }
     }
 
+    async parseCommentEvent(event: any, headers: Record<string, string>): Promise<PRCommentEvent | null> {
+        if (headers['x-event-key'] !== 'pullrequest:comment_created') return null
+
+        const pr = event.pullrequest
+        const comment = event.comment
+        if (!pr || !comment) return null
+
+        // The bot's own comments quote its commands
+        const author = event.actor?.nickname || event.actor?.display_name || 'unknown'
+        if (event.actor?.type === 'app_user' || author === this.config.botLogin) return null
+
+        // Comment events carry no role information - only the PR author is trusted here
+        const actorId = event.actor?.account_id
+        return {
+            prId: pr.id,
+            repo: event.repository?.full_name || pr.destination?.repository?.full_name || '',
+            author,
+            body: comment.content?.raw || '',
+            authorized: actorId !== undefined && actorId === pr.author?.account_id
+        }
+    }
+
+    async parseStateEvent(event: any, headers: Record<string, string>): Promise<PRStateEvent | null> {
+        // Bitbucket has no reopen: a declined PR is re-created instead
+        const states: Record<string, PRStateEvent['state']> = {
+            'pullrequest:fulfilled': 'merged',
+            'pullrequest:rejected': 'closed'
+        }
+        const state = states[headers['x-event-key'] ?? '']
+        const pr = event.pullrequest
+        if (!state || !pr) return null
+
+        return {
+            prId: pr.id,
+            repo: event.repository?.full_name || pr.destination?.repository?.full_name || '',
+            state
+        }
+    }
+
     async fetchFiles(prId: number | string, repo: string): Promise<string[]> {
         const url = `${this.baseUrl}/repositories/${repo}/pullrequests/${prId}/diffstat`
 
@@ -100,6 +139,10 @@ export class BitbucketProvider implements GitProvider {
         console.warn('Bitbucket native labels not supported; skipping')
     }
 
+    async removeLabel(prId: number | string, repo: string, label: string): Promise<void> {
+        // No native PR labels on Bitbucket (see addLabel)
+    }
+
     async requestReviewers(prId: number | string, repo: string, reviewers: string[]): Promise<void> {
         // Note: Similar to GitLab, Bitbucket API expects account_ids for reviewers.
         console.warn('Bitbucket requestReviewers not fully supported yet (requires UUID lookup)')
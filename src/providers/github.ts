@@ -3,7 +3,7 @@
  */
 
 import { createHmac, timingSafeEqual } from 'crypto'
-import type { GitProvider, PRMetadata, ProviderConfig } from './index.js'
+import type { GitProvider, PRCommentEvent, PRMetadata, PRStateEvent, ProviderConfig } from './index.js'
 import { ProviderError } from './index.js'
 
 export class GitHubProvider implements GitProvider {
@@ -54,6 +54,49 @@ export class GitHubProvider implements GitProvider {
         }
     }
 
+    async parseCommentEvent(event: any, headers: Record<string, string>): Promise<PRCommentEvent | null> {
+        if (headers['x-github-event'] !== 'issue_comment') return null
+        if (event.action !== 'created') return null
+
+        // issue_comment fires for issues too; only PRs carry `issue.pull_request`
+        const issue = event.issue
+        const comment = event.comment
+        if (!issue?.pull_request || !comment) return null
+
+        // The bot's own comments quote its commands
+        const author = comment.user?.login || 'unknown'
+        if (comment.user?.type === 'Bot' || event.sender?.type === 'Bot' || comment.performed_via_github_app
+            || author === this.config.botLogin) return null
+
+        return {
+            prId: issue.number,
+            repo: event.repository?.full_name || '',
+            author,
+            body: comment.body || '',
+            authorized: ['OWNER', 'MEMBER', 'COLLABORATOR'].includes(comment.author_association)
+                || author === issue.user?.login
+        }
+    }
+
+    async parseStateEvent(event: any, headers: Record<string, string>): Promise<PRStateEvent | null> {
+        if (headers['x-github-event'] !== 'pull_request') return null
+
+        const pr = event.pull_request
+        if (!pr) return null
+
+        // GitHub reports merges as 'closed' with `merged: true`
+        let state: PRStateEvent['state']
+        if (event.action === 'closed') state = pr.merged ? 'merged' : 'closed'
+        else if (event.action === 'reopened') state = 'open'
+        else return null
+
+        return {
+            prId: pr.number,
+            repo: event.repository?.full_name || pr.base?.repo?.full_name || '',
+            state
+        }
+    }
+
     async fetchFiles(prId: number | string, repo: string): Promise<string[]> {
         const url = `${this.baseUrl}/repos/${repo}/pulls/${prId}/files`
         try {
@@ -123,6 +166,16 @@ export class GitHubProvider implements GitProvider {
         await this.post(url, { labels: [label] })
     }
 
+    async removeLabel(prId: number | string, repo: string, label: string): Promise<void> {
+        const url = `${this.baseUrl}/repos/${repo}/issues/${prId}/labels/${encodeURIComponent(label)}`
+        const response = await fetch(url, { method: 'DELETE', headers: this.getHeaders() })
+
+        // 404 = label was not on the PR
+        if (!response.ok && response.status !== 404) {
+            throw new ProviderError(`GitHub API DELETE error: ${response.status}`, response.status)
+        }
+    }
+
     async requestReviewers(prId: number | string, repo: string, reviewers: string[]): Promise<void> {
         if (reviewers.length === 0) return
         const url = `${this.baseUrl}/repos/${repo}/pulls/${prId}/requested_reviewers`
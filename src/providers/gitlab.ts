@@ -3,7 +3,7 @@
  */
 
 import { createHmac } from 'crypto'
-import type { GitProvider, PRMetadata, ProviderConfig } from './index.js'
+import type { GitProvider, PRCommentEvent, PRMetadata, PRStateEvent, ProviderConfig } from './index.js'
 import { ProviderError } from './index.js'
 
 export class GitLabProvider implements GitProvider {
@@ -45,6 +45,44 @@ export class GitLabProvider implements GitProvider {
         }
     }
 
+    async parseCommentEvent(event: any, headers: Record<string, string>): Promise<PRCommentEvent | null> {
+        if (headers['x-gitlab-event'] !== 'Note Hook') return null
+
+        const note = event.object_attributes
+        const mr = event.merge_request
+        if (!note || note.noteable_type !== 'MergeRequest' || !mr) return null
+
+        // The bot's own comments quote its commands
+        const author = event.user?.username || 'unknown'
+        if (author === this.config.botLogin) return null
+
+        // Note hooks carry no role information - only the MR author is trusted here
+        return {
+            prId: mr.iid,
+            repo: event.project?.path_with_namespace || '',
+            author,
+            body: note.note || '',
+            authorized: event.user?.id !== undefined && event.user.id === mr.author_id
+        }
+    }
+
+    async parseStateEvent(event: any, headers: Record<string, string>): Promise<PRStateEvent | null> {
+        if (headers['x-gitlab-event'] !== 'Merge Request Hook') return null
+
+        const objectAttributes = event.object_attributes
+        if (!objectAttributes) return null
+
+        const states: Record<string, PRStateEvent['state']> = { close: 'closed', merge: 'merged', reopen: 'open' }
+        const state = states[objectAttributes.action]
+        if (!state) return null
+
+        return {
+            prId: objectAttributes.iid,
+            repo: event.project?.path_with_namespace || '',
+            state
+        }
+    }
+
     async fetchFiles(prId: number | string, repo: string): Promise<string[]> {
         const projectId = encodeURIComponent(repo)
         const url = `${this.baseUrl}/projects/${projectId}/merge_requests/${prId}/changes`
@@ -127,6 +165,20 @@ export class GitLabProvider implements GitProvider {
         })
     }
 
+    async removeLabel(prId: number | string, repo: string, label: string): Promise<void> {
+        const projectId = encodeURIComponent(repo)
+        const url = `${this.baseUrl}/projects/${projectId}/merge_requests/${prId}`
+
+        await fetch(url, {
+            method: 'PUT',
+            headers: {
+                ...this.getHeaders(),
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ remove_labels: label })
+        })
+    }
+
     async requestReviewers(prId: number | string, repo: string, reviewers: string[]): Promise<void> {
         // Note: GitLab REST API requires user IDs for reviewers, not usernames.
         // Full implementation would need to lookup user IDs first.
@@ -17,6 +17,23 @@ export interface PRMetadata {
     updatedAt: string
 }
 
+/** A new comment on a PR (used for `@prsense-bot` commands) */
+export interface PRCommentEvent {
+    prId: number | string
+    repo: string
+    author: string
+    body: string
+    /** Commenter is the PR author or has a maintainer role on the repo */
+    authorized: boolean
+}
+
+/** A PR was closed, merged or reopened */
+export interface PRStateEvent {
+    prId: number | string
+    repo: string
+    state: 'open' | 'closed' | 'merged'
+}
+
 export interface PRFiles {
     files: string[]
     linesAdded: number
@@ -50,12 +67,29 @@ export interface GitProvider {
 
     /** Fetch all comments and review discussions from the PR */
     fetchComments?(prId: number | string, repo: string): Promise<import('../edm/comments.js').PRComment[]>
+
+    /**
+     * Extract a newly created PR comment from a webhook event payload.
+     * Returns null if the event is not a PR comment event.
+     */
+    parseCommentEvent?(event: any, headers: Record<string, string>): Promise<PRCommentEvent | null>
+
+    /**
+     * Extract a close, merge or reopen from a webhook event payload.
+     * Returns null if the event is not a PR lifecycle change.
+     */
+    parseStateEvent?(event: any, headers: Record<string, string>): Promise<PRStateEvent | null>
+
+    /** Remove a label (or tag) from the PR */
+    removeLabel?(prId: number | string, repo: string, label: string): Promise<void>
 }
 
 export interface ProviderConfig {
     token: string
     webhookSecret: string
     apiUrl?: string // For enterprise endpoints
+    /** Login the bot posts comments as; its own comments are never parsed as commands */
+    botLogin?: string
 }
 
 export class ProviderError extends Error {
@@ -1,9 +1,12 @@
 
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { PRSenseDetector } from './prsense.js'
-import type { PRInput } from './prsense.js'
+import type { PRInput, KeyedPRInput, BatchProgress } from './prsense.js'
+import { KeyedMutex } from './keyedMutex.js'
 import { withCache } from './embeddingCache.js'
 import { createCrossRepoDetector } from './crossRepo.js'
+import { InMemoryStorage } from './storage/memory.js'
+import { EmbeddingError, ConfigurationError } from './errors.js'
 import type { StorageBackend, PRRecord, CheckResult, AnalyticsData } from './storage/interface.js'
 
 // Mock Embedder
@@ -188,6 +191,256 @@ describe('PRSense Features', () => {
         expect(records[0]?.prId).toBe(samplePR.prId)
     })
 
+    it('Feature 1: Detailed checks save their result like check()', async () => {
+        const storage = new MockStorage()
+        const saveCheck = vi.spyOn(storage, 'saveCheck')
+        const storedDetector = new PRSenseDetector({ embedder: mockEmbedder, storage })
+
+        await storedDetector.checkDetailed(samplePR)
+        const result = await storedDetector.checkDetailed(duplicatePR)
+        await storedDetector.checkDetailed({ ...duplicatePR, prId: 103 }, { dryRun: true })
+
+        expect(saveCheck).toHaveBeenCalledTimes(2)
+        expect(saveCheck.mock.calls[1]![0]).toMatchObject({
+            prId: 102,
+            resultType: result.type,
+            confidence: result.confidence,
+            originalPrId: 101
+        })
+    })
+
+    it('Feature 1: Storage search adds to the diff and hunk candidates', async () => {
+        // Storage search ranks text only and finds nothing here
+        const storedDetector = new PRSenseDetector({ embedder: mockEmbedder, storage: new MockStorage() })
+        const search = vi.spyOn(MockStorage.prototype, 'search')
+        // Different text and diff, but a diff embedding like samplePR's
+        const sameDiff: PRInput = { ...samplePR, prId: 104, title: 'Rework sessions', description: 'Unrelated wording', diff: '+ let sessions = off' }
+
+        await storedDetector.check(samplePR)
+        const result = await storedDetector.checkDetailed(sameDiff, { topK: 5 })
+
+        expect(search).toHaveBeenCalled()
+        expect(result.matches?.map(m => m.prId)).toContain(samplePR.prId)
+        const inMemory = new PRSenseDetector({ embedder: mockEmbedder })
+        await inMemory.check(samplePR)
+        expect(result).toEqual(await inMemory.checkDetailed(sameDiff, { topK: 5 }))
+        search.mockRestore()
+    })
+
+    it('Exact-content duplicates short-circuit without embedding', async () => {
+        const spyEmbedder = {
+            embedText: vi.fn(mockEmbedder.embedText),
+            embedDiff: vi.fn(mockEmbedder.embedDiff)
+        }
+        const exactDetector = new PRSenseDetector({ embedder: spyEmbedder })
+
+        await exactDetector.check(samplePR)
+        spyEmbedder.embedText.mockClear()
+
+        const result = await exactDetector.checkDetailed({ ...samplePR, prId: 103 })
+
+        expect(result.type).toBe('DUPLICATE')
+        expect(result.confidence).toBe(1)
+        if (result.type === 'DUPLICATE') {
+            expect(result.originalPr).toBe(samplePR.prId)
+        }
+        expect(spyEmbedder.embedText).not.toHaveBeenCalled()
+        expect(exactDetector.getDuplicates(samplePR.prId)).toContain(103)
+    })
+
+    it('Exact-content index survives export/import and storage reload', async () => {
+        const storage = new MockStorage()
+        const source = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await source.check(samplePR)
+
+        const spyEmbedder = {
+            embedText: vi.fn(mockEmbedder.embedText),
+            embedDiff: vi.fn(mockEmbedder.embedDiff)
+        }
+
+        const imported = new PRSenseDetector({ embedder: spyEmbedder })
+        imported.importState(JSON.parse(JSON.stringify(source.exportState())))
+        expect((await imported.check({ ...samplePR, prId: 104 })).confidence).toBe(1)
+
+        const reloaded = new PRSenseDetector({ embedder: spyEmbedder, storage })
+        await reloaded.init()
+        expect((await reloaded.check({ ...samplePR, prId: 105 }, { dryRun: true })).confidence).toBe(1)
+
+        expect(spyEmbedder.embedText).not.toHaveBeenCalled()
+    })
+
+    it('Bloom filter: rebuilds from content hashes when imported state is from the fixed-size filter', async () => {
+        await detector.check(samplePR)
+        const state = JSON.parse(JSON.stringify(detector.exportState()))
+        state.bloom = Buffer.from(new Uint8Array(8192)).toString('base64')
+
+        const imported = new PRSenseDetector({ embedder: mockEmbedder, bloomFilter: { expectedItems: 50 } })
+        imported.importState(state)
+        expect((await imported.check({ ...samplePR, prId: 106 }, { dryRun: true })).confidence).toBe(1)
+
+        const stats = imported.getStats().bloomFilter
+        expect(stats).toMatchObject({ items: 1, slices: 1, expectedItems: 50, targetFalsePositiveRate: 0.01 })
+        expect(stats.estimatedFalsePositiveRate).toBeGreaterThan(0)
+        expect(stats.estimatedFalsePositiveRate).toBeLessThan(0.01)
+    })
+
+    it('removePR: drops a deleted PR and hands its cluster and content to the oldest duplicate', async () => {
+        const storage = new MockStorage()
+        const removing = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await removing.check(samplePR)
+        await removing.check({ ...samplePR, prId: 103 })
+        await removing.check({ ...samplePR, prId: 104 })
+        expect(removing.getDuplicates(samplePR.prId).sort()).toEqual([103, 104])
+
+        expect(await removing.removePR(samplePR.prId)).toBe(true)
+        expect(await removing.removePR(samplePR.prId)).toBe(false)
+        expect(await storage.get(samplePR.prId)).toBeNull()
+        expect(removing.getStats().totalPRs).toBe(2)
+        expect(removing.getDuplicates(103)).toEqual([104])
+
+        const result = await removing.checkDetailed({ ...samplePR, prId: 105 }, { dryRun: true })
+        expect(result.type).toBe('DUPLICATE')
+        if (result.type === 'DUPLICATE') expect(result.originalPr).toBe(103)
+    })
+
+    it('Top-K: returns ranked related PRs with their own breakdowns', async () => {
+        await detector.check(samplePR)
+        await detector.check({ ...samplePR, prId: 106, diff: '+ const login = okay' })
+        await detector.check({ prId: 107, title: 'Add billing export', description: 'CSV export', files: ['src/billing.ts'], diff: '+ export csv' })
+
+        // Not an exact copy, so the full scoring path runs
+        const query = { ...duplicatePR, diff: '+ const login = nope' }
+        const result = await detector.checkDetailed({ ...query, prId: 108 }, { dryRun: true, topK: 5 })
+
+        expect(result.matches).toBeDefined()
+        const matches = result.matches!
+        expect(matches.map(m => m.prId)).toEqual(expect.arrayContaining([101, 106]))
+        expect(matches.map(m => m.prId)).not.toContain(107)
+        for (let i = 1; i < matches.length; i++) {
+            expect(matches[i - 1]!.confidence).toBeGreaterThanOrEqual(matches[i]!.confidence)
+        }
+        expect(matches.every(m => m.breakdown.finalScore === m.confidence)).toBe(true)
+        if (result.type !== 'UNIQUE') {
+            expect(result.originalPr).toBe(matches[0]?.prId)
+        }
+
+        const limited = await detector.check({ ...query, prId: 109 }, { dryRun: true, topK: 1 })
+        expect(limited.matches).toHaveLength(1)
+        expect((await detector.check({ ...query, prId: 110 }, { dryRun: true })).matches).toBeUndefined()
+        await expect(detector.check(duplicatePR, { topK: 0 })).rejects.toThrow('topK')
+    })
+
+    it('Lifecycle: filters closed PRs and keeps revisions across pushes', async () => {
+        const storage = new InMemoryStorage()
+        const lifecycle = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await lifecycle.check(samplePR)
+        const createdAt = (await storage.get(samplePR.prId))!.createdAt
+
+        expect(await lifecycle.updateState(samplePR.prId, 'closed', Date.now() - 100 * 24 * 60 * 60 * 1000)).toBe(true)
+        expect(await lifecycle.updateState(999, 'merged')).toBe(false)
+        expect(lifecycle.getState(samplePR.prId)).toBe('closed')
+        expect((await storage.get(samplePR.prId))?.state).toBe('closed')
+
+        // Exact copy of a long-closed PR: skipped when filtered, matched otherwise
+        const copy = { ...samplePR, prId: 111 }
+        expect((await lifecycle.check(copy, { dryRun: true, filter: { closedMaxAgeDays: 90 } })).type).toBe('UNIQUE')
+        expect((await lifecycle.check(copy, { dryRun: true, filter: { states: ['open'] } })).type).toBe('UNIQUE')
+        expect((await lifecycle.check(copy, { dryRun: true })).type).toBe('DUPLICATE')
+
+        await lifecycle.updateState(samplePR.prId, 'open')
+        expect((await lifecycle.check(copy, { dryRun: true, filter: { states: ['open'] } })).type).toBe('DUPLICATE')
+        await expect(lifecycle.check(copy, { filter: { closedMaxAgeDays: -1 } })).rejects.toThrow('closedMaxAgeDays')
+
+        // A push re-indexes the PR as a new revision, keeping createdAt and state
+        await lifecycle.updateState(samplePR.prId, 'merged')
+        await lifecycle.check({ ...samplePR, diff: '+ const login = false' })
+        const record = await storage.get(samplePR.prId)
+        expect(record?.revision).toBe(2)
+        expect(record?.state).toBe('merged')
+        expect(record?.createdAt).toBe(createdAt)
+        expect((await lifecycle.getRevisions(samplePR.prId)).map(r => r.revision)).toEqual([1, 2])
+
+        // Re-checking unchanged content is not a new revision
+        await lifecycle.check({ ...samplePR, diff: '+ const login = false' })
+        expect((await storage.get(samplePR.prId))?.revision).toBe(2)
+
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await reloaded.init()
+        expect(reloaded.getState(samplePR.prId)).toBe('merged')
+    })
+
+    it('Keys: the same PR number in two repositories does not collide', async () => {
+        const storage = new InMemoryStorage()
+        const keyed = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        const api = { provider: 'github', repo: 'acme/api', number: 12 }
+        const web = { provider: 'github', repo: 'acme/web', number: 12 }
+
+        await keyed.check({ ...samplePR, prId: 12 })
+        const first = await keyed.check({ key: api, title: 'Add rate limiting', description: 'Token bucket', files: ['src/limit.ts'] })
+        const second = await keyed.check({ key: web, title: 'Fix login bug', description: 'Standard login fix', files: ['src/auth.ts', 'src/login.ts'], diff: '+ const login = true' })
+
+        expect(first.type).toBe('UNIQUE')
+        expect(second.type).toBe('DUPLICATE')
+        if (second.type !== 'DUPLICATE') return
+        expect(second.originalPr).toBe(12)
+        expect(second.originalKey).toEqual({ provider: 'local', repo: '', number: 12 })
+
+        const apiId = keyed.resolve(api)!
+        const webId = keyed.resolve(web)!
+        expect(new Set([12, apiId, webId]).size).toBe(3)
+        expect(keyed.getKey(webId)).toEqual(web)
+        expect(keyed.getDuplicateOf(web)).toBe(12)
+        expect((await storage.getByKey(api))?.prId).toBe(apiId)
+
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder, storage })
+        await reloaded.init()
+        expect(reloaded.resolve({ ...web, repo: 'Acme/Web' })).toBe(webId)
+        expect(await reloaded.updateState(api, 'merged')).toBe(true)
+        expect(reloaded.getState(apiId)).toBe('merged')
+    })
+
+    it('Events: reports outcomes, indexing, evictions and failures to listeners', async () => {
+        const events = new PRSenseDetector({ embedder: mockEmbedder, maxRevisions: 1 })
+        const seen: string[] = []
+        events.on('indexed', ({ pr, newRevision }) => { seen.push(`indexed ${pr.prId} ${newRevision}`) })
+        events.on('unique', ({ pr, dryRun }) => { seen.push(`unique ${pr.prId} ${dryRun}`) })
+        events.on('duplicate', ({ pr, result, context }) => { seen.push(`duplicate ${pr.prId} of ${result.originalPr} ${context?.url}`) })
+        events.on('possible', ({ pr }) => { seen.push(`possible ${pr.prId}`) })
+        events.on('evicted', ({ prId, revisions }) => { seen.push(`evicted ${prId} ${revisions.join(',')}`) })
+
+        await events.check(samplePR)
+        await events.check(duplicatePR, { context: { url: 'https://example.test/pr/102' } })
+        await events.check({ ...samplePR, diff: '+ const login = false' })
+        expect(seen).toEqual([
+            'indexed 101 true',
+            'unique 101 false',
+            'indexed 102 true',
+            'duplicate 102 of 101 https://example.test/pr/102',
+            'evicted 101 1',
+            'indexed 101 true',
+            'possible 101'
+        ])
+
+        const failing = new PRSenseDetector({
+            embedder: { ...mockEmbedder, embedText: async () => { throw new Error('rate limited') } },
+            storage: Object.assign(new MockStorage(), { search: async () => { throw new Error('down') } })
+        })
+        const embeddingFailed = vi.fn()
+        const storageError = vi.fn()
+        failing.on('embeddingFailed', embeddingFailed)
+        failing.on('storageError', storageError)
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+
+        await expect(failing.check(samplePR)).rejects.toThrow('rate limited')
+        expect(embeddingFailed).toHaveBeenCalledWith(expect.objectContaining({ prId: 101, error: expect.any(EmbeddingError) }))
+
+        const searching = new PRSenseDetector({ embedder: mockEmbedder, storage: Object.assign(new MockStorage(), { search: async () => { throw new Error('down') } }) })
+        searching.on('storageError', storageError)
+        await searching.check(samplePR)
+        expect(storageError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'search' }))
+        warn.mockRestore()
+    })
+
     it('Feature 8: Cross-repo detection', async () => {
         const crossDetector = createCrossRepoDetector({
             embedder: mockEmbedder
@@ -207,3 +460,339 @@ describe('PRSense Features', () => {
         expect(result.originalRepo).toBe('repo-A')
     })
 })
+
+describe('checkStream', () => {
+    /** Embeds titles starting with 'Slow' last, and records how many calls overlap */
+    function delayedEmbedder() {
+        const stats = { inFlight: 0, maxInFlight: 0, calls: 0 }
+        const embed = async (text: string) => {
+            stats.calls++
+            stats.inFlight++
+            stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight)
+            await new Promise(resolve => setTimeout(resolve, text.startsWith('Slow') ? 30 : 1))
+            stats.inFlight--
+            return mockEmbedder.embedText(text)
+        }
+        return { embedder: { embedText: embed, embedDiff: embed }, stats }
+    }
+
+    const prs: PRInput[] = [
+        { prId: 1, title: 'Slow cache eviction fix', description: 'Evict stale keys', files: ['src/cache.ts'] },
+        { prId: 2, title: 'Slow cache eviction fix', description: 'Evict stale keys', files: ['src/cache.ts'] },
+        { prId: 3, title: 'Add billing export', description: 'CSV export', files: ['src/billing.ts'] },
+        { prId: 4, title: 'Docs typo', description: 'Fix README', files: ['README.md'] }
+    ]
+
+    it('embeds ahead in parallel but matches each PR only against earlier ones', async () => {
+        const { embedder, stats } = delayedEmbedder()
+        const detector = new PRSenseDetector({ embedder })
+        const progress: number[] = []
+
+        const results = []
+        for await (const result of detector.checkStream(prs, { concurrency: 3, onProgress: p => progress.push(p.completed) })) {
+            results.push(result)
+        }
+
+        expect(results.map(r => r.prId)).toEqual([1, 2, 3, 4])
+        expect(results[0]!.result.type).toBe('UNIQUE')
+        expect(results[1]!.result).toMatchObject({ type: 'DUPLICATE', originalPr: 1 })
+        expect(stats.maxInFlight).toBeGreaterThan(1)
+        expect(progress).toEqual([1, 2, 3, 4])
+        expect(detector.getStats().totalPRs).toBe(4)
+    })
+
+    it('reports bad input as a failed result and keeps going', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        async function* source() {
+            yield prs[2]!
+            yield { prId: -1, title: '', description: '', files: [] } as PRInput
+            yield prs[3]!
+        }
+
+        const results = []
+        let last: BatchProgress | undefined
+        for await (const result of detector.checkStream(source(), { onProgress: p => { last = p } })) {
+            results.push(result)
+        }
+        expect(results.map(r => r.error === undefined)).toEqual([true, false, true])
+        expect(results[1]!.result).toEqual({ type: 'UNIQUE', confidence: 0 })
+        expect(last).toMatchObject({ completed: 3, failed: 1 })
+        expect(last).not.toHaveProperty('total')
+
+        await expect(detector.checkStream(prs, { concurrency: 0 }).next()).rejects.toThrow('concurrency')
+    })
+
+    it('stops reading input when aborted', async () => {
+        const { embedder } = delayedEmbedder()
+        const detector = new PRSenseDetector({ embedder })
+        const controller = new AbortController()
+        let read = 0
+        function* source() {
+            for (const pr of prs) {
+                read++
+                yield pr
+            }
+        }
+
+        const seen: number[] = []
+        await expect((async () => {
+            for await (const { prId } of detector.checkStream(source(), { concurrency: 1, signal: controller.signal })) {
+                seen.push(prId)
+                controller.abort(new Error('cancelled'))
+            }
+        })()).rejects.toThrow('cancelled')
+
+        expect(seen).toEqual([1])
+        expect(read).toBe(1)
+        expect(detector.getStats().totalPRs).toBe(1)
+    })
+})
+
+describe('memory budget', () => {
+    // One direction per topic
+    const topics = ['cache', 'login', 'docs']
+    const topicEmbedder = {
+        embedText: async (text: string) => new Float32Array(topics.map(topic => text.includes(topic) ? 1 : 0.01)),
+        embedDiff: async (diff: string) => new Float32Array(topics.map(topic => diff.includes(topic) ? 1 : 0.01))
+    }
+    const pr = (prId: number, topic: string, suffix = ''): PRInput => ({
+        prId,
+        title: `Update ${topic} handling${suffix}`,
+        description: `Changes to ${topic}`,
+        files: [`src/${topic}.ts`],
+        diff: `+ const ${topic} = ${prId}`
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('evicts the least recently used PRs and reads them back when a check needs them', async () => {
+        const storage = new InMemoryStorage()
+        const detector = new PRSenseDetector({ embedder: topicEmbedder, storage, memory: { maxPRs: 2 } })
+        const evicted: string[] = []
+        detector.on('evicted', ({ prId, reason }) => { evicted.push(`${prId} ${reason}`) })
+
+        await detector.check(pr(1, 'cache'))
+        await detector.check(pr(2, 'login'))
+        await detector.check(pr(3, 'docs'))
+        expect(evicted).toEqual(['1 memory-budget'])
+        expect(detector.getStats().memory).toMatchObject({ heldPRs: 2, evictedPRs: 1, maxPRs: 2, coldHits: 0 })
+
+        const result = await detector.check(pr(4, 'cache', ' again'))
+        expect(result.type).toBe('DUPLICATE')
+        if (result.type === 'DUPLICATE') expect(result.originalPr).toBe(1)
+
+        const stats = detector.getStats()
+        expect(stats.totalPRs).toBe(4)
+        expect(stats.memory).toMatchObject({ heldPRs: 2, evictedPRs: 2, evictions: 3, coldHits: 1 })
+        expect(stats.memory!.hotHitRate).toBeCloseTo(stats.memory!.hotHits / (stats.memory!.hotHits + 1))
+        expect(stats.memory!.coldHitRate).toBeCloseTo(1 - stats.memory!.hotHitRate!)
+    })
+
+    it('reads evicted LSH near-duplicates back for the fast path and exports them from storage', async () => {
+        const storage = new InMemoryStorage()
+        let embeddedDiffs = 0
+        const countingEmbedder = {
+            embedText: topicEmbedder.embedText,
+            embedDiff: async (diff: string) => { embeddedDiffs++; return topicEmbedder.embedDiff(diff) }
+        }
+        const detector = new PRSenseDetector({
+            embedder: countingEmbedder,
+            storage,
+            memory: { maxPRs: 1 },
+            lsh: { skipEmbeddingThreshold: 0.95 }
+        })
+        await detector.check(pr(1, 'cache'))
+        await detector.check(pr(2, 'login'))
+        expect(detector.getStats().memory).toMatchObject({ heldPRs: 1, evictedPRs: 1 })
+
+        // Same diff and files as PR 1, other wording
+        const copy = { ...pr(1, 'cache'), prId: 3, title: 'Retune the cache' }
+        const before = embeddedDiffs
+        const dryRun = await detector.checkDetailed(copy, { dryRun: true })
+        expect(embeddedDiffs).toBe(before)
+        expect(dryRun).toMatchObject({ type: 'DUPLICATE', originalPr: 1, breakdown: { estimated: true } })
+        expect(detector.getStats().memory).toMatchObject({ coldHits: 1 })
+        await detector.check(copy)
+
+        const held = detector.exportState().records.map(r => r.prId)
+        const state = await detector.exportAllState()
+        expect(held).toHaveLength(1)
+        expect(state.records.map(r => r.prId).sort()).toEqual([1, 2, 3])
+        const restored = new PRSenseDetector({ embedder: topicEmbedder })
+        restored.importState(state)
+        expect(restored.getStats().totalPRs).toBe(3)
+        expect(restored.getState(2)).toBe('open')
+    })
+
+    it('leaves idle PRs in storage at init and restores them for updates and exact matches', async () => {
+        const storage = new InMemoryStorage()
+        const start = Date.now()
+        vi.setSystemTime(start - 40 * 24 * 60 * 60 * 1000)
+        await new PRSenseDetector({ embedder: topicEmbedder, storage }).check(pr(1, 'cache'))
+        vi.setSystemTime(start)
+
+        const detector = new PRSenseDetector({ embedder: topicEmbedder, storage, memory: { maxIdleDays: 30 } })
+        await detector.init()
+        expect(detector.getStats().memory).toMatchObject({ heldPRs: 0, evictedPRs: 1 })
+
+        expect(await detector.updateState(1, 'merged')).toBe(true)
+        expect(detector.getState(1)).toBe('merged')
+        expect((await storage.get(1))?.state).toBe('merged')
+
+        const exact = await detector.check({ ...pr(1, 'cache'), prId: 2 })
+        expect(exact.type).toBe('DUPLICATE')
+        expect(exact.confidence).toBe(1)
+        expect(detector.getStats().memory).toMatchObject({ heldPRs: 2, evictedPRs: 0, coldHits: 1 })
+    })
+
+    it('needs storage and rejects quantization or invalid limits', () => {
+        const storage = new InMemoryStorage()
+        expect(() => new PRSenseDetector({ embedder: topicEmbedder, memory: { maxPRs: 10 } })).toThrow(ConfigurationError)
+        expect(() => new PRSenseDetector({ embedder: topicEmbedder, storage, memory: { maxPRs: 0 } })).toThrow(ConfigurationError)
+        expect(() => new PRSenseDetector({ embedder: topicEmbedder, storage, memory: { maxIdleDays: -1 } })).toThrow(ConfigurationError)
+        expect(() => new PRSenseDetector({ embedder: topicEmbedder, storage, memory: {}, quantization: { type: 'int8' } })).toThrow(ConfigurationError)
+    })
+})
+
+describe('concurrent checks', () => {
+    // Embedding the first PR takes longer, so without the lock the second would be indexed first
+    const slowEmbedder = {
+        embedText: async (text: string) => {
+            await new Promise(resolve => setTimeout(resolve, text.includes('first') ? 30 : 1))
+            return new Float32Array([1, 0.2, text.includes('cache') ? 1 : 0])
+        },
+        embedDiff: async (diff: string) => new Float32Array([1, 0.5, diff.includes('cache') ? 1 : 0])
+    }
+    const related = (number: number, word: string): KeyedPRInput => ({
+        key: { provider: 'github', repo: 'acme/api', number },
+        title: `Tune cache size (${word})`,
+        description: 'Bigger cache',
+        files: ['src/cache.ts'],
+        diff: `+ const cacheSize = ${number}`
+    })
+    const sharedLock = (storage: InMemoryStorage, names: string[]) => {
+        const mutex = new KeyedMutex()
+        return Object.assign(storage, {
+            withLock: <T>(name: string, fn: () => Promise<T>) => {
+                names.push(name)
+                return mutex.run(name, fn)
+            }
+        })
+    }
+
+    it('makes the PR that arrived first the original', async () => {
+        const detector = new PRSenseDetector({ embedder: slowEmbedder })
+        const [first, second] = await Promise.all([
+            detector.check(related(1, 'first')),
+            detector.check(related(2, 'second'))
+        ])
+
+        expect(first.type).toBe('UNIQUE')
+        expect(second.type).toBe('DUPLICATE')
+        if (second.type === 'DUPLICATE') expect(second.originalPr).toBe(1)
+        expect(detector.getDuplicateOf(1)).toBeUndefined()
+    })
+
+    it('orders replicas through the storage lock and reads PRs another replica indexed', async () => {
+        const names: string[] = []
+        const storage = sharedLock(new InMemoryStorage(), names)
+        const replicaA = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        const replicaB = new PRSenseDetector({ embedder: slowEmbedder, storage })
+
+        // Replicas embed before taking the lock, so the PR embedded first is the original
+        const [first, second] = await Promise.all([
+            replicaA.check(related(1, 'first')),
+            replicaB.check(related(2, 'second'))
+        ])
+
+        expect(second.type).toBe('UNIQUE')
+        expect(first.type).toBe('DUPLICATE')
+        if (first.type === 'DUPLICATE') expect(replicaA.getKey(first.originalPr)?.number).toBe(2)
+        expect(replicaA.getStats().totalPRs).toBe(2)
+        expect(names).toEqual(['prsense:github:acme/api', 'prsense:github:acme/api'])
+    })
+
+    it('gives same-numbered PRs of different repositories their own ids across replicas', async () => {
+        const storage = sharedLock(new InMemoryStorage(), [])
+        const replicaA = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        const replicaB = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        const one: KeyedPRInput = { ...related(5, 'first'), key: { provider: 'github', repo: 'org/one', number: 5 } }
+        const two: KeyedPRInput = { ...related(5, 'second'), key: { provider: 'github', repo: 'org/two', number: 5 }, title: 'Docs', files: ['README.md'] }
+
+        await Promise.all([replicaA.check(one), replicaB.check(two)])
+        // Re-checking keeps the stored id, whichever replica sees it
+        await replicaB.check(one)
+
+        const stored = await storage.getAll()
+        expect(stored.map(r => `${r.key?.repo}#${r.key?.number}`).sort()).toEqual(['org/one#5', 'org/two#5'])
+        expect(new Set(stored.map(r => r.prId)).size).toBe(2)
+        expect(replicaB.resolve(one.key)).toBe(replicaA.resolve(one.key))
+    })
+
+    it('embeds before taking the storage lock and explains and emits after releasing it', async () => {
+        let held = false
+        const underLock: string[] = []
+        const storage = Object.assign(new InMemoryStorage(), {
+            withLock: async <T>(_name: string, fn: () => Promise<T>) => {
+                held = true
+                try {
+                    return await fn()
+                } finally {
+                    held = false
+                }
+            }
+        })
+        const note = (step: string) => { if (held) underLock.push(step) }
+        const embedder = {
+            embedText: async (text: string) => { note('embed'); return slowEmbedder.embedText(text) },
+            embedDiff: slowEmbedder.embedDiff
+        }
+        const llm = { generate: async () => { note('llm'); return 'Same cache change.' } }
+        const detector = new PRSenseDetector({ embedder, storage, llm })
+        detector.on('indexed', () => note('indexed'))
+        detector.on('duplicate', () => note('duplicate'))
+
+        await detector.check(related(1, 'first'))
+        const result = await detector.checkDetailed(related(2, 'second'), { explain: true })
+
+        expect(result).toMatchObject({ type: 'DUPLICATE', evidence: { justificationSource: 'llm' } })
+        expect(underLock).toEqual([])
+    })
+
+    it('gives keys first seen in feedback an id from the store', async () => {
+        const storage = sharedLock(new InMemoryStorage(), [])
+        const replicaA = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        const replicaB = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        await replicaA.check(related(1, 'first'))
+        await replicaB.check(related(2, 'second'))
+
+        // Replica A never saw acme/api#2, so a local id for acme/web#2 could be its id
+        const feedback = await replicaA.recordFeedback({
+            prA: { provider: 'github', repo: 'acme/web', number: 2 },
+            prB: related(1, 'first').key,
+            verdict: 'not-duplicate'
+        })
+
+        const stored = await storage.getAll()
+        expect(stored.map(r => r.prId)).not.toContain(feedback.prA)
+        expect(feedback.prB).toBe(replicaA.resolve(related(1, 'first').key))
+    })
+
+    it('fails a check whose storage lock cannot be taken', async () => {
+        const storage = Object.assign(new InMemoryStorage(), {
+            withLock: async () => { throw new Error('lock table unavailable') }
+        })
+        const detector = new PRSenseDetector({ embedder: slowEmbedder, storage })
+        const storageError = vi.fn()
+        detector.on('storageError', storageError)
+        const error = vi.spyOn(console, 'error').mockImplementation(() => { })
+
+        await expect(detector.check(related(1, 'first'))).rejects.toThrow('lock table unavailable')
+        expect(storageError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'lock' }))
+        expect(detector.getStats().totalPRs).toBe(0)
+        expect(await storage.getAll()).toEqual([])
+        error.mockRestore()
+    })
+})
@@ -5,17 +5,45 @@
  */
 
 import { createHash } from 'crypto'
-import type { PRMetadata } from './types.js'
-import type { StorageBackend } from './storage/interface.js'
-import { BloomFilter } from './bloomFilter.js'
+import type { PRMetadata, PRState, CandidateFilter } from './types.js'
+import type { StorageBackend, PRRecord, PRRevisionRecord, CheckResult } from './storage/interface.js'
+import { BloomFilter, expectedItemsForSize } from './bloomFilter.js'
+import type { BloomFilterConfig } from './bloomFilter.js'
 import { AttributionGraph } from './attributionGraph.js'
-import { EmbeddingPipeline } from './embeddingPipeline.js'
-import type { Embedder } from './embeddingPipeline.js'
+import type { AttributionGraphState } from './attributionGraph.js'
+import { EmbeddingPipeline, UNKNOWN_EMBEDDER, sameEmbedder, formatEmbedder } from './embeddingPipeline.js'
+import type { Embedder, EmbedderInfo } from './embeddingPipeline.js'
 import { withCache, EmbeddingCache } from './embeddingCache.js'
 import { jaccard } from './jaccard.js'
 import { cosine } from './similarity.js'
-import { validatePRInput, validateWeights, validateThresholds, validateConfig, sanitizeString, sanitizeFilePath } from './validation.js'
-import { ConfigurationError, ValidationError, EmbeddingError } from './errors.js'
+import { createVectorIndex, QuantizedIndex } from './vectorIndex.js'
+import type { VectorIndex, VectorIndexConfig, VectorIndexState, VectorSearchResult } from './vectorIndex.js'
+import type { QuantizationConfig } from './quantization.js'
+import { ScoringPool, VectorMatrix } from './scoringPool.js'
+import type { ParallelScoringConfig } from './scoringPool.js'
+import { MinHasher, LSHIndex } from './minhash.js'
+import { FeedbackStore } from './feedback.js'
+import { DEFAULT_THRESHOLDS } from './thresholds.js'
+import type { FeedbackRecord, FeedbackVerdict, TrainingExample } from './feedback.js'
+import type { MinHashConfig, NearDuplicate, LSHState } from './minhash.js'
+import { bestHunkMatch } from './diffHunks.js'
+import { DiffNormalizer } from './diffNormalizer.js'
+import type { DiffNormalizerConfig, NormalizationReport } from './diffNormalizer.js'
+import type { DiffHunkOptions, HunkEmbedding, HunkLines, HunkMatch } from './diffHunks.js'
+import { buildMatchEvidence, justifyWithLLM } from './evidence.js'
+import type { MatchEvidence } from './evidence.js'
+import type { LLMProvider } from './rag/queryEngine.js'
+import { BM25Index, reciprocalRankFusion } from './bm25.js'
+import type { BM25Config, BM25State } from './bm25.js'
+import { parseSearchQuery, hasSearchFilter, matchesSearchFilter } from './searchQuery.js'
+import type { SearchFilter } from './searchQuery.js'
+import { TypedEventEmitter } from './events.js'
+import { KeyedMutex } from './keyedMutex.js'
+import type { EventListener, ListenerOptions } from './events.js'
+import { PRKeyRegistry, LOCAL_PROVIDER, formatPRKey, legacyPRKey, normalizePRKey, prKeyEquals } from './prKey.js'
+import type { PRKey, PRRef } from './prKey.js'
+import { validatePRInput, validateWeights, validateThresholds, validateConfig, validateCandidateFilter, sanitizeString, sanitizeFilePath } from './validation.js'
+import { ConfigurationError, ValidationError, EmbeddingError, StorageError } from './errors.js'
 
 /**
  * Configuration options for PRSense
@@ -25,7 +53,10 @@ export interface PRSenseConfig {
     duplicateThreshold?: number
     possibleThreshold?: number
     weights?: [number, number, number] // [text, diff, file]
+    /** @deprecated Counters in the first Bloom filter slice; use bloomFilter.expectedItems */
     bloomFilterSize?: number
+    /** Content-hash Bloom filter, sized from the expected PR count and a target false-positive rate */
+    bloomFilter?: BloomFilterConfig
     maxCandidates?: number
     /** Enable embedding cache for faster repeat checks */
     enableCache?: boolean
@@ -33,6 +64,54 @@ export interface PRSenseConfig {
     cacheSize?: number
     /** Repository ID for cross-repo detection */
     repoId?: string
+    /** In-process ANN index used for candidate retrieval (default: HNSW) */
+    vectorIndex?: VectorIndexConfig
+    /**
+     * Hold vectors in memory as int8 or product-quantised codes instead of
+     * Float32; replaces the vectorIndex, and candidates are re-ranked with
+     * full-precision vectors from storage
+     */
+    quantization?: QuantizationConfig
+    /**
+     * Run the exact top-k scans over text and diff vectors in worker
+     * threads once the index is large enough; candidate scoring stays on
+     * the event loop (default: off)
+     */
+    parallelScoring?: ParallelScoringConfig
+    /** MinHash/LSH near-duplicate pre-filter over diff shingles and file paths (false to disable) */
+    lsh?: MinHashConfig | false
+    /** Embed each diff hunk separately and score diffs by best hunk pair (false to disable) */
+    hunks?: DiffHunkOptions | false
+    /** Drop lockfiles/generated files, context and whitespace-only hunks before hashing and embedding (false to disable) */
+    diffNormalization?: DiffNormalizerConfig | false
+    /** Default filter on which indexed PRs may match (e.g. open PRs only) */
+    candidateFilter?: CandidateFilter
+    /** Revisions kept in memory per PR for getRevisions() when storage keeps none (default: 5) */
+    maxRevisions?: number
+    /** Writes the justification in match evidence; a template is used without it */
+    llm?: LLMProvider
+    /** BM25 index over titles, descriptions, file paths and diff lines, fused with vector hits in search() (false to disable) */
+    lexical?: BM25Config | false
+    /**
+     * Stored PRs embedded by another model or dimension: 'error' fails init(),
+     * 'skip' leaves them out of the index until re-embedded (default: 'error')
+     */
+    embedderMismatch?: 'error' | 'skip'
+    /**
+     * Bound the PRs whose vectors and metadata stay in memory; evicted PRs
+     * stay in storage, where checks and search still find them (needs storage)
+     */
+    memory?: MemoryBudgetConfig
+}
+
+/**
+ * When PRs are evicted from memory to storage
+ */
+export interface MemoryBudgetConfig {
+    /** PRs held in memory; the least recently used are evicted first */
+    maxPRs?: number
+    /** Evict PRs not checked, matched or updated for this many days */
+    maxIdleDays?: number
 }
 
 /**
@@ -40,6 +119,8 @@ export interface PRSenseConfig {
  */
 export interface PRInput {
     prId: number
+    /** Repository-scoped identity (provider, repo, number); PRs without one are keyed `local:#<prId>` */
+    key?: PRKey
     title: string
     description: string
     files: string[]
@@ -49,13 +130,18 @@ export interface PRInput {
     author?: string
 }
 
+/**
+ * Input identified by key alone; `prId`, if given, is only the preferred detector id
+ */
+export type KeyedPRInput = Omit<PRInput, 'prId' | 'key'> & { key: PRKey; prId?: number }
+
 /**
  * Detection result
  */
 export type DetectionResult =
-    | { type: 'DUPLICATE'; originalPr: number; confidence: number; violations?: import('./rules.js').RuleViolation[] }
-    | { type: 'POSSIBLE'; originalPr: number; confidence: number; violations?: import('./rules.js').RuleViolation[] }
-    | { type: 'UNIQUE'; confidence: number; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'DUPLICATE'; originalPr: number; originalKey?: PRKey; confidence: number; matches?: RankedMatch[]; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'POSSIBLE'; originalPr: number; originalKey?: PRKey; confidence: number; matches?: RankedMatch[]; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'UNIQUE'; confidence: number; matches?: RankedMatch[]; violations?: import('./rules.js').RuleViolation[] }
 
 /**
  * Score breakdown showing contribution of each signal
@@ -69,15 +155,67 @@ export interface ScoreBreakdown {
     fileContribution: number  // fileSimilarity * weight
     finalScore: number
     weights: [number, number, number]
+    /** true when diffSimilarity is the MinHash estimate because the diff was not embedded */
+    estimated?: boolean
+    /** Closest hunk pair when both PRs have per-hunk vectors; diffSimilarity is at least its similarity */
+    hunkMatch?: HunkMatch
+}
+
+/**
+ * PR input once its key is resolved to a detector id. When the store hands
+ * out ids, a new key's id is provisional until the check claims it under
+ * the repository lock.
+ */
+interface ResolvedPRInput extends PRInput {
+    key: PRKey
+}
+
+/**
+ * Vectors kept in memory for each indexed PR
+ */
+interface IndexedEmbeddings {
+    text: Float32Array
+    diff: Float32Array
+    /** Per-hunk diff vectors (empty when the diff had no eligible hunks) */
+    hunks: HunkEmbedding[]
+}
+
+/**
+ * Per-PR entry of the embeddings map. Under quantization the vectors live
+ * only as codes in the quantised indexes and just the hunk locations stay.
+ */
+type StoredEmbeddings = IndexedEmbeddings | { quantized: true; hunks: Array<Omit<HunkEmbedding, 'vector'>> }
+
+/**
+ * A check scored and indexed; its evidence and events wait until the
+ * per-repository lock is released
+ */
+interface DetectOutcome {
+    result: DetailedDetectionResult
+    /** Match the evidence explains, when the result has one */
+    explain?: { matchedId: number; breakdown: ScoreBreakdown; exact?: boolean }
+    /** Event emissions held back while the lock is held */
+    events: Array<() => Promise<void>>
+}
+
+/**
+ * One related PR in a ranked top-K result
+ */
+export interface RankedMatch {
+    prId: number
+    key: PRKey
+    type: 'DUPLICATE' | 'POSSIBLE'
+    confidence: number
+    breakdown: ScoreBreakdown
 }
 
 /**
  * Detailed detection result with score breakdown
  */
 export type DetailedDetectionResult =
-    | { type: 'DUPLICATE'; originalPr: number; confidence: number; breakdown: ScoreBreakdown; violations?: import('./rules.js').RuleViolation[] }
-    | { type: 'POSSIBLE'; originalPr: number; confidence: number; breakdown: ScoreBreakdown; violations?: import('./rules.js').RuleViolation[] }
-    | { type: 'UNIQUE'; confidence: number; breakdown?: ScoreBreakdown; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'DUPLICATE'; originalPr: number; originalKey?: PRKey; confidence: number; breakdown: ScoreBreakdown; evidence?: MatchEvidence; matches?: RankedMatch[]; normalization?: NormalizationReport; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'POSSIBLE'; originalPr: number; originalKey?: PRKey; confidence: number; breakdown: ScoreBreakdown; evidence?: MatchEvidence; matches?: RankedMatch[]; normalization?: NormalizationReport; violations?: import('./rules.js').RuleViolation[] }
+    | { type: 'UNIQUE'; confidence: number; breakdown?: ScoreBreakdown; matches?: RankedMatch[]; normalization?: NormalizationReport; violations?: import('./rules.js').RuleViolation[] }
 
 /**
  * Options for check methods
@@ -87,6 +225,14 @@ export interface CheckOptions {
     dryRun?: boolean
     /** Return detailed score breakdown */
     detailed?: boolean
+    /** Return up to K related PRs (DUPLICATE or POSSIBLE), best first, in `matches` */
+    topK?: number
+    /** Filter on which indexed PRs may match; replaces the configured candidateFilter */
+    filter?: CandidateFilter
+    /** Attach `evidence` for the original PR to detailed DUPLICATE/POSSIBLE results */
+    explain?: boolean
+    /** Passed to the duplicate/possible/unique event payloads untouched (e.g. the PR's URL) */
+    context?: Record<string, unknown>
 }
 
 /**
@@ -94,8 +240,147 @@ export interface CheckOptions {
  */
 export interface BatchCheckResult {
     prId: number
+    key?: PRKey
     result: DetectionResult
     processingTimeMs: number
+    /** Why the check failed; `result` is then UNIQUE with confidence 0 */
+    error?: string
+}
+
+/**
+ * Options for checkStream
+ */
+export interface StreamCheckOptions extends CheckOptions {
+    /** PRs embedded in parallel ahead of the one being checked (default: 4) */
+    concurrency?: number
+    /** Called after each result, before it is yielded */
+    onProgress?: (progress: BatchProgress) => void
+    /** Stops the stream at the next PR; the iterator then throws the signal's reason */
+    signal?: AbortSignal
+}
+
+export interface BatchProgress {
+    completed: number
+    failed: number
+    /** Number of input PRs, when the input is an array */
+    total?: number
+    elapsedMs: number
+    /** Completed PRs per second so far */
+    rate: number
+}
+
+/**
+ * Detector state as written by exportState; vectors are number arrays in
+ * JSON exports and Float32Arrays when read from a binary snapshot
+ */
+export interface DetectorState {
+    records: any[]
+    /** Exported Bloom filter; older snapshots hold base64 bits, which are rebuilt from the records */
+    bloom: string
+    index?: { text: VectorIndexState; diff: VectorIndexState }
+    lsh?: LSHState
+    lexical?: BM25State
+    feedback?: FeedbackRecord[]
+    /** Duplicate links; older snapshots rebuild them from feedback only */
+    graph?: AttributionGraphState
+    embedder?: EmbedderInfo
+    /** Snapshot deltas only: PRs removed since the previous frame */
+    removed?: number[]
+}
+
+/**
+ * A PR in a duplicate cluster; PRs only known from feedback have no
+ * title, author, state or creation time
+ */
+export interface DuplicateClusterMember {
+    prId: number
+    key: PRKey
+    title?: string
+    author?: string
+    state?: PRState
+    createdAt?: number
+}
+
+/**
+ * A canonical original and every PR linked to it as a duplicate
+ */
+export interface DuplicateCluster {
+    original: number
+    originalKey: PRKey
+    /** The original first, then by creation time; PRs only known from feedback come last */
+    members: DuplicateClusterMember[]
+    /** Time span covered by the members' creation times (undefined when none is known) */
+    firstCreatedAt?: number
+    lastCreatedAt?: number
+}
+
+/**
+ * Options for search
+ */
+export interface SearchOptions {
+    /**
+     * 'hybrid' fuses BM25 and vector rankings; 'semantic' and 'lexical' use
+     * one of them (default: 'hybrid', or 'semantic' with lexical: false)
+     */
+    mode?: 'hybrid' | 'semantic' | 'lexical'
+    /** Reciprocal rank fusion constant; larger values flatten the rank bonus (default: 60) */
+    rrfK?: number
+}
+
+/**
+ * A PR read by checkStream, with its embeddings already under way
+ */
+interface StreamItem {
+    pr: PRInput | KeyedPRInput
+    resolved?: ResolvedPRInput
+    embedding?: Promise<IndexedEmbeddings>
+    error?: unknown
+    startedAt: number
+}
+
+/**
+ * PR fields carried in detector event payloads
+ */
+export interface EventPR {
+    prId: number
+    key: PRKey
+    title: string
+    description: string
+    files: string[]
+    author?: string
+}
+
+/**
+ * Payload of the duplicate, possible and unique events
+ */
+export interface CheckEvent<R extends DetailedDetectionResult = DetailedDetectionResult> {
+    pr: EventPR
+    result: R
+    dryRun: boolean
+    context?: Record<string, unknown>
+}
+
+export type StorageOperation = 'load' | 'get' | 'save' | 'saveCheck' | 'updateState' | 'saveFeedback' | 'saveLink' | 'delete' | 'search' | 'lock' | 'nextPrId'
+
+/**
+ * Events emitted by PRSenseDetector. Listeners run in priority order and are
+ * awaited before the emitting call returns.
+ */
+export interface DetectorEvents {
+    /** A PR was written to the index (and to storage, if configured) */
+    indexed: { pr: EventPR; metadata: PRMetadata; newRevision: boolean }
+    duplicate: CheckEvent<Extract<DetailedDetectionResult, { type: 'DUPLICATE' }>>
+    possible: CheckEvent<Extract<DetailedDetectionResult, { type: 'POSSIBLE' }>>
+    unique: CheckEvent<Extract<DetailedDetectionResult, { type: 'UNIQUE' }>>
+    /** Embedding a PR or a search query failed; the call throws once listeners ran */
+    embeddingFailed: { prId?: number; key?: PRKey; query?: string; error: EmbeddingError }
+    /** A storage call failed; the detector carried on in memory */
+    storageError: { operation: StorageOperation; prId?: number; error: unknown }
+    /**
+     * Data dropped from memory: revisions beyond maxRevisions, or a whole
+     * PR over the memory budget or idle too long (it stays in storage)
+     */
+    evicted: { prId: number; key: PRKey; reason: 'revision-limit' | 'memory-budget' | 'idle'; revisions: number[] }
 }
 
 /**
@@ -111,8 +396,36 @@ export class PRSenseDetector {
     private bloom: BloomFilter
     private graph: AttributionGraph
     private pipeline: EmbeddingPipeline
-    private embeddings: Map<number, { text: Float32Array; diff: Float32Array }>
+    private normalizer?: DiffNormalizer
+    private embeddings: Map<number, StoredEmbeddings>
     private metadata: Map<number, PRMetadata>
+    private contentIndex = new Map<string, number>()
+    /** PR key <-> detector id; every indexed PR has an entry */
+    private keys = new PRKeyRegistry()
+    /** Latest pushed revisions per PR, oldest first (capped at maxRevisions) */
+    private revisions = new Map<number, PRRevisionRecord[]>()
+    private feedback = new FeedbackStore()
+    private events = new TypedEventEmitter<DetectorEvents>()
+    /** Serialises scoring and indexing per repository */
+    private locks = new KeyedMutex()
+    private textIndex: VectorIndex
+    private diffIndex: VectorIndex
+    /** One entry per hunk vector; ids are mapped back to PRs through hunkOwners */
+    private hunkIndex: VectorIndex
+    private hunkOwners = new Map<number, number>()
+    private hunkIds = new Map<number, number[]>()
+    private nextHunkId = 1
+    /** The three indexes above, when they hold quantised codes */
+    private quantized?: { text: QuantizedIndex; diff: QuantizedIndex; hunks: QuantizedIndex }
+    /** Exact re-rankings so far, and the summed share of each exact top-k the approximate ranking had */
+    private rerankStats = { queries: 0, recall: 0 }
+    /** Shared copies of the text and diff vectors, scanned by the worker pool */
+    private scoring?: { pool: ScoringPool; text: VectorMatrix; diff: VectorMatrix; minIndexSize: number }
+    private lexical?: BM25Index
+    private minhasher?: MinHasher
+    private lsh?: LSHIndex
+    private lshMinSimilarity: number
+    private lshSkipThreshold?: number
     private storage?: StorageBackend
     private config: PRSenseConfig
     private cache?: EmbeddingCache
@@ -122,6 +435,16 @@ export class PRSenseDetector {
     private possibleThreshold: number
     private weights: [number, number, number]
     private maxCandidates: number
+    private maxRevisions: number
+    /** Model behind this detector's vectors; dimension learned from storage or the first embedding when not declared */
+    private embedderInfo: EmbedderInfo
+    private mismatchedPRs = 0
+    /** Memory budget, with hits on held and on evicted PRs so far */
+    private memory?: MemoryBudgetConfig & { hotHits: number; coldHits: number; evictions: number }
+    /** Held PRs by last use, least recent first (kept with a memory budget only) */
+    private lastUsed = new Map<number, number>()
+    /** PRs evicted to storage */
+    private cold = new Set<number>()
 
     constructor(config: PRSenseConfig & { storage?: StorageBackend }) {
         // Validate configuration
@@ -144,17 +467,55 @@ export class PRSenseDetector {
             ...(config.enableCache && config.cacheSize !== undefined ? { cacheSize: config.cacheSize } : {})
         })
 
+        if (config.candidateFilter) {
+            validateCandidateFilter(config.candidateFilter)
+        }
+        if (config.maxRevisions !== undefined && (!Number.isInteger(config.maxRevisions) || config.maxRevisions < 1)) {
+            throw new ConfigurationError('maxRevisions must be a positive integer')
+        }
+        if (config.embedderMismatch !== undefined && config.embedderMismatch !== 'error' && config.embedderMismatch !== 'skip') {
+            throw new ConfigurationError("embedderMismatch must be 'error' or 'skip'")
+        }
+        if (config.memory) {
+            const { maxPRs, maxIdleDays } = config.memory
+            if (maxPRs !== undefined && (!Number.isInteger(maxPRs) || maxPRs < 1)) {
+                throw new ConfigurationError('memory.maxPRs must be a positive integer')
+            }
+            if (maxIdleDays !== undefined && !(Number.isFinite(maxIdleDays) && maxIdleDays > 0)) {
+                throw new ConfigurationError('memory.maxIdleDays must be a positive number')
+            }
+            if (!config.storage) {
+                throw new ConfigurationError('memory needs storage to evict PRs to')
+            }
+            if (config.quantization) {
+                throw new ConfigurationError('memory cannot be combined with quantization, whose candidates come from memory only')
+            }
+            this.memory = { ...config.memory, hotHits: 0, coldHits: 0, evictions: 0 }
+        }
+
         this.config = config
-        this.bloom = new BloomFilter(config.bloomFilterSize || 8192, 5)
+        this.embedderInfo = { ...(config.embedder.info ?? UNKNOWN_EMBEDDER) }
+        const falsePositiveRate = config.bloomFilter?.falsePositiveRate
+        const expectedItems = config.bloomFilter?.expectedItems
+            ?? (config.bloomFilterSize !== undefined ? expectedItemsForSize(config.bloomFilterSize, falsePositiveRate) : undefined)
+        this.bloom = new BloomFilter({
+            ...(expectedItems !== undefined ? { expectedItems } : {}),
+            ...(falsePositiveRate !== undefined ? { falsePositiveRate } : {})
+        })
         this.graph = new AttributionGraph()
 
         // Feature 4: Embedding Cache Integration
+        const pipelineOptions = config.hunks !== undefined ? { hunks: config.hunks } : {}
         if (config.enableCache) {
             const wrapped = withCache(config.embedder, config.cacheSize)
             this.cache = wrapped.cache
-            this.pipeline = new EmbeddingPipeline(wrapped)
+            this.pipeline = new EmbeddingPipeline(wrapped, pipelineOptions)
         } else {
-            this.pipeline = new EmbeddingPipeline(config.embedder)
+            this.pipeline = new EmbeddingPipeline(config.embedder, pipelineOptions)
+        }
+
+        if (config.diffNormalization !== false) {
+            this.normalizer = new DiffNormalizer(config.diffNormalization)
         }
 
         // Feature 1: Storage Integration
@@ -164,11 +525,64 @@ export class PRSenseDetector {
 
         this.embeddings = new Map()
         this.metadata = new Map()
+        if (config.quantization) {
+            const rerank = config.quantization.rerank
+            if (rerank !== undefined && (!Number.isInteger(rerank) || rerank < 1)) {
+                throw new ConfigurationError('quantization.rerank must be a positive integer')
+            }
+            this.quantized = {
+                text: new QuantizedIndex(config.quantization),
+                diff: new QuantizedIndex(config.quantization),
+                hunks: new QuantizedIndex(config.quantization)
+            }
+            this.textIndex = this.quantized.text
+            this.diffIndex = this.quantized.diff
+            this.hunkIndex = this.quantized.hunks
+        } else {
+            this.textIndex = createVectorIndex(config.vectorIndex)
+            this.diffIndex = createVectorIndex(config.vectorIndex)
+            this.hunkIndex = createVectorIndex(config.vectorIndex)
+        }
+        if (config.parallelScoring) {
+            const minIndexSize = config.parallelScoring.minIndexSize ?? 10000
+            if (config.quantization) {
+                throw new ConfigurationError('parallelScoring keeps Float32 copies of every vector and cannot be combined with quantization')
+            }
+            if (!Number.isInteger(minIndexSize) || minIndexSize < 0) {
+                throw new ConfigurationError('parallelScoring.minIndexSize must be a non-negative integer')
+            }
+            this.scoring = {
+                pool: new ScoringPool(config.parallelScoring.workers),
+                text: new VectorMatrix(),
+                diff: new VectorMatrix(),
+                minIndexSize
+            }
+        }
+        if (config.lexical !== false) {
+            this.lexical = new BM25Index(config.lexical)
+        }
+
+        // MinHash/LSH near-duplicate pre-filter
+        const lshConfig = config.lsh === false ? undefined : (config.lsh ?? {})
+        this.lshMinSimilarity = lshConfig?.minSimilarity ?? 0.5
+        if (lshConfig) {
+            this.minhasher = new MinHasher(lshConfig)
+            this.lsh = new LSHIndex(this.minhasher.bands, this.minhasher.rows)
+            if (lshConfig.skipEmbeddingThreshold !== undefined) {
+                const threshold = lshConfig.skipEmbeddingThreshold
+                const floor = config.duplicateThreshold ?? DEFAULT_THRESHOLDS.duplicate
+                if (!Number.isFinite(threshold) || threshold < floor || threshold > 1) {
+                    throw new ConfigurationError('lsh.skipEmbeddingThreshold must be between duplicateThreshold and 1')
+                }
+                this.lshSkipThreshold = threshold
+            }
+        }
 
-        this.duplicateThreshold = config.duplicateThreshold ?? 0.90
-        this.possibleThreshold = config.possibleThreshold ?? 0.82
+        this.duplicateThreshold = config.duplicateThreshold ?? DEFAULT_THRESHOLDS.duplicate
+        this.possibleThreshold = config.possibleThreshold ?? DEFAULT_THRESHOLDS.possible
         this.weights = config.weights ?? [0.45, 0.35, 0.20]
         this.maxCandidates = config.maxCandidates ?? 20
+        this.maxRevisions = config.maxRevisions ?? 5
 
         // NOTE: Call await detector.init() after construction to load from storage.
         // The constructor cannot be async, so storage loading is deferred.
@@ -189,109 +603,396 @@ export class PRSenseDetector {
         }
     }
 
+    /**
+     * Stop the scoring worker threads, if any. They do not keep the process
+     * alive, so this is only needed to release them early.
+     */
+    async close(): Promise<void> {
+        await this.scoring?.pool.close()
+    }
+
+    /**
+     * Subscribe to a detector event; returns a function that unsubscribes.
+     *
+     * ```typescript
+     * detector.on('duplicate', async ({ pr, result }) => {
+     *     await notify(pr.key, result.originalKey)
+     * })
+     * ```
+     */
+    on<E extends keyof DetectorEvents>(event: E, listener: EventListener<DetectorEvents[E]>, options?: ListenerOptions): () => void {
+        return this.events.on(event, listener, options)
+    }
+
+    once<E extends keyof DetectorEvents>(event: E, listener: EventListener<DetectorEvents[E]>, options?: Omit<ListenerOptions, 'once'>): () => void {
+        return this.events.once(event, listener, options)
+    }
+
+    off<E extends keyof DetectorEvents>(event: E, listener: EventListener<DetectorEvents[E]>): boolean {
+        return this.events.off(event, listener)
+    }
+
     /**
      * Compute a content hash for the PR
      */
     private computeContentHash(title: string, description: string, diff: string = ''): string {
+        // NUL separators so ('ab', 'c') and ('a', 'bc') hash differently
         return createHash('sha1')
-            .update(title + description + diff)
+            .update(`${title}\0${description}\0${diff}`)
             .digest('hex')
     }
 
+    /**
+     * Map a content hash to the first PR that carried it
+     */
+    private indexContentHash(prId: number, contentHash: string | undefined): void {
+        const previous = this.metadata.get(prId)?.contentHash
+        if (previous && previous !== contentHash && this.contentIndex.get(previous) === prId) {
+            this.contentIndex.delete(previous)
+        }
+        if (contentHash && !this.contentIndex.has(contentHash)) {
+            this.contentIndex.set(contentHash, prId)
+        }
+    }
+
+    /**
+     * Find an indexed PR (other than prId) with identical content
+     */
+    private findExactMatch(prId: number, contentHash: string, filter?: CandidateFilter): number | null {
+        const original = this.contentIndex.get(contentHash)
+        if (original === undefined || original === prId) return null
+        if (this.feedback.isRejected(prId, original) || !this.isEligible(original, filter)) return null
+        if (this.metadata.get(original)?.contentHash !== contentHash) return null
+        return this.embeddings.has(original) ? original : null
+    }
+
     /**
      * Load state from persistent storage
      */
     private async loadFromStorage() {
         if (!this.storage) return
 
+        let records: PRRecord[]
+        try {
+            // Oldest first, so the original PR claims its content hash
+            records = (await this.storage.getAll()).sort((a, b) => a.createdAt - b.createdAt)
+        } catch (e) {
+            console.error('Failed to load from storage:', e)
+            await this.events.emit('storageError', { operation: 'load', error: e })
+            return
+        }
+
+        const mismatched = this.findMismatchedEmbeddings(records)
+        this.mismatchedPRs = mismatched.size
+        if (mismatched.size > 0) {
+            const models = new Set(records.filter(r => mismatched.has(r.prId)).map(r => r.embedder
+                ? formatEmbedder(r.embedder)
+                : `an unrecorded model (${r.textEmbedding.length}d)`))
+            const message = `${mismatched.size} of ${records.length} stored PRs were embedded with ${[...models].join(', ')}, `
+                + `but this detector uses ${formatEmbedder(this.embedderInfo)}; run \`prsense reembed\` to migrate them`
+            if ((this.config.embedderMismatch ?? 'error') === 'error') {
+                throw new ConfigurationError(`${message}, or set embedderMismatch: 'skip'`)
+            }
+            console.warn(`${message}. They are left out of the index until then.`)
+        }
+
+        // Over a memory budget, the most recently active PRs are held and
+        // the rest start out evicted
+        const held = this.selectHeld(records.filter(r => !mismatched.has(r.prId)))
+
         try {
-            const records = await this.storage.getAll()
             for (const record of records) {
+                // Keys of skipped PRs stay reserved so their ids are not reused
+                this.keys.set(record.prId, record.key ?? legacyPRKey(record.prId))
+                if (mismatched.has(record.prId)) continue
                 // Populate in-memory index
-                this.embeddings.set(record.prId, {
-                    text: record.textEmbedding,
-                    diff: record.diffEmbedding
-                })
-                this.metadata.set(record.prId, {
-                    prId: record.prId,
-                    repoId: 0,
-                    authorId: 0,
-                    title: record.title,
-                    description: record.description,
-                    createdAt: record.createdAt,
-                    files: record.files
-                })
-                const contentHash = this.computeContentHash(record.title, record.description, '')
-                this.bloom.add(contentHash)
+                this.indexRecord(record, held.has(record.prId))
+            }
+            if (this.memory) {
+                for (const record of [...records].sort((a, b) => lastActivity(a) - lastActivity(b))) {
+                    if (held.has(record.prId)) this.touch(record.prId, lastActivity(record))
+                }
+            }
+
+            if (this.storage.getFeedback) {
+                for (const feedback of await this.storage.getFeedback()) {
+                    this.applyFeedback(feedback)
+                }
+            }
+
+            // Stored links are authoritative; a store without any yet keeps
+            // the links rebuilt from feedback and saves them
+            if (this.storage.getDuplicateLinks) {
+                const links = await this.storage.getDuplicateLinks()
+                if (links.length > 0) {
+                    this.graph.import({ version: 1, edges: links.map(link => [link.prId, link.originalPrId]) })
+                } else {
+                    await this.persistLinks(this.graph.export().edges.map(([prId]) => prId))
+                }
             }
         } catch (e) {
             console.error('Failed to load from storage:', e)
+            await this.events.emit('storageError', { operation: 'load', error: e })
         }
     }
 
     /**
-     * Check if a PR is a duplicate
+     * Ids of stored PRs whose vectors came from another model or dimension.
+     * Rows stored before stamps existed are assumed to be from the current
+     * model and only their length is checked.
      */
-    async check(pr: PRInput, options?: CheckOptions): Promise<DetectionResult> {
-        // Validate input
-        validatePRInput(pr)
+    private findMismatchedEmbeddings(records: PRRecord[]): Set<number> {
+        if (this.embedderInfo.dimension === undefined) {
+            const stamped = records.find(r => r.embedder && sameEmbedder(r.embedder, this.embedderInfo))
+            if (stamped) this.embedderInfo.dimension = stamped.embedder!.dimension
+        }
 
-        // Sanitize inputs
-        const sanitizedPR: PRInput = {
-            prId: pr.prId,
-            title: sanitizeString(pr.title),
-            description: sanitizeString(pr.description),
-            files: pr.files.map(f => sanitizeFilePath(f)),
-            ...(pr.diff ? { diff: sanitizeString(pr.diff) } : {})
+        const mismatched = new Set<number>()
+        for (const record of records) {
+            if (!this.embeddedHere(record)) mismatched.add(record.prId)
         }
+        return mismatched
+    }
+
+    /**
+     * Whether a stored PR's vectors came from this detector's model
+     */
+    private embeddedHere(record: PRRecord): boolean {
+        const stamp = record.embedder ?? { ...this.embedderInfo, dimension: record.textEmbedding.length }
+        return sameEmbedder(stamp, this.embedderInfo)
+    }
 
-        const result = await this.checkInternal(sanitizedPR, options)
+    /**
+     * Ids of the stored PRs to hold in memory: all of them, or under a
+     * memory budget the most recently active that are not idle
+     */
+    private selectHeld(records: PRRecord[]): Set<number> {
+        const memory = this.memory
+        if (!memory) return new Set(records.map(r => r.prId))
+        const cutoff = memory.maxIdleDays !== undefined ? Date.now() - memory.maxIdleDays * DAY_MS : -Infinity
+        const active = records
+            .filter(r => lastActivity(r) >= cutoff)
+            .sort((a, b) => lastActivity(b) - lastActivity(a))
+        return new Set(active.slice(0, memory.maxPRs ?? active.length).map(r => r.prId))
+    }
 
-        // Save check result for analytics if not dry-run
-        if (!options?.dryRun && this.storage) {
+    /**
+     * Index a stored PR; one that is not held keeps only its content hash,
+     * lexical terms and LSH signature in memory
+     */
+    private indexRecord(record: PRRecord, hold: boolean): void {
+        if (hold) {
+            this.restoreRecord(record)
+        } else {
+            this.cold.add(record.prId)
+        }
+        this.indexContentHash(record.prId, record.contentHash)
+        this.lexical?.add(record.prId, {
+            title: record.title,
+            description: record.description,
+            files: record.files,
+            ...(record.diff ? { diff: record.diff } : {})
+        })
+        if (record.contentHash) {
+            this.bloom.add(record.contentHash)
+        }
+        if (record.minhash && this.lsh) {
             try {
-                await this.storage.saveCheck({
-                    prId: sanitizedPR.prId,
-                    resultType: result.type,
-                    confidence: result.confidence,
-                    timestamp: Date.now(),
-                    ...(result.type !== 'UNIQUE' ? { originalPrId: result.originalPr } : {})
-                })
-            } catch (error) {
-                console.error('Failed to save check result:', error)
+                this.lsh.add(record.prId, record.minhash)
+            } catch {
+                // Signature from a different LSH layout - skip, it only narrows the pre-filter
+            }
+        }
+    }
+
+    /**
+     * Hold a stored PR's vectors and metadata in memory
+     */
+    private restoreRecord(record: PRRecord): void {
+        this.setEmbeddings(record.prId, {
+            text: record.textEmbedding,
+            diff: record.diffEmbedding,
+            hunks: record.hunkEmbeddings ?? []
+        })
+        this.metadata.set(record.prId, this.metadataOf(record))
+    }
+
+    /**
+     * In-memory metadata of a stored PR
+     */
+    private metadataOf(record: PRRecord): PRMetadata {
+        return {
+            prId: record.prId,
+            repoId: 0,
+            authorId: 0,
+            key: this.keys.keyOf(record.prId)!,
+            title: record.title,
+            description: record.description,
+            createdAt: record.createdAt,
+            files: record.files,
+            ...(record.contentHash ? { contentHash: record.contentHash } : {}),
+            ...(record.state ? { state: record.state } : {}),
+            ...(record.mergedAt !== undefined ? { mergedAt: record.mergedAt } : {}),
+            ...(record.closedAt !== undefined ? { closedAt: record.closedAt } : {}),
+            ...(record.updatedAt !== undefined ? { updatedAt: record.updatedAt } : {}),
+            ...(record.revision !== undefined ? { revision: record.revision } : {}),
+            ...(record.author !== undefined ? { author: record.author } : {})
+        }
+    }
+
+    /**
+     * Read PRs among `prIds` that are not held back from storage: evicted
+     * ones, and with a store shared through locks, ones another process
+     * indexed. Each held or evicted PR counts as a hit on memory or on
+     * storage.
+     */
+    private async rehydrate(prIds: number[]): Promise<void> {
+        const storage = this.storage
+        const memory = this.memory
+        const shared = storage?.withLock !== undefined
+        if (!storage || (!memory && !shared)) return
+
+        const wanted: number[] = []
+        for (const prId of new Set(prIds)) {
+            if (this.embeddings.has(prId)) {
+                if (memory) memory.hotHits++
+                this.touch(prId)
+            } else if (this.cold.has(prId) || shared) {
+                wanted.push(prId)
+            }
+        }
+        if (wanted.length === 0) return
+
+        let records: Array<PRRecord | null>
+        try {
+            records = await Promise.all(wanted.map(prId => storage.get(prId)))
+        } catch (error) {
+            console.error('Failed to read PRs from storage:', error)
+            await this.events.emit('storageError', { operation: 'get', error })
+            return
+        }
+        for (const record of records) {
+            // A concurrent check may have restored it already, and rows
+            // re-embedded by another model since init() stay out
+            if (!record || this.embeddings.has(record.prId) || !this.embeddedHere(record)) continue
+            if (this.cold.delete(record.prId)) {
+                this.restoreRecord(record)
+                if (memory) memory.coldHits++
+                continue
             }
+            // Indexed by another process, unless it gave this id to another key
+            const key = record.key ?? legacyPRKey(record.prId)
+            const known = this.keys.keyOf(record.prId)
+            if (known && !prKeyEquals(known, key)) continue
+            this.keys.set(record.prId, key)
+            this.indexRecord(record, true)
+        }
+    }
+
+    /**
+     * Evict the least recently used PRs over the budget, and those idle too long
+     */
+    private async enforceMemoryBudget(): Promise<void> {
+        const memory = this.memory
+        if (!memory) return
+        const cutoff = memory.maxIdleDays !== undefined ? Date.now() - memory.maxIdleDays * DAY_MS : -Infinity
+        for (const [prId, usedAt] of this.lastUsed) {
+            const over = memory.maxPRs !== undefined && this.embeddings.size > memory.maxPRs
+            if (!over && usedAt >= cutoff) break
+            await this.evict(prId, over ? 'memory-budget' : 'idle')
         }
+    }
+
+    /**
+     * Drop a PR's vectors and metadata from memory; its key, links,
+     * content hash, LSH signature and lexical terms stay
+     */
+    private async evict(prId: number, reason: 'memory-budget' | 'idle'): Promise<void> {
+        const revisions = this.revisions.get(prId) ?? []
+        this.dropVectors(prId)
+        this.metadata.delete(prId)
+        this.revisions.delete(prId)
+        this.cold.add(prId)
+        this.memory!.evictions++
+        await this.events.emit('evicted', { prId, key: this.keys.keyOf(prId)!, reason, revisions: revisions.map(r => r.revision) })
+    }
+
+    /**
+     * Mark a held PR as used (memory budget only)
+     */
+    private touch(prId: number, at: number = Date.now()): void {
+        if (!this.memory) return
+        this.lastUsed.delete(prId)
+        this.lastUsed.set(prId, at)
+    }
+
+    /**
+     * Check if a PR is a duplicate
+     */
+    async check(pr: PRInput | KeyedPRInput, options?: CheckOptions): Promise<DetectionResult> {
+        // Validate input
+        validatePRInput(pr)
+
+        // Sanitize inputs
+        const sanitizedPR = this.resolveInput(pr, options?.dryRun ?? false)
+
+        return this.checkResolved(sanitizedPR, options)
+    }
+
+    /**
+     * check() once the input is validated and resolved
+     */
+    private async checkResolved(sanitizedPR: ResolvedPRInput, options?: CheckOptions, prefetched?: Promise<IndexedEmbeddings>): Promise<DetectionResult> {
+        const result = await this.checkInternal(sanitizedPR, options, prefetched)
+        if (!options?.dryRun) await this.saveCheck(sanitizedPR.prId, result)
 
         return {
             type: result.type,
             confidence: result.confidence,
-            ...(result.type !== 'UNIQUE' ? { originalPr: result.originalPr } : {})
+            ...(result.type !== 'UNIQUE' ? { originalPr: result.originalPr } : {}),
+            ...(result.type !== 'UNIQUE' && result.originalKey ? { originalKey: result.originalKey } : {}),
+            ...(result.matches ? { matches: result.matches } : {})
         } as DetectionResult
     }
 
     /**
      * Check with detailed score breakdown (Feature 2: Explainability)
      */
-    async checkDetailed(pr: PRInput, options?: CheckOptions): Promise<DetailedDetectionResult> {
+    async checkDetailed(pr: PRInput | KeyedPRInput, options?: CheckOptions): Promise<DetailedDetectionResult> {
         // Validate input
         validatePRInput(pr)
 
         // Sanitize inputs
-        const sanitizedPR: PRInput = {
-            prId: pr.prId,
-            title: sanitizeString(pr.title),
-            description: sanitizeString(pr.description),
-            files: pr.files.map(f => sanitizeFilePath(f)),
-            ...(pr.diff ? { diff: sanitizeString(pr.diff) } : {})
-        }
+        const sanitizedPR = this.resolveInput(pr, options?.dryRun ?? false)
 
-        return this.checkInternal(sanitizedPR, { ...options, detailed: true })
+        const result = await this.checkInternal(sanitizedPR, { ...options, detailed: true })
+        if (!options?.dryRun) await this.saveCheck(sanitizedPR.prId, result)
+        return result
+    }
+
+    /**
+     * Save a check result for analytics
+     */
+    private async saveCheck(prId: number, result: DetailedDetectionResult): Promise<void> {
+        if (!this.storage) return
+        try {
+            await this.storage.saveCheck({
+                prId,
+                resultType: result.type,
+                confidence: result.confidence,
+                timestamp: Date.now(),
+                ...(result.type !== 'UNIQUE' ? { originalPrId: result.originalPr } : {})
+            })
+        } catch (error) {
+            console.error('Failed to save check result:', error)
+            await this.events.emit('storageError', { operation: 'saveCheck', prId, error })
+        }
     }
 
     /**
      * Batch check multiple PRs at once (Feature 3: Batch API)
      */
-    async checkMany(prs: PRInput[], options?: CheckOptions): Promise<BatchCheckResult[]> {
+    async checkMany(prs: Array<PRInput | KeyedPRInput>, options?: CheckOptions): Promise<BatchCheckResult[]> {
         if (!Array.isArray(prs)) {
             throw new ValidationError('prs must be an array', 'prs')
         }
@@ -310,8 +1011,10 @@ export class PRSenseDetector {
             try {
                 const startTime = Date.now()
                 const result = await this.check(pr, options)
+                const key = pr.key ? normalizePRKey(pr.key) : legacyPRKey(pr.prId!)
                 results.push({
-                    prId: pr.prId,
+                    prId: this.keys.idOf(key) ?? pr.prId ?? 0,
+                    key,
                     result,
                     processingTimeMs: Date.now() - startTime
                 })
@@ -319,15 +1022,17 @@ export class PRSenseDetector {
                 // Continue processing other PRs even if one fails
                 // Include error in result for visibility
                 results.push({
-                    prId: pr.prId,
+                    prId: pr.prId ?? 0,
+                    ...(pr.key ? { key: pr.key } : {}),
                     result: {
                         type: 'UNIQUE',
                         confidence: 0
                     },
-                    processingTimeMs: 0
+                    processingTimeMs: 0,
+                    error: error instanceof Error ? error.message : String(error)
                 })
                 // Log error but don't stop batch processing
-                console.error(`Failed to process PR #${pr.prId}:`, error)
+                console.error(`Failed to process PR #${pr.prId ?? pr.key?.number}:`, error)
             }
         }
 
@@ -335,14 +1040,122 @@ export class PRSenseDetector {
     }
 
     /**
-     * Update scoring weights at runtime (Feature 5: Configurable Weights)
+     * Check a stream of PRs, yielding results in input order as they finish.
+     *
+     * Up to `concurrency` PRs are embedded in parallel ahead of the one being
+     * checked, but matching and indexing stay sequential: each PR is compared
+     * only against PRs indexed before it, as if checked one at a time. Input
+     * is read lazily, so a slow consumer holds back reading and embedding.
+     *
+     * ```typescript
+     * for await (const { prId, result } of detector.checkStream(readHistory(), { concurrency: 8 })) {
+     *     if (result.type === 'DUPLICATE') console.log(`#${prId} duplicates #${result.originalPr}`)
+     * }
+     * ```
      */
-    setWeights(weights: [number, number, number]): void {
-        validateWeights(weights)
+    async *checkStream(
+        prs: Iterable<PRInput | KeyedPRInput> | AsyncIterable<PRInput | KeyedPRInput>,
+        options: StreamCheckOptions = {}
+    ): AsyncGenerator<BatchCheckResult> {
+        const { concurrency = 4, onProgress, signal, ...checkOptions } = options
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new ValidationError('concurrency must be a positive integer', 'concurrency')
+        }
+        signal?.throwIfAborted()
+
+        const iterator = Symbol.asyncIterator in prs
+            ? (prs as AsyncIterable<PRInput | KeyedPRInput>)[Symbol.asyncIterator]()
+            : (prs as Iterable<PRInput | KeyedPRInput>)[Symbol.iterator]()
+        const total = Array.isArray(prs) ? prs.length : undefined
+        const dryRun = checkOptions.dryRun ?? false
+        const queue: StreamItem[] = []
+        const startedAt = Date.now()
+        let exhausted = false
+        let completed = 0
+        let failed = 0
 
-        const sum = weights[0] + weights[1] + weights[2]
-        if (Math.abs(sum - 1.0) > 0.001) {
-            // Normalize weights to sum to 1.0
+        try {
+            while (true) {
+                // Read ahead until `concurrency` PRs are embedding or ready
+                while (!exhausted && queue.length < concurrency) {
+                    const next = await iterator.next()
+                    if (next.done) {
+                        exhausted = true
+                    } else {
+                        queue.push(this.prepareStreamItem(next.value, dryRun))
+                    }
+                }
+                const item = queue.shift()
+                if (!item) break
+                signal?.throwIfAborted()
+
+                const result = await this.finishStreamItem(item, checkOptions)
+                completed++
+                if (result.error !== undefined) failed++
+                if (onProgress) {
+                    const elapsedMs = Date.now() - startedAt
+                    onProgress({
+                        completed,
+                        failed,
+                        ...(total !== undefined ? { total } : {}),
+                        elapsedMs,
+                        rate: elapsedMs > 0 ? completed / (elapsedMs / 1000) : completed
+                    })
+                }
+                yield result
+                signal?.throwIfAborted()
+            }
+        } finally {
+            // Early exit (break, abort, error): close the source; embeddings
+            // already in flight settle on their own
+            if (!exhausted) await iterator.return?.()
+        }
+    }
+
+    /**
+     * Validate and resolve a streamed PR and start embedding it. Failures are
+     * kept on the item and reported when its turn comes.
+     */
+    private prepareStreamItem(pr: PRInput | KeyedPRInput, dryRun: boolean): StreamItem {
+        const startedAt = Date.now()
+        try {
+            validatePRInput(pr)
+            const resolved = this.resolveInput(pr, dryRun)
+            const embedding = this.embedPR(this.normalizeInput(resolved).input)
+            // Rejections surface through checkResolved; don't let them go unhandled meanwhile
+            embedding.catch(() => { })
+            return { pr, resolved, embedding, startedAt }
+        } catch (error) {
+            return { pr, error, startedAt }
+        }
+    }
+
+    private async finishStreamItem(item: StreamItem, options: CheckOptions): Promise<BatchCheckResult> {
+        const { pr, resolved } = item
+        try {
+            if (!resolved) throw item.error
+            const result = await this.checkResolved(resolved, options, item.embedding)
+            return { prId: resolved.prId, key: resolved.key, result, processingTimeMs: Date.now() - item.startedAt }
+        } catch (error) {
+            return {
+                prId: resolved?.prId ?? pr.prId ?? 0,
+                ...(resolved ? { key: resolved.key } : pr.key ? { key: pr.key } : {}),
+                result: { type: 'UNIQUE', confidence: 0 },
+                processingTimeMs: Date.now() - item.startedAt,
+                error: error instanceof Error ? error.message : String(error)
+            }
+        }
+    }
+
+    /**
+     * Update scoring weights at runtime (Feature 5: Configurable Weights)
+     */
+    setWeights(weights: [number, number, number]): void {
+        validateWeights(weights)
+
+        const sum = weights[0] + weights[1] + weights[2]
+        if (Math.abs(sum - 1.0) > 0.001) {
+            // Normalize weights to sum to 1.0
             this.weights = [
                 weights[0] / sum,
                 weights[1] / sum,
@@ -353,6 +1166,25 @@ export class PRSenseDetector {
         }
     }
 
+    /**
+     * Update duplicate/possible thresholds at runtime (e.g. after calibration)
+     */
+    setThresholds(duplicateThreshold: number, possibleThreshold: number): void {
+        validateThresholds(duplicateThreshold, possibleThreshold)
+        if (this.lshSkipThreshold !== undefined && duplicateThreshold > this.lshSkipThreshold) {
+            throw new ConfigurationError('duplicateThreshold must not exceed lsh.skipEmbeddingThreshold')
+        }
+        this.duplicateThreshold = duplicateThreshold
+        this.possibleThreshold = possibleThreshold
+    }
+
+    /**
+     * Get current duplicate/possible thresholds
+     */
+    getThresholds(): { duplicateThreshold: number; possibleThreshold: number } {
+        return { duplicateThreshold: this.duplicateThreshold, possibleThreshold: this.possibleThreshold }
+    }
+
     /**
      * Get current scoring weights
      */
@@ -363,61 +1195,240 @@ export class PRSenseDetector {
     /**
      * Internal check that returns detailed result
      */
-    private async checkInternal(pr: PRInput, options?: CheckOptions): Promise<DetailedDetectionResult> {
-        // 1. Generate embeddings (check cache first)
-        let textEmbedding: Float32Array
-        let diffEmbedding: Float32Array
+    private async checkInternal(pr: ResolvedPRInput, options?: CheckOptions, prefetched?: Promise<IndexedEmbeddings>): Promise<DetailedDetectionResult> {
+        const topK = options?.topK
+        if (topK !== undefined && (!Number.isInteger(topK) || topK < 1)) {
+            throw new ValidationError('topK must be a positive integer', 'topK')
+        }
+        if (options?.filter) {
+            validateCandidateFilter(options.filter)
+        }
 
+        // Normalise the diff first: hashing, shingling and embedding all see the cleaned diff
+        let result: DetailedDetectionResult
         try {
-            // Feature 4: Cache hit?
-            const cached = this.cache?.get(pr.title, pr.description, pr.diff || '')
-            if (cached) {
-                textEmbedding = cached.textEmbedding
-                diffEmbedding = cached.diffEmbedding
+            const { input, normalization } = this.normalizeInput(pr)
+            let outcome: DetectOutcome
+            if (options?.dryRun) {
+                // Dry runs index nothing, so they need not wait for the lock
+                outcome = await this.detect(input, options, prefetched)
             } else {
-                // Cache miss - run pipeline
-                const result = await this.pipeline.run(
-                    pr.title,
-                    pr.description,
-                    pr.diff || ''
-                )
-                textEmbedding = result.textEmbedding
-                diffEmbedding = result.diffEmbedding
-
-                // Validate embedding dimensions
-                if (!textEmbedding || textEmbedding.length === 0) {
-                    throw new EmbeddingError('Text embedding is empty')
-                }
-                if (!diffEmbedding || diffEmbedding.length === 0) {
-                    throw new EmbeddingError('Diff embedding is empty')
-                }
-
-                // Store in cache
-                this.cache?.set(
-                    pr.title,
-                    pr.description,
-                    pr.diff || '',
-                    textEmbedding,
-                    diffEmbedding
-                )
+                // Embedding starts on arrival and finishes before the storage
+                // lock is taken; only scoring and indexing run under it
+                const embedding = prefetched ?? this.prefetchEmbedding(input)
+                outcome = await this.serialize(pr.key, async () => {
+                    if (this.storeAssignsIds(pr.key)) pr.prId = input.prId = await this.claimId(pr.key)
+                    return this.detect(input, options, embedding)
+                }, embedding)
+            }
+            for (const emit of outcome.events) await emit()
+            const { explain } = outcome
+            result = {
+                ...outcome.result,
+                ...(explain ? await this.explainMatch(input, explain.matchedId, explain.breakdown, options, explain.exact) : {}),
+                ...(normalization ? { normalization } : {})
             }
         } catch (error) {
-            if (error instanceof EmbeddingError || error instanceof ValidationError) {
+            if (error instanceof EmbeddingError) {
+                await this.events.emit('embeddingFailed', { prId: pr.prId, key: pr.key, error })
+            }
+            throw error
+        }
+
+        await this.emitOutcome(pr, result, options)
+        await this.enforceMemoryBudget()
+        return result
+    }
+
+    /**
+     * Run fn alone among indexing calls for PRs of the same repository, so
+     * that of two related PRs the one that arrived first is the original.
+     * The in-process lock orders calls in this process; a storage lock
+     * orders processes sharing the store. Work started on arrival (`ready`)
+     * settles before the storage lock is taken. If the storage lock cannot
+     * be taken, the error is reported and the call fails without running fn.
+     */
+    private serialize<T>(key: PRKey, fn: () => Promise<T>, ready?: Promise<unknown>): Promise<T> {
+        const scope = `prsense:${key.provider}:${key.repo}`
+        return this.locks.run(scope, async () => {
+            await ready
+            const storage = this.storage
+            if (!storage?.withLock) return fn()
+            let started = false
+            try {
+                return await storage.withLock(scope, () => {
+                    started = true
+                    return fn()
+                })
+            } catch (error) {
+                if (!started) {
+                    console.error('Failed to take the storage lock:', error)
+                    await this.events.emit('storageError', { operation: 'lock', error })
+                }
                 throw error
             }
-            throw new EmbeddingError(`Failed to generate embeddings: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined)
+        })
+    }
+
+    /**
+     * Whether ids for new keys come from the store: it is shared through
+     * locks and can look keys up and hand out ids. Local keys are their id.
+     */
+    private storeAssignsIds(key: PRKey): boolean {
+        const storage = this.storage
+        return storage?.withLock !== undefined && storage.getByKey !== undefined && storage.nextPrId !== undefined
+            && key.provider !== LOCAL_PROVIDER
+    }
+
+    /**
+     * Bind a key to its id when storeAssignsIds(), under serialize(): a key
+     * the store already has keeps its stored id, one known here keeps its
+     * id, and a new one gets the store's next id, so replicas never give
+     * one id to two PRs
+     */
+    private async claimId(key: PRKey): Promise<number> {
+        const storage = this.storage!
+        let prId: number
+        try {
+            prId = (await storage.getByKey!(key))?.prId ?? this.keys.idOf(key) ?? await storage.nextPrId!()
+        } catch (error) {
+            console.error('Failed to allocate a PR id:', error)
+            await this.events.emit('storageError', { operation: 'nextPrId', error })
+            throw error
         }
+        this.keys.set(prId, key)
+        return prId
+    }
 
-        // 2. Fast rejection with Bloom filter
-        // We track CONTENT hashes to detect if we've processed this exact PR contents before.
-        const contentHash = this.computeContentHash(pr.title, pr.description, pr.diff)
+    /**
+     * Id of a key, giving an unknown one an id the way checks do
+     */
+    private async allocateKey(key: PRKey): Promise<number> {
+        return this.storeAssignsIds(key)
+            ? this.serialize(key, () => this.claimId(key))
+            : this.keys.allocate(key)
+    }
+
+    /**
+     * Start embedding a PR that is about to be indexed. A PR whose content
+     * is already indexed is an exact match and is not embedded.
+     */
+    private prefetchEmbedding(pr: ResolvedPRInput): Promise<IndexedEmbeddings> | undefined {
+        if (this.contentIndex.has(this.computeContentHash(pr.title, pr.description, pr.diff))) return undefined
+        const embedding = this.embedPR(pr)
+        // Rejections surface through detect(); don't let them go unhandled meanwhile
+        embedding.catch(() => { })
+        return embedding
+    }
+
+    /**
+     * Input with its diff normalised (unchanged when normalisation is off)
+     */
+    private normalizeInput(pr: ResolvedPRInput): { input: ResolvedPRInput; normalization?: NormalizationReport } {
+        const { diff, ...rest } = pr
+        if (!this.normalizer || !diff) return { input: pr }
+        const normalized = this.normalizer.normalize(diff)
+        return {
+            input: { ...rest, ...(normalized.diff ? { diff: normalized.diff } : {}) },
+            normalization: normalized.report
+        }
+    }
 
-        // Note: Standard Bloom Filters cannot detect *similar* items, only *exact* duplicates.
-        // A true "Fast Path" for similarity would require LSH (Locality Sensitive Hashing),
-        // which is a future roadmap item. For now, we optimistically proceed to Vector Search.
+    /**
+     * duplicate / possible / unique event for a finished check
+     */
+    private async emitOutcome(pr: ResolvedPRInput, result: DetailedDetectionResult, options?: CheckOptions): Promise<void> {
+        const event = {
+            pr: toEventPR(pr),
+            dryRun: options?.dryRun ?? false,
+            ...(options?.context ? { context: options.context } : {})
+        }
+        switch (result.type) {
+            case 'DUPLICATE': return this.events.emit('duplicate', { ...event, result })
+            case 'POSSIBLE': return this.events.emit('possible', { ...event, result })
+            case 'UNIQUE': return this.events.emit('unique', { ...event, result })
+        }
+    }
 
-        // 3. Find candidates (simplified ANN - iterate all for now)
-        const candidates = await this.findCandidates(textEmbedding, this.maxCandidates, diffEmbedding)
+    /**
+     * Exact match, LSH fast path, ANN retrieval, scoring and indexing
+     */
+    private async detect(pr: ResolvedPRInput, options?: CheckOptions, prefetched?: Promise<IndexedEmbeddings>): Promise<DetectOutcome> {
+        const topK = options?.topK
+        const filter = options?.filter ?? this.config.candidateFilter
+        const events: DetectOutcome['events'] = []
+
+        const contentHash = this.computeContentHash(pr.title, pr.description, pr.diff)
+        const signature = this.minhasher?.signatureFor(pr.diff || '', pr.files) ?? null
+
+        // An evicted PR being re-checked keeps its history, and an evicted
+        // original of identical content can still be matched
+        const contentOwner = this.contentIndex.get(contentHash)
+        await this.rehydrate(contentOwner !== undefined ? [pr.prId, contentOwner] : [pr.prId])
+
+        // 0. Exact-content short-circuit: identical title/description/diff is a
+        // duplicate by definition - no embedding or scoring needed
+        const exactMatch = this.findExactMatch(pr.prId, contentHash, filter)
+        if (exactMatch !== null) {
+            const matched = this.vectorsOf(exactMatch)!
+            if (!options?.dryRun) {
+                await this.addToIndex(pr, matched, signature, events)
+                if (this.graph.addEdge(pr.prId, exactMatch)) await this.persistLinks([pr.prId])
+            }
+            const breakdown: ScoreBreakdown = {
+                textSimilarity: 1,
+                diffSimilarity: 1,
+                fileSimilarity: 1,
+                textContribution: this.weights[0],
+                diffContribution: this.weights[1],
+                fileContribution: this.weights[2],
+                finalScore: 1,
+                weights: [...this.weights] as [number, number, number]
+            }
+            const originalKey = this.keys.keyOf(exactMatch)!
+            return {
+                result: {
+                    type: 'DUPLICATE',
+                    originalPr: exactMatch,
+                    originalKey,
+                    confidence: 1,
+                    breakdown,
+                    ...(topK !== undefined ? { matches: [{ prId: exactMatch, key: originalKey, type: 'DUPLICATE' as const, confidence: 1, breakdown }] } : {})
+                },
+                explain: { matchedId: exactMatch, breakdown, exact: true },
+                events
+            }
+        }
+
+        // 1. MinHash/LSH fast path: near-duplicate candidates in sub-linear time,
+        // before any embedding work
+        const nearDuplicates = signature && this.lsh
+            ? this.lsh.query(signature, this.lshMinSimilarity)
+            : []
+        const fastMatch = await this.findFastPathMatch(pr, nearDuplicates, filter)
+
+        // 2. Generate embeddings. An obvious copy in a dry run embeds only its
+        // text: nothing is indexed, and the MinHash estimate stands in for
+        // the diff similarity. Indexed PRs always get vectors of their own.
+        const embedded = fastMatch && options?.dryRun && !prefetched
+            ? null
+            : await (prefetched ?? this.embedPR(pr))
+        const text = embedded?.text ?? await this.embedText(pr)
+
+        // 3. Find candidates via the ANN index, plus any LSH near-duplicates it missed.
+        // A re-checked PR never matches itself, pairs a maintainer rejected
+        // as "not a duplicate" are never re-flagged, and PRs outside the
+        // candidate filter (e.g. long-closed ones) are dropped, once evicted
+        // PRs among them have been read back from storage.
+        const exactVectors = new Map<number, IndexedEmbeddings>()
+        const retrieved = fastMatch || !embedded
+            ? [{ prId: fastMatch!.prId, score: fastMatch!.similarity }]
+            : this.mergeCandidates(
+                await this.findCandidates(embedded.text, Math.max(this.maxCandidates, topK ?? 0), embedded.diff, embedded.hunks, exactVectors),
+                nearDuplicates
+            )
+        await this.rehydrate(retrieved.map(c => c.prId).filter(prId => prId !== pr.prId))
+        const candidates = retrieved.filter(c => c.prId !== pr.prId && !this.feedback.isRejected(pr.prId, c.prId) && this.isEligible(c.prId, filter))
 
         // 3.5 AI Workflow Intelligence: Evaluate Rules
         let violations: import('./rules.js').RuleViolation[] = []
@@ -471,16 +1482,20 @@ export class PRSenseDetector {
 
         if (candidates.length === 0) {
             if (!options?.dryRun) {
-                await this.addToIndex(pr, textEmbedding, diffEmbedding)
+                await this.addToIndex(pr, embedded!, signature, events)
             }
-            return { type: 'UNIQUE', confidence: 0, violations }
+            return { result: { type: 'UNIQUE', confidence: 0, violations, ...(topK !== undefined ? { matches: [] } : {}) }, events }
         }
 
-        // 4. Score all candidates with breakdown
-        let bestMatch: { prId: number; score: number; breakdown: ScoreBreakdown } | null = null
+        // 4. Score all candidates with breakdown; quantised vectors are
+        // replaced by full-precision ones from storage where available
+        const scored: Array<{ prId: number; score: number; breakdown: ScoreBreakdown }> = []
+        if (!fastMatch) {
+            await this.loadExactEmbeddings(candidates.map(c => c.prId), exactVectors)
+        }
 
         for (const candidate of candidates) {
-            const candidateEmbed = this.embeddings.get(candidate.prId)
+            const candidateEmbed = exactVectors.get(candidate.prId) ?? this.vectorsOf(candidate.prId)
             const candidateMeta = this.metadata.get(candidate.prId)
 
             if (!candidateEmbed || !candidateMeta) continue
@@ -490,77 +1505,395 @@ export class PRSenseDetector {
                 new Set(candidateMeta.files || [])
             )
 
-            const textSimilarity = cosine(textEmbedding, candidateEmbed.text)
-            const diffSimilarity = cosine(diffEmbedding, candidateEmbed.diff)
-
-            const breakdown: ScoreBreakdown = {
-                textSimilarity,
-                diffSimilarity,
-                fileSimilarity,
-                textContribution: this.weights[0] * textSimilarity,
-                diffContribution: this.weights[1] * diffSimilarity,
-                fileContribution: this.weights[2] * fileSimilarity,
-                finalScore: this.weights[0] * textSimilarity +
-                    this.weights[1] * diffSimilarity +
-                    this.weights[2] * fileSimilarity,
-                weights: [...this.weights] as [number, number, number]
-            }
-
-            if (!bestMatch || breakdown.finalScore > bestMatch.score) {
-                bestMatch = { prId: candidate.prId, score: breakdown.finalScore, breakdown }
-            }
+            const breakdown = embedded
+                ? this.scoreEmbeddings(embedded, candidateEmbed, fileSimilarity)
+                : this.estimateScore(text, candidateEmbed, fastMatch!.similarity, fileSimilarity)
+            scored.push({ prId: candidate.prId, score: breakdown.finalScore, breakdown })
         }
 
+        // Stable sort: ties keep retrieval order
+        scored.sort((a, b) => b.score - a.score)
+        const bestMatch = scored[0] ?? null
+        const matches = topK !== undefined ? this.rankMatches(scored, topK) : undefined
+
         // 5. Add to index (unless dry-run)
         if (!options?.dryRun) {
-            await this.addToIndex(pr, textEmbedding, diffEmbedding)
+            await this.addToIndex(pr, embedded!, signature, events)
         }
 
         // 6. Make decision with breakdown
         if (!bestMatch) {
-            return { type: 'UNIQUE', confidence: 0 }
+            return { result: { type: 'UNIQUE', confidence: 0, ...(matches ? { matches } : {}) }, events }
         }
+        const explain = { matchedId: bestMatch.prId, breakdown: bestMatch.breakdown }
 
         if (bestMatch.score >= this.duplicateThreshold) {
             if (!options?.dryRun) {
-                this.graph.addEdge(pr.prId, bestMatch.prId)
+                if (this.graph.addEdge(pr.prId, bestMatch.prId)) await this.persistLinks([pr.prId])
             }
             return {
-                type: 'DUPLICATE',
-                originalPr: bestMatch.prId,
-                confidence: bestMatch.score,
-                breakdown: bestMatch.breakdown
+                result: {
+                    type: 'DUPLICATE',
+                    originalPr: bestMatch.prId,
+                    originalKey: this.keys.keyOf(bestMatch.prId)!,
+                    confidence: bestMatch.score,
+                    breakdown: bestMatch.breakdown,
+                    ...(matches ? { matches } : {})
+                },
+                explain,
+                events
             }
         }
 
         if (bestMatch.score >= this.possibleThreshold) {
             return {
-                type: 'POSSIBLE',
-                originalPr: bestMatch.prId,
-                confidence: bestMatch.score,
-                breakdown: bestMatch.breakdown
+                result: {
+                    type: 'POSSIBLE',
+                    originalPr: bestMatch.prId,
+                    originalKey: this.keys.keyOf(bestMatch.prId)!,
+                    confidence: bestMatch.score,
+                    breakdown: bestMatch.breakdown,
+                    ...(matches ? { matches } : {})
+                },
+                explain,
+                events
             }
         }
 
         return {
-            type: 'UNIQUE',
-            confidence: bestMatch.score,
-            breakdown: bestMatch.breakdown
+            result: {
+                type: 'UNIQUE',
+                confidence: bestMatch.score,
+                breakdown: bestMatch.breakdown,
+                ...(matches ? { matches } : {})
+            },
+            events
         }
     }
 
+    /**
+     * Detector id of a PR key (undefined if the key was never seen);
+     * numeric ids are returned as is
+     */
+    resolve(ref: PRRef): number | undefined {
+        return typeof ref === 'number' ? ref : this.keys.idOf(ref)
+    }
+
+    /**
+     * Key of a detector id (undefined if unknown)
+     */
+    getKey(prId: number): PRKey | undefined {
+        return this.keys.keyOf(prId)
+    }
+
     /**
      * Get all duplicates of a PR
      */
-    getDuplicates(prId: number): number[] {
-        return this.graph.getAllDuplicates(prId)
+    getDuplicates(pr: PRRef): number[] {
+        const prId = this.resolve(pr)
+        return prId === undefined ? [] : this.graph.getAllDuplicates(prId)
+    }
+
+    /**
+     * Get the PR this one was directly flagged as a duplicate of, if any
+     */
+    getDuplicateOf(pr: PRRef): number | undefined {
+        const prId = this.resolve(pr)
+        return prId === undefined ? undefined : this.graph.getParent(prId)
     }
 
     /**
      * Get original PR in duplicate chain
      */
-    getOriginal(prId: number): number {
-        return this.graph.getOriginal(prId)
+    getOriginal(pr: PRRef): number {
+        return this.graph.getOriginal(this.require(pr))
+    }
+
+    /**
+     * Every duplicate cluster, largest first, then by latest activity
+     */
+    getClusters(): DuplicateCluster[] {
+        return this.graph.getClusters()
+            .map(cluster => this.describeCluster(cluster.original, cluster.members))
+            .sort((a, b) => b.members.length - a.members.length
+                || (b.lastCreatedAt ?? 0) - (a.lastCreatedAt ?? 0)
+                || a.original - b.original)
+    }
+
+    /**
+     * The duplicate cluster a PR belongs to (undefined if it has no duplicate links)
+     */
+    getCluster(pr: PRRef): DuplicateCluster | undefined {
+        const prId = this.resolve(pr)
+        if (prId === undefined) return undefined
+        const original = this.graph.getOriginal(prId)
+        const duplicates = this.graph.getAllDuplicates(original)
+        return duplicates.length > 0 ? this.describeCluster(original, [original, ...duplicates]) : undefined
+    }
+
+    /**
+     * Merge the clusters of two PRs. The original created first stays
+     * canonical; the other becomes its duplicate, along with its cluster.
+     */
+    async mergeClusters(prA: PRRef, prB: PRRef): Promise<DuplicateCluster> {
+        let a = this.graph.getOriginal(this.require(prA))
+        let b = this.graph.getOriginal(this.require(prB))
+        if (a === b) {
+            throw new ValidationError('PRs are already in the same cluster', 'prB')
+        }
+        await this.rehydrate([a, b])
+        if ((this.metadata.get(b)?.createdAt ?? Infinity) < (this.metadata.get(a)?.createdAt ?? Infinity)) {
+            [a, b] = [b, a]
+        }
+        this.graph.merge(a, b)
+        await this.persistLinks([b])
+        return this.getCluster(a)!
+    }
+
+    /**
+     * Split a PR and the PRs linked to it as duplicates off its cluster.
+     * Returns false if the PR was not a duplicate.
+     */
+    async splitCluster(pr: PRRef): Promise<boolean> {
+        const prId = this.require(pr)
+        if (!this.graph.split(prId)) return false
+        await this.persistLinks([prId])
+        return true
+    }
+
+    /**
+     * Remove a deleted PR from the indexes and storage. Its duplicates are
+     * linked to its original or, if it was the original, to the oldest of
+     * them. Its key stays reserved. Returns false for an unknown PR.
+     */
+    async removePR(pr: PRRef): Promise<boolean> {
+        const prId = this.resolve(pr)
+        const key = prId === undefined ? undefined : this.keys.keyOf(prId)
+        if (prId === undefined || !key) return false
+        return this.serialize(key, () => this.removeIndexed(prId))
+    }
+
+    /**
+     * removePR() under the repository lock
+     */
+    private async removeIndexed(prId: number): Promise<boolean> {
+        await this.rehydrate([prId])
+        const meta = this.metadata.get(prId)
+        if (!meta) return false
+
+        this.metadata.delete(prId)
+        this.dropVectors(prId)
+        this.lsh?.remove(prId)
+        this.lexical?.remove(prId)
+        this.revisions.delete(prId)
+        if (meta.contentHash) {
+            this.bloom.remove(meta.contentHash)
+            if (this.contentIndex.get(meta.contentHash) === prId) {
+                // The oldest remaining PR with the same content takes the hash over
+                this.contentIndex.delete(meta.contentHash)
+                const heir = [...this.metadata.values()]
+                    .filter(other => other.contentHash === meta.contentHash)
+                    .sort((a, b) => a.createdAt - b.createdAt)[0]
+                if (heir) this.contentIndex.set(meta.contentHash, heir.prId)
+            }
+        }
+
+        const original = this.graph.getParent(prId)
+        const duplicates = this.graph.remove(prId)
+        if (original === undefined && duplicates.length > 1) {
+            const [heir, ...rest] = [...duplicates].sort((a, b) =>
+                (this.metadata.get(a)?.createdAt ?? Infinity) - (this.metadata.get(b)?.createdAt ?? Infinity) || a - b)
+            for (const duplicate of rest) this.graph.addEdge(duplicate, heir!)
+        }
+        await this.persistLinks([prId, ...duplicates])
+
+        if (this.storage) {
+            try {
+                await this.storage.delete(prId)
+            } catch (error) {
+                console.error('Failed to delete PR:', error)
+                await this.events.emit('storageError', { operation: 'delete', prId, error })
+            }
+        }
+        return true
+    }
+
+    /**
+     * Stored check results of the given PRs, oldest first (empty without
+     * storage that keeps them)
+     */
+    async getCheckResults(prs: PRRef[]): Promise<CheckResult[]> {
+        if (!this.storage?.getCheckResults) return []
+        const prIds = prs.flatMap(pr => {
+            const prId = this.resolve(pr)
+            return prId === undefined ? [] : [prId]
+        })
+        try {
+            return prIds.length > 0 ? await this.storage.getCheckResults(prIds) : []
+        } catch (error) {
+            console.error('Failed to load check results:', error)
+            await this.events.emit('storageError', { operation: 'load', error })
+            return []
+        }
+    }
+
+    /**
+     * Record a PR being closed, merged or reopened. Closed and merged PRs
+     * stay indexed; use a candidate filter to stop matching them.
+     * Returns false when the PR is not indexed.
+     */
+    async updateState(pr: PRRef, state: PRState, at: number = Date.now()): Promise<boolean> {
+        if (state !== 'open' && state !== 'closed' && state !== 'merged') {
+            throw new ValidationError(`Unknown PR state: ${String(state)}`, 'state')
+        }
+        const prId = this.resolve(pr)
+        if (prId !== undefined) await this.rehydrate([prId])
+        const meta = prId === undefined ? undefined : this.metadata.get(prId)
+        if (prId === undefined || !meta) return false
+
+        const { mergedAt, closedAt, ...rest } = meta
+        const next: PRMetadata = {
+            ...rest,
+            state,
+            updatedAt: at,
+            ...(state === 'merged' ? { mergedAt: at, closedAt: at } : {}),
+            ...(state === 'closed' ? { closedAt: at } : {})
+        }
+        this.metadata.set(prId, next)
+
+        if (this.storage?.updateState) {
+            try {
+                await this.storage.updateState(prId, {
+                    state,
+                    updatedAt: at,
+                    ...(next.mergedAt !== undefined ? { mergedAt: next.mergedAt } : {}),
+                    ...(next.closedAt !== undefined ? { closedAt: next.closedAt } : {})
+                })
+            } catch (error) {
+                console.error('Failed to save PR state:', error)
+                await this.events.emit('storageError', { operation: 'updateState', prId, error })
+            }
+        }
+        await this.enforceMemoryBudget()
+        return true
+    }
+
+    /**
+     * Lifecycle state of an indexed PR (undefined if not indexed)
+     */
+    getState(pr: PRRef): PRState | undefined {
+        const prId = this.resolve(pr)
+        const meta = prId === undefined ? undefined : this.metadata.get(prId)
+        return meta ? meta.state ?? 'open' : undefined
+    }
+
+    /**
+     * Embeddings of each pushed revision of a PR, oldest first. Reads from
+     * storage when it keeps revisions, otherwise the last `maxRevisions`
+     * revisions seen by this detector.
+     */
+    async getRevisions(pr: PRRef): Promise<PRRevisionRecord[]> {
+        const prId = this.resolve(pr)
+        if (prId === undefined) return []
+        if (this.storage?.getRevisions) {
+            return this.storage.getRevisions(prId)
+        }
+        return [...(this.revisions.get(prId) ?? [])]
+    }
+
+    /**
+     * Record a maintainer verdict on a PR pair.
+     * 'not-duplicate' removes the duplication link and stops the pair from
+     * being flagged again; 'duplicate' confirms it. Keys not seen yet are
+     * given ids, so a verdict can precede the PR being checked.
+     */
+    async recordFeedback(input: {
+        prA: PRRef
+        prB: PRRef
+        verdict: FeedbackVerdict
+        actor?: string
+        timestamp?: number
+    }): Promise<FeedbackRecord> {
+        const prA = typeof input.prA === 'number' ? input.prA : await this.allocateKey(input.prA)
+        const prB = typeof input.prB === 'number' ? input.prB : await this.allocateKey(input.prB)
+        if (prA === prB) {
+            throw new ValidationError('Feedback needs two different PRs', 'prB')
+        }
+        if (input.verdict !== 'duplicate' && input.verdict !== 'not-duplicate') {
+            throw new ValidationError(`Unknown verdict: ${String(input.verdict)}`, 'verdict')
+        }
+
+        const feedback: FeedbackRecord = {
+            prA,
+            prB,
+            verdict: input.verdict,
+            actor: input.actor ?? 'api',
+            timestamp: input.timestamp ?? Date.now()
+        }
+        this.applyFeedback(feedback)
+
+        if (this.storage?.saveFeedback) {
+            try {
+                await this.storage.saveFeedback(feedback)
+            } catch (error) {
+                console.error('Failed to save feedback:', error)
+                await this.events.emit('storageError', { operation: 'saveFeedback', prId: prA, error })
+            }
+        }
+        await this.persistLinks([prA, prB])
+        return feedback
+    }
+
+    /**
+     * Latest verdict recorded for a PR pair (order-independent)
+     */
+    getFeedback(prA: PRRef, prB: PRRef): FeedbackRecord | undefined {
+        const a = this.resolve(prA)
+        const b = this.resolve(prB)
+        return a === undefined || b === undefined ? undefined : this.feedback.get(a, b)
+    }
+
+    /**
+     * Export maintainer verdicts as labelled pairs (1 = duplicate) with the
+     * similarity signals the detector scores on. Pairs whose PRs are no
+     * longer indexed are skipped.
+     */
+    exportTrainingData(): TrainingExample[] {
+        const examples: TrainingExample[] = []
+        for (const feedback of this.feedback.all()) {
+            const breakdown = this.scorePair(feedback.prA, feedback.prB)
+            if (!breakdown) continue
+
+            examples.push({
+                prA: feedback.prA,
+                prB: feedback.prB,
+                label: feedback.verdict === 'duplicate' ? 1 : 0,
+                textSimilarity: breakdown.textSimilarity,
+                diffSimilarity: breakdown.diffSimilarity,
+                fileSimilarity: breakdown.fileSimilarity,
+                actor: feedback.actor,
+                timestamp: feedback.timestamp
+            })
+        }
+        return examples
+    }
+
+    /**
+     * Score two indexed PRs against each other with the current weights.
+     * Returns null if either PR is not indexed.
+     */
+    scorePair(prA: PRRef, prB: PRRef): ScoreBreakdown | null {
+        const idA = this.resolve(prA)
+        const idB = this.resolve(prB)
+        const a = idA === undefined ? undefined : this.vectorsOf(idA)
+        const b = idB === undefined ? undefined : this.vectorsOf(idB)
+        if (!a || !b) return null
+
+        const fileSimilarity = jaccard(
+            new Set(this.metadata.get(idA!)?.files || []),
+            new Set(this.metadata.get(idB!)?.files || [])
+        )
+        return this.scoreEmbeddings(a, b, fileSimilarity)
     }
 
     /**
@@ -568,35 +1901,171 @@ export class PRSenseDetector {
      */
     getStats() {
         return {
-            totalPRs: this.embeddings.size,
-            bloomFilterSize: this.bloom['size'],
+            totalPRs: this.embeddings.size + this.cold.size,
+            bloomFilterSize: this.bloom.size,
+            bloomFilter: {
+                items: this.bloom.count,
+                slices: this.bloom.sliceCount,
+                expectedItems: this.bloom.expectedItems,
+                targetFalsePositiveRate: this.bloom.falsePositiveRate,
+                estimatedFalsePositiveRate: this.bloom.estimatedFalsePositiveRate()
+            },
             duplicatePairs: this.countDuplicatePairs(),
-            storage: this.storage ? 'connected' : 'memory'
+            storage: this.storage ? 'connected' : 'memory',
+            vectorIndex: {
+                type: this.textIndex.type,
+                size: this.textIndex.size
+            },
+            lshSignatures: this.lsh?.size ?? 0,
+            lexicalTerms: this.lexical?.terms ?? 0,
+            hunkVectors: this.hunkIndex.size,
+            contentHashes: this.contentIndex.size,
+            feedbackVerdicts: this.feedback.size,
+            embedder: {
+                ...this.embedderInfo,
+                // Stored PRs skipped at init() because another model embedded them
+                mismatchedPRs: this.mismatchedPRs
+            },
+            ...(this.quantized ? { quantization: this.quantizationStats() } : {}),
+            ...(this.memory ? { memory: this.memoryStats() } : {}),
+            ...(this.scoring ? {
+                parallelScoring: {
+                    workers: this.scoring.pool.size,
+                    minIndexSize: this.scoring.minIndexSize,
+                    // Whether scans currently run in the workers
+                    active: this.scoring.text.size >= this.scoring.minIndexSize
+                }
+            } : {})
+        }
+    }
+
+    /**
+     * PRs held and evicted, and how often a check found the PRs it needed
+     * in memory rather than reading them from storage
+     */
+    private memoryStats() {
+        const { maxPRs, maxIdleDays, hotHits, coldHits, evictions } = this.memory!
+        const hits = hotHits + coldHits
+        return {
+            heldPRs: this.embeddings.size,
+            evictedPRs: this.cold.size,
+            maxPRs: maxPRs ?? null,
+            maxIdleDays: maxIdleDays ?? null,
+            evictions,
+            hotHits,
+            coldHits,
+            /** Shares of hits served from memory and from storage (null before any) */
+            hotHitRate: hits > 0 ? hotHits / hits : null,
+            coldHitRate: hits > 0 ? coldHits / hits : null
+        }
+    }
+
+    /**
+     * Memory the quantised indexes hold against Float32 vectors, and how
+     * well the approximate ranking agreed with exact re-ranking
+     */
+    private quantizationStats() {
+        const { text, diff, hunks } = this.quantized!
+        let bytes = 0
+        let fullPrecisionBytes = 0
+        for (const index of [text, diff, hunks]) {
+            const memory = index.memory()
+            bytes += memory.bytes
+            fullPrecisionBytes += memory.fullPrecisionBytes
+        }
+        const { queries, recall } = this.rerankStats
+        return {
+            type: text.type,
+            /** false while PQ codebooks wait for their training vectors (vectors are exact until then) */
+            trained: text.trained && diff.trained,
+            bytes,
+            fullPrecisionBytes,
+            compression: bytes > 0 ? fullPrecisionBytes / bytes : 1,
+            rerankedQueries: queries,
+            /** Mean share of the exact top-k already in the approximate top-k (null before any re-ranking) */
+            recall: queries > 0 ? recall / queries : null
         }
     }
 
     // Private helpers
 
     private async addToIndex(
-        pr: PRInput & { rawComments?: import('./edm/comments.js').PRComment[] },
-        textEmbedding: Float32Array,
-        diffEmbedding: Float32Array
+        pr: ResolvedPRInput & { rawComments?: import('./edm/comments.js').PRComment[] },
+        embedded: IndexedEmbeddings,
+        signature: Uint32Array | null,
+        events: DetectOutcome['events']
     ): Promise<void> {
-        // Add content hash to Bloom Filter (use content hash, not ID)
         const contentHash = this.computeContentHash(pr.title, pr.description, pr.diff)
-        this.bloom.add(contentHash)
 
-        this.embeddings.set(pr.prId, { text: textEmbedding, diff: diffEmbedding })
+        // A re-checked PR keeps its creation time and lifecycle state; a push
+        // that changed its content starts a new revision
+        const previous = this.metadata.get(pr.prId)
+        const now = Date.now()
+        const changed = previous?.contentHash !== contentHash
+
+        // The Bloom filter counts each PR's current content hash once, so it
+        // can be removed exactly when the content changes
+        if (changed) {
+            if (previous?.contentHash) this.bloom.remove(previous.contentHash)
+            this.bloom.add(contentHash)
+        }
+        const revision = previous ? (previous.revision ?? 1) + (changed ? 1 : 0) : 1
+        const lifecycle = {
+            state: previous?.state ?? 'open' as PRState,
+            ...(previous?.mergedAt !== undefined ? { mergedAt: previous.mergedAt } : {}),
+            ...(previous?.closedAt !== undefined ? { closedAt: previous.closedAt } : {})
+        }
+        const createdAt = previous?.createdAt ?? now
+
+        if (signature && this.lsh) {
+            this.lsh.add(pr.prId, signature)
+        } else {
+            this.lsh?.remove(pr.prId)
+        }
+
+        this.setEmbeddings(pr.prId, embedded)
+        this.lexical?.add(pr.prId, {
+            title: pr.title,
+            description: pr.description,
+            files: pr.files,
+            ...(pr.diff ? { diff: pr.diff } : {})
+        })
+        this.indexContentHash(pr.prId, contentHash)
         this.metadata.set(pr.prId, {
             prId: pr.prId,
             repoId: 0,
             authorId: 0,
+            key: pr.key,
             title: pr.title,
             description: pr.description,
-            createdAt: Date.now(),
-            files: pr.files
+            createdAt,
+            updatedAt: now,
+            revision,
+            ...lifecycle,
+            ...(pr.author !== undefined ? { author: pr.author } : {}),
+            files: pr.files,
+            contentHash
         } as PRMetadata & { files: string[] })
 
+        const revisionRecord: PRRevisionRecord = {
+            prId: pr.prId,
+            revision,
+            contentHash,
+            textEmbedding: embedded.text,
+            diffEmbedding: embedded.diff,
+            createdAt: now
+        }
+        if (changed) {
+            const kept = (this.revisions.get(pr.prId) ?? []).filter(r => r.revision !== revision)
+            kept.push(revisionRecord)
+            this.revisions.set(pr.prId, kept.slice(-this.maxRevisions))
+            const dropped = kept.slice(0, -this.maxRevisions)
+            if (dropped.length > 0) {
+                const evicted = { prId: pr.prId, key: pr.key, reason: 'revision-limit' as const, revisions: dropped.map(r => r.revision) }
+                events.push(() => this.events.emit('evicted', evicted))
+            }
+        }
+
         // Process Architectural Decisions from Comments
         const decisions: import('./edm/comments.js').ArchitecturalDecision[] = []
         if (pr.rawComments && pr.rawComments.length > 0) {
@@ -611,7 +2080,8 @@ export class PRSenseDetector {
                     const embResult = await this.pipeline.run(dec.summary, dec.fullText, '')
                     decisions.push({
                         ...dec,
-                        embedding: embResult.textEmbedding
+                        embedding: embResult.textEmbedding,
+                        embedder: this.pipeline.stamp(embResult.textEmbedding)
                     } as any)
                 } catch (e) {
                     console.error('Failed to embed decision:', e)
@@ -625,13 +2095,26 @@ export class PRSenseDetector {
             try {
                 await this.storage.save({
                     prId: pr.prId,
+                    key: pr.key,
                     title: pr.title,
                     description: pr.description,
                     files: pr.files,
-                    textEmbedding,
-                    diffEmbedding,
-                    createdAt: Date.now()
+                    textEmbedding: embedded.text,
+                    diffEmbedding: embedded.diff,
+                    createdAt,
+                    updatedAt: now,
+                    revision,
+                    ...lifecycle,
+                    contentHash,
+                    ...(signature ? { minhash: signature } : {}),
+                    ...(embedded.hunks.length > 0 ? { hunkEmbeddings: embedded.hunks } : {}),
+                    embedder: this.pipeline.stamp(embedded.text),
+                    ...(pr.diff ? { diff: pr.diff } : {}),
+                    ...(pr.author !== undefined ? { author: pr.author } : {})
                 })
+                if (changed && this.storage.saveRevision) {
+                    await this.storage.saveRevision(revisionRecord)
+                }
 
                 // Save decisions
                 if (this.storage.saveDecision) {
@@ -642,50 +2125,122 @@ export class PRSenseDetector {
             } catch (error) {
                 // Log error but don't fail the operation
                 console.error('Failed to save to storage:', error)
+                await this.events.emit('storageError', { operation: 'save', prId: pr.prId, error })
             }
         }
+
+        const indexed = {
+            pr: toEventPR(pr),
+            metadata: this.metadata.get(pr.prId)!,
+            newRevision: changed
+        }
+        events.push(() => this.events.emit('indexed', indexed))
     }
 
     /**
      * Search for PRs using natural language query
+     *
+     * Hybrid mode fuses the vector ranking with BM25 over titles,
+     * descriptions, file paths and diff lines, so exact identifiers
+     * (`getUserById`, `ERR_CONN_RESET`, `PROJ-123`) are found even when the
+     * embedding blurs them.
+     *
+     * The query may narrow the search with filters, e.g.
+     * `author:alice file:src/storage/** state:merged before:2026-01-01 "cache eviction"`
+     * (see parseSearchQuery). Only matching PRs are ranked; a query of
+     * filters alone lists matching PRs, newest first.
      */
-    async search(query: string, limit: number = 10): Promise<import('./types.js').SearchResult[]> {
-        // 1. Generate text embedding for query
-        let queryEmbedding: Float32Array
-        try {
-            const result = await this.pipeline.run(query, '', '')
-            queryEmbedding = result.textEmbedding
-        } catch (error) {
-            throw new EmbeddingError(`Failed to generate query embedding: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined)
+    async search(query: string, limit: number = 10, options: SearchOptions = {}): Promise<import('./types.js').SearchResult[]> {
+        const mode = options.mode ?? (this.lexical ? 'hybrid' : 'semantic')
+        if (mode !== 'semantic' && !this.lexical) {
+            throw new ConfigurationError(`Search mode '${mode}' needs the lexical index (lexical: false disables it)`)
+        }
+        if (options.rrfK !== undefined && (!Number.isFinite(options.rrfK) || options.rrfK < 0)) {
+            throw new ValidationError('rrfK must be a non-negative number', 'rrfK')
         }
+        const parsed = parseSearchQuery(query)
+        const filter = hasSearchFilter(parsed.filter) ? parsed.filter : undefined
+        // Filters apply before retrieval, so excluded PRs cannot crowd out matches
+        const eligible = filter
+            ? new Set([...this.metadata.values()].filter(meta => matchesSearchFilter(meta, filter)).map(meta => meta.prId))
+            : undefined
+        if (filter && !parsed.text.trim()) {
+            return this.listMatching(eligible!, limit)
+        }
+        // Fusion can promote hits from below either list's top `limit`
+        const pool = mode === 'hybrid' ? Math.max(limit * 2, limit + 10) : limit
 
-        // 2. Find similar PRs
-        const candidates = await this.findCandidates(queryEmbedding, limit)
+        // 1. Generate text embedding for query
+        let queryEmbedding: Float32Array | undefined
+        if (mode !== 'lexical') {
+            try {
+                const result = await this.pipeline.run(parsed.text, '', '')
+                queryEmbedding = result.textEmbedding
+            } catch (error) {
+                const failure = new EmbeddingError(`Failed to generate query embedding: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined)
+                await this.events.emit('embeddingFailed', { query, error: failure })
+                throw failure
+            }
+        }
 
-        // 3. Hydrate results
+        // 2. Rank by vector similarity and by BM25
+        const vectorHits = !queryEmbedding ? []
+            : filter ? await this.findFilteredCandidates(queryEmbedding, pool, filter, eligible!)
+                : await this.findCandidates(queryEmbedding, pool)
+        const lexicalHits = mode !== 'semantic'
+            ? this.lexical!.search(parsed.text, pool, eligible ? id => eligible.has(id) : undefined)
+            : []
+
+        // 3. Fuse the rankings
+        const fused = reciprocalRankFusion([vectorHits.map(h => h.prId), lexicalHits.map(h => h.id)], options.rrfK)
+        const vectorScores = new Map(vectorHits.map(h => [h.prId, h.score]))
+        const lexicalById = new Map(lexicalHits.map(h => [h.id, h]))
+        const topLexical = lexicalHits[0]?.score ?? 0
+        const ranked = [...fused.entries()]
+            .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+            .slice(0, limit)
+
+        // 4. Hydrate results
         const results: import('./types.js').SearchResult[] = []
-        for (const candidate of candidates) {
-            const meta = this.metadata.get(candidate.prId)
+        for (const [prId, fusedScore] of ranked) {
+            const lexical = lexicalById.get(prId)
+            const score = mode === 'lexical'
+                ? (topLexical > 0 ? lexical!.score / topLexical : 0)
+                : vectorScores.get(prId) ?? this.querySimilarity(queryEmbedding!, prId)
+            const ranking = {
+                score,
+                fusedScore,
+                ...(lexical ? { lexicalScore: lexical.score, matchedTerms: lexical.matchedTerms } : {})
+            }
+
+            const meta = this.metadata.get(prId)
             if (meta) {
                 results.push({
-                    prId: candidate.prId,
-                    score: candidate.score,
+                    prId,
+                    ...(meta.key ? { key: meta.key } : {}),
+                    ...ranking,
                     title: meta.title,
                     description: meta.description,
                     createdAt: meta.createdAt,
-                    files: meta.files || []
+                    files: meta.files || [],
+                    ...(meta.author !== undefined ? { author: meta.author } : {}),
+                    ...(meta.state ? { state: meta.state } : {})
                 })
             } else if (this.storage) {
-                // If not in memory but valid candidate (from storage search), fetch details
-                const record = await this.storage.get(candidate.prId)
-                if (record) {
+                // If not in memory but valid candidate (from storage search), fetch details;
+                // backends that ignore the filter are checked here
+                const record = await this.storage.get(prId)
+                if (record && (!filter || matchesSearchFilter(record, filter))) {
                     results.push({
                         prId: record.prId,
-                        score: candidate.score,
+                        ...(record.key ? { key: record.key } : {}),
+                        ...ranking,
                         title: record.title,
                         description: record.description,
                         createdAt: record.createdAt,
-                        files: record.files
+                        files: record.files,
+                        ...(record.author !== undefined ? { author: record.author } : {}),
+                        ...(record.state ? { state: record.state } : {})
                     })
                 }
             }
@@ -694,44 +2249,584 @@ export class PRSenseDetector {
         return results
     }
 
-    private async findCandidates(
+    /**
+     * Vector candidates among PRs matching a search filter. The filter is
+     * pushed down to storage; when the backend cannot apply it (too few
+     * matching hits) or fails, the matching PRs are scanned exactly.
+     */
+    private async findFilteredCandidates(
         queryEmbedding: Float32Array,
         k: number,
-        queryDiffEmbedding?: Float32Array
+        filter: SearchFilter,
+        eligible: Set<number>
     ): Promise<Array<{ prId: number; score: number }>> {
-        // Use storage search if available and has efficient vector search (e.g. Postgres)
         if (this.storage) {
             try {
-                return await this.storage.search(queryEmbedding, k)
+                // PRs not held in memory are checked once hydrated
+                const hits = (await this.storage.search(queryEmbedding, k, filter))
+                    .filter(hit => eligible.has(hit.prId) || !this.metadata.has(hit.prId))
+                if (hits.length >= Math.min(k, eligible.size)) return hits
             } catch (e) {
                 console.warn('Storage search failed, falling back to in-memory search', e)
+                await this.events.emit('storageError', { operation: 'search', error: e })
+            }
+        }
+
+        const held = [...eligible].filter(prId => this.embeddings.has(prId))
+        if (this.scoring && held.length >= this.scoring.minIndexSize) {
+            return (await this.scoring.pool.scan(this.scoring.text, queryEmbedding, k, held))
+                .map(hit => ({ prId: hit.id, score: hit.score }))
+        }
+        return held
+            .map(prId => ({ prId, score: this.querySimilarity(queryEmbedding, prId) }))
+            .sort((a, b) => b.score - a.score || a.prId - b.prId)
+            .slice(0, k)
+    }
+
+    /**
+     * PRs matching a filter-only query, newest first
+     */
+    private listMatching(eligible: Set<number>, limit: number): import('./types.js').SearchResult[] {
+        return [...eligible]
+            .map(prId => this.metadata.get(prId)!)
+            .sort((a, b) => b.createdAt - a.createdAt || b.prId - a.prId)
+            .slice(0, limit)
+            .map(meta => ({
+                prId: meta.prId,
+                ...(meta.key ? { key: meta.key } : {}),
+                score: 0,
+                title: meta.title,
+                description: meta.description,
+                createdAt: meta.createdAt,
+                files: meta.files || [],
+                ...(meta.author !== undefined ? { author: meta.author } : {}),
+                ...(meta.state ? { state: meta.state } : {})
+            }))
+    }
+
+    /**
+     * Cosine between a query and a PR's text embedding, for lexical hits
+     * outside the vector ranking (0 when the PR is not held in memory)
+     */
+    private querySimilarity(queryEmbedding: Float32Array, prId: number): number {
+        const embedded = this.vectorsOf(prId)
+        return embedded ? cosine(queryEmbedding, embedded.text) : 0
+    }
+
+    private async findCandidates(
+        queryEmbedding: Float32Array,
+        k: number,
+        queryDiffEmbedding?: Float32Array,
+        queryHunks: HunkEmbedding[] = [],
+        exactVectors = new Map<number, IndexedEmbeddings>()
+    ): Promise<Array<{ prId: number; score: number }>> {
+        // Storage search (e.g. Postgres) also reaches PRs not held in memory.
+        // Quantised detectors search their own codes and read storage only to re-rank
+        let stored: Array<{ prId: number; score: number }> = []
+        if (this.storage && !this.quantized) {
+            try {
+                stored = await this.storage.search(queryEmbedding, k)
+            } catch (e) {
+                console.warn('Storage search failed, searching in memory only', e)
+                await this.events.emit('storageError', { operation: 'search', error: e })
             }
         }
 
-        // Fallback: score all PRs using combined text + diff similarity
+        // Pull neighbours from both the text and diff ANN indexes, then
+        // re-score the union using combined text + diff similarity.
         // This ensures PRs with different titles but near-identical diffs are still found
-        const scores: Array<{ prId: number; score: number }> = []
+        const pool = Math.max(k * 2, k + 10, this.config.quantization?.rerank ?? 0)
+        const ids = new Set<number>(stored.map(hit => hit.prId))
+        const [textHits, diffHits] = await this.nearestVectors(queryEmbedding, queryDiffEmbedding, pool)
+        for (const hit of textHits) ids.add(hit.id)
+        for (const hit of diffHits) ids.add(hit.id)
+        // A PR sharing one hunk can sit far away on the whole-diff vector
+        for (const hunk of queryHunks) {
+            for (const hit of this.hunkIndex.search(hunk.vector, pool)) {
+                const owner = this.hunkOwners.get(hit.id)
+                if (owner !== undefined) ids.add(owner)
+            }
+        }
 
-        for (const [prId, embeddings] of this.embeddings.entries()) {
+        const score = (embeddings: IndexedEmbeddings): number => {
             const textScore = cosine(queryEmbedding, embeddings.text)
+            if (!queryDiffEmbedding) return textScore
             // If we have a diff embedding, combine text (60%) + diff (40%) for candidate ranking
-            if (queryDiffEmbedding) {
-                const diffScore = cosine(queryDiffEmbedding, embeddings.diff)
-                scores.push({ prId, score: textScore * 0.6 + diffScore * 0.4 })
-            } else {
-                scores.push({ prId, score: textScore })
-            }
+            const diffScore = Math.max(
+                cosine(queryDiffEmbedding, embeddings.diff),
+                bestHunkMatch(queryHunks, embeddings.hunks)?.similarity ?? -1
+            )
+            return textScore * 0.6 + diffScore * 0.4
+        }
+
+        // Storage hits not held in memory keep their text score until read back
+        const storedScores = new Map(stored.map(hit => [hit.prId, hit.score]))
+        const scores: Array<{ prId: number; score: number }> = []
+        for (const prId of ids) {
+            const embeddings = this.vectorsOf(prId)
+            const storedScore = storedScores.get(prId)
+            if (embeddings) scores.push({ prId, score: score(embeddings) })
+            else if (storedScore !== undefined) scores.push({ prId, score: storedScore })
         }
+        scores.sort((a, b) => b.score - a.score)
 
         // Return top-k
-        return scores
+        return this.quantized
+            ? this.rerankExact(scores, k, score, exactVectors)
+            : scores.slice(0, k)
+    }
+
+    /**
+     * Nearest text and diff neighbours: from the ANN indexes, or by exact
+     * scans in the scoring workers once the index is large enough
+     */
+    private async nearestVectors(
+        queryEmbedding: Float32Array,
+        queryDiffEmbedding: Float32Array | undefined,
+        k: number
+    ): Promise<[VectorSearchResult[], VectorSearchResult[]]> {
+        const scoring = this.scoring
+        if (scoring && scoring.text.size >= scoring.minIndexSize) {
+            return Promise.all([
+                scoring.pool.scan(scoring.text, queryEmbedding, k),
+                queryDiffEmbedding ? scoring.pool.scan(scoring.diff, queryDiffEmbedding, k) : []
+            ])
+        }
+        return [
+            this.textIndex.search(queryEmbedding, k),
+            queryDiffEmbedding ? this.diffIndex.search(queryDiffEmbedding, k) : []
+        ]
+    }
+
+    /**
+     * Re-score the best approximate candidates with full-precision vectors
+     * from storage and record how much of the exact top-k the approximate
+     * ranking already had. Without storage the approximate ranking stands.
+     */
+    private async rerankExact(
+        approximate: Array<{ prId: number; score: number }>,
+        k: number,
+        score: (embeddings: IndexedEmbeddings) => number,
+        exactVectors: Map<number, IndexedEmbeddings>
+    ): Promise<Array<{ prId: number; score: number }>> {
+        const pool = approximate.slice(0, this.config.quantization?.rerank ?? Math.max(k * 2, k + 10))
+        await this.loadExactEmbeddings(pool.map(c => c.prId), exactVectors)
+        if (!pool.some(c => exactVectors.has(c.prId))) return approximate.slice(0, k)
+
+        const top = pool
+            .map(c => {
+                const exact = exactVectors.get(c.prId)
+                return exact ? { prId: c.prId, score: score(exact) } : c
+            })
             .sort((a, b) => b.score - a.score)
             .slice(0, k)
+        const approximateTop = new Set(approximate.slice(0, k).map(c => c.prId))
+        this.rerankStats.queries++
+        this.rerankStats.recall += top.filter(c => approximateTop.has(c.prId)).length / top.length
+        return top
+    }
+
+    /**
+     * Read full-precision vectors of quantised PRs from storage into
+     * `into`; on failure the decoded codes stay in use
+     */
+    private async loadExactEmbeddings(prIds: number[], into: Map<number, IndexedEmbeddings>): Promise<void> {
+        const storage = this.storage
+        const missing = prIds.filter(prId => !into.has(prId))
+        if (!storage || !this.quantized || missing.length === 0) return
+
+        try {
+            for (const record of await Promise.all(missing.map(prId => storage.get(prId)))) {
+                // Rows re-embedded by another model since init() are left out
+                if (!record || record.textEmbedding.length !== (this.embedderInfo.dimension ?? record.textEmbedding.length)) continue
+                into.set(record.prId, {
+                    text: record.textEmbedding,
+                    diff: record.diffEmbedding,
+                    hunks: record.hunkEmbeddings ?? []
+                })
+            }
+        } catch (e) {
+            console.warn('Storage read failed, scoring with quantised vectors', e)
+            await this.events.emit('storageError', { operation: 'get', error: e })
+        }
+    }
+
+    /**
+     * Sanitize input and resolve its key to a detector id. Dry runs peek at
+     * the id a new key would get without binding it.
+     */
+    private resolveInput(pr: PRInput | KeyedPRInput, dryRun: boolean): ResolvedPRInput {
+        const key = pr.key ? normalizePRKey(pr.key) : legacyPRKey(pr.prId!)
+        // Ids the store hands out are claimed under the lock, in checkInternal()
+        const prId = dryRun || this.storeAssignsIds(key) ? this.keys.peek(key, pr.prId) : this.keys.allocate(key, pr.prId)
+        return {
+            prId,
+            key,
+            title: sanitizeString(pr.title),
+            description: sanitizeString(pr.description),
+            files: pr.files.map(f => sanitizeFilePath(f)),
+            ...(pr.diff ? { diff: sanitizeString(pr.diff) } : {}),
+            ...(pr.author ? { author: sanitizeString(pr.author) } : {})
+        }
+    }
+
+    /**
+     * Detector id of a PR reference; unknown keys are an error
+     */
+    private require(ref: PRRef): number {
+        const prId = this.resolve(ref)
+        if (prId === undefined) {
+            throw new ValidationError(`Unknown PR key: ${formatPRKey(ref as PRKey)}`, 'key')
+        }
+        return prId
+    }
+
+    /**
+     * Whether an indexed PR passes a candidate filter
+     */
+    private isEligible(prId: number, filter?: CandidateFilter): boolean {
+        if (!filter) return true
+        const meta = this.metadata.get(prId)
+        const state = meta?.state ?? 'open'
+        if (filter.states && !filter.states.includes(state)) return false
+        if (filter.closedMaxAgeDays !== undefined && state === 'closed' && meta?.closedAt !== undefined) {
+            return Date.now() - meta.closedAt <= filter.closedMaxAgeDays * 24 * 60 * 60 * 1000
+        }
+        return true
+    }
+
+    /**
+     * Apply a verdict to the in-memory store and the attribution graph
+     */
+    private applyFeedback(feedback: FeedbackRecord): void {
+        this.feedback.record(feedback)
+        const latest = this.feedback.get(feedback.prA, feedback.prB)
+        if (latest !== feedback) return // a newer verdict already applies
+
+        if (feedback.verdict === 'not-duplicate') {
+            this.graph.unlink(feedback.prA, feedback.prB)
+        } else if (this.graph.getParent(feedback.prA) === undefined) {
+            this.graph.addEdge(feedback.prA, feedback.prB)
+        }
+    }
+
+    /**
+     * Run the embedding pipeline for a PR (check cache first)
+     */
+    private async embedPR(pr: PRInput): Promise<IndexedEmbeddings> {
+        try {
+            // Feature 4: Cache hit?
+            const cached = this.cache?.get(pr.title, pr.description, pr.diff || '')
+            if (cached) {
+                return {
+                    text: cached.textEmbedding,
+                    diff: cached.diffEmbedding,
+                    hunks: cached.hunkEmbeddings ?? await this.pipeline.embedHunks(pr.diff || '', cached.diffEmbedding)
+                }
+            }
+
+            // Cache miss - run pipeline
+            const { textEmbedding, diffEmbedding, hunkEmbeddings } = await this.pipeline.run(
+                pr.title,
+                pr.description,
+                pr.diff || ''
+            )
+
+            // Validate embedding dimensions
+            this.checkTextEmbedding(textEmbedding)
+            if (!diffEmbedding || diffEmbedding.length === 0) {
+                throw new EmbeddingError('Diff embedding is empty')
+            }
+
+            // Store in cache
+            this.cache?.set(
+                pr.title,
+                pr.description,
+                pr.diff || '',
+                textEmbedding,
+                diffEmbedding,
+                hunkEmbeddings
+            )
+
+            return { text: textEmbedding, diff: diffEmbedding, hunks: hunkEmbeddings }
+        } catch (error) {
+            throw asEmbeddingError(error)
+        }
+    }
+
+    /**
+     * Embed only a PR's title and description (check cache first)
+     */
+    private async embedText(pr: PRInput): Promise<Float32Array> {
+        const cached = this.cache?.get(pr.title, pr.description, pr.diff || '')
+        if (cached) return cached.textEmbedding
+        try {
+            const textEmbedding = await this.pipeline.embedText(pr.title, pr.description)
+            this.checkTextEmbedding(textEmbedding)
+            return textEmbedding
+        } catch (error) {
+            throw asEmbeddingError(error)
+        }
+    }
+
+    /**
+     * Reject an empty text vector or one of another dimension than the
+     * embedder declares; the first vector fixes an undeclared dimension
+     */
+    private checkTextEmbedding(textEmbedding: Float32Array): void {
+        if (!textEmbedding || textEmbedding.length === 0) {
+            throw new EmbeddingError('Text embedding is empty')
+        }
+        if (this.config.embedder.info?.dimension !== undefined && textEmbedding.length !== this.config.embedder.info.dimension) {
+            throw new EmbeddingError(`Embedder ${formatEmbedder(this.embedderInfo)} returned a ${textEmbedding.length}-dimensional vector`)
+        }
+        this.embedderInfo.dimension ??= textEmbedding.length
+    }
+
+    /**
+     * An LSH hit qualifies for the fast path only when skipping is enabled,
+     * the PR carries a diff, and the matched PR has vectors in memory, once
+     * evicted hits above the threshold have been read back from storage
+     */
+    private async findFastPathMatch(pr: ResolvedPRInput, nearDuplicates: NearDuplicate[], filter?: CandidateFilter): Promise<NearDuplicate | null> {
+        const threshold = this.lshSkipThreshold
+        if (threshold === undefined || !pr.diff) return null
+        await this.rehydrate(nearDuplicates.filter(d => d.prId !== pr.prId && d.similarity >= threshold).map(d => d.prId))
+        const best = nearDuplicates.find(d => d.prId !== pr.prId && !this.feedback.isRejected(pr.prId, d.prId) && this.isEligible(d.prId, filter))
+        if (!best || best.similarity < threshold) return null
+        return this.embeddings.has(best.prId) ? best : null
+    }
+
+    /**
+     * Evidence for a detailed result when `explain` is set; the LLM, if
+     * configured, rewrites the template justification
+     */
+    private async explainMatch(
+        pr: ResolvedPRInput,
+        matchedId: number,
+        breakdown: ScoreBreakdown,
+        options?: CheckOptions,
+        exact: boolean = false
+    ): Promise<{ evidence?: MatchEvidence }> {
+        const matched = this.metadata.get(matchedId)
+        if (!options?.detailed || !options.explain || !matched) return {}
+
+        const query = { title: pr.title, description: pr.description, files: pr.files }
+        const candidate = { title: matched.title, description: matched.description, files: matched.files ?? [] }
+        const scores = { ...breakdown, ...(exact ? { exact } : {}) }
+        const evidence = buildMatchEvidence(query, candidate, scores, breakdown.hunkMatch)
+        return {
+            evidence: this.config.llm && !exact
+                ? await justifyWithLLM(this.config.llm, evidence, query, candidate, scores)
+                : evidence
+        }
+    }
+
+    /**
+     * Classify scored candidates and keep the top K related PRs
+     */
+    private rankMatches(
+        scored: Array<{ prId: number; score: number; breakdown: ScoreBreakdown }>,
+        topK: number
+    ): RankedMatch[] {
+        const matches: RankedMatch[] = []
+        for (const { prId, score, breakdown } of scored) {
+            if (matches.length >= topK || score < this.possibleThreshold) break
+            matches.push({
+                prId,
+                key: this.keys.keyOf(prId)!,
+                type: score >= this.duplicateThreshold ? 'DUPLICATE' : 'POSSIBLE',
+                confidence: score,
+                breakdown
+            })
+        }
+        return matches
+    }
+
+    /**
+     * Union ANN candidates with LSH near-duplicates the ANN search missed
+     */
+    private mergeCandidates(
+        candidates: Array<{ prId: number; score: number }>,
+        nearDuplicates: NearDuplicate[]
+    ): Array<{ prId: number; score: number }> {
+        const seen = new Set(candidates.map(c => c.prId))
+        const merged = [...candidates]
+        for (const near of nearDuplicates) {
+            if (seen.has(near.prId)) continue
+            seen.add(near.prId)
+            merged.push({ prId: near.prId, score: near.similarity })
+        }
+        return merged
+    }
+
+    /**
+     * Weighted score of one PR's vectors against another's. The diff signal is
+     * the better of whole-diff cosine and the best hunk pair (max-sim).
+     */
+    private scoreEmbeddings(query: IndexedEmbeddings, candidate: IndexedEmbeddings, fileSimilarity: number): ScoreBreakdown {
+        const textSimilarity = cosine(query.text, candidate.text)
+        const hunkMatch = bestHunkMatch(query.hunks, candidate.hunks)
+        const diffSimilarity = Math.max(cosine(query.diff, candidate.diff), hunkMatch?.similarity ?? -1)
+
+        return {
+            textSimilarity,
+            diffSimilarity,
+            fileSimilarity,
+            textContribution: this.weights[0] * textSimilarity,
+            diffContribution: this.weights[1] * diffSimilarity,
+            fileContribution: this.weights[2] * fileSimilarity,
+            finalScore: this.weights[0] * textSimilarity +
+                this.weights[1] * diffSimilarity +
+                this.weights[2] * fileSimilarity,
+            weights: [...this.weights] as [number, number, number],
+            ...(hunkMatch ? { hunkMatch } : {})
+        }
+    }
+
+    /**
+     * Weighted score of a PR whose diff was not embedded: its text vector
+     * against the candidate's, with the MinHash estimate as diff similarity
+     */
+    private estimateScore(text: Float32Array, candidate: IndexedEmbeddings, diffEstimate: number, fileSimilarity: number): ScoreBreakdown {
+        const textSimilarity = cosine(text, candidate.text)
+        return {
+            textSimilarity,
+            diffSimilarity: diffEstimate,
+            fileSimilarity,
+            textContribution: this.weights[0] * textSimilarity,
+            diffContribution: this.weights[1] * diffEstimate,
+            fileContribution: this.weights[2] * fileSimilarity,
+            finalScore: this.weights[0] * textSimilarity +
+                this.weights[1] * diffEstimate +
+                this.weights[2] * fileSimilarity,
+            weights: [...this.weights] as [number, number, number],
+            estimated: true
+        }
+    }
+
+    /**
+     * Store embeddings and keep the ANN indexes in sync
+     */
+    private setEmbeddings(prId: number, embedded: IndexedEmbeddings): void {
+        this.storeEmbeddings(prId, embedded)
+        this.textIndex.add(prId, embedded.text)
+        this.diffIndex.add(prId, embedded.diff)
+    }
+
+    /**
+     * Store a PR's vectors and hunks, leaving the text and diff indexes to the caller
+     */
+    private storeEmbeddings(prId: number, embedded: IndexedEmbeddings): void {
+        this.embeddings.set(prId, this.quantized
+            ? { quantized: true, hunks: embedded.hunks.map(({ vector, ...hunk }) => hunk) }
+            : embedded)
+        this.scoring?.text.set(prId, embedded.text)
+        this.scoring?.diff.set(prId, embedded.diff)
+        this.indexHunks(prId, embedded.hunks)
+        this.touch(prId)
+    }
+
+    /**
+     * Remove a PR's vectors from memory and from every vector index
+     */
+    private dropVectors(prId: number): void {
+        this.embeddings.delete(prId)
+        this.textIndex.remove(prId)
+        this.diffIndex.remove(prId)
+        this.indexHunks(prId, [])
+        this.scoring?.text.remove(prId)
+        this.scoring?.diff.remove(prId)
+        this.lastUsed.delete(prId)
+    }
+
+    /**
+     * A PR's vectors; under quantization they are decoded from the indexes
+     * (unit length, carrying the quantisation error)
+     */
+    private vectorsOf(prId: number): IndexedEmbeddings | undefined {
+        const stored = this.embeddings.get(prId)
+        if (!stored || !('quantized' in stored)) return stored
+
+        const { text, diff, hunks } = this.quantized!
+        const textVector = text.vector(prId)
+        const diffVector = diff.vector(prId)
+        if (!textVector || !diffVector) return undefined
+        const hunkIds = this.hunkIds.get(prId) ?? []
+        return {
+            text: textVector,
+            diff: diffVector,
+            hunks: stored.hunks.flatMap((hunk, i) => {
+                const vector = hunkIds[i] === undefined ? undefined : hunks.vector(hunkIds[i])
+                return vector ? [{ ...hunk, vector }] : []
+            })
+        }
+    }
+
+    /**
+     * Replace a PR's entries in the hunk index
+     */
+    private indexHunks(prId: number, hunks: HunkEmbedding[]): void {
+        for (const id of this.hunkIds.get(prId) ?? []) {
+            this.hunkIndex.remove(id)
+            this.hunkOwners.delete(id)
+        }
+        this.hunkIds.delete(prId)
+        if (hunks.length === 0) return
+
+        const ids: number[] = []
+        for (const hunk of hunks) {
+            const id = this.nextHunkId++
+            this.hunkIndex.add(id, hunk.vector)
+            this.hunkOwners.set(id, prId)
+            ids.push(id)
+        }
+        this.hunkIds.set(prId, ids)
+    }
+
+    /**
+     * Save the current original of each PR (null once unlinked)
+     */
+    private async persistLinks(prIds: number[]): Promise<void> {
+        if (!this.storage?.saveDuplicateLink) return
+        for (const prId of prIds) {
+            try {
+                await this.storage.saveDuplicateLink(prId, this.graph.getParent(prId) ?? null)
+            } catch (error) {
+                console.error('Failed to save duplicate link:', error)
+                await this.events.emit('storageError', { operation: 'saveLink', prId, error })
+            }
+        }
+    }
+
+    private describeCluster(original: number, members: number[]): DuplicateCluster {
+        const described = members.map((prId): DuplicateClusterMember => {
+            const meta = this.metadata.get(prId)
+            const key = this.keys.keyOf(prId) ?? legacyPRKey(prId)
+            if (!meta) return { prId, key }
+            return {
+                prId,
+                key,
+                title: meta.title,
+                ...(meta.author !== undefined ? { author: meta.author } : {}),
+                state: meta.state ?? 'open',
+                createdAt: meta.createdAt
+            }
+        })
+        const [head, ...rest] = described
+        rest.sort((a, b) => (a.createdAt ?? Infinity) - (b.createdAt ?? Infinity) || a.prId - b.prId)
+        const times = described.flatMap(member => member.createdAt !== undefined ? [member.createdAt] : [])
+        return {
+            original,
+            originalKey: head!.key,
+            members: [head!, ...rest],
+            ...(times.length > 0 ? { firstCreatedAt: Math.min(...times), lastCreatedAt: Math.max(...times) } : {})
+        }
     }
 
     private countDuplicatePairs(): number {
         let count = 0
-        for (const prId of this.embeddings.keys()) {
+        for (const prId of [...this.embeddings.keys(), ...this.cold]) {
             count += this.graph.getAllDuplicates(prId).length
         }
         return count
@@ -740,43 +2835,191 @@ export class PRSenseDetector {
     /**
      * Export detector state for persistence
      */
-    exportState(): { records: any[]; bloom: string } {
+    exportState(): DetectorState {
         const records = []
         for (const [prId, meta] of this.metadata.entries()) {
-            const embedding = this.embeddings.get(prId)
-            if (embedding) {
-                records.push({
-                    ...meta,
-                    textEmbedding: Array.from(embedding.text), // Convert Float32Array to Array for JSON
-                    diffEmbedding: Array.from(embedding.diff)
-                })
-            }
+            const embedding = this.vectorsOf(prId)
+            if (embedding) records.push(exportRecord(meta, embedding))
         }
         return {
             records,
-            bloom: this.bloom.export()
+            bloom: this.bloom.export(),
+            index: {
+                text: this.textIndex.export(),
+                diff: this.diffIndex.export()
+            },
+            ...(this.lsh ? { lsh: this.lsh.export() } : {}),
+            ...(this.lexical ? { lexical: this.lexical.export() } : {}),
+            feedback: this.feedback.all(),
+            graph: this.graph.export(),
+            embedder: { ...this.embedderInfo }
+        }
+    }
+
+    /**
+     * exportState() with PRs evicted under a memory budget read back from
+     * storage; throws a StorageError rather than leave them out
+     */
+    async exportAllState(): Promise<DetectorState> {
+        const state = this.exportState()
+        const storage = this.storage
+        if (!storage || this.cold.size === 0) return state
+
+        let stored: Array<PRRecord | null>
+        try {
+            stored = await Promise.all([...this.cold].map(prId => storage.get(prId)))
+        } catch (error) {
+            await this.events.emit('storageError', { operation: 'get', error })
+            throw new StorageError('Failed to read evicted PRs for export', error instanceof Error ? error : undefined)
+        }
+        for (const record of stored) {
+            // Restored by a concurrent check since exportState()
+            if (!record || state.records.some(r => r.prId === record.prId)) continue
+            state.records.push(exportRecord(this.metadataOf(record), {
+                text: record.textEmbedding,
+                diff: record.diffEmbedding,
+                hunks: record.hunkEmbeddings ?? []
+            }))
         }
+        return state
     }
 
     /**
      * Import detector state from persistence
      */
-    importState(data: { records: any[]; bloom: string }): void {
-        // Import Bloom filter
+    importState(data: DetectorState): void {
+        // Snapshots from before stamps existed are checked on vector length alone
+        const first = data.records[0]
+        const snapshot = data.embedder ?? (first ? { ...this.embedderInfo, dimension: first.textEmbedding.length } : undefined)
+        if (snapshot && !sameEmbedder(snapshot, this.embedderInfo)) {
+            throw new ConfigurationError(`Snapshot was embedded with ${formatEmbedder(snapshot)}, but this detector uses ${formatEmbedder(this.embedderInfo)}`)
+        }
+        if (snapshot?.dimension !== undefined) this.embedderInfo.dimension ??= snapshot.dimension
+
+        // A filter sized for another load or rate, or from before filters
+        // could scale, is rebuilt from the content hashes below
+        let bloomImported = false
         if (data.bloom) {
-            this.bloom.import(data.bloom)
+            try {
+                this.bloom.import(data.bloom)
+                bloomImported = true
+            } catch {
+                // Rebuilt below
+            }
         }
 
         // Import records
+        const imported = new Map<number, IndexedEmbeddings>()
         for (const record of data.records) {
-            this.embeddings.set(record.prId, {
+            const hunks: HunkEmbedding[] = (record.hunkEmbeddings ?? []).map((h: { file: string; vector: number[]; lines?: HunkLines }) => ({
+                file: h.file,
+                vector: new Float32Array(h.vector),
+                ...(h.lines ? { lines: h.lines } : {})
+            }))
+            const embedded = {
                 text: new Float32Array(record.textEmbedding),
-                diff: new Float32Array(record.diffEmbedding)
-            })
+                diff: new Float32Array(record.diffEmbedding),
+                hunks
+            }
+            imported.set(record.prId, embedded)
+            this.storeEmbeddings(record.prId, embedded)
 
             // Reconstruct metadata (remove embedding fields from metadata object)
-            const { textEmbedding, diffEmbedding, ...meta } = record
+            const { textEmbedding, diffEmbedding, hunkEmbeddings, ...meta } = record
+            this.keys.set(record.prId, meta.key ?? legacyPRKey(record.prId))
+            meta.key = this.keys.keyOf(record.prId)
+            this.indexContentHash(record.prId, meta.contentHash)
             this.metadata.set(record.prId, meta)
         }
+
+        if (!bloomImported) {
+            this.bloom.clear()
+            for (const meta of this.metadata.values()) {
+                if (meta.contentHash) this.bloom.add(meta.contentHash)
+            }
+        }
+
+        // Restore the ANN graphs when compatible, otherwise rebuild them.
+        // Older snapshots have no index section and always rebuild.
+        const index = data.index
+        if (index && index.text.type === this.textIndex.type && index.diff.type === this.diffIndex.type) {
+            this.textIndex.import(index.text, id => imported.get(id)?.text)
+            this.diffIndex.import(index.diff, id => imported.get(id)?.diff)
+        }
+        for (const prId of this.embeddings.keys()) {
+            const embedding = imported.get(prId) ?? this.vectorsOf(prId)
+            if (!embedding) continue
+            if (!this.textIndex.has(prId)) this.textIndex.add(prId, embedding.text)
+            if (!this.diffIndex.has(prId)) this.diffIndex.add(prId, embedding.diff)
+        }
+
+        // LSH signatures from a different band layout are dropped; those PRs
+        // are still reachable through the vector index
+        if (data.lsh && this.lsh) {
+            this.lsh.import(data.lsh)
+        }
+
+        // Older snapshots have no lexical section; their PRs are indexed
+        // without diff lines, which the snapshot does not carry
+        if (this.lexical) {
+            if (data.lexical) this.lexical.import(data.lexical)
+            for (const [prId, meta] of this.metadata) {
+                if (!this.lexical.has(prId)) {
+                    this.lexical.add(prId, { title: meta.title, description: meta.description, files: meta.files ?? [] })
+                }
+            }
+        }
+
+        for (const feedback of data.feedback ?? []) {
+            this.applyFeedback(feedback)
+        }
+        if (data.graph) {
+            this.graph.import(data.graph)
+        }
     }
 }
+
+/**
+ * Event payload copy of a PR's input fields
+ */
+function toEventPR(pr: ResolvedPRInput): EventPR {
+    return {
+        prId: pr.prId,
+        key: pr.key,
+        title: pr.title,
+        description: pr.description,
+        files: [...pr.files],
+        ...(pr.author !== undefined ? { author: pr.author } : {})
+    }
+}
+
+/**
+ * Embedder failures as EmbeddingError; validation errors pass through
+ */
+function asEmbeddingError(error: unknown): Error {
+    if (error instanceof EmbeddingError || error instanceof ValidationError) return error
+    return new EmbeddingError(`Failed to generate embeddings: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A PR as exported: metadata with plain-array vectors for JSON
+ */
+function exportRecord(meta: PRMetadata, embedding: IndexedEmbeddings): DetectorState['records'][number] {
+    return {
+        ...meta,
+        textEmbedding: Array.from(embedding.text),
+        diffEmbedding: Array.from(embedding.diff),
+        ...(embedding.hunks.length > 0
+            ? { hunkEmbeddings: embedding.hunks.map(h => ({ file: h.file, vector: Array.from(h.vector), ...(h.lines ? { lines: h.lines } : {}) })) }
+            : {})
+    }
+}
+
+/**
+ * Latest time a stored PR was pushed or changed state
+ */
+function lastActivity(record: PRRecord): number {
+    return record.updatedAt ?? record.createdAt
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { ScalarQuantizer, ProductQuantizer } from './quantization.js'
+import { QuantizedIndex, FlatIndex } from './vectorIndex.js'
+import { PRSenseDetector } from './prsense.js'
+import { SQLiteStorage } from './storage/sqlite.js'
+import { ConfigurationError } from './errors.js'
+
+// Deterministic pseudo-random unit vectors
+function randomVectors(count: number, dim: number, seed = 1): Float32Array[] {
+    let state = seed
+    const next = () => {
+        state = (state * 1103515245 + 12345) % 2147483648
+        return state / 2147483648 - 0.5
+    }
+    return Array.from({ length: count }, () => {
+        const v = new Float32Array(dim)
+        for (let i = 0; i < dim; i++) v[i] = next()
+        const norm = Math.hypot(...v)
+        return v.map(x => x / norm)
+    })
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    return a.reduce((sum, x, i) => sum + x * b[i]!, 0)
+}
+
+describe('ScalarQuantizer', () => {
+    it('should score codes close to the exact dot product', () => {
+        const quantizer = new ScalarQuantizer()
+        const [query, ...vectors] = randomVectors(50, 64)
+        const score = quantizer.scorer(query!)
+        for (const vector of vectors) {
+            const code = quantizer.encode(vector)
+            expect(code.codes.byteLength).toBe(64)
+            expect(score(code)).toBeCloseTo(dot(query!, vector), 2)
+            expect(score(code)).toBeCloseTo(dot(query!, quantizer.decode(code)), 5)
+        }
+    })
+})
+
+describe('ProductQuantizer', () => {
+    it('should score asymmetrically against the decoded codebook entries', () => {
+        const quantizer = new ProductQuantizer({ subvectors: 8 })
+        const vectors = randomVectors(300, 32)
+        quantizer.train(vectors)
+        expect(quantizer.trained).toBe(true)
+        expect(quantizer.codeBytes(32)).toBe(8)
+
+        const query = vectors[0]!
+        const score = quantizer.scorer(query)
+        for (const vector of vectors.slice(1, 20)) {
+            const code = quantizer.encode(vector)
+            expect(score(code)).toBeCloseTo(dot(query, quantizer.decode(code)), 4)
+        }
+    })
+
+    it('should reject subvector counts that do not divide the dimension', () => {
+        expect(() => new ProductQuantizer({ subvectors: 0 })).toThrow(ConfigurationError)
+        expect(() => new ProductQuantizer({ subvectors: 5 }).train(randomVectors(10, 32))).toThrow(ConfigurationError)
+    })
+})
+
+describe('QuantizedIndex', () => {
+    it('should hold PQ vectors exactly until trained, then recall most exact neighbours', () => {
+        const vectors = randomVectors(400, 32, 7)
+        const index = new QuantizedIndex({ type: 'pq', subvectors: 16, trainingSize: 300 })
+        const flat = new FlatIndex()
+        vectors.slice(0, 299).forEach((v, i) => index.add(i, v))
+        expect(index.trained).toBe(false)
+        expect(index.vector(0)).toEqual(vectors[0])
+
+        vectors.slice(299).forEach((v, i) => index.add(299 + i, v))
+        vectors.forEach((v, i) => flat.add(i, v))
+        expect(index.trained).toBe(true)
+        expect(index.size).toBe(400)
+
+        let overlap = 0
+        for (const query of randomVectors(20, 32, 99)) {
+            const exact = new Set(flat.search(query, 10).map(hit => hit.id))
+            overlap += index.search(query, 10).filter(hit => exact.has(hit.id)).length
+        }
+        expect(overlap / 200).toBeGreaterThan(0.5)
+
+        const memory = index.memory()
+        expect(memory.fullPrecisionBytes).toBe(400 * 32 * 4)
+        // 16 bytes of codes per vector, plus the codebooks
+        expect(memory.bytes).toBe(400 * 16 + 16 * 256 * 2 * 4)
+    })
+})
+
+describe('quantised detector', () => {
+    const dims = 48
+    const embedder = {
+        embedText: async (text: string) => {
+            const v = new Float32Array(dims)
+            for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+                let h = 0
+                for (const ch of word) h = (h * 31 + ch.charCodeAt(0)) >>> 0
+                v[h % dims]! += 1
+            }
+            return v
+        },
+        embedDiff: async (diff: string) => new Float32Array(dims).fill(0.01).map((x, i) => x + (diff.length % (i + 2)))
+    }
+    const prs = [
+        { prId: 1, title: 'Fix cache eviction in storage layer', description: 'Evict least recently used entries', files: ['src/cache.ts'] },
+        { prId: 2, title: 'Add retry to webhook delivery', description: 'Retry failed webhooks with backoff', files: ['src/webhooks.ts'] },
+        { prId: 3, title: 'Update README badges', description: 'Refresh the CI badge', files: ['README.md'] }
+    ]
+    const query = { prId: 4, title: 'Fix cache eviction in the storage layer', description: 'Evict least recently used entries first', files: ['src/cache.ts'] }
+
+    it('should score candidates with exact vectors from storage', async () => {
+        const plain = new PRSenseDetector({ embedder })
+        const storage = new SQLiteStorage(':memory:')
+        const quantized = new PRSenseDetector({ embedder, storage, quantization: { type: 'int8' } })
+        await quantized.init()
+        for (const pr of prs) {
+            await plain.check(pr)
+            await quantized.check(pr)
+        }
+
+        const expected = await plain.checkDetailed(query, { dryRun: true })
+        const result = await quantized.checkDetailed(query, { dryRun: true })
+        expect(result.type).toBe(expected.type)
+        expect(result.confidence).toBeCloseTo(expected.confidence, 6)
+
+        const stats = quantized.getStats()
+        expect(stats.vectorIndex.type).toBe('int8')
+        expect(stats.quantization).toMatchObject({ type: 'int8', trained: true, recall: 1 })
+        expect(stats.quantization!.rerankedQueries).toBeGreaterThan(0)
+        expect(stats.quantization!.compression).toBeGreaterThan(3)
+        await storage.close()
+    })
+
+    it('should fall back to decoded vectors without storage and export them', async () => {
+        const detector = new PRSenseDetector({ embedder, quantization: { type: 'int8' } })
+        for (const pr of prs) await detector.check(pr)
+        const result = await detector.checkDetailed(query, { dryRun: true })
+        expect(result.type).not.toBe('UNIQUE')
+        expect(result.type === 'UNIQUE' ? undefined : result.originalPr).toBe(1)
+        expect(detector.getStats().quantization?.recall).toBeNull()
+
+        const restored = new PRSenseDetector({ embedder, quantization: { type: 'int8' } })
+        restored.importState(detector.exportState())
+        expect(restored.getStats().totalPRs).toBe(3)
+        expect(restored.scorePair(1, 2)?.finalScore).toBeCloseTo(detector.scorePair(1, 2)!.finalScore, 2)
+    })
+
+    it('should validate the re-rank size', () => {
+        expect(() => new PRSenseDetector({ embedder, quantization: { type: 'int8', rerank: 0 } })).toThrow(ConfigurationError)
+    })
+})
@@ -0,0 +1,291 @@
+/**
+ * Vector quantisation for in-memory embeddings
+ *
+ * int8: each dimension of the unit vector becomes one signed byte, with a
+ * per-vector scale (about 4x smaller than Float32)
+ * PQ: the vector is split into subvectors, each replaced by the id of its
+ * nearest centroid in a codebook trained with k-means (one byte per
+ * subvector, 16-32x smaller)
+ *
+ * Scores are asymmetric: the query stays full precision and is compared
+ * with the codes, so only the stored side carries quantisation error.
+ */
+
+import { ConfigurationError } from './errors.js'
+
+export interface QuantizationConfig {
+    type: 'int8' | 'pq'
+    /** PQ: subvectors per vector, must divide the dimension (default: one per 8 dimensions) */
+    subvectors?: number
+    /** PQ: vectors collected before the codebooks are trained; they are held exactly until then (default: 1024) */
+    trainingSize?: number
+    /** PQ: k-means iterations (default: 8) */
+    iterations?: number
+    /** Approximate candidates re-scored with full-precision vectors from storage (default: twice the candidates requested, and at least 10 more) */
+    rerank?: number
+}
+
+/**
+ * A quantised unit vector; `scale` multiplies int8 codes and is 1 for PQ
+ */
+export interface QuantizedVector {
+    codes: Int8Array | Uint8Array
+    scale: number
+}
+
+export interface Quantizer {
+    readonly type: 'int8' | 'pq'
+    /** false until a PQ quantizer's codebooks are trained */
+    readonly trained: boolean
+    /** Bytes held by shared tables (the PQ codebooks) */
+    readonly tableBytes: number
+    /** Bytes of one encoded vector */
+    codeBytes(dimension: number): number
+    train(vectors: Float32Array[]): void
+    encode(vector: Float32Array): QuantizedVector
+    decode(code: QuantizedVector): Float32Array
+    /** Scores codes against a query; equal to the dot product with the decoded vector */
+    scorer(query: Float32Array): (code: QuantizedVector) => number
+}
+
+/**
+ * Symmetric per-vector int8 quantisation: code = round(v / scale) with
+ * scale = max|v| / 127
+ */
+export class ScalarQuantizer implements Quantizer {
+    readonly type = 'int8'
+    readonly trained = true
+    readonly tableBytes = 0
+
+    codeBytes(dimension: number): number {
+        return dimension + 4
+    }
+
+    train(): void { }
+
+    encode(vector: Float32Array): QuantizedVector {
+        let max = 0
+        for (let i = 0; i < vector.length; i++) {
+            max = Math.max(max, Math.abs(vector[i]!))
+        }
+        const scale = max === 0 ? 1 : max / 127
+        const codes = new Int8Array(vector.length)
+        for (let i = 0; i < vector.length; i++) {
+            codes[i] = Math.round(vector[i]! / scale)
+        }
+        return { codes, scale }
+    }
+
+    decode(code: QuantizedVector): Float32Array {
+        const out = new Float32Array(code.codes.length)
+        for (let i = 0; i < out.length; i++) {
+            out[i] = code.codes[i]! * code.scale
+        }
+        return out
+    }
+
+    scorer(query: Float32Array): (code: QuantizedVector) => number {
+        return code => {
+            const len = Math.min(query.length, code.codes.length)
+            let sum = 0
+            for (let i = 0; i < len; i++) {
+                sum += query[i]! * code.codes[i]!
+            }
+            return sum * code.scale
+        }
+    }
+}
+
+/**
+ * Product quantisation (Jégou et al., 2011). Each subvector is encoded as
+ * the nearest of up to 256 centroids; scoring sums a per-query table of
+ * subvector-centroid dot products.
+ */
+export class ProductQuantizer implements Quantizer {
+    readonly type = 'pq'
+    private subvectors?: number
+    private iterations: number
+    private dimension = 0
+    private width = 0
+    private centroids = 0
+    /** codebooks[(s * centroids + c) * width + d] */
+    private codebooks = new Float32Array(0)
+
+    constructor(config: Pick<QuantizationConfig, 'subvectors' | 'iterations'> = {}) {
+        if (config.subvectors !== undefined) {
+            this.subvectors = config.subvectors
+        }
+        this.iterations = config.iterations ?? 8
+        if (config.subvectors !== undefined && (!Number.isInteger(config.subvectors) || config.subvectors < 1)) {
+            throw new ConfigurationError('quantization.subvectors must be a positive integer')
+        }
+        if (!Number.isInteger(this.iterations) || this.iterations < 1 || this.iterations > 100) {
+            throw new ConfigurationError('quantization.iterations must be an integer between 1 and 100')
+        }
+    }
+
+    get trained(): boolean {
+        return this.centroids > 0
+    }
+
+    get tableBytes(): number {
+        return this.codebooks.byteLength
+    }
+
+    codeBytes(dimension: number): number {
+        return this.dimension > 0 ? this.dimension / this.width : this.subvectors ?? defaultSubvectors(dimension)
+    }
+
+    /**
+     * Train one codebook per subvector with k-means. Centroids start at
+     * evenly spaced training vectors, so training is deterministic.
+     */
+    train(vectors: Float32Array[]): void {
+        const dimension = vectors[0]?.length ?? 0
+        if (dimension === 0) return
+        const subvectors = this.subvectors ?? defaultSubvectors(dimension)
+        if (subvectors > dimension || dimension % subvectors !== 0) {
+            throw new ConfigurationError(`quantization.subvectors (${subvectors}) must divide the embedding dimension (${dimension})`)
+        }
+
+        const width = dimension / subvectors
+        const centroids = Math.min(256, vectors.length)
+        const codebooks = new Float32Array(subvectors * centroids * width)
+        const assignment = new Int32Array(vectors.length)
+
+        for (let s = 0; s < subvectors; s++) {
+            const offset = s * width
+            const book = codebooks.subarray(s * centroids * width, (s + 1) * centroids * width)
+            for (let c = 0; c < centroids; c++) {
+                const source = vectors[Math.floor(c * vectors.length / centroids)]!
+                book.set(source.subarray(offset, offset + width), c * width)
+            }
+
+            for (let iteration = 0; iteration < this.iterations; iteration++) {
+                let moved = false
+                for (let v = 0; v < vectors.length; v++) {
+                    const nearest = nearestCentroid(book, centroids, width, vectors[v]!, offset)
+                    if (nearest !== assignment[v] || iteration === 0) moved = true
+                    assignment[v] = nearest
+                }
+                if (!moved) break
+
+                // Empty clusters keep their previous centroid
+                const sums = new Float64Array(centroids * width)
+                const counts = new Int32Array(centroids)
+                for (let v = 0; v < vectors.length; v++) {
+                    const c = assignment[v]!
+                    counts[c] = counts[c]! + 1
+                    const vector = vectors[v]!
+                    for (let d = 0; d < width; d++) {
+                        sums[c * width + d] = sums[c * width + d]! + vector[offset + d]!
+                    }
+                }
+                for (let c = 0; c < centroids; c++) {
+                    if (counts[c] === 0) continue
+                    for (let d = 0; d < width; d++) {
+                        book[c * width + d] = sums[c * width + d]! / counts[c]!
+                    }
+                }
+            }
+        }
+
+        this.dimension = dimension
+        this.width = width
+        this.centroids = centroids
+        this.codebooks = codebooks
+    }
+
+    encode(vector: Float32Array): QuantizedVector {
+        this.requireTrained(vector.length)
+        const subvectors = this.dimension / this.width
+        const codes = new Uint8Array(subvectors)
+        for (let s = 0; s < subvectors; s++) {
+            codes[s] = nearestCentroid(this.book(s), this.centroids, this.width, vector, s * this.width)
+        }
+        return { codes, scale: 1 }
+    }
+
+    decode(code: QuantizedVector): Float32Array {
+        const out = new Float32Array(this.dimension)
+        for (let s = 0; s < code.codes.length; s++) {
+            const c = code.codes[s]!
+            out.set(this.book(s).subarray(c * this.width, (c + 1) * this.width), s * this.width)
+        }
+        return out
+    }
+
+    scorer(query: Float32Array): (code: QuantizedVector) => number {
+        this.requireTrained(query.length)
+        const subvectors = this.dimension / this.width
+        const table = new Float32Array(subvectors * this.centroids)
+        for (let s = 0; s < subvectors; s++) {
+            const book = this.book(s)
+            for (let c = 0; c < this.centroids; c++) {
+                let sum = 0
+                for (let d = 0; d < this.width; d++) {
+                    sum += query[s * this.width + d]! * book[c * this.width + d]!
+                }
+                table[s * this.centroids + c] = sum
+            }
+        }
+        return code => {
+            let sum = 0
+            for (let s = 0; s < code.codes.length; s++) {
+                sum += table[s * this.centroids + code.codes[s]!]!
+            }
+            return sum
+        }
+    }
+
+    private book(subvector: number): Float32Array {
+        const size = this.centroids * this.width
+        return this.codebooks.subarray(subvector * size, (subvector + 1) * size)
+    }
+
+    private requireTrained(dimension: number): void {
+        if (!this.trained) {
+            throw new ConfigurationError('Product quantizer used before training')
+        }
+        if (dimension !== this.dimension) {
+            throw new ConfigurationError(`Product quantizer was trained on ${this.dimension}-dimensional vectors, got ${dimension}`)
+        }
+    }
+}
+
+export function createQuantizer(config: QuantizationConfig): Quantizer {
+    switch (config.type) {
+        case 'int8':
+            return new ScalarQuantizer()
+        case 'pq':
+            return new ProductQuantizer(config)
+        default:
+            throw new ConfigurationError(`Unsupported quantization type: ${(config as { type: string }).type}`)
+    }
+}
+
+/**
+ * Largest subvector count up to one per 8 dimensions that divides the dimension
+ */
+function defaultSubvectors(dimension: number): number {
+    let subvectors = Math.max(1, Math.floor(dimension / 8))
+    while (dimension % subvectors !== 0) subvectors--
+    return subvectors
+}
+
+function nearestCentroid(book: Float32Array, centroids: number, width: number, vector: Float32Array, offset: number): number {
+    let best = 0
+    let bestDistance = Infinity
+    for (let c = 0; c < centroids; c++) {
+        let distance = 0
+        for (let d = 0; d < width; d++) {
+            const diff = vector[offset + d]! - book[c * width + d]!
+            distance += diff * diff
+        }
+        if (distance < bestDistance) {
+            bestDistance = distance
+            best = c
+        }
+    }
+    return best
+}
@@ -70,7 +70,8 @@ export class CodebaseIndexer {
                         if (this.storage.saveChunk) {
                             await this.storage.saveChunk({
                                 ...chunk,
-                                embedding: textEmbedding
+                                embedding: textEmbedding,
+                                embedder: this.pipeline.stamp(textEmbedding)
                             })
                         }
                         totalChunksIndexed++
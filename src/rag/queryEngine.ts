@@ -48,6 +48,7 @@ export class RAGQueryEngine {
     async query(question: string, opts: QueryOptions = {}): Promise<RAGResponse> {
         // 1. Embed the user's question
         const { textEmbedding } = await this.pipeline.run(question, '', '')
+        const embedder = this.pipeline.stamp(textEmbedding)
 
         // 2. Perform parallel retrieval across the 3 vector domains
         const limitCode = opts.limitCode || 5
@@ -55,8 +56,8 @@ export class RAGQueryEngine {
         const limitPRs = opts.limitPRs || 3
 
         const [chunks, decisions, prMatches] = await Promise.all([
-            this.storage.searchChunks ? this.storage.searchChunks(textEmbedding, limitCode) : Promise.resolve([]),
-            this.storage.searchDecisions ? this.storage.searchDecisions(textEmbedding, limitDecisions) : Promise.resolve([]),
+            this.storage.searchChunks ? this.storage.searchChunks(textEmbedding, limitCode, embedder) : Promise.resolve([]),
+            this.storage.searchDecisions ? this.storage.searchDecisions(textEmbedding, limitDecisions, embedder) : Promise.resolve([]),
             this.storage.search(textEmbedding, limitPRs)
         ])
 
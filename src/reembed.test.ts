@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest'
+import { reembedStorage } from './reembed.js'
+import { PRSenseDetector } from './prsense.js'
+import { InMemoryStorage } from './storage/memory.js'
+import { SQLiteStorage } from './storage/sqlite.js'
+import { ConfigurationError, ValidationError } from './errors.js'
+import { sameEmbedder, formatEmbedder } from './embeddingPipeline.js'
+import type { Embedder } from './embeddingPipeline.js'
+import type { StorageBackend } from './storage/interface.js'
+
+/** Deterministic embedder of a given width, tagged with a model id */
+function model(id: string, dimension: number): Embedder {
+    const embed = async (text: string) => {
+        const vector = new Float32Array(dimension)
+        for (let i = 0; i < text.length; i++) vector[i % dimension]! += text.charCodeAt(i) / 100
+        return vector
+    }
+    return { embedText: embed, embedDiff: embed, info: { id, version: '1', dimension } }
+}
+
+const oldModel = model('old', 3)
+const newModel = model('new', 5)
+const newStamp = { id: 'new', version: '1', dimension: 5 }
+
+const diff = '--- a/src/auth.ts\n+++ b/src/auth.ts\n@@ -1,1 +1,1 @@\n-const ttl = 60\n+const ttl = 120'
+const prs = [
+    { prId: 1, title: 'Raise session ttl', description: 'Sessions expire too early', files: ['src/auth.ts'], diff },
+    { prId: 2, title: 'Add retry to uploads', description: 'Flaky S3 uploads', files: ['src/upload.ts'] }
+]
+
+async function seed(storage: StorageBackend): Promise<void> {
+    const detector = new PRSenseDetector({ embedder: oldModel, storage })
+    await detector.init()
+    for (const pr of prs) await detector.check(pr)
+}
+
+describe('embedder identity', () => {
+    it('should compare id, version and dimension', () => {
+        expect(sameEmbedder({ id: 'a', version: '1', dimension: 3 }, { id: 'a', version: '1' })).toBe(true)
+        expect(sameEmbedder({ id: 'a', version: '1', dimension: 3 }, { id: 'a', version: '1', dimension: 4 })).toBe(false)
+        expect(sameEmbedder({ id: 'a', version: '1' }, { id: 'a', version: '2' })).toBe(false)
+        expect(formatEmbedder({ id: 'openai:text-embedding-3-small', version: '1', dimension: 512 }))
+            .toBe('openai:text-embedding-3-small@1 (512d)')
+    })
+})
+
+describe('embedder mismatch at init', () => {
+    it('should stamp stored PRs and refuse vectors from another model', async () => {
+        const storage = new InMemoryStorage()
+        await seed(storage)
+        expect((await storage.get(1))).toMatchObject({ embedder: { id: 'old', version: '1', dimension: 3 }, diff })
+
+        await expect(new PRSenseDetector({ embedder: newModel, storage }).init()).rejects.toThrow(ConfigurationError)
+        await expect(new PRSenseDetector({ embedder: newModel, storage }).init()).rejects.toThrow('2 of 2 stored PRs were embedded with old@1 (3d)')
+
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+        const skipping = new PRSenseDetector({ embedder: newModel, storage, embedderMismatch: 'skip' })
+        await skipping.init()
+        warn.mockRestore()
+        expect(skipping.getStats()).toMatchObject({ totalPRs: 0, embedder: { id: 'new', mismatchedPRs: 2 } })
+        // Skipped PRs keep their ids
+        expect(skipping.getKey(2)).toMatchObject({ number: 2 })
+    })
+
+    it('should check unstamped rows and snapshots by vector length', async () => {
+        const storage = new InMemoryStorage()
+        await storage.save({ prId: 7, title: 'Legacy', description: '', files: [], textEmbedding: new Float32Array(3), diffEmbedding: new Float32Array(3), createdAt: 1 })
+        await expect(new PRSenseDetector({ embedder: newModel, storage }).init()).rejects.toThrow('an unrecorded model (3d)')
+        await new PRSenseDetector({ embedder: model('other', 3), storage }).init()
+
+        const source = new PRSenseDetector({ embedder: oldModel })
+        await source.check(prs[0]!)
+        expect(() => new PRSenseDetector({ embedder: newModel }).importState(source.exportState()))
+            .toThrow('Snapshot was embedded with old@1 (3d)')
+    })
+})
+
+describe('reembedStorage', () => {
+    it('should stage without touching live vectors, then promote', async () => {
+        const storage = new InMemoryStorage()
+        await seed(storage)
+
+        const staged = await reembedStorage(storage, newModel, { promote: false })
+        expect(staged).toMatchObject({ total: 2, staged: 2, resumed: 0, promoted: 0, complete: false, missingDiff: [2] })
+        // Detectors on the old model keep serving
+        expect((await storage.get(1))!.textEmbedding).toHaveLength(3)
+        await new PRSenseDetector({ embedder: oldModel, storage }).init()
+
+        const promoted = await reembedStorage(storage, newModel)
+        expect(promoted).toMatchObject({ total: 2, staged: 0, resumed: 2, promoted: 2, complete: true })
+        expect(await storage.get(1)).toMatchObject({ embedder: { id: 'new', dimension: 5 } })
+
+        const detector = new PRSenseDetector({ embedder: newModel, storage })
+        await detector.init()
+        expect((await detector.check({ ...prs[0]!, prId: 3 }, { dryRun: true })).type).toBe('DUPLICATE')
+        expect((await reembedStorage(storage, newModel)).total).toBe(0)
+    })
+
+    it('should resume after an abort and skip PRs changed since staging', async () => {
+        const storage = new InMemoryStorage()
+        await seed(storage)
+
+        const controller = new AbortController()
+        await expect(reembedStorage(storage, newModel, {
+            signal: controller.signal,
+            onProgress: () => controller.abort()
+        })).rejects.toThrow()
+        expect(await storage.listStagedEmbeddings(newStamp)).toHaveLength(1)
+        expect(await reembedStorage(storage, newModel, { promote: false })).toMatchObject({ staged: 1, resumed: 1 })
+
+        // PR 1 is pushed again after staging: it keeps its live vectors
+        await storage.save({ ...(await storage.get(1))!, contentHash: 'pushed-again' })
+        expect(await storage.promoteStagedEmbeddings(newStamp)).toBe(1)
+        expect((await storage.get(1))!.embedder).toMatchObject({ id: 'old' })
+
+        expect(await reembedStorage(storage, newModel)).toMatchObject({ total: 1, staged: 1, promoted: 1, complete: true })
+    })
+
+    it('should page through every PR, not just what getAll() returns', async () => {
+        const storage = new InMemoryStorage()
+        await seed(storage)
+        // Postgres caps getAll()
+        Object.assign(storage, { getAll: async () => [] })
+
+        expect(await reembedStorage(storage, newModel, { pageSize: 1 })).toMatchObject({ total: 2, staged: 2, promoted: 2, complete: true })
+        expect(await storage.countPRsOnOtherEmbedder(newStamp)).toBe(0)
+        await expect(reembedStorage(storage, newModel, { pageSize: 0 })).rejects.toThrow(ValidationError)
+    })
+
+    it('should promote in SQLite and refuse storage without a stage', async () => {
+        const storage = new SQLiteStorage(':memory:')
+        await seed(storage)
+
+        expect(await reembedStorage(storage, newModel)).toMatchObject({ total: 2, staged: 2, promoted: 2, complete: true })
+        const record = (await storage.get(1))!
+        expect(record).toMatchObject({ embedder: newStamp, diff })
+        expect(record.textEmbedding).toHaveLength(5)
+        expect((await storage.search(record.textEmbedding, 1))[0]!.prId).toBe(1)
+        await storage.close()
+
+        const bare = { getAll: async () => [] } as unknown as StorageBackend
+        await expect(reembedStorage(bare, newModel)).rejects.toThrow(ConfigurationError)
+    })
+})
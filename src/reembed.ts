@@ -0,0 +1,191 @@
+/**
+ * Re-embedding
+ *
+ * moves a storage backend to a new embedding model without downtime: new
+ * vectors are staged next to the live ones, so running detectors keep
+ * serving from the old vectors, and are promoted in one step once every PR
+ * is staged. Staged vectors persist, so an interrupted run resumes where it
+ * stopped.
+ */
+
+import { EmbeddingPipeline, embeddingStamp, sameEmbedder } from './embeddingPipeline.js'
+import type { Embedder, EmbeddingStamp } from './embeddingPipeline.js'
+import type { DiffHunkOptions } from './diffHunks.js'
+import type { StorageBackend, PRRecord } from './storage/interface.js'
+import { ConfigurationError, ValidationError } from './errors.js'
+
+export interface ReembedOptions {
+    /** Per-hunk diff embeddings; use the detector's `hunks` setting (default: on) */
+    hunks?: DiffHunkOptions | false
+    /**
+     * Diff of a PR stored before diffs were kept; PRs without one are
+     * re-embedded from an empty diff, as the detector does
+     */
+    loadDiff?: (record: PRRecord) => Promise<string | undefined>
+    /** Promote the staged vectors once every PR is staged (default: true) */
+    promote?: boolean
+    /** PRs read from storage at a time, where the backend pages (default: 500) */
+    pageSize?: number
+    /** Stops the run between PRs; vectors staged so far are kept */
+    signal?: AbortSignal
+    /** Called after each PR */
+    onProgress?: (progress: ReembedProgress) => void
+}
+
+export interface ReembedProgress {
+    /** Stored PRs not yet on the target embedder */
+    total: number
+    /** Staged by this run */
+    staged: number
+    /** Already staged by an earlier run */
+    resumed: number
+    failed: number
+    elapsedMs: number
+}
+
+export interface ReembedReport extends ReembedProgress {
+    /** Target model */
+    embedder: EmbeddingStamp
+    /** PRs re-embedded without a diff */
+    missingDiff: number[]
+    failures: Array<{ prId: number; error: string }>
+    /** PRs whose live vectors were replaced */
+    promoted: number
+    /** Every stored PR now carries vectors from the target embedder */
+    complete: boolean
+}
+
+/**
+ * Re-embed every stored PR with `embedder`.
+ *
+ * ```typescript
+ * const report = await reembedStorage(storage, new ONNXEmbedder(), {
+ *     onProgress: p => console.log(`${p.staged + p.resumed}/${p.total}`)
+ * })
+ * if (report.complete) restartDetectorsWith(new ONNXEmbedder())
+ * ```
+ *
+ * PRs re-indexed while the run is in progress keep their old vectors at
+ * promotion (their content no longer matches what was staged); running
+ * again picks them up.
+ */
+export async function reembedStorage(
+    storage: StorageBackend,
+    embedder: Embedder,
+    options: ReembedOptions = {}
+): Promise<ReembedReport> {
+    if (!storage.saveStagedEmbeddings || !storage.listStagedEmbeddings || !storage.promoteStagedEmbeddings) {
+        throw new ConfigurationError('Storage backend does not support re-embedding (saveStagedEmbeddings, listStagedEmbeddings, promoteStagedEmbeddings)')
+    }
+
+    const started = Date.now()
+    const pipeline = new EmbeddingPipeline(embedder, options.hunks !== undefined ? { hunks: options.hunks } : {})
+    // Embedders that do not declare a dimension are probed once
+    const dimension = embedder.info?.dimension ?? (await embedder.embedText('dimension probe')).length
+    const target = embeddingStamp(embedder, dimension)
+
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new ValidationError('pageSize must be a positive integer', 'pageSize')
+    }
+    const alreadyStaged = new Map((await storage.listStagedEmbeddings(target)).map(s => [s.prId, s.contentHash]))
+
+    const report: ReembedReport = {
+        total: await countPending(storage, target),
+        staged: 0,
+        resumed: 0,
+        failed: 0,
+        elapsedMs: 0,
+        embedder: target,
+        missingDiff: [],
+        failures: [],
+        promoted: 0,
+        complete: false
+    }
+    const progress = (): void => {
+        report.elapsedMs = Date.now() - started
+        options.onProgress?.({
+            total: report.total,
+            staged: report.staged,
+            resumed: report.resumed,
+            failed: report.failed,
+            elapsedMs: report.elapsedMs
+        })
+    }
+
+    for await (const record of pendingRecords(storage, target, pageSize)) {
+        options.signal?.throwIfAborted()
+
+        if (alreadyStaged.has(record.prId) && alreadyStaged.get(record.prId) === record.contentHash) {
+            report.resumed++
+            progress()
+            continue
+        }
+
+        try {
+            const diff = record.diff ?? await options.loadDiff?.(record)
+            if (!diff) report.missingDiff.push(record.prId)
+
+            const { textEmbedding, diffEmbedding, hunkEmbeddings } = await pipeline.run(record.title, record.description, diff ?? '')
+            if (textEmbedding.length !== dimension) {
+                throw new Error(`Embedder returned a ${textEmbedding.length}-dimensional vector, expected ${dimension}`)
+            }
+            await storage.saveStagedEmbeddings({
+                prId: record.prId,
+                embedder: target,
+                ...(record.contentHash !== undefined ? { contentHash: record.contentHash } : {}),
+                textEmbedding,
+                diffEmbedding,
+                ...(hunkEmbeddings.length > 0 ? { hunkEmbeddings } : {}),
+                createdAt: Date.now()
+            })
+            report.staged++
+        } catch (error) {
+            report.failed++
+            report.failures.push({ prId: record.prId, error: error instanceof Error ? error.message : String(error) })
+        }
+        progress()
+    }
+
+    // A run with failures leaves the live vectors untouched; run again to retry
+    if ((options.promote ?? true) && report.failed === 0) {
+        report.promoted = await storage.promoteStagedEmbeddings(target)
+        report.complete = await countPending(storage, target) === 0
+    }
+    report.elapsedMs = Date.now() - started
+    return report
+}
+
+const DEFAULT_PAGE_SIZE = 500
+
+function onTarget(record: PRRecord, target: EmbeddingStamp): boolean {
+    return record.embedder !== undefined && sameEmbedder(record.embedder, target)
+}
+
+/**
+ * Stored PRs not yet on the target embedder
+ */
+async function countPending(storage: StorageBackend, target: EmbeddingStamp): Promise<number> {
+    if (storage.countPRsOnOtherEmbedder) return storage.countPRsOnOtherEmbedder(target)
+    return (await storage.getAll()).filter(record => !onTarget(record, target)).length
+}
+
+/**
+ * Stored PRs not yet on the target embedder, a page at a time where the
+ * backend can list them, oldest first otherwise
+ */
+async function* pendingRecords(storage: StorageBackend, target: EmbeddingStamp, pageSize: number): AsyncGenerator<PRRecord> {
+    if (!storage.listPRsOnOtherEmbedder) {
+        yield* (await storage.getAll())
+            .filter(record => !onTarget(record, target))
+            .sort((a, b) => a.createdAt - b.createdAt)
+        return
+    }
+    let afterPrId = 0
+    for (;;) {
+        const page = await storage.listPRsOnOtherEmbedder(target, afterPrId, pageSize)
+        yield* page
+        if (page.length < pageSize) return
+        afterPrId = page[page.length - 1]!.prId
+    }
+}
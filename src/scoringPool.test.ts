@@ -0,0 +1,136 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { ScoringPool, VectorMatrix, scanMatrix } from './scoringPool.js'
+import { PRSenseDetector } from './prsense.js'
+import { cosine } from './similarity.js'
+import { ConfigurationError } from './errors.js'
+
+function randomVectors(count: number, dim: number, seed = 1): Float32Array[] {
+    let state = seed
+    const next = () => {
+        state = (state * 1103515245 + 12345) % 2147483648
+        return state / 2147483648 - 0.5
+    }
+    return Array.from({ length: count }, () => {
+        const v = new Float32Array(dim)
+        for (let i = 0; i < dim; i++) v[i] = next()
+        return v
+    })
+}
+
+describe('ScoringPool', () => {
+    const pool = new ScoringPool(2)
+    afterAll(() => pool.close())
+
+    it('should rank like a single-threaded cosine scan', async () => {
+        const vectors = randomVectors(101, 24)
+        // Duplicated vectors tie; ties rank by id
+        vectors.push(vectors[3]!, vectors[3]!)
+        const matrix = new VectorMatrix(4)
+        vectors.forEach((v, i) => matrix.set(1000 - i, v))
+        expect(matrix.size).toBe(103)
+
+        const query = vectors[3]!
+        const expected = vectors
+            .map((v, i) => ({ id: 1000 - i, score: cosine(query, v) }))
+            .sort((a, b) => b.score - a.score || a.id - b.id)
+            .slice(0, 10)
+
+        const parallel = await pool.scan(matrix, query, 10)
+        expect(parallel).toEqual(expected)
+        expect(parallel.slice(0, 3).map(h => h.id)).toEqual([898, 899, 997])
+        expect(scanMatrix(matrix, query, 10)).toEqual(parallel)
+    })
+
+    it('should scan only the given ids and overwrite re-set rows', async () => {
+        const vectors = randomVectors(20, 8, 5)
+        const matrix = new VectorMatrix()
+        vectors.forEach((v, i) => matrix.set(i, v))
+        matrix.set(7, vectors[0]!)
+
+        const hits = await pool.scan(matrix, vectors[0]!, 3, [7, 8, 9, 404])
+        expect(hits.map(h => h.id)[0]).toBe(7)
+        expect(hits[0]!.score).toBeCloseTo(1)
+        expect(hits).toHaveLength(3)
+        expect(matrix.size).toBe(20)
+    })
+
+    it('should keep rows in place while a scan reads them', async () => {
+        const vectors = randomVectors(30, 8, 9)
+        const matrix = new VectorMatrix()
+        vectors.forEach((v, i) => matrix.set(i, v))
+        const query = vectors[2]!
+
+        const scanning = pool.scan(matrix, query, 30)
+        // Would move row 29 into row 2 mid-scan
+        expect(matrix.remove(2)).toBe(true)
+        matrix.set(30, vectors[5]!)
+        expect(matrix.has(2)).toBe(false)
+        expect(matrix.size).toBe(30)
+
+        const hits = await scanning
+        expect(hits.map(h => h.id)).not.toContain(2)
+        expect(hits.map(h => h.id)).not.toContain(30)
+        for (const hit of hits) expect(hit.score).toBe(cosine(query, vectors[hit.id]!))
+
+        // The removal lands once the scan ends
+        expect(matrix.rowOf(30)).toBe(2)
+        expect(scanMatrix(matrix, vectors[29]!, 1)[0]!.id).toBe(29)
+        expect(scanMatrix(matrix, vectors[5]!, 2).map(h => h.id)).toEqual([5, 30])
+    })
+
+    it('should hold overwrites until the last reader ends', () => {
+        const vectors = randomVectors(30, 8, 11)
+        const matrix = new VectorMatrix()
+        vectors.forEach((v, i) => matrix.set(i, v))
+
+        const release = matrix.read()
+        // Would change row 4 under a running scan
+        matrix.set(4, vectors[9]!)
+        expect(matrix.size).toBe(30)
+        expect(scanMatrix(matrix, vectors[4]!, 1)[0]).toEqual({ id: 4, score: cosine(vectors[4]!, vectors[4]!) })
+
+        release()
+        expect(scanMatrix(matrix, vectors[9]!, 2).map(h => h.id)).toEqual([4, 9])
+    })
+
+    it('should validate the worker count', () => {
+        expect(() => new ScoringPool(0)).toThrow(ConfigurationError)
+    })
+})
+
+describe('parallel scoring in the detector', () => {
+    const embedder = {
+        embedText: async (text: string) => new Float32Array([text.length % 13, text.split(' ').length, text.includes('cache') ? 4 : 1, 1]),
+        embedDiff: async (diff: string) => new Float32Array([diff.length % 11, 1, 2, diff.includes('ttl') ? 3 : 0])
+    }
+    const prs = Array.from({ length: 40 }, (_, i) => ({
+        prId: i + 1,
+        title: i % 3 === 0 ? `Tune cache size ${i}` : `Refactor module ${i} internals`,
+        description: `Change number ${i}`,
+        files: [`src/module${i % 5}.ts`],
+        diff: `--- a/src/module${i % 5}.ts\n+++ b/src/module${i % 5}.ts\n@@ -1 +1 @@\n-const ttl = ${i}\n+const ttl = ${i + 1}`,
+        author: i % 2 ? 'alice' : 'bob'
+    }))
+
+    it('should return the same results as the single-threaded scan', async () => {
+        const serial = new PRSenseDetector({ embedder, vectorIndex: { type: 'flat' } })
+        const parallel = new PRSenseDetector({ embedder, parallelScoring: { minIndexSize: 0, workers: 2 } })
+        for (const pr of prs) {
+            expect(await parallel.checkDetailed(pr, { topK: 5 })).toEqual(await serial.checkDetailed(pr, { topK: 5 }))
+        }
+
+        const query = { prId: 99, title: 'Tune cache size again', description: 'Bigger cache', files: ['src/module0.ts'] }
+        expect(await parallel.checkDetailed(query, { dryRun: true, topK: 10 })).toEqual(await serial.checkDetailed(query, { dryRun: true, topK: 10 }))
+        // Both detectors indexed the PRs, at slightly different times
+        const ranking = (results: Array<{ prId: number; score: number; fusedScore?: number }>) => results.map(r => [r.prId, r.score, r.fusedScore])
+        expect(ranking(await parallel.search('cache size', 10, { mode: 'semantic' }))).toEqual(ranking(await serial.search('cache size', 10, { mode: 'semantic' })))
+        expect(ranking(await parallel.search('author:alice cache', 10))).toEqual(ranking(await serial.search('author:alice cache', 10)))
+
+        expect(parallel.getStats().parallelScoring).toEqual({ workers: 2, minIndexSize: 0, active: true })
+        await parallel.close()
+    })
+
+    it('should reject parallel scoring with quantization', () => {
+        expect(() => new PRSenseDetector({ embedder, quantization: { type: 'int8' }, parallelScoring: {} })).toThrow(ConfigurationError)
+    })
+})
@@ -0,0 +1,341 @@
+/**
+ * Parallel exact similarity scans
+ *
+ * Vectors are mirrored into SharedArrayBuffer-backed matrices that worker
+ * threads read without copying. A scan is split into one slice of rows
+ * per worker; each worker returns its best hits and the calling thread
+ * merges them. Workers run scanRows from its source text, the same
+ * function the in-thread path calls, so results are identical either way.
+ */
+
+import { Worker } from 'worker_threads'
+import { availableParallelism } from 'os'
+import type { VectorSearchResult } from './vectorIndex.js'
+import { ConfigurationError } from './errors.js'
+
+export interface ParallelScoringConfig {
+    /** Scan in worker threads once this many PRs are indexed (default: 10000) */
+    minIndexSize?: number
+    /** Worker threads (default: available cores minus one, at least 1) */
+    workers?: number
+}
+
+/**
+ * Vectors in a growable SharedArrayBuffer, one row per id. Rows do not
+ * move or change while a scan reads them: removals and overwrites wait
+ * until the last reader ends.
+ */
+export class VectorMatrix {
+    private buffer: SharedArrayBuffer
+    private rows = new Map<number, number>()
+    private ids: number[] = []
+    private dim = 0
+    private readers = 0
+    /** Ids removed while a scan was reading, dropped once it ends */
+    private removed = new Set<number>()
+    /** New vectors for existing rows set while a scan was reading */
+    private pending = new Map<number, Float32Array>()
+
+    constructor(private capacity: number = 1024) {
+        this.buffer = new SharedArrayBuffer(0)
+    }
+
+    get size(): number {
+        return this.ids.length - this.removed.size
+    }
+
+    get dimension(): number {
+        return this.dim
+    }
+
+    /** Row data shared with workers; replaced when the matrix grows */
+    get data(): Float32Array {
+        return new Float32Array(this.buffer, 0, this.ids.length * this.dim)
+    }
+
+    has(id: number): boolean {
+        return this.rows.has(id) && !this.removed.has(id)
+    }
+
+    /**
+     * Set an id's row; a vector of another dimension is cut or zero-padded,
+     * as cosine() compares only the shared prefix. Overwriting a row while
+     * a scan reads it is deferred until the scan ends.
+     */
+    set(id: number, vector: Float32Array): void {
+        this.dim ||= vector.length
+        this.removed.delete(id)
+        let row = this.rows.get(id)
+        if (row === undefined) {
+            row = this.ids.length
+            this.grow(row + 1)
+            this.rows.set(id, row)
+            this.ids.push(id)
+        } else if (this.readers > 0) {
+            this.pending.set(id, vector.slice(0, this.dim))
+            return
+        }
+        this.write(row, vector)
+    }
+
+    /**
+     * Drop an id's row; the last row moves into its place, once no scan
+     * is reading
+     */
+    remove(id: number): boolean {
+        if (!this.has(id)) return false
+        if (this.readers > 0) {
+            this.removed.add(id)
+            this.pending.delete(id)
+            return true
+        }
+        this.drop(id)
+        return true
+    }
+
+    rowOf(id: number): number | undefined {
+        return this.has(id) ? this.rows.get(id) : undefined
+    }
+
+    idOf(row: number): number {
+        return this.ids[row]!
+    }
+
+    /** Rows of the ids present, in row order */
+    liveRows(): number[] {
+        return this.removed.size === 0
+            ? this.ids.map((_, row) => row)
+            : this.ids.flatMap((id, row) => this.removed.has(id) ? [] : [row])
+    }
+
+    /**
+     * Hold rows in place until the returned release is called
+     */
+    read(): () => void {
+        this.readers++
+        let released = false
+        return () => {
+            if (released) return
+            released = true
+            if (--this.readers > 0) return
+            for (const id of this.removed) this.drop(id)
+            this.removed.clear()
+            for (const [id, vector] of this.pending) this.write(this.rows.get(id)!, vector)
+            this.pending.clear()
+        }
+    }
+
+    private write(row: number, vector: Float32Array): void {
+        const target = new Float32Array(this.buffer, row * this.dim * 4, this.dim)
+        target.fill(0)
+        target.set(vector.subarray(0, this.dim))
+    }
+
+    private drop(id: number): void {
+        const row = this.rows.get(id)!
+        const last = this.ids.length - 1
+        if (row !== last) {
+            const moved = this.ids[last]!
+            const data = new Float32Array(this.buffer)
+            data.copyWithin(row * this.dim, last * this.dim, (last + 1) * this.dim)
+            this.ids[row] = moved
+            this.rows.set(moved, row)
+        }
+        this.ids.pop()
+        this.rows.delete(id)
+    }
+
+    private grow(rows: number): void {
+        const bytes = rows * this.dim * 4
+        if (bytes <= this.buffer.byteLength) return
+        while (this.capacity < rows) this.capacity *= 2
+        const buffer = new SharedArrayBuffer(Math.max(this.capacity * this.dim * 4, bytes))
+        new Float32Array(buffer).set(new Float32Array(this.buffer))
+        this.buffer = buffer
+    }
+}
+
+/**
+ * Cosine of the query against the given rows, best first (ties by row),
+ * computed exactly as cosine() in similarity.ts. Hits tied with the k-th
+ * are kept, so merged slices rank like one full scan. Workers evaluate
+ * this function's source: it must not refer to anything outside itself.
+ */
+export function scanRows(
+    data: Float32Array,
+    dimension: number,
+    query: Float32Array,
+    rows: ArrayLike<number>,
+    k: number
+): Array<[row: number, score: number]> {
+    const len = Math.min(dimension, query.length)
+    const hits: Array<[number, number]> = []
+    for (let r = 0; r < rows.length; r++) {
+        const row = rows[r]!
+        const offset = row * dimension
+        let dot = 0
+        let normA = 0
+        let normB = 0
+        for (let i = 0; i < len; i++) {
+            const aVal = query[i]!
+            const bVal = data[offset + i]!
+            dot += aVal * bVal
+            normA += aVal * aVal
+            normB += bVal * bVal
+        }
+        hits.push([row, normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB))])
+    }
+    hits.sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    if (k <= 0) return []
+    let end = Math.min(k, hits.length)
+    while (end < hits.length && hits[end]![1] === hits[end - 1]![1]) end++
+    return hits.slice(0, end)
+}
+
+/**
+ * Top-k ids of a matrix by cosine to the query (ties by id), scanned on
+ * the calling thread; `ids` restricts the scan
+ */
+export function scanMatrix(matrix: VectorMatrix, query: Float32Array, k: number, ids?: Iterable<number>): VectorSearchResult[] {
+    return mergeHits(matrix, [scanRows(matrix.data, matrix.dimension, query, rowsOf(matrix, ids), k)], k)
+}
+
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads')
+const scanRows = ${scanRows.toString()}
+parentPort.on('message', ({ request, data, dimension, rows, query, k }) => {
+    try {
+        parentPort.postMessage({ request, hits: scanRows(data, dimension, query, rows, k) })
+    } catch (error) {
+        parentPort.postMessage({ request, error: String(error) })
+    }
+})
+`
+
+interface PendingScan {
+    worker: Worker
+    resolve: (hits: Array<[number, number]>) => void
+    reject: (error: Error) => void
+}
+
+/**
+ * Worker threads for exact scans over VectorMatrix rows. Workers start on
+ * the first scan and do not keep the process alive; if they cannot run,
+ * scans fall back to the calling thread.
+ */
+export class ScoringPool {
+    readonly size: number
+    private workers: Worker[] = []
+    private pending = new Map<number, PendingScan>()
+    private nextRequest = 1
+    private failed = false
+
+    constructor(workers: number = Math.max(1, availableParallelism() - 1)) {
+        if (!Number.isInteger(workers) || workers < 1 || workers > 64) {
+            throw new ConfigurationError('parallelScoring.workers must be an integer between 1 and 64')
+        }
+        this.size = workers
+    }
+
+    /**
+     * Top-k ids by cosine to the query (ties by id), scanned across the
+     * workers; `ids` restricts the scan
+     */
+    async scan(matrix: VectorMatrix, query: Float32Array, k: number, ids?: Iterable<number>): Promise<VectorSearchResult[]> {
+        const rows = rowsOf(matrix, ids)
+        if (this.failed || rows.length === 0) {
+            return mergeHits(matrix, [scanRows(matrix.data, matrix.dimension, query, rows, k)], k)
+        }
+
+        const release = matrix.read()
+        try {
+            this.start()
+            const data = matrix.data
+            const slice = Math.ceil(rows.length / this.workers.length)
+            const slices = this.workers
+                .map((worker, i) => ({ worker, rows: rows.subarray(i * slice, (i + 1) * slice) }))
+                .filter(s => s.rows.length > 0)
+            const hits = await Promise.all(slices.map(s => this.request(s.worker, { data, dimension: matrix.dimension, rows: s.rows, query, k })))
+            return mergeHits(matrix, hits, k)
+        } catch (error) {
+            console.warn('Scoring workers failed, scanning on the main thread', error)
+            this.failed = true
+            await this.close()
+            return mergeHits(matrix, [scanRows(matrix.data, matrix.dimension, query, rows, k)], k)
+        } finally {
+            release()
+        }
+    }
+
+    async close(): Promise<void> {
+        const workers = this.workers
+        this.workers = []
+        await Promise.all(workers.map(worker => worker.terminate()))
+    }
+
+    private start(): void {
+        if (this.workers.length > 0) return
+        for (let i = 0; i < this.size; i++) {
+            const worker = new Worker(WORKER_SOURCE, { eval: true })
+            worker.unref()
+            worker.on('message', ({ request, hits, error }: { request: number; hits?: Array<[number, number]>; error?: string }) => {
+                const pending = this.pending.get(request)
+                if (!pending) return
+                this.pending.delete(request)
+                this.release(worker)
+                if (error !== undefined) pending.reject(new Error(error))
+                else pending.resolve(hits!)
+            })
+            worker.on('error', error => this.rejectAll(error))
+            worker.on('exit', code => {
+                if (code !== 0) this.rejectAll(new Error(`Scoring worker exited with code ${code}`))
+            })
+            this.workers.push(worker)
+        }
+    }
+
+    private request(worker: Worker, message: Record<string, unknown>): Promise<Array<[number, number]>> {
+        return new Promise((resolve, reject) => {
+            const request = this.nextRequest++
+            this.pending.set(request, { worker, resolve, reject })
+            // Keep the process alive while a scan is in flight
+            worker.ref()
+            worker.postMessage({ request, ...message })
+        })
+    }
+
+    private release(worker: Worker): void {
+        for (const pending of this.pending.values()) {
+            if (pending.worker === worker) return
+        }
+        worker.unref()
+    }
+
+    private rejectAll(error: Error): void {
+        for (const pending of this.pending.values()) {
+            pending.worker.unref()
+            pending.reject(error)
+        }
+        this.pending.clear()
+    }
+}
+
+function rowsOf(matrix: VectorMatrix, ids?: Iterable<number>): Int32Array {
+    if (!ids) return Int32Array.from(matrix.liveRows())
+    const rows: number[] = []
+    for (const id of ids) {
+        const row = matrix.rowOf(id)
+        if (row !== undefined) rows.push(row)
+    }
+    return Int32Array.from(rows)
+}
+
+function mergeHits(matrix: VectorMatrix, slices: Array<Array<[number, number]>>, k: number): VectorSearchResult[] {
+    return slices
+        .flat()
+        .map(([row, score]) => ({ id: matrix.idOf(row), score }))
+        // Removed while the scan ran
+        .filter(hit => matrix.has(hit.id))
+        .sort((a, b) => b.score - a.score || a.id - b.id)
+        .slice(0, Math.max(0, k))
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { parseSearchQuery, matchesSearchFilter, globToRegExp, hasSearchFilter } from './searchQuery.js'
+import { PRSenseDetector } from './prsense.js'
+import { SQLiteStorage } from './storage/sqlite.js'
+import { PostgresStorage } from './storage/postgres.js'
+import { ValidationError } from './errors.js'
+
+const embedder = {
+    embedText: async (text: string) => new Float32Array([text.length % 7, 1, text.includes('cache') ? 3 : 0]),
+    embedDiff: async () => new Float32Array([0, 1, 0])
+}
+
+const prs = [
+    { prId: 1, title: 'Tune cache eviction', description: 'LRU cache eviction was too eager', files: ['src/storage/cache.ts'], author: 'alice' },
+    { prId: 2, title: 'Cache eviction metrics', description: 'Count evictions', files: ['src/metrics.ts'], author: 'bob' },
+    { prId: 3, title: 'Retry storage writes', description: 'Retry on lock timeout', files: ['src/storage/sqlite.ts'], author: 'Alice' }
+]
+
+describe('parseSearchQuery', () => {
+    it('should split filters, phrases and free text', () => {
+        const parsed = parseSearchQuery('author:alice file:src/storage/** state:merged,closed before:2026-01-01 "cache eviction" ttl')
+        expect(parsed.text).toBe('cache eviction ttl')
+        expect(parsed.filter).toEqual({
+            authors: ['alice'],
+            files: ['src/storage/**'],
+            states: ['merged', 'closed'],
+            before: Date.UTC(2026, 0, 1),
+            phrases: ['cache eviction']
+        })
+    })
+
+    it('should keep unknown keys as text and reject bad values', () => {
+        expect(parseSearchQuery('fix: crash on https://example.com')).toEqual({ text: 'fix: crash on https://example.com', filter: {} })
+        expect(parseSearchQuery('author:"Jane Doe"').filter.authors).toEqual(['Jane Doe'])
+        expect(hasSearchFilter(parseSearchQuery('plain words').filter)).toBe(false)
+        expect(() => parseSearchQuery('state:draft')).toThrow(ValidationError)
+        expect(() => parseSearchQuery('before:yesterday')).toThrow(ValidationError)
+        expect(() => parseSearchQuery('author:,')).toThrow(ValidationError)
+    })
+})
+
+describe('globToRegExp', () => {
+    it('should keep * within a directory and let ** cross them', () => {
+        expect(globToRegExp('src/storage/**').test('src/storage/db/pool.ts')).toBe(true)
+        expect(globToRegExp('src/*.ts').test('src/db/pool.ts')).toBe(false)
+        expect(globToRegExp('src/**/*.ts').test('src/pool.ts')).toBe(true)
+        // No slash: matches in any directory
+        expect(globToRegExp('*.test.ts').test('src/a.test.ts')).toBe(true)
+        expect(globToRegExp('pool.ts').test('src/db/pool_ts')).toBe(false)
+    })
+})
+
+describe('matchesSearchFilter', () => {
+    it('should treat PRs without a state as open', () => {
+        const pr = { title: 'A', description: '', createdAt: 0, files: [] }
+        expect(matchesSearchFilter(pr, { states: ['open'] })).toBe(true)
+        expect(matchesSearchFilter(pr, { authors: ['alice'] })).toBe(false)
+    })
+})
+
+describe('filtered search', () => {
+    it('should rank only PRs matching the filters', async () => {
+        const detector = new PRSenseDetector({ embedder })
+        for (const pr of prs) await detector.check(pr)
+        await detector.updateState(3, 'merged')
+
+        expect((await detector.search('author:alice cache', 10)).map(r => r.prId).sort()).toEqual([1, 3])
+        expect((await detector.search('"cache eviction" file:src/storage/**', 10)).map(r => r.prId)).toEqual([1])
+        expect((await detector.search('state:merged retry', 10))[0]).toMatchObject({ prId: 3, author: 'Alice', state: 'merged' })
+        expect(await detector.search('before:2000-01-01 cache', 10)).toEqual([])
+
+        // Filters alone list matches, newest first
+        expect((await detector.search('state:open', 10)).map(r => r.prId)).toEqual([2, 1])
+        await expect(detector.search('state:draft', 10)).rejects.toThrow(ValidationError)
+    })
+
+    it('should persist authors in SQLite', async () => {
+        const storage = new SQLiteStorage(':memory:')
+        const detector = new PRSenseDetector({ embedder, storage })
+        await detector.init()
+        for (const pr of prs) await detector.check(pr)
+        expect((await storage.get(3))?.author).toBe('Alice')
+
+        const reloaded = new PRSenseDetector({ embedder, storage })
+        await reloaded.init()
+        expect((await reloaded.search('author:bob', 10)).map(r => r.prId)).toEqual([2])
+        await storage.close()
+    })
+
+    it('should push filters down to Postgres as WHERE clauses', async () => {
+        const queries: Array<{ text: string; params?: unknown[] }> = []
+        const storage = new PostgresStorage({})
+        Object.assign(storage, {
+            pool: {
+                query: async (text: string, params?: unknown[]) => {
+                    queries.push({ text, ...(params ? { params } : {}) })
+                    return { rows: [{ pr_id: 1, score: 0.9 }] }
+                }
+            }
+        })
+
+        const hits = await storage.search(new Float32Array([1, 0]), 5, parseSearchQuery('author:Alice state:merged file:src/** "Cache Eviction"').filter)
+        expect(hits).toEqual([{ prId: 1, score: 0.9 }])
+        const [{ text, params }] = queries as [{ text: string; params: unknown[] }]
+        expect(text).toContain('LOWER(author) = ANY($3::text[])')
+        expect(text).toContain("COALESCE(state, 'open') = ANY($4::text[])")
+        expect(text).toContain('f.path ~ ANY($5::text[])')
+        expect(text).toContain('POSITION($6 IN')
+        expect(params.slice(2)).toEqual([['alice'], ['merged'], ['^src/.*$'], 'cache eviction'])
+    })
+})
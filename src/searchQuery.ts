@@ -0,0 +1,181 @@
+/**
+ * Search query language
+ *
+ * narrows a free-text search with `key:value` filters and quoted phrases:
+ *
+ *     author:alice file:src/storage/** state:merged before:2026-01-01 "cache eviction" ttl
+ *
+ * Filters are applied before retrieval (only matching PRs are ranked) and
+ * pushed down to storage backends that can evaluate them.
+ */
+
+import type { PRState } from './types.js'
+import { ValidationError } from './errors.js'
+
+export interface SearchFilter {
+    /** PR authors, compared case-insensitively */
+    authors?: string[]
+    /** Globs over changed file paths; `*` stays within a directory, `**` crosses directories */
+    files?: string[]
+    /** Lifecycle states (PRs without one count as open) */
+    states?: PRState[]
+    /** Created before this time (ms) */
+    before?: number
+    /** Created at or after this time (ms) */
+    after?: number
+    /** Phrases the title or description must contain, case-insensitively */
+    phrases?: string[]
+}
+
+export interface ParsedSearchQuery {
+    /** Text to rank by, with quoted phrases unquoted */
+    text: string
+    filter: SearchFilter
+}
+
+/** Fields a PR is filtered on */
+export interface SearchFilterSubject {
+    title: string
+    description: string
+    createdAt: number
+    author?: string
+    files?: string[]
+    state?: PRState
+}
+
+const STATES: readonly PRState[] = ['open', 'closed', 'merged']
+
+/**
+ * Split a query into ranking text and filters. Several values of one key
+ * (repeated or comma-separated) match any of them; unknown keys stay text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+    const text: string[] = []
+    const filter: SearchFilter = {}
+
+    for (const match of query.matchAll(/([A-Za-z]+):"([^"]*)"|([A-Za-z]+):(\S+)|"([^"]*)"|(\S+)/g)) {
+        const key = (match[1] ?? match[3])?.toLowerCase()
+        const value = match[2] ?? match[4]
+        const phrase = match[5]
+
+        if (phrase !== undefined) {
+            const trimmed = phrase.trim()
+            if (trimmed) {
+                (filter.phrases ??= []).push(trimmed)
+                text.push(trimmed)
+            }
+            continue
+        }
+        if (key === undefined || value === undefined || !isFilterKey(key)) {
+            text.push(match[0])
+            continue
+        }
+
+        const values = value.split(',').map(v => v.trim()).filter(Boolean)
+        if (values.length === 0) {
+            throw new ValidationError(`${key}: needs a value`, key)
+        }
+        switch (key) {
+            case 'author':
+                (filter.authors ??= []).push(...values)
+                break
+            case 'file':
+                (filter.files ??= []).push(...values)
+                break
+            case 'state':
+                for (const state of values) {
+                    if (!STATES.includes(state as PRState)) {
+                        throw new ValidationError(`state: must be one of ${STATES.join(', ')}, got '${state}'`, 'state')
+                    }
+                    (filter.states ??= []).push(state as PRState)
+                }
+                break
+            case 'before':
+                filter.before = Math.min(filter.before ?? Infinity, parseDate(value, key))
+                break
+            case 'after':
+                filter.after = Math.max(filter.after ?? -Infinity, parseDate(value, key))
+                break
+        }
+    }
+
+    return { text: text.join(' '), filter }
+}
+
+/**
+ * Whether the filter constrains anything
+ */
+export function hasSearchFilter(filter: SearchFilter): boolean {
+    return Boolean(filter.authors?.length || filter.files?.length || filter.states?.length || filter.phrases?.length)
+        || filter.before !== undefined
+        || filter.after !== undefined
+}
+
+export function matchesSearchFilter(pr: SearchFilterSubject, filter: SearchFilter): boolean {
+    if (filter.authors?.length) {
+        const author = pr.author?.toLowerCase()
+        if (!author || !filter.authors.some(a => a.toLowerCase() === author)) return false
+    }
+    if (filter.states?.length && !filter.states.includes(pr.state ?? 'open')) return false
+    if (filter.before !== undefined && !(pr.createdAt < filter.before)) return false
+    if (filter.after !== undefined && !(pr.createdAt >= filter.after)) return false
+    if (filter.files?.length) {
+        const patterns = filter.files.map(globToRegExp)
+        if (!(pr.files ?? []).some(file => patterns.some(p => p.test(file)))) return false
+    }
+    if (filter.phrases?.length) {
+        const haystack = `${pr.title} ${pr.description}`.toLowerCase()
+        if (!filter.phrases.every(phrase => haystack.includes(phrase.toLowerCase()))) return false
+    }
+    return true
+}
+
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(globToPattern(glob))
+}
+
+/**
+ * Anchored regular expression source for a path glob. A glob without a
+ * slash matches in any directory, as in .gitignore. Only constructs that
+ * JavaScript and POSIX regular expressions share are used, so the pattern
+ * can be pushed down.
+ */
+export function globToPattern(glob: string): string {
+    let source = glob.includes('/') ? '' : '(?:.*/)?'
+    const pattern = glob.replace(/^\//, '')
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]!
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` may match no directories at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?'
+                i += 2
+            } else {
+                source += '.*'
+                i += 1
+            }
+        } else if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+    return `^${source}$`
+}
+
+function isFilterKey(key: string): key is 'author' | 'file' | 'state' | 'before' | 'after' {
+    return key === 'author' || key === 'file' || key === 'state' || key === 'before' || key === 'after'
+}
+
+/**
+ * ISO date (`2026-01-01`, UTC) or date-time
+ */
+function parseDate(value: string, field: string): number {
+    const time = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) ? Date.parse(value) : NaN
+    if (Number.isNaN(time)) {
+        throw new ValidationError(`${field}: expects a date like 2026-01-01, got '${value}'`, field)
+    }
+    return time
+}
@@ -22,6 +22,9 @@ import { EmbeddingPipeline } from './embeddingPipeline.js'
 import { createOpenAIEmbedder } from './embedders/openai.js'
 import { OllamaProvider } from './llm/ollama.js'
 import { createRAGRouter } from './api/ragEndpoints.js'
+import { parseSearchQuery } from './searchQuery.js'
+import { buildClusterReports, formatClustersMarkdown } from './clusterReport.js'
+import { ValidationError, ConfigurationError } from './errors.js'
 
 const app = express()
 const PORT = process.env.PORT || 3000
@@ -295,6 +298,65 @@ app.post('/api/stale', (req, res) => {
     }
 })
 
+// Search indexed PRs; q accepts filters: author:alice file:src/db/** state:merged before:2026-01-01 "phrase"
+app.get('/api/search', async (req, res) => {
+    try {
+        const q = req.query.q
+        if (typeof q !== 'string' || !q.trim()) {
+            return res.status(400).json({ error: 'Query parameter q is required' })
+        }
+        const limit = req.query.limit === undefined ? 10 : Number(req.query.limit)
+        if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+            return res.status(400).json({ error: 'limit must be an integer between 1 and 100' })
+        }
+        const mode = req.query.mode
+        if (mode !== undefined && mode !== 'hybrid' && mode !== 'semantic' && mode !== 'lexical') {
+            return res.status(400).json({ error: 'mode must be hybrid, semantic or lexical' })
+        }
+
+        const detector = await getDetector()
+        const results = await detector.search(q, limit, mode ? { mode } : {})
+        res.json({ query: parseSearchQuery(q), results })
+    } catch (error) {
+        if (error instanceof ValidationError || error instanceof ConfigurationError) {
+            return res.status(400).json({ error: error.message })
+        }
+        console.error('Search error:', error)
+        res.status(500).json({ error: 'Internal server error' })
+    }
+})
+
+// Duplicate clusters, largest and most recent first; format=markdown for pasting into an issue
+app.get('/api/clusters', async (req, res) => {
+    try {
+        const limit = req.query.limit === undefined ? 50 : Number(req.query.limit)
+        if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+            return res.status(400).json({ error: 'limit must be an integer between 1 and 500' })
+        }
+        const minSize = req.query.minSize === undefined ? 2 : Number(req.query.minSize)
+        if (!Number.isInteger(minSize) || minSize < 2) {
+            return res.status(400).json({ error: 'minSize must be an integer of at least 2' })
+        }
+        const format = req.query.format ?? 'json'
+        if (format !== 'json' && format !== 'markdown') {
+            return res.status(400).json({ error: 'format must be json or markdown' })
+        }
+
+        const detector = await getDetector()
+        const clusters = await buildClusterReports(detector, { limit, minSize })
+        if (format === 'markdown') {
+            return res.type('text/markdown').send(formatClustersMarkdown(clusters))
+        }
+        res.json({ clusters })
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return res.status(400).json({ error: error.message })
+        }
+        console.error('Cluster listing error:', error)
+        res.status(500).json({ error: 'Internal server error' })
+    }
+})
+
 // v2.0: Search Architectural Decisions (EDM)
 app.post('/api/decisions/search', async (req, res) => {
     try {
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { encodeSnapshotHeader, encodeFrame, decodeFrames, decodeSnapshot, diffState, applyDelta, isBinarySnapshot } from './snapshot.js'
+import { PRSenseDetector } from './prsense.js'
+import { StorageError } from './errors.js'
+
+const embedder = {
+    embedText: async (text: string) => new Float32Array([text.length / 100, 0.25, 1 / 3]),
+    embedDiff: async (diff: string) => new Float32Array([diff.length / 100, 0.5, 0.125])
+}
+
+const diff = '--- a/src/cache.ts\n+++ b/src/cache.ts\n@@ -1,2 +1,2 @@\n-const ttl = 60\n-const size = 10\n+const ttl = 120\n+const size = 20'
+
+async function detectorWith(count: number): Promise<PRSenseDetector> {
+    const detector = new PRSenseDetector({ embedder })
+    for (let i = 1; i <= count; i++) {
+        await detector.check({ prId: i, title: `Change ${i}`, description: 'Tune the cache', files: [`src/${i}.ts`], diff })
+    }
+    return detector
+}
+
+describe('binary snapshots', () => {
+    it('should round-trip vectors exactly and keep JSON exports readable', async () => {
+        const state = (await detectorWith(3)).exportState()
+        for (const compress of [true, false]) {
+            const file = Buffer.concat([encodeSnapshotHeader(), encodeFrame('full', state, compress)])
+            expect(isBinarySnapshot(file)).toBe(true)
+
+            const decoded = decodeSnapshot(file)
+            expect(decoded.records).toHaveLength(3)
+            expect(decoded.records[0].textEmbedding).toBeInstanceOf(Float32Array)
+            expect(Array.from(decoded.records[0].textEmbedding)).toEqual(state.records[0].textEmbedding)
+            expect(Array.from(decoded.records[0].hunkEmbeddings[0].vector)).toEqual(state.records[0].hunkEmbeddings[0].vector)
+            expect(decoded.bloom).toBe(state.bloom)
+        }
+
+        expect(decodeSnapshot(Buffer.from(JSON.stringify(state)))).toEqual(state)
+    })
+
+    it('should apply deltas in order and ignore a torn last frame', async () => {
+        const detector = await detectorWith(2)
+        const base = detector.exportState()
+        await detector.check({ prId: 3, title: 'Change 3', description: 'New', files: ['src/3.ts'] })
+        await detector.updateState(1, 'merged')
+        await detector.recordFeedback({ prA: 1, prB: 2, verdict: 'not-duplicate' })
+
+        const delta = diffState(base, detector.exportState())!
+        expect(delta.records.map(r => r.prId).sort()).toEqual([1, 3])
+        expect(delta.feedback).toHaveLength(1)
+        expect(diffState(detector.exportState(), detector.exportState())).toBeNull()
+
+        const deltaFrame = encodeFrame('delta', delta)
+        const file = Buffer.concat([encodeSnapshotHeader(), encodeFrame('full', base), deltaFrame, deltaFrame.subarray(0, 20)])
+        expect(decodeFrames(file).map(f => f.kind)).toEqual(['full', 'delta'])
+
+        const merged = decodeSnapshot(file)
+        expect(merged).toEqual(applyDelta(decodeFrames(file)[0]!.state, decodeFrames(file)[1]!.state))
+        expect(merged.records.map(r => [r.prId, r.state ?? 'open'])).toEqual([[2, 'open'], [1, 'merged'], [3, 'open']])
+
+        const restored = new PRSenseDetector({ embedder })
+        restored.importState(merged)
+        expect(restored.getStats()).toMatchObject({ totalPRs: 3, feedbackVerdicts: 1 })
+        expect(restored.getState(1)).toBe('merged')
+    })
+
+    it('should drop removed PRs and replace changed verdicts', async () => {
+        const detector = await detectorWith(3)
+        await detector.recordFeedback({ prA: 1, prB: 2, verdict: 'not-duplicate' })
+        const base = detector.exportState()
+        await detector.removePR(3)
+        await detector.recordFeedback({ prA: 2, prB: 1, verdict: 'duplicate' })
+
+        const delta = diffState(base, detector.exportState())!
+        expect(delta.removed).toEqual([3])
+        expect(delta.records).toEqual([])
+        expect(delta.feedback!.map(f => f.verdict)).toEqual(['duplicate'])
+
+        const merged = applyDelta(base, delta)
+        expect(merged.records.map(r => r.prId).sort()).toEqual([1, 2])
+        expect(merged.lsh?.signatures.map(([id]) => id)).not.toContain(3)
+        expect(merged.lexical?.documents.map(([id]) => id)).not.toContain(3)
+        expect(merged.feedback!.map(f => f.verdict)).toEqual(['duplicate'])
+        expect(merged.removed).toBeUndefined()
+    })
+
+    it('should reject files from a newer format', () => {
+        const header = encodeSnapshotHeader()
+        header.writeUInt8(99, 4)
+        expect(() => decodeFrames(header)).toThrow(StorageError)
+    })
+})
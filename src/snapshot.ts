@@ -0,0 +1,245 @@
+/**
+ * Binary detector snapshots
+ *
+ * A snapshot file is a magic header followed by frames. The first frame
+ * holds the full state; later frames are deltas appended by each save, so
+ * saving a few new PRs does not rewrite the file. Compaction folds the
+ * deltas back into a single frame.
+ *
+ *     'PRSS' | u8 format version | 3 reserved bytes
+ *     frame*: u32 byte length | u8 kind (0 full, 1 delta) | u8 flags (1 gzip) | u16 reserved | payload
+ *     payload: u32 header length | header JSON | zero padding to 4 bytes | float32 vectors (little-endian)
+ *
+ * Vectors in the header are `[offset, length]` references into the float
+ * block. A frame cut short by an interrupted write is ignored.
+ */
+
+import { gzipSync, gunzipSync } from 'zlib'
+import type { DetectorState } from './prsense.js'
+import type { FeedbackRecord } from './feedback.js'
+import { StorageError } from './errors.js'
+
+export const SNAPSHOT_MAGIC = 'PRSS'
+export const SNAPSHOT_VERSION = 1
+
+const FILE_HEADER_BYTES = 8
+const FRAME_HEADER_BYTES = 8
+const FLAG_GZIP = 1
+
+export type SnapshotFrameKind = 'full' | 'delta'
+
+export interface SnapshotFrame {
+    kind: SnapshotFrameKind
+    /** Encoded size, frame header included */
+    bytes: number
+    state: DetectorState
+}
+
+/** Reference to a vector in a frame's float block */
+type VectorRef = [offset: number, length: number]
+
+/**
+ * Whether a buffer holds a binary snapshot rather than JSON
+ */
+export function isBinarySnapshot(buffer: Uint8Array): boolean {
+    return buffer.length >= FILE_HEADER_BYTES && Buffer.from(buffer.subarray(0, 4)).toString('latin1') === SNAPSHOT_MAGIC
+}
+
+export function encodeSnapshotHeader(): Buffer {
+    const header = Buffer.alloc(FILE_HEADER_BYTES)
+    header.write(SNAPSHOT_MAGIC, 0, 'latin1')
+    header.writeUInt8(SNAPSHOT_VERSION, 4)
+    return header
+}
+
+/**
+ * Encode a state as one frame
+ */
+export function encodeFrame(kind: SnapshotFrameKind, state: DetectorState, compress: boolean = true): Buffer {
+    const vectors: ArrayLike<number>[] = []
+    let floats = 0
+    const ref = (vector: ArrayLike<number>): VectorRef => {
+        vectors.push(vector)
+        floats += vector.length
+        return [floats - vector.length, vector.length]
+    }
+
+    const header = {
+        ...state,
+        records: state.records.map(record => ({
+            ...record,
+            textEmbedding: ref(record.textEmbedding),
+            diffEmbedding: ref(record.diffEmbedding),
+            ...(record.hunkEmbeddings
+                ? { hunkEmbeddings: record.hunkEmbeddings.map((h: { vector: ArrayLike<number> }) => ({ ...h, vector: ref(h.vector) })) }
+                : {})
+        }))
+    }
+
+    const json = Buffer.from(JSON.stringify(header), 'utf-8')
+    const jsonEnd = 4 + json.length
+    const floatStart = Math.ceil(jsonEnd / 4) * 4
+    const payload = Buffer.alloc(floatStart + floats * 4)
+    payload.writeUInt32LE(json.length, 0)
+    json.copy(payload, 4)
+
+    const block = new Float32Array(payload.buffer, payload.byteOffset + floatStart, floats)
+    let offset = 0
+    for (const vector of vectors) {
+        block.set(vector, offset)
+        offset += vector.length
+    }
+
+    const body = compress ? gzipSync(payload) : payload
+    const frame = Buffer.alloc(FRAME_HEADER_BYTES + body.length)
+    frame.writeUInt32LE(frame.length, 0)
+    frame.writeUInt8(kind === 'full' ? 0 : 1, 4)
+    frame.writeUInt8(compress ? FLAG_GZIP : 0, 5)
+    body.copy(frame, FRAME_HEADER_BYTES)
+    return frame
+}
+
+/**
+ * Decode every complete frame of a snapshot file
+ */
+export function decodeFrames(buffer: Uint8Array): SnapshotFrame[] {
+    const data = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    if (!isBinarySnapshot(data)) {
+        throw new StorageError('Not a PRSense snapshot')
+    }
+    const version = data.readUInt8(4)
+    if (version > SNAPSHOT_VERSION) {
+        throw new StorageError(`Snapshot format version ${version} is newer than this PRSense supports (${SNAPSHOT_VERSION})`)
+    }
+
+    const frames: SnapshotFrame[] = []
+    let position = FILE_HEADER_BYTES
+    while (position + FRAME_HEADER_BYTES <= data.length) {
+        const bytes = data.readUInt32LE(position)
+        // An interrupted append leaves a partial frame at the end
+        if (bytes < FRAME_HEADER_BYTES || position + bytes > data.length) break
+        const kind: SnapshotFrameKind = data.readUInt8(position + 4) === 0 ? 'full' : 'delta'
+        const flags = data.readUInt8(position + 5)
+        const body = data.subarray(position + FRAME_HEADER_BYTES, position + bytes)
+        frames.push({ kind, bytes, state: decodePayload(flags & FLAG_GZIP ? gunzipSync(body) : body) })
+        position += bytes
+    }
+    return frames
+}
+
+/**
+ * Full state of a snapshot file with its deltas applied, or of a JSON
+ * export written before the binary format existed
+ */
+export function decodeSnapshot(buffer: Uint8Array): DetectorState {
+    if (!isBinarySnapshot(buffer)) {
+        return JSON.parse(Buffer.from(buffer).toString('utf-8'))
+    }
+    return mergeFrames(decodeFrames(buffer))
+}
+
+/**
+ * Apply a file's deltas to its full frame
+ */
+export function mergeFrames(frames: SnapshotFrame[]): DetectorState {
+    const [base, ...deltas] = frames
+    if (!base || base.kind !== 'full') {
+        throw new StorageError('Snapshot has no full frame')
+    }
+    return deltas.reduce((state, delta) => applyDelta(state, delta.state), base.state)
+}
+
+/**
+ * What changed in `state` since `previous`: records whose fields differ,
+ * their LSH signatures and lexical documents, the ids of records removed,
+ * feedback whose pair got a new verdict and the duplicate links if any
+ * changed. Returns null when nothing changed.
+ */
+export function diffState(previous: DetectorState, state: DetectorState): DetectorState | null {
+    const written = new Map(previous.records.map(record => [record.prId as number, recordFingerprint(record)]))
+    const records = state.records.filter(record => written.get(record.prId) !== recordFingerprint(record))
+    const kept = new Set(state.records.map(record => record.prId as number))
+    const removed = [...written.keys()].filter(prId => !kept.has(prId))
+    const verdicts = new Map((previous.feedback ?? []).map(f => [feedbackPair(f), JSON.stringify(f)]))
+    const feedback = (state.feedback ?? []).filter(f => verdicts.get(feedbackPair(f)) !== JSON.stringify(f))
+    const graphChanged = JSON.stringify(state.graph?.edges ?? []) !== JSON.stringify(previous.graph?.edges ?? [])
+    if (records.length === 0 && removed.length === 0 && feedback.length === 0 && !graphChanged && state.bloom === previous.bloom) return null
+
+    const changed = new Set(records.map(record => record.prId as number))
+    return {
+        records,
+        bloom: state.bloom,
+        ...(state.lsh ? { lsh: { ...state.lsh, signatures: state.lsh.signatures.filter(([id]) => changed.has(id)) } } : {}),
+        ...(state.lexical ? { lexical: { ...state.lexical, documents: state.lexical.documents.filter(([id]) => changed.has(id)) } } : {}),
+        feedback,
+        ...(graphChanged && state.graph ? { graph: state.graph } : {}),
+        ...(state.embedder ? { embedder: state.embedder } : {}),
+        ...(removed.length > 0 ? { removed } : {})
+    }
+}
+
+/**
+ * Apply a delta: records, signatures and lexical documents replace those
+ * with the same id or are dropped when the delta removed it, feedback
+ * replaces the verdict on the same pair and duplicate links are replaced
+ * when the delta has them. The ANN graphs stay as in the base; PRs added
+ * since are inserted on import, removed ones are skipped.
+ */
+export function applyDelta(base: DetectorState, delta: DetectorState): DetectorState {
+    const changed = new Set([...delta.records.map(record => record.prId as number), ...(delta.removed ?? [])])
+    const replaceById = <T extends [number, ...unknown[]]>(entries: T[], updates: T[]): T[] =>
+        [...entries.filter(([id]) => !changed.has(id)), ...updates]
+    const lsh = base.lsh && delta.lsh && base.lsh.bands === delta.lsh.bands && base.lsh.rows === delta.lsh.rows
+        ? { ...base.lsh, signatures: replaceById(base.lsh.signatures, delta.lsh.signatures) }
+        : base.lsh ?? delta.lsh
+    const lexical = base.lexical && delta.lexical
+        ? { ...base.lexical, documents: replaceById(base.lexical.documents, delta.lexical.documents) }
+        : base.lexical ?? delta.lexical
+    const updated = new Set((delta.feedback ?? []).map(feedbackPair))
+    const feedback: FeedbackRecord[] = [...(base.feedback ?? []).filter(f => !updated.has(feedbackPair(f))), ...(delta.feedback ?? [])]
+
+    return {
+        ...base,
+        records: [...base.records.filter(record => !changed.has(record.prId)), ...delta.records],
+        bloom: delta.bloom || base.bloom,
+        ...(lsh ? { lsh } : {}),
+        ...(lexical ? { lexical } : {}),
+        feedback,
+        ...(delta.graph ?? base.graph ? { graph: delta.graph ?? base.graph! } : {}),
+        ...(delta.embedder ?? base.embedder ? { embedder: delta.embedder ?? base.embedder! } : {})
+    }
+}
+
+function decodePayload(payload: Buffer): DetectorState {
+    const jsonLength = payload.readUInt32LE(0)
+    const header = JSON.parse(payload.toString('utf-8', 4, 4 + jsonLength)) as DetectorState
+    const floatStart = Math.ceil((4 + jsonLength) / 4) * 4
+    // Copy so the block is 4-byte aligned whatever the buffer's offset
+    const block = new Float32Array(payload.buffer.slice(payload.byteOffset + floatStart, payload.byteOffset + payload.length))
+    const vector = ([offset, length]: VectorRef): Float32Array => block.subarray(offset, offset + length)
+
+    return {
+        ...header,
+        records: header.records.map(record => ({
+            ...record,
+            textEmbedding: vector(record.textEmbedding),
+            diffEmbedding: vector(record.diffEmbedding),
+            ...(record.hunkEmbeddings
+                ? { hunkEmbeddings: record.hunkEmbeddings.map((h: { vector: VectorRef }) => ({ ...h, vector: vector(h.vector) })) }
+                : {})
+        }))
+    }
+}
+
+/**
+ * Record fields other than vectors; vectors only change with the content
+ * hash and revision, which are among them
+ */
+function recordFingerprint(record: DetectorState['records'][number]): string {
+    const { textEmbedding, diffEmbedding, hunkEmbeddings, ...fields } = record
+    return JSON.stringify(fields)
+}
+
+function feedbackPair(feedback: FeedbackRecord): string {
+    return feedback.prA < feedback.prB ? `${feedback.prA}:${feedback.prB}` : `${feedback.prB}:${feedback.prA}`
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { FileStorage } from './file.js'
 import { PRSenseDetector } from '../prsense.js'
+import { decodeFrames } from '../snapshot.js'
 import * as fs from 'fs/promises'
+import * as os from 'os'
 import * as path from 'path'
 
 // Mock embedder
@@ -59,3 +61,91 @@ describe('FileStorage', () => {
         expect(detector.getStats().totalPRs).toBe(0)
     })
 })
+
+describe('FileStorage binary snapshots', () => {
+    const testFile = path.join(os.tmpdir(), `prsense-file-test-${process.pid}.bin`)
+    const pr = (prId: number) => ({ prId, title: `PR ${prId}`, description: 'Description', files: [`src/${prId}.ts`] })
+
+    afterEach(async () => {
+        await fs.rm(testFile, { force: true })
+    })
+
+    it('should append deltas instead of rewriting the file', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await detector.check(pr(1))
+        const storage = new FileStorage(testFile)
+        await storage.save(detector)
+        const full = await fs.readFile(testFile)
+
+        await detector.check(pr(2))
+        await storage.save(detector)
+        await storage.save(detector) // nothing changed: no frame
+        const appended = await fs.readFile(testFile)
+        expect(appended.subarray(0, full.length).equals(full)).toBe(true)
+        expect(decodeFrames(appended).map(f => f.kind)).toEqual(['full', 'delta'])
+
+        // A second instance resumes appending after loading
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder })
+        const other = new FileStorage(testFile)
+        await other.load(reloaded)
+        expect(reloaded.getStats().totalPRs).toBe(2)
+        await reloaded.check(pr(3))
+        await other.save(reloaded)
+        expect(decodeFrames(await fs.readFile(testFile))).toHaveLength(3)
+    })
+
+    it('should carry removed PRs and changed verdicts through a delta', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        for (let i = 1; i <= 3; i++) await detector.check(pr(i))
+        await detector.recordFeedback({ prA: 1, prB: 2, verdict: 'not-duplicate' })
+        const storage = new FileStorage(testFile)
+        await storage.save(detector)
+
+        expect(await detector.removePR(3)).toBe(true)
+        await detector.recordFeedback({ prA: 1, prB: 2, verdict: 'duplicate' })
+        await storage.save(detector)
+        const frames = decodeFrames(await fs.readFile(testFile))
+        expect(frames.map(f => f.kind)).toEqual(['full', 'delta'])
+        expect(frames[1]!.state.removed).toEqual([3])
+
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder })
+        await new FileStorage(testFile).load(reloaded)
+        expect(reloaded.getStats().totalPRs).toBe(2)
+        expect(reloaded.getState(3)).toBeUndefined()
+        expect(reloaded.getFeedback(1, 2)?.verdict).toBe('duplicate')
+        expect(reloaded.getStats().feedbackVerdicts).toBe(1)
+    })
+
+    it('should compact after compactAfter deltas', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        const storage = new FileStorage(testFile, { compactAfter: 2, compactRatio: 100 })
+        // full, delta, delta, full (compacted), delta
+        for (let i = 1; i <= 5; i++) {
+            await detector.check(pr(i))
+            await storage.save(detector)
+        }
+        expect(decodeFrames(await fs.readFile(testFile)).map(f => f.kind)).toEqual(['full', 'delta'])
+
+        await storage.compact(detector)
+        const frames = decodeFrames(await fs.readFile(testFile))
+        expect(frames).toHaveLength(1)
+        expect(frames[0]!.state.records).toHaveLength(5)
+    })
+
+    it('should load JSON files and replace them on the next save', async () => {
+        const detector = new PRSenseDetector({ embedder: mockEmbedder })
+        await detector.check(pr(1))
+        await new FileStorage(testFile, { format: 'json' }).save(detector)
+        const json = await fs.readFile(testFile, 'utf-8')
+        expect(JSON.parse(json).records).toHaveLength(1)
+
+        const storage = new FileStorage(testFile)
+        const reloaded = new PRSenseDetector({ embedder: mockEmbedder })
+        await storage.load(reloaded)
+        expect(reloaded.getStats().totalPRs).toBe(1)
+        await storage.save(reloaded)
+        const binary = await fs.readFile(testFile)
+        expect(binary.subarray(0, 4).toString('latin1')).toBe('PRSS')
+        expect(binary.length).toBeLessThan(json.length / 4)
+    })
+})
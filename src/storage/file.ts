@@ -1,39 +1,93 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { PRSenseDetector } from '../prsense.js'
+import type { DetectorState } from '../prsense.js'
+import { encodeSnapshotHeader, encodeFrame, decodeFrames, decodeSnapshot, mergeFrames, diffState, isBinarySnapshot } from '../snapshot.js'
+import { ConfigurationError } from '../errors.js'
+
+export interface FileStorageOptions {
+    /**
+     * 'binary' (default) stores raw Float32 vectors and appends changes as
+     * deltas; 'json' rewrites the file as exportState() JSON on every save
+     */
+    format?: 'binary' | 'json'
+    /** Gzip binary frames (default: true) */
+    compress?: boolean
+    /** Compact once the file holds this many deltas (default: 20) */
+    compactAfter?: number
+    /** ...or once the deltas take more bytes than this fraction of the full frame (default: 1) */
+    compactRatio?: number
+}
 
 /**
  * File-based storage for PRSense state
+ *
+ * Either format loads; a JSON file is replaced by a binary snapshot on
+ * the first save in binary format.
  */
 export class FileStorage {
     private filePath: string
+    private format: 'binary' | 'json'
+    private compress: boolean
+    private compactAfter: number
+    private compactRatio: number
+    /** State the file holds (without vectors), once loaded or saved by this instance */
+    private written: { state: DetectorState; fullBytes: number; deltaBytes: number; deltas: number } | null = null
 
-    constructor(filePath: string) {
+    constructor(filePath: string, options: FileStorageOptions = {}) {
         this.filePath = filePath
+        this.format = options.format ?? 'binary'
+        this.compress = options.compress ?? true
+        this.compactAfter = options.compactAfter ?? 20
+        this.compactRatio = options.compactRatio ?? 1
+
+        if (!Number.isInteger(this.compactAfter) || this.compactAfter < 0) {
+            throw new ConfigurationError('compactAfter must be a non-negative integer')
+        }
+        if (!(this.compactRatio > 0)) {
+            throw new ConfigurationError('compactRatio must be a positive number')
+        }
     }
 
     /**
-     * Save detector state to file
+     * Save detector state to file. In binary format, PRs changed since the
+     * last load or save are appended as a delta; the file is rewritten when
+     * this instance has not read it yet or when it is due for compaction.
      */
     async save(detector: PRSenseDetector): Promise<void> {
-        const state = detector.exportState()
-        const json = JSON.stringify(state, null, 2)
+        const state = await detector.exportAllState()
+        if (this.format === 'json') {
+            await this.write(Buffer.from(JSON.stringify(state, null, 2), 'utf-8'))
+            return
+        }
 
-        // Ensure directory exists
-        const dir = path.dirname(this.filePath)
-        await fs.mkdir(dir, { recursive: true })
+        const written = this.written
+        if (!written || written.deltas >= this.compactAfter || written.deltaBytes > written.fullBytes * this.compactRatio) {
+            await this.writeFull(state)
+            return
+        }
 
-        await fs.writeFile(this.filePath, json, 'utf-8')
+        const delta = diffState(written.state, state)
+        if (!delta) return
+        const frame = encodeFrame('delta', delta, this.compress)
+        await fs.appendFile(this.filePath, frame)
+        this.written = { ...written, state: withoutVectors(state), deltaBytes: written.deltaBytes + frame.length, deltas: written.deltas + 1 }
+    }
+
+    /**
+     * Rewrite the file as a single full frame
+     */
+    async compact(detector: PRSenseDetector): Promise<void> {
+        await this.writeFull(await detector.exportAllState())
     }
 
     /**
      * Load detector state from file
      */
     async load(detector: PRSenseDetector): Promise<void> {
+        let content: Buffer
         try {
-            const content = await fs.readFile(this.filePath, 'utf-8')
-            const state = JSON.parse(content)
-            detector.importState(state)
+            content = await fs.readFile(this.filePath)
         } catch (error) {
             // If file doesn't exist, start fresh
             if ((error as any).code === 'ENOENT') {
@@ -41,5 +95,53 @@ export class FileStorage {
             }
             throw error
         }
+
+        if (!isBinarySnapshot(content)) {
+            detector.importState(decodeSnapshot(content))
+            // Deltas cannot be appended to JSON; the next binary save rewrites it
+            this.written = null
+            return
+        }
+
+        const [full, ...deltas] = decodeFrames(content)
+        detector.importState(mergeFrames([full!, ...deltas]))
+        this.written = {
+            // Re-exported, so records compare equal to the next save's export
+            state: withoutVectors(await detector.exportAllState()),
+            fullBytes: full!.bytes,
+            deltaBytes: deltas.reduce((sum, delta) => sum + delta.bytes, 0),
+            deltas: deltas.length
+        }
+    }
+
+    private async writeFull(state: DetectorState): Promise<void> {
+        const frame = encodeFrame('full', state, this.compress)
+        await this.write(Buffer.concat([encodeSnapshotHeader(), frame]))
+        this.written = { state: withoutVectors(state), fullBytes: frame.length, deltaBytes: 0, deltas: 0 }
+    }
+
+    /**
+     * Replace the file atomically, so an interrupted save keeps the old one
+     */
+    private async write(content: Buffer): Promise<void> {
+        // Ensure directory exists
+        const dir = path.dirname(this.filePath)
+        await fs.mkdir(dir, { recursive: true })
+
+        const temp = `${this.filePath}.${process.pid}.tmp`
+        await fs.writeFile(temp, content)
+        await fs.rename(temp, this.filePath)
+    }
+}
+
+/**
+ * What diffState compares against a later export
+ */
+function withoutVectors(state: DetectorState): DetectorState {
+    return {
+        records: state.records.map(({ textEmbedding, diffEmbedding, hunkEmbeddings, ...fields }) => fields),
+        bloom: state.bloom,
+        ...(state.feedback ? { feedback: state.feedback } : {}),
+        ...(state.graph ? { graph: state.graph } : {})
     }
 }
@@ -3,13 +3,72 @@
  */
 
 export interface PRRecord {
+    /** Detector id (unique per storage) */
     prId: number
+    /** Provider, repository and number; rows stored before keys existed read back without one */
+    key?: import('../prKey.js').PRKey
     title: string
     description: string
     files: string[]
     textEmbedding: Float32Array
     diffEmbedding: Float32Array
     createdAt: number
+    /** MinHash signature over diff shingles and file paths (LSH pre-filter) */
+    minhash?: Uint32Array
+    /** sha1 over title, description and diff (exact-duplicate lookup) */
+    contentHash?: string
+    /** Per-hunk diff vectors (multi-vector diff scoring) */
+    hunkEmbeddings?: import('../diffHunks.js').HunkEmbedding[]
+    /** Lifecycle state (absent: open) */
+    state?: import('../types.js').PRState
+    mergedAt?: number
+    closedAt?: number
+    updatedAt?: number
+    /** Content revision, bumped on every push that changes the PR */
+    revision?: number
+    /** Model that produced the vectors; absent on rows stored before stamps existed */
+    embedder?: import('../embeddingPipeline.js').EmbeddingStamp
+    /** Normalized diff the vectors were computed from, kept so they can be re-embedded */
+    diff?: string
+    /** Login of the PR author */
+    author?: string
+}
+
+/**
+ * Vectors computed by another embedder, staged next to a PR's live ones
+ * until a re-embed is promoted
+ */
+export interface StagedEmbeddings {
+    prId: number
+    embedder: import('../embeddingPipeline.js').EmbeddingStamp
+    /** Content hash of the row the vectors were computed from; promotion skips rows that changed since */
+    contentHash?: string
+    textEmbedding: Float32Array
+    diffEmbedding: Float32Array
+    hunkEmbeddings?: import('../diffHunks.js').HunkEmbedding[]
+    createdAt: number
+}
+
+/**
+ * Embeddings of one pushed revision of a PR
+ */
+export interface PRRevisionRecord {
+    prId: number
+    revision: number
+    contentHash?: string
+    textEmbedding: Float32Array
+    diffEmbedding: Float32Array
+    createdAt: number
+}
+
+/**
+ * Lifecycle change applied by updateState
+ */
+export interface PRStateUpdate {
+    state: import('../types.js').PRState
+    updatedAt: number
+    mergedAt?: number
+    closedAt?: number
 }
 
 export interface CheckResult {
@@ -47,40 +106,128 @@ export interface StorageBackend {
      */
     getAnalytics(): Promise<AnalyticsData>
 
+    /**
+     * Get the saved check results of the given PRs, oldest first
+     */
+    getCheckResults?(prIds: number[]): Promise<CheckResult[]>
+
     /**
      * Save an architectural decision extracted from PR comments (EDM)
      */
-    saveDecision?(decision: import('../edm/comments.js').ArchitecturalDecision): Promise<void>
+    saveDecision?(decision: import('../edm/comments.js').ArchitecturalDecision & { embedding?: Float32Array; embedder?: import('../embeddingPipeline.js').EmbeddingStamp }): Promise<void>
+
+    /**
+     * Search architectural decisions (only those stamped with `embedder`, when given)
+     */
+    searchDecisions?(queryEmbedding: Float32Array, limit: number, embedder?: import('../embeddingPipeline.js').EmbeddingStamp): Promise<import('../edm/comments.js').ArchitecturalDecision[]>
+
+    /**
+     * Append a maintainer verdict on a PR pair
+     */
+    saveFeedback?(feedback: import('../feedback.js').FeedbackRecord): Promise<void>
+
+    /**
+     * Get all stored verdicts, oldest first
+     */
+    getFeedback?(): Promise<import('../feedback.js').FeedbackRecord[]>
+
+    /**
+     * Set the PR a PR duplicates, or remove its link with null
+     */
+    saveDuplicateLink?(prId: number, originalPrId: number | null): Promise<void>
+
+    /**
+     * Get every stored duplicate link
+     */
+    getDuplicateLinks?(): Promise<Array<{ prId: number; originalPrId: number }>>
+
+    /**
+     * Run fn holding a named lock shared by every process using this store,
+     * e.g. server replicas on one database
+     */
+    withLock?<T>(name: string, fn: () => Promise<T>): Promise<T>
+
+    /**
+     * Reserve a PR id no process using this store has been given, above
+     * every stored id. With withLock, the detector takes ids for new keys
+     * from here so replicas never give one id to two PRs.
+     */
+    nextPrId?(): Promise<number>
+
+    /**
+     * Record a PR's lifecycle state (open, closed, merged)
+     */
+    updateState?(prId: number, update: PRStateUpdate): Promise<void>
+
+    /**
+     * Append the embeddings of a pushed revision
+     */
+    saveRevision?(revision: PRRevisionRecord): Promise<void>
+
+    /**
+     * Get a PR's stored revisions, oldest first
+     */
+    getRevisions?(prId: number): Promise<PRRevisionRecord[]>
+
+    /**
+     * Stage vectors from another embedder; the PR's live vectors are untouched
+     */
+    saveStagedEmbeddings?(staged: StagedEmbeddings): Promise<void>
 
     /**
-     * Search architectural decisions
+     * PRs with vectors staged for an embedder, and the content hash each was computed from
      */
-    searchDecisions?(queryEmbedding: Float32Array, limit: number): Promise<import('../edm/comments.js').ArchitecturalDecision[]>
+    listStagedEmbeddings?(embedder: import('../embeddingPipeline.js').EmbeddingStamp): Promise<Array<{ prId: number; contentHash?: string }>>
+
+    /**
+     * Replace live vectors with those staged for an embedder, skipping PRs
+     * whose content changed after staging, then clear that stage. Returns
+     * the number of PRs promoted.
+     */
+    promoteStagedEmbeddings?(embedder: import('../embeddingPipeline.js').EmbeddingStamp): Promise<number>
+
+    /**
+     * Up to `limit` PRs whose live vectors are not from an embedder, by
+     * ascending id after `afterPrId`, so a re-embed can page through them
+     */
+    listPRsOnOtherEmbedder?(embedder: import('../embeddingPipeline.js').EmbeddingStamp, afterPrId: number, limit: number): Promise<PRRecord[]>
+
+    /**
+     * Number of PRs whose live vectors are not from an embedder
+     */
+    countPRsOnOtherEmbedder?(embedder: import('../embeddingPipeline.js').EmbeddingStamp): Promise<number>
 
     /**
      * Save a codebase text chunk (for RAG)
      */
-    saveChunk?(chunk: import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array }): Promise<void>
+    saveChunk?(chunk: import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array; embedder?: import('../embeddingPipeline.js').EmbeddingStamp }): Promise<void>
 
     /**
-     * Search codebase chunks (for RAG)
+     * Search codebase chunks (for RAG; only those stamped with `embedder`, when given)
      */
-    searchChunks?(queryEmbedding: Float32Array, limit: number): Promise<Array<import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array, score: number }>>
+    searchChunks?(queryEmbedding: Float32Array, limit: number, embedder?: import('../embeddingPipeline.js').EmbeddingStamp): Promise<Array<import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array, score: number }>>
 
     /**
      * Get a PR by ID
      */
     get(prId: number): Promise<PRRecord | null>
 
+    /**
+     * Get a PR by provider, repository and number
+     */
+    getByKey?(key: import('../prKey.js').PRKey): Promise<PRRecord | null>
+
     /**
      * Get all PRs (for search)
      */
     getAll(): Promise<PRRecord[]>
 
     /**
-     * Search for similar PRs (basic implementation)
+     * Search for similar PRs (basic implementation). Backends that can
+     * evaluate `filter` return only matching PRs; others may ignore it, and
+     * the detector filters their hits again.
      */
-    search(embedding: Float32Array, limit: number): Promise<Array<{ prId: number; score: number }>>
+    search(embedding: Float32Array, limit: number, filter?: import('../searchQuery.js').SearchFilter): Promise<Array<{ prId: number; score: number }>>
 
     /**
      * Delete a PR
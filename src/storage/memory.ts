@@ -3,21 +3,125 @@
  * Used primarily for GitHub Actions where state is ephemeral
  */
 
-import type { StorageBackend, PRRecord, CheckResult, AnalyticsData } from './interface.js'
-import { cosine } from '../similarity.js'
+import type { StorageBackend, PRRecord, PRRevisionRecord, PRStateUpdate, StagedEmbeddings, CheckResult, AnalyticsData } from './interface.js'
+import type { FeedbackRecord } from '../feedback.js'
+import { createVectorIndex } from '../vectorIndex.js'
+import { formatPRKey, legacyPRKey } from '../prKey.js'
+import type { PRKey } from '../prKey.js'
+import { formatEmbedder, sameEmbedder } from '../embeddingPipeline.js'
+import type { EmbeddingStamp } from '../embeddingPipeline.js'
+import type { VectorIndex, VectorIndexConfig } from '../vectorIndex.js'
+
+export interface InMemoryStorageOptions {
+    /** ANN index used by search() (default: HNSW) */
+    vectorIndex?: VectorIndexConfig
+}
 
 export class InMemoryStorage implements StorageBackend {
     private records: Map<number, PRRecord> = new Map()
     private checks: CheckResult[] = []
+    private feedback: FeedbackRecord[] = []
+    private duplicateLinks: Map<number, number> = new Map()
+    private revisions: Map<number, PRRevisionRecord[]> = new Map()
+    /** Staged vectors by embedder, then PR id */
+    private staged: Map<string, Map<number, StagedEmbeddings>> = new Map()
+    private index: VectorIndex
+    /** Last id handed out by nextPrId() */
+    private lastPrId = 0
+
+    constructor(options: InMemoryStorageOptions = {}) {
+        this.index = createVectorIndex(options.vectorIndex)
+    }
 
     async save(record: PRRecord): Promise<void> {
         this.records.set(record.prId, record)
+        this.index.add(record.prId, record.textEmbedding)
     }
 
     async saveCheck(result: CheckResult): Promise<void> {
         this.checks.push(result)
     }
 
+    async saveFeedback(feedback: FeedbackRecord): Promise<void> {
+        this.feedback.push(feedback)
+    }
+
+    async getFeedback(): Promise<FeedbackRecord[]> {
+        return [...this.feedback].sort((a, b) => a.timestamp - b.timestamp)
+    }
+
+    async saveDuplicateLink(prId: number, originalPrId: number | null): Promise<void> {
+        if (originalPrId === null) this.duplicateLinks.delete(prId)
+        else this.duplicateLinks.set(prId, originalPrId)
+    }
+
+    async getDuplicateLinks(): Promise<Array<{ prId: number; originalPrId: number }>> {
+        return Array.from(this.duplicateLinks, ([prId, originalPrId]) => ({ prId, originalPrId }))
+    }
+
+    async updateState(prId: number, update: PRStateUpdate): Promise<void> {
+        const record = this.records.get(prId)
+        if (!record) return
+        const { mergedAt, closedAt, ...rest } = record
+        this.records.set(prId, {
+            ...rest,
+            ...update
+        })
+    }
+
+    async saveRevision(revision: PRRevisionRecord): Promise<void> {
+        const revisions = (this.revisions.get(revision.prId) ?? []).filter(r => r.revision !== revision.revision)
+        revisions.push(revision)
+        this.revisions.set(revision.prId, revisions.sort((a, b) => a.revision - b.revision))
+    }
+
+    async getRevisions(prId: number): Promise<PRRevisionRecord[]> {
+        return [...(this.revisions.get(prId) ?? [])]
+    }
+
+    async saveStagedEmbeddings(staged: StagedEmbeddings): Promise<void> {
+        const stage = formatEmbedder(staged.embedder)
+        const entries = this.staged.get(stage) ?? new Map<number, StagedEmbeddings>()
+        entries.set(staged.prId, staged)
+        this.staged.set(stage, entries)
+    }
+
+    async listStagedEmbeddings(embedder: EmbeddingStamp): Promise<Array<{ prId: number; contentHash?: string }>> {
+        return [...(this.staged.get(formatEmbedder(embedder))?.values() ?? [])]
+            .map(s => ({ prId: s.prId, ...(s.contentHash !== undefined ? { contentHash: s.contentHash } : {}) }))
+    }
+
+    async promoteStagedEmbeddings(embedder: EmbeddingStamp): Promise<number> {
+        const stage = formatEmbedder(embedder)
+        let promoted = 0
+        for (const staged of this.staged.get(stage)?.values() ?? []) {
+            const record = this.records.get(staged.prId)
+            if (!record || record.contentHash !== staged.contentHash) continue
+            const { hunkEmbeddings, ...rest } = record
+            await this.save({
+                ...rest,
+                textEmbedding: staged.textEmbedding,
+                diffEmbedding: staged.diffEmbedding,
+                ...(staged.hunkEmbeddings ? { hunkEmbeddings: staged.hunkEmbeddings } : {}),
+                embedder: staged.embedder
+            })
+            promoted++
+        }
+        this.staged.delete(stage)
+        return promoted
+    }
+
+    async listPRsOnOtherEmbedder(embedder: EmbeddingStamp, afterPrId: number, limit: number): Promise<PRRecord[]> {
+        return [...this.records.values()]
+            .filter(record => record.prId > afterPrId && !(record.embedder && sameEmbedder(record.embedder, embedder)))
+            .sort((a, b) => a.prId - b.prId)
+            .slice(0, limit)
+    }
+
+    async countPRsOnOtherEmbedder(embedder: EmbeddingStamp): Promise<number> {
+        return [...this.records.values()].filter(record => !(record.embedder && sameEmbedder(record.embedder, embedder))).length
+    }
+
     async getAnalytics(): Promise<AnalyticsData> {
         const totalPRs = this.checks.length
         const duplicatesFound = this.checks.filter(c => c.resultType === 'DUPLICATE').length
@@ -36,43 +140,55 @@ export class InMemoryStorage implements StorageBackend {
         }
     }
 
+    async getCheckResults(prIds: number[]): Promise<CheckResult[]> {
+        const wanted = new Set(prIds)
+        return this.checks.filter(check => wanted.has(check.prId)).sort((a, b) => a.timestamp - b.timestamp)
+    }
+
     async get(prId: number): Promise<PRRecord | null> {
         return this.records.get(prId) || null
     }
 
+    async getByKey(key: PRKey): Promise<PRRecord | null> {
+        const canonical = formatPRKey(key)
+        for (const record of this.records.values()) {
+            if (formatPRKey(record.key ?? legacyPRKey(record.prId)) === canonical) return record
+        }
+        return null
+    }
+
+    async nextPrId(): Promise<number> {
+        for (const prId of this.records.keys()) this.lastPrId = Math.max(this.lastPrId, prId)
+        return ++this.lastPrId
+    }
+
     async getAll(): Promise<PRRecord[]> {
         return Array.from(this.records.values())
     }
 
     async search(embedding: Float32Array, limit: number): Promise<Array<{ prId: number; score: number }>> {
-        const scores: Array<{ prId: number; score: number }> = []
-
-        for (const record of this.records.values()) {
-            // The original code used 'cosine', the instruction's diff changed it to 'this.cosineSimilarity'.
-            // To maintain syntactic correctness and faithfulness to the provided diff,
-            // assuming 'cosine' from '../similarity.js' is intended to be used,
-            // or 'this.cosineSimilarity' would be defined elsewhere.
-            // For now, I'll use 'cosine' as it's imported and syntactically valid.
-            // If 'this.cosineSimilarity' was intended, it would need to be defined in the class.
-            const score = cosine(embedding, record.textEmbedding)
-            scores.push({ prId: record.prId, score })
-        }
-
-        return scores
-            .sort((a, b) => b.score - a.score)
-            .slice(0, limit)
+        return this.index.search(embedding, limit)
+            .map(hit => ({ prId: hit.id, score: hit.score }))
     }
 
     async delete(prId: number): Promise<void> {
         this.records.delete(prId)
+        this.revisions.delete(prId)
+        for (const entries of this.staged.values()) entries.delete(prId)
+        this.index.remove(prId)
     }
 
     async close(): Promise<void> {
         this.records.clear()
         this.checks = []
+        this.feedback = []
+        this.duplicateLinks.clear()
+        this.revisions.clear()
+        this.staged.clear()
+        this.index.clear()
     }
 }
 
-export function createInMemoryStorage(): StorageBackend {
-    return new InMemoryStorage()
+export function createInMemoryStorage(options?: InMemoryStorageOptions): StorageBackend {
+    return new InMemoryStorage(options)
 }
@@ -7,8 +7,16 @@
  * 3. CREATE EXTENSION vector;
  */
 
-import type { StorageBackend, PRRecord, CheckResult, AnalyticsData } from './interface.js'
+import type { StorageBackend, PRRecord, PRRevisionRecord, PRStateUpdate, StagedEmbeddings, CheckResult, AnalyticsData } from './interface.js'
+import type { FeedbackRecord } from '../feedback.js'
 import { StorageError } from '../errors.js'
+import { packHunkVectors, unpackHunkVectors, hunkLocations } from '../diffHunks.js'
+import type { HunkLocation } from '../diffHunks.js'
+import { LOCAL_PROVIDER, legacyPRKey, normalizePRKey } from '../prKey.js'
+import type { PRKey } from '../prKey.js'
+import type { EmbeddingStamp } from '../embeddingPipeline.js'
+import { globToPattern } from '../searchQuery.js'
+import type { SearchFilter } from '../searchQuery.js'
 
 export interface PostgresConfig {
     connectionString?: string
@@ -17,13 +25,26 @@ export interface PostgresConfig {
     database?: string
     user?: string
     password?: string
+    /** How long withLock() waits for a lock held elsewhere (default: 30000 ms) */
+    lockTimeoutMs?: number
 }
 
 interface Pool {
-    query(text: string, params?: unknown[]): Promise<{ rows: unknown[] }>
+    query(text: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount?: number | null }>
+    connect(): Promise<PoolClient>
     end(): Promise<void>
 }
 
+interface PoolClient {
+    query(text: string, params?: unknown[]): Promise<{ rows: unknown[]; rowCount?: number | null }>
+    /** true closes the connection instead of returning it to the pool */
+    release(destroy?: boolean): void
+}
+
+/** Wait between attempts to take a held advisory lock */
+const LOCK_RETRY_MS = 25
+const LOCK_TIMEOUT_MS = 30_000
+
 interface PoolConstructor {
     new(config: { connectionString?: string; host?: string; port?: number; database?: string; user?: string; password?: string }): Pool
 }
@@ -81,7 +102,84 @@ export class PostgresStorage implements StorageBackend {
                         files JSONB,
                         text_embedding vector(512),
                         diff_embedding vector(512),
-                        created_at BIGINT
+                        created_at BIGINT,
+                        minhash BYTEA,
+                        content_hash TEXT,
+                        hunk_files JSONB,
+                        hunk_embeddings BYTEA,
+                        state TEXT,
+                        merged_at BIGINT,
+                        closed_at BIGINT,
+                        updated_at BIGINT,
+                        revision INTEGER,
+                        provider TEXT,
+                        repo TEXT,
+                        pr_number TEXT,
+                        embedder_id TEXT,
+                        embedder_version TEXT,
+                        embedding_dimension INTEGER,
+                        diff TEXT,
+                        author TEXT
+                    )
+                `)
+
+                // Migrate tables created before these columns existed
+                await this.pool.query(`
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS minhash BYTEA;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS content_hash TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS hunk_files JSONB;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS hunk_embeddings BYTEA;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS state TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS merged_at BIGINT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS closed_at BIGINT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS updated_at BIGINT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS revision INTEGER;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS provider TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS repo TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS pr_number TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS embedder_id TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS embedder_version TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS diff TEXT;
+                    ALTER TABLE prs ADD COLUMN IF NOT EXISTS author TEXT;
+                `)
+
+                // PR ids handed out by nextPrId()
+                await this.pool.query('CREATE SEQUENCE IF NOT EXISTS pr_id_seq')
+
+                // Rows stored before PR keys existed keep their id as a local key
+                await this.pool.query(`
+                    UPDATE prs SET provider = $1, repo = '', pr_number = pr_id::text WHERE provider IS NULL
+                `, [LOCAL_PROVIDER])
+
+                // Embeddings of every pushed revision (history only, never searched,
+                // so plain BYTEA rather than pgvector columns)
+                await this.pool.query(`
+                    CREATE TABLE IF NOT EXISTS pr_revisions (
+                        pr_id INTEGER NOT NULL,
+                        revision INTEGER NOT NULL,
+                        content_hash TEXT,
+                        text_embedding BYTEA,
+                        diff_embedding BYTEA,
+                        created_at BIGINT,
+                        PRIMARY KEY (pr_id, revision)
+                    )
+                `)
+
+                // Vectors from another embedder, waiting for a re-embed to be promoted
+                await this.pool.query(`
+                    CREATE TABLE IF NOT EXISTS pr_staged_embeddings (
+                        pr_id INTEGER NOT NULL,
+                        embedder_id TEXT NOT NULL,
+                        embedder_version TEXT NOT NULL,
+                        embedding_dimension INTEGER NOT NULL,
+                        content_hash TEXT,
+                        text_embedding BYTEA,
+                        diff_embedding BYTEA,
+                        hunk_files JSONB,
+                        hunk_embeddings BYTEA,
+                        created_at BIGINT,
+                        PRIMARY KEY (pr_id, embedder_id, embedder_version, embedding_dimension)
                     )
                 `)
 
@@ -97,6 +195,26 @@ export class PostgresStorage implements StorageBackend {
                     )
                 `)
 
+                // Maintainer verdicts on flagged pairs (append-only, latest wins)
+                await this.pool.query(`
+                    CREATE TABLE IF NOT EXISTS feedback (
+                        id SERIAL PRIMARY KEY,
+                        pr_a INTEGER NOT NULL,
+                        pr_b INTEGER NOT NULL,
+                        verdict TEXT NOT NULL,
+                        actor TEXT,
+                        timestamp BIGINT
+                    )
+                `)
+
+                // Duplicate lineage: the PR each duplicate was linked to
+                await this.pool.query(`
+                    CREATE TABLE IF NOT EXISTS duplicate_links (
+                        pr_id INTEGER PRIMARY KEY,
+                        original_pr_id INTEGER NOT NULL
+                    )
+                `)
+
                 // Create decisions table for EDM
                 await this.pool.query(`
                     CREATE TABLE IF NOT EXISTS architectural_decisions (
@@ -126,6 +244,16 @@ export class PostgresStorage implements StorageBackend {
                     )
                 `)
 
+                // Model behind each decision and chunk vector
+                await this.pool.query(`
+                    ALTER TABLE architectural_decisions ADD COLUMN IF NOT EXISTS embedder_id TEXT;
+                    ALTER TABLE architectural_decisions ADD COLUMN IF NOT EXISTS embedder_version TEXT;
+                    ALTER TABLE architectural_decisions ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+                    ALTER TABLE codebase_chunks ADD COLUMN IF NOT EXISTS embedder_id TEXT;
+                    ALTER TABLE codebase_chunks ADD COLUMN IF NOT EXISTS embedder_version TEXT;
+                    ALTER TABLE codebase_chunks ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+                `)
+
                 // Create vector index for fast similarity search (only if pgvector is available)
                 try {
                     await this.pool.query(`
@@ -148,6 +276,10 @@ export class PostgresStorage implements StorageBackend {
                 await this.pool.query(`
                     CREATE INDEX IF NOT EXISTS idx_created_at 
                     ON prs(created_at DESC);
+                    CREATE INDEX IF NOT EXISTS idx_content_hash 
+                    ON prs(content_hash);
+                    CREATE UNIQUE INDEX IF NOT EXISTS idx_pr_key 
+                    ON prs(provider, repo, pr_number);
                     CREATE INDEX IF NOT EXISTS idx_check_timestamp 
                     ON check_results(timestamp DESC);
                     CREATE INDEX IF NOT EXISTS idx_decision_created_at 
@@ -179,18 +311,39 @@ export class PostgresStorage implements StorageBackend {
             throw new StorageError('Failed to initialize database connection')
         }
 
+        const hunks = record.hunkEmbeddings ?? []
+        const key = normalizePRKey(record.key ?? legacyPRKey(record.prId))
         try {
             await this.pool.query(`
                 INSERT INTO prs 
-                (pr_id, title, description, files, text_embedding, diff_embedding, created_at)
-                VALUES ($1, $2, $3, $4, $5, $6, $7)
+                (pr_id, title, description, files, text_embedding, diff_embedding, created_at, minhash, content_hash, hunk_files, hunk_embeddings,
+                 state, merged_at, closed_at, updated_at, revision, provider, repo, pr_number,
+                 embedder_id, embedder_version, embedding_dimension, diff, author)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
                 ON CONFLICT (pr_id) DO UPDATE SET
                     title = EXCLUDED.title,
                     description = EXCLUDED.description,
                     files = EXCLUDED.files,
                     text_embedding = EXCLUDED.text_embedding,
                     diff_embedding = EXCLUDED.diff_embedding,
-                    created_at = EXCLUDED.created_at
+                    created_at = EXCLUDED.created_at,
+                    minhash = EXCLUDED.minhash,
+                    content_hash = EXCLUDED.content_hash,
+                    hunk_files = EXCLUDED.hunk_files,
+                    hunk_embeddings = EXCLUDED.hunk_embeddings,
+                    state = EXCLUDED.state,
+                    merged_at = EXCLUDED.merged_at,
+                    closed_at = EXCLUDED.closed_at,
+                    updated_at = EXCLUDED.updated_at,
+                    revision = EXCLUDED.revision,
+                    provider = EXCLUDED.provider,
+                    repo = EXCLUDED.repo,
+                    pr_number = EXCLUDED.pr_number,
+                    embedder_id = EXCLUDED.embedder_id,
+                    embedder_version = EXCLUDED.embedder_version,
+                    embedding_dimension = EXCLUDED.embedding_dimension,
+                    diff = EXCLUDED.diff,
+                    author = EXCLUDED.author
             `, [
                 record.prId,
                 record.title,
@@ -198,7 +351,26 @@ export class PostgresStorage implements StorageBackend {
                 JSON.stringify(record.files || []),
                 `[${Array.from(record.textEmbedding).join(',')}]`,
                 `[${Array.from(record.diffEmbedding).join(',')}]`,
-                record.createdAt || Date.now()
+                record.createdAt || Date.now(),
+                record.minhash
+                    ? Buffer.from(record.minhash.buffer, record.minhash.byteOffset, record.minhash.byteLength)
+                    : null,
+                record.contentHash ?? null,
+                hunks.length > 0 ? JSON.stringify(hunkLocations(hunks)) : null,
+                hunks.length > 0 ? Buffer.from(packHunkVectors(hunks).buffer) : null,
+                record.state ?? null,
+                record.mergedAt ?? null,
+                record.closedAt ?? null,
+                record.updatedAt ?? null,
+                record.revision ?? null,
+                key.provider,
+                key.repo,
+                String(key.number),
+                record.embedder?.id ?? null,
+                record.embedder?.version ?? null,
+                record.embedder?.dimension ?? null,
+                record.diff ?? null,
+                record.author ?? null
             ])
         } catch (error) {
             throw new StorageError(
@@ -231,6 +403,393 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
+    async updateState(prId: number, update: PRStateUpdate): Promise<void> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            await this.pool.query(`
+                UPDATE prs SET state = $1, merged_at = $2, closed_at = $3, updated_at = $4 WHERE pr_id = $5
+            `, [update.state, update.mergedAt ?? null, update.closedAt ?? null, update.updatedAt, prId])
+        } catch (error) {
+            throw new StorageError(
+                `Failed to update PR state: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async saveRevision(revision: PRRevisionRecord): Promise<void> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            await this.pool.query(`
+                INSERT INTO pr_revisions (pr_id, revision, content_hash, text_embedding, diff_embedding, created_at)
+                VALUES ($1, $2, $3, $4, $5, $6)
+                ON CONFLICT (pr_id, revision) DO UPDATE SET
+                    content_hash = EXCLUDED.content_hash,
+                    text_embedding = EXCLUDED.text_embedding,
+                    diff_embedding = EXCLUDED.diff_embedding,
+                    created_at = EXCLUDED.created_at
+            `, [
+                revision.prId,
+                revision.revision,
+                revision.contentHash ?? null,
+                Buffer.from(revision.textEmbedding.buffer, revision.textEmbedding.byteOffset, revision.textEmbedding.byteLength),
+                Buffer.from(revision.diffEmbedding.buffer, revision.diffEmbedding.byteOffset, revision.diffEmbedding.byteLength),
+                revision.createdAt
+            ])
+        } catch (error) {
+            throw new StorageError(
+                `Failed to save PR revision: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async getRevisions(prId: number): Promise<PRRevisionRecord[]> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query(
+                'SELECT * FROM pr_revisions WHERE pr_id = $1 ORDER BY revision ASC',
+                [prId]
+            )
+            return result.rows.map((row: any) => ({
+                prId: Number(row.pr_id),
+                revision: Number(row.revision),
+                ...(typeof row.content_hash === 'string' ? { contentHash: row.content_hash } : {}),
+                textEmbedding: new Float32Array(new Uint8Array(row.text_embedding).buffer),
+                diffEmbedding: new Float32Array(new Uint8Array(row.diff_embedding).buffer),
+                createdAt: Number(row.created_at)
+            }))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to get PR revisions: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async saveStagedEmbeddings(staged: StagedEmbeddings): Promise<void> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        const hunks = staged.hunkEmbeddings ?? []
+        try {
+            await this.pool.query(`
+                INSERT INTO pr_staged_embeddings
+                (pr_id, embedder_id, embedder_version, embedding_dimension, content_hash, text_embedding, diff_embedding, hunk_files, hunk_embeddings, created_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                ON CONFLICT (pr_id, embedder_id, embedder_version, embedding_dimension) DO UPDATE SET
+                    content_hash = EXCLUDED.content_hash,
+                    text_embedding = EXCLUDED.text_embedding,
+                    diff_embedding = EXCLUDED.diff_embedding,
+                    hunk_files = EXCLUDED.hunk_files,
+                    hunk_embeddings = EXCLUDED.hunk_embeddings,
+                    created_at = EXCLUDED.created_at
+            `, [
+                staged.prId,
+                staged.embedder.id,
+                staged.embedder.version,
+                staged.embedder.dimension,
+                staged.contentHash ?? null,
+                Buffer.from(staged.textEmbedding.buffer, staged.textEmbedding.byteOffset, staged.textEmbedding.byteLength),
+                Buffer.from(staged.diffEmbedding.buffer, staged.diffEmbedding.byteOffset, staged.diffEmbedding.byteLength),
+                hunks.length > 0 ? JSON.stringify(hunkLocations(hunks)) : null,
+                hunks.length > 0 ? Buffer.from(packHunkVectors(hunks).buffer) : null,
+                staged.createdAt
+            ])
+        } catch (error) {
+            throw new StorageError(
+                `Failed to stage embeddings: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async listStagedEmbeddings(embedder: EmbeddingStamp): Promise<Array<{ prId: number; contentHash?: string }>> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query(`
+                SELECT pr_id, content_hash FROM pr_staged_embeddings
+                WHERE embedder_id = $1 AND embedder_version = $2 AND embedding_dimension = $3
+            `, [embedder.id, embedder.version, embedder.dimension])
+            return result.rows.map((row: any) => ({
+                prId: Number(row.pr_id),
+                ...(typeof row.content_hash === 'string' ? { contentHash: row.content_hash } : {})
+            }))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to list staged embeddings: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async listPRsOnOtherEmbedder(embedder: EmbeddingStamp, afterPrId: number, limit: number): Promise<PRRecord[]> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            // An unrecorded dimension is not compared, as in sameEmbedder()
+            const result = await this.pool.query(`
+                SELECT * FROM prs
+                WHERE pr_id > $1 AND (embedder_id IS DISTINCT FROM $2 OR embedder_version IS DISTINCT FROM $3 OR embedding_dimension <> $4)
+                ORDER BY pr_id LIMIT $5
+            `, [afterPrId, embedder.id, embedder.version, embedder.dimension, limit])
+            return result.rows.map((row: unknown) => this.rowToRecord(row as Record<string, unknown>))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to list PRs to re-embed: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async countPRsOnOtherEmbedder(embedder: EmbeddingStamp): Promise<number> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query(`
+                SELECT COUNT(*) AS count FROM prs
+                WHERE embedder_id IS DISTINCT FROM $1 OR embedder_version IS DISTINCT FROM $2 OR embedding_dimension <> $3
+            `, [embedder.id, embedder.version, embedder.dimension])
+            return Number((result.rows[0] as { count?: unknown } | undefined)?.count ?? 0)
+        } catch (error) {
+            throw new StorageError(
+                `Failed to count PRs to re-embed: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async promoteStagedEmbeddings(embedder: EmbeddingStamp): Promise<number> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        const stage = [embedder.id, embedder.version, embedder.dimension]
+        const client = await this.pool.connect()
+        let pinned = false
+        let promoted = 0
+        try {
+            await client.query('BEGIN')
+
+            // The live columns are pinned to one dimension; unpin them while
+            // vectors of both models are stored (pgvector indexes need a
+            // pinned column, so the index goes too)
+            const column = await client.query(`
+                SELECT atttypmod FROM pg_attribute WHERE attrelid = 'prs'::regclass AND attname = 'text_embedding'
+            `)
+            const dimension = Number((column.rows[0] as { atttypmod?: unknown } | undefined)?.atttypmod ?? -1)
+            if (dimension !== embedder.dimension) {
+                await client.query(`
+                    DROP INDEX IF EXISTS idx_text_embedding;
+                    ALTER TABLE prs ALTER COLUMN text_embedding TYPE vector, ALTER COLUMN diff_embedding TYPE vector;
+                `)
+            }
+
+            const staged = await client.query(`
+                SELECT * FROM pr_staged_embeddings
+                WHERE embedder_id = $1 AND embedder_version = $2 AND embedding_dimension = $3
+            `, stage)
+            for (const row of staged.rows as any[]) {
+                const text = new Float32Array(new Uint8Array(row.text_embedding).buffer)
+                const diff = new Float32Array(new Uint8Array(row.diff_embedding).buffer)
+                // A row saved again after staging keeps its live vectors
+                const updated = await client.query(`
+                    UPDATE prs SET
+                        text_embedding = $1::vector,
+                        diff_embedding = $2::vector,
+                        hunk_files = $3,
+                        hunk_embeddings = $4,
+                        embedder_id = $5,
+                        embedder_version = $6,
+                        embedding_dimension = $7
+                    WHERE pr_id = $8 AND content_hash IS NOT DISTINCT FROM $9
+                `, [
+                    `[${Array.from(text).join(',')}]`,
+                    `[${Array.from(diff).join(',')}]`,
+                    row.hunk_files == null ? null : JSON.stringify(row.hunk_files),
+                    row.hunk_embeddings,
+                    ...stage,
+                    row.pr_id,
+                    row.content_hash
+                ])
+                promoted += updated.rowCount ?? 0
+            }
+            await client.query(`
+                DELETE FROM pr_staged_embeddings WHERE embedder_id = $1 AND embedder_version = $2 AND embedding_dimension = $3
+            `, stage)
+
+            // Pin the columns again once every row carries the new dimension
+            const remaining = await client.query(
+                'SELECT COUNT(*) AS count FROM prs WHERE vector_dims(text_embedding) <> $1',
+                [embedder.dimension]
+            )
+            if (dimension !== embedder.dimension && Number((remaining.rows[0] as { count?: unknown }).count) === 0) {
+                await client.query(`
+                    ALTER TABLE prs
+                        ALTER COLUMN text_embedding TYPE vector(${embedder.dimension}),
+                        ALTER COLUMN diff_embedding TYPE vector(${embedder.dimension})
+                `)
+                pinned = true
+            }
+
+            await client.query('COMMIT')
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => { })
+            throw new StorageError(
+                `Failed to promote staged embeddings: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        } finally {
+            client.release()
+        }
+
+        if (pinned) {
+            try {
+                await this.pool.query(`
+                    CREATE INDEX IF NOT EXISTS idx_text_embedding
+                    ON prs USING ivfflat (text_embedding vector_cosine_ops)
+                    WITH (lists = 100)
+                `)
+            } catch {
+                // Index creation may fail if pgvector not available - continue without index
+            }
+        }
+        return promoted
+    }
+
+    async saveFeedback(feedback: FeedbackRecord): Promise<void> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            await this.pool.query(`
+                INSERT INTO feedback (pr_a, pr_b, verdict, actor, timestamp)
+                VALUES ($1, $2, $3, $4, $5)
+            `, [feedback.prA, feedback.prB, feedback.verdict, feedback.actor, feedback.timestamp])
+        } catch (error) {
+            throw new StorageError(
+                `Failed to save feedback: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async getFeedback(): Promise<FeedbackRecord[]> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query('SELECT * FROM feedback ORDER BY timestamp ASC, id ASC')
+            return result.rows.map((row: any) => ({
+                prA: Number(row.pr_a),
+                prB: Number(row.pr_b),
+                verdict: row.verdict,
+                actor: String(row.actor || 'unknown'),
+                timestamp: Number(row.timestamp)
+            }))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to load feedback: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async saveDuplicateLink(prId: number, originalPrId: number | null): Promise<void> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            if (originalPrId === null) {
+                await this.pool.query('DELETE FROM duplicate_links WHERE pr_id = $1', [prId])
+            } else {
+                await this.pool.query(`
+                    INSERT INTO duplicate_links (pr_id, original_pr_id) VALUES ($1, $2)
+                    ON CONFLICT (pr_id) DO UPDATE SET original_pr_id = EXCLUDED.original_pr_id
+                `, [prId, originalPrId])
+            }
+        } catch (error) {
+            throw new StorageError(
+                `Failed to save duplicate link: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async getDuplicateLinks(): Promise<Array<{ prId: number; originalPrId: number }>> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query('SELECT pr_id, original_pr_id FROM duplicate_links ORDER BY pr_id')
+            return result.rows.map((row: any) => ({ prId: Number(row.pr_id), originalPrId: Number(row.original_pr_id) }))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to load duplicate links: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async getCheckResults(prIds: number[]): Promise<CheckResult[]> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        try {
+            const result = await this.pool.query(
+                'SELECT * FROM check_results WHERE pr_id = ANY($1::int[]) ORDER BY timestamp ASC, id ASC',
+                [prIds]
+            )
+            return result.rows.map((row: any) => ({
+                prId: Number(row.pr_id),
+                resultType: row.result_type,
+                ...(row.original_pr_id !== null ? { originalPrId: Number(row.original_pr_id) } : {}),
+                confidence: Number(row.confidence),
+                timestamp: Number(row.timestamp)
+            }))
+        } catch (error) {
+            throw new StorageError(
+                `Failed to load check results: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
     async getAnalytics(): Promise<AnalyticsData> {
         if (!this.pool) await this.init()
         if (!this.pool) {
@@ -312,6 +871,62 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
+    async getByKey(key: PRKey): Promise<PRRecord | null> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        const { provider, repo, number } = normalizePRKey(key)
+        try {
+            const result = await this.pool.query(
+                'SELECT * FROM prs WHERE provider = $1 AND repo = $2 AND pr_number = $3',
+                [provider, repo, String(number)]
+            )
+
+            if (result.rows.length === 0) return null
+
+            return this.rowToRecord(result.rows[0] as Record<string, unknown>)
+        } catch (error) {
+            throw new StorageError(
+                `Failed to get PR record: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+    }
+
+    async nextPrId(): Promise<number> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        // setval() would race with another process's nextPrId() between
+        // reading the sequence and raising it, so allocations take turns
+        const client = await this.pool.connect()
+        try {
+            await client.query('BEGIN')
+            await client.query(`SELECT pg_advisory_xact_lock(hashtext('prsense:pr_id_seq'))`)
+            // Ids stored without the sequence (e.g. before it existed) are skipped
+            const result = await client.query(`
+                SELECT setval('pr_id_seq', GREATEST(
+                    (SELECT CASE WHEN is_called THEN last_value ELSE 0 END FROM pr_id_seq),
+                    (SELECT COALESCE(MAX(pr_id), 0) FROM prs)
+                ) + 1) AS id
+            `)
+            await client.query('COMMIT')
+            return Number((result.rows[0] as { id: unknown }).id)
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => { })
+            throw new StorageError(
+                `Failed to allocate a PR id: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        } finally {
+            client.release()
+        }
+    }
+
     async getAll(): Promise<PRRecord[]> {
         if (!this.pool) await this.init()
         if (!this.pool) {
@@ -332,7 +947,7 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
-    async search(embedding: Float32Array, limit: number): Promise<Array<{ prId: number; score: number }>> {
+    async search(embedding: Float32Array, limit: number, filter?: SearchFilter): Promise<Array<{ prId: number; score: number }>> {
         if (!this.pool) await this.init()
         if (!this.pool) {
             throw new StorageError('Failed to initialize database connection')
@@ -346,14 +961,17 @@ export class PostgresStorage implements StorageBackend {
             // Use pgvector's optimized cosine similarity search
             const embeddingStr = `[${Array.from(embedding).join(',')}]`
 
+            // Rows from another model are skipped; pgvector cannot compare across dimensions
+            const params: unknown[] = [embeddingStr, limit]
             const result = await this.pool.query(`
                 SELECT 
                     pr_id,
                     1 - (text_embedding <=> $1::vector) AS score
                 FROM prs
+                WHERE vector_dims(text_embedding) = vector_dims($1::vector)${filter ? searchFilterClause(filter, params) : ''}
                 ORDER BY text_embedding <=> $1::vector
                 LIMIT $2
-            `, [embeddingStr, limit])
+            `, params)
 
             return result.rows.map((row: unknown) => {
                 const r = row as Record<string, unknown>
@@ -370,7 +988,7 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
-    async saveDecision(decision: import('../edm/comments.js').ArchitecturalDecision & { embedding?: Float32Array }): Promise<void> {
+    async saveDecision(decision: import('../edm/comments.js').ArchitecturalDecision & { embedding?: Float32Array; embedder?: EmbeddingStamp }): Promise<void> {
         if (!this.pool) await this.init()
         if (!this.pool) throw new StorageError('Failed to initialize database connection')
 
@@ -379,14 +997,17 @@ export class PostgresStorage implements StorageBackend {
 
             await this.pool.query(`
                 INSERT INTO architectural_decisions 
-                (id, author, summary, full_text, url, confidence, embedding, created_at)
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                (id, author, summary, full_text, url, confidence, embedding, created_at, embedder_id, embedder_version, embedding_dimension)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
                 ON CONFLICT (id) DO UPDATE SET
                     summary = EXCLUDED.summary,
                     full_text = EXCLUDED.full_text,
                     url = EXCLUDED.url,
                     confidence = EXCLUDED.confidence,
-                    embedding = EXCLUDED.embedding
+                    embedding = EXCLUDED.embedding,
+                    embedder_id = EXCLUDED.embedder_id,
+                    embedder_version = EXCLUDED.embedder_version,
+                    embedding_dimension = EXCLUDED.embedding_dimension
             `, [
                 decision.sourceId,
                 decision.author,
@@ -395,14 +1016,17 @@ export class PostgresStorage implements StorageBackend {
                 decision.url,
                 decision.confidence,
                 embeddingStr,
-                Date.now()
+                Date.now(),
+                decision.embedding ? decision.embedder?.id ?? null : null,
+                decision.embedding ? decision.embedder?.version ?? null : null,
+                decision.embedding ? decision.embedder?.dimension ?? null : null
             ])
         } catch (error) {
             console.error('Failed to save architectural decision:', error)
         }
     }
 
-    async searchDecisions(embedding: Float32Array, limit: number): Promise<import('../edm/comments.js').ArchitecturalDecision[]> {
+    async searchDecisions(embedding: Float32Array, limit: number, embedder?: EmbeddingStamp): Promise<import('../edm/comments.js').ArchitecturalDecision[]> {
         if (!this.pool) await this.init()
         if (!this.pool) throw new StorageError('Failed to initialize database connection')
 
@@ -414,9 +1038,10 @@ export class PostgresStorage implements StorageBackend {
                     id, author, summary, full_text, url, confidence,
                     1 - (embedding <=> $1::vector) AS score
                 FROM architectural_decisions
+                WHERE ${embedderFilter(3)}
                 ORDER BY embedding <=> $1::vector
                 LIMIT $2
-            `, [embeddingStr, limit])
+            `, [embeddingStr, limit, ...embedderParams(embedding, embedder)])
 
             return result.rows.map((row: any) => ({
                 type: 'decision',
@@ -433,7 +1058,7 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
-    async saveChunk(chunk: import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array }): Promise<void> {
+    async saveChunk(chunk: import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array; embedder?: EmbeddingStamp }): Promise<void> {
         if (!this.pool) await this.init()
         if (!this.pool) throw new StorageError('Failed to initialize database connection')
 
@@ -444,8 +1069,8 @@ export class PostgresStorage implements StorageBackend {
 
             await this.pool.query(`
                 INSERT INTO codebase_chunks 
-                (id, file_path, symbol_type, symbol_name, content, start_line, end_line, embedding, created_at)
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+                (id, file_path, symbol_type, symbol_name, content, start_line, end_line, embedding, created_at, embedder_id, embedder_version, embedding_dimension)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
                 ON CONFLICT (id) DO UPDATE SET
                     symbol_type = EXCLUDED.symbol_type,
                     symbol_name = EXCLUDED.symbol_name,
@@ -453,7 +1078,10 @@ export class PostgresStorage implements StorageBackend {
                     start_line = EXCLUDED.start_line,
                     end_line = EXCLUDED.end_line,
                     embedding = EXCLUDED.embedding,
-                    created_at = EXCLUDED.created_at
+                    created_at = EXCLUDED.created_at,
+                    embedder_id = EXCLUDED.embedder_id,
+                    embedder_version = EXCLUDED.embedder_version,
+                    embedding_dimension = EXCLUDED.embedding_dimension
             `, [
                 chunkId,
                 chunk.filePath,
@@ -463,14 +1091,17 @@ export class PostgresStorage implements StorageBackend {
                 chunk.startLine,
                 chunk.endLine,
                 embeddingStr,
-                Date.now()
+                Date.now(),
+                chunk.embedder?.id ?? null,
+                chunk.embedder?.version ?? null,
+                chunk.embedder?.dimension ?? null
             ])
         } catch (error) {
             console.error('Failed to save codebase chunk:', error)
         }
     }
 
-    async searchChunks(embedding: Float32Array, limit: number): Promise<Array<import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array, score: number }>> {
+    async searchChunks(embedding: Float32Array, limit: number, embedder?: EmbeddingStamp): Promise<Array<import('../rag/astChunker.js').CodeChunk & { embedding: Float32Array, score: number }>> {
         if (!this.pool) await this.init()
         if (!this.pool) throw new StorageError('Failed to initialize database connection')
 
@@ -482,9 +1113,10 @@ export class PostgresStorage implements StorageBackend {
                     file_path, symbol_type, symbol_name, content, start_line, end_line,
                     1 - (embedding <=> $1::vector) AS score
                 FROM codebase_chunks
+                WHERE ${embedderFilter(3)}
                 ORDER BY embedding <=> $1::vector
                 LIMIT $2
-            `, [embeddingStr, limit])
+            `, [embeddingStr, limit, ...embedderParams(embedding, embedder)])
 
             return result.rows.map((row: any) => ({
                 filePath: row.file_path,
@@ -510,6 +1142,8 @@ export class PostgresStorage implements StorageBackend {
 
         try {
             await this.pool.query('DELETE FROM prs WHERE pr_id = $1', [prId])
+            await this.pool.query('DELETE FROM pr_revisions WHERE pr_id = $1', [prId])
+            await this.pool.query('DELETE FROM pr_staged_embeddings WHERE pr_id = $1', [prId])
         } catch (error) {
             throw new StorageError(
                 `Failed to delete PR record: ${error instanceof Error ? error.message : String(error)}`,
@@ -518,6 +1152,56 @@ export class PostgresStorage implements StorageBackend {
         }
     }
 
+    /**
+     * Run fn holding a session-level advisory lock on `name`. Each lock
+     * holds its own pooled connection, polled with pg_try_advisory_lock
+     * until lockTimeoutMs, so a failing connection only loses its own lock.
+     */
+    async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+        if (!this.pool) await this.init()
+        if (!this.pool) {
+            throw new StorageError('Failed to initialize database connection')
+        }
+
+        const timeout = this.config.lockTimeoutMs ?? LOCK_TIMEOUT_MS
+        const deadline = Date.now() + timeout
+        let session: PoolClient | undefined
+        let locked = false
+        try {
+            session = await this.pool.connect()
+            for (;;) {
+                const result = await session.query('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [name])
+                locked = (result.rows[0] as { locked?: boolean } | undefined)?.locked === true
+                if (locked || Date.now() >= deadline) break
+                await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+            }
+        } catch (error) {
+            // Closing the connection releases a lock the failed query may have taken
+            session?.release(true)
+            throw new StorageError(
+                `Failed to take lock ${name}: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            )
+        }
+        if (!locked) {
+            session.release()
+            throw new StorageError(`Failed to take lock ${name}: still held elsewhere after ${timeout} ms`)
+        }
+
+        try {
+            return await fn()
+        } finally {
+            let unlocked = false
+            try {
+                await session.query('SELECT pg_advisory_unlock(hashtext($1))', [name])
+                unlocked = true
+            } catch {
+                // Closing the connection releases its lock
+            }
+            session.release(!unlocked)
+        }
+    }
+
     async close(): Promise<void> {
         if (this.pool) {
             await this.pool.end()
@@ -565,16 +1249,81 @@ export class PostgresStorage implements StorageBackend {
 
         return {
             prId,
+            ...(typeof row.provider === 'string' && row.pr_number != null
+                ? { key: normalizePRKey({ provider: row.provider, repo: String(row.repo ?? ''), number: String(row.pr_number) }) }
+                : {}),
             title,
             description,
             files: Array.isArray(files) ? files : [],
             textEmbedding,
             diffEmbedding,
-            createdAt
+            createdAt,
+            ...(Buffer.isBuffer(row.minhash) ? { minhash: new Uint32Array(new Uint8Array(row.minhash).buffer) } : {}),
+            ...(typeof row.content_hash === 'string' ? { contentHash: row.content_hash } : {}),
+            ...(Array.isArray(row.hunk_files) && Buffer.isBuffer(row.hunk_embeddings)
+                ? { hunkEmbeddings: unpackHunkVectors(row.hunk_files as HunkLocation[], new Float32Array(new Uint8Array(row.hunk_embeddings).buffer)) }
+                : {}),
+            ...(row.state === 'open' || row.state === 'closed' || row.state === 'merged' ? { state: row.state } : {}),
+            ...(row.merged_at != null ? { mergedAt: Number(row.merged_at) } : {}),
+            ...(row.closed_at != null ? { closedAt: Number(row.closed_at) } : {}),
+            ...(row.updated_at != null ? { updatedAt: Number(row.updated_at) } : {}),
+            ...(row.revision != null ? { revision: Number(row.revision) } : {}),
+            ...(typeof row.embedder_id === 'string'
+                ? { embedder: { id: row.embedder_id, version: String(row.embedder_version), dimension: Number(row.embedding_dimension) } }
+                : {}),
+            ...(typeof row.diff === 'string' ? { diff: row.diff } : {}),
+            ...(typeof row.author === 'string' ? { author: row.author } : {})
         }
     }
 }
 
+/**
+ * WHERE clause keeping vectors comparable with the query: same dimension,
+ * and stamped with the query's model when one is given (unstamped rows
+ * pass on dimension alone). Takes three parameters starting at `$first`.
+ */
+function embedderFilter(first: number): string {
+    return `vector_dims(embedding) = $${first}
+                  AND ($${first + 1}::text IS NULL OR embedder_id IS NULL OR (embedder_id = $${first + 1} AND embedder_version = $${first + 2}))`
+}
+
+function embedderParams(embedding: Float32Array, embedder?: EmbeddingStamp): unknown[] {
+    return [embedding.length, embedder?.id ?? null, embedder?.version ?? null]
+}
+
+/**
+ * `AND` conditions for a search filter, appending their values to `params`
+ */
+function searchFilterClause(filter: SearchFilter, params: unknown[]): string {
+    const conditions: string[] = []
+    const param = (value: unknown): string => {
+        params.push(value)
+        return `$${params.length}`
+    }
+
+    if (filter.authors?.length) {
+        conditions.push(`LOWER(author) = ANY(${param(filter.authors.map(a => a.toLowerCase()))}::text[])`)
+    }
+    if (filter.states?.length) {
+        conditions.push(`COALESCE(state, 'open') = ANY(${param(filter.states)}::text[])`)
+    }
+    if (filter.before !== undefined) {
+        conditions.push(`created_at < ${param(filter.before)}`)
+    }
+    if (filter.after !== undefined) {
+        conditions.push(`created_at >= ${param(filter.after)}`)
+    }
+    if (filter.files?.length) {
+        // Globs become anchored POSIX regular expressions
+        conditions.push(`EXISTS (SELECT 1 FROM jsonb_array_elements_text(files) AS f(path) WHERE f.path ~ ANY(${param(filter.files.map(globToPattern))}::text[]))`)
+    }
+    for (const phrase of filter.phrases ?? []) {
+        conditions.push(`POSITION(${param(phrase.toLowerCase())} IN LOWER(title || ' ' || COALESCE(description, ''))) > 0`)
+    }
+
+    return conditions.map(c => `\n                  AND ${c}`).join('')
+}
+
 /**
  * Create Postgres storage from environment variables
  */
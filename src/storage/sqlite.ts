@@ -4,14 +4,29 @@
  * Install: npm install better-sqlite3
  */
 
-import type { StorageBackend, PRRecord, CheckResult, AnalyticsData } from './interface.js'
+import type { StorageBackend, PRRecord, PRRevisionRecord, PRStateUpdate, StagedEmbeddings, CheckResult, AnalyticsData } from './interface.js'
+import type { FeedbackRecord } from '../feedback.js'
+import { createVectorIndex } from '../vectorIndex.js'
+import { packHunkVectors, unpackHunkVectors, hunkLocations } from '../diffHunks.js'
+import { LOCAL_PROVIDER, legacyPRKey, normalizePRKey } from '../prKey.js'
+import type { PRKey } from '../prKey.js'
+import type { EmbeddingStamp } from '../embeddingPipeline.js'
+import type { VectorIndex, VectorIndexConfig } from '../vectorIndex.js'
+
+export interface SQLiteStorageOptions {
+    /** ANN index used by search(), built lazily from the table (default: HNSW) */
+    vectorIndex?: VectorIndexConfig
+}
 
 export class SQLiteStorage implements StorageBackend {
     private dbPath: string
     private db: any = null
+    private indexConfig: VectorIndexConfig | undefined
+    private index: VectorIndex | null = null
 
-    constructor(dbPath: string = './prsense.db') {
+    constructor(dbPath: string = './prsense.db', options: SQLiteStorageOptions = {}) {
         this.dbPath = dbPath
+        this.indexConfig = options.vectorIndex
     }
 
     async init(): Promise<void> {
@@ -29,10 +44,59 @@ export class SQLiteStorage implements StorageBackend {
                     files TEXT,
                     text_embedding BLOB,
                     diff_embedding BLOB,
-                    created_at INTEGER
+                    created_at INTEGER,
+                    minhash BLOB,
+                    content_hash TEXT,
+                    hunk_files TEXT,
+                    hunk_embeddings BLOB,
+                    state TEXT,
+                    merged_at INTEGER,
+                    closed_at INTEGER,
+                    updated_at INTEGER,
+                    revision INTEGER,
+                    provider TEXT,
+                    repo TEXT,
+                    pr_number TEXT,
+                    embedder_id TEXT,
+                    embedder_version TEXT,
+                    embedding_dimension INTEGER,
+                    diff TEXT,
+                    author TEXT
                 )
             `)
 
+            // Migrate databases created before these columns existed
+            const columns = this.db.prepare('PRAGMA table_info(prs)').all() as Array<{ name: string }>
+            const migrations: Array<[string, string]> = [
+                ['minhash', 'BLOB'],
+                ['content_hash', 'TEXT'],
+                ['hunk_files', 'TEXT'],
+                ['hunk_embeddings', 'BLOB'],
+                ['state', 'TEXT'],
+                ['merged_at', 'INTEGER'],
+                ['closed_at', 'INTEGER'],
+                ['updated_at', 'INTEGER'],
+                ['revision', 'INTEGER'],
+                ['provider', 'TEXT'],
+                ['repo', 'TEXT'],
+                ['pr_number', 'TEXT'],
+                ['embedder_id', 'TEXT'],
+                ['embedder_version', 'TEXT'],
+                ['embedding_dimension', 'INTEGER'],
+                ['diff', 'TEXT'],
+                ['author', 'TEXT']
+            ]
+            for (const [name, type] of migrations) {
+                if (!columns.some(c => c.name === name)) {
+                    this.db.exec(`ALTER TABLE prs ADD COLUMN ${name} ${type}`)
+                }
+            }
+
+            // Rows stored before PR keys existed keep their id as a local key
+            this.db.prepare(`
+                UPDATE prs SET provider = ?, repo = '', pr_number = CAST(pr_id AS TEXT) WHERE provider IS NULL
+            `).run(LOCAL_PROVIDER)
+
             // Create analytics table
             this.db.exec(`
                 CREATE TABLE IF NOT EXISTS check_results (
@@ -45,9 +109,61 @@ export class SQLiteStorage implements StorageBackend {
                 )
             `)
 
+            // Maintainer verdicts on flagged pairs (append-only, latest wins)
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS feedback (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    pr_a INTEGER NOT NULL,
+                    pr_b INTEGER NOT NULL,
+                    verdict TEXT NOT NULL,
+                    actor TEXT,
+                    timestamp INTEGER
+                )
+            `)
+
+            // Duplicate lineage: the PR each duplicate was linked to
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS duplicate_links (
+                    pr_id INTEGER PRIMARY KEY,
+                    original_pr_id INTEGER NOT NULL
+                )
+            `)
+
+            // Embeddings of every pushed revision, latest copy lives in prs
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS pr_revisions (
+                    pr_id INTEGER NOT NULL,
+                    revision INTEGER NOT NULL,
+                    content_hash TEXT,
+                    text_embedding BLOB,
+                    diff_embedding BLOB,
+                    created_at INTEGER,
+                    PRIMARY KEY (pr_id, revision)
+                )
+            `)
+
+            // Vectors from another embedder, waiting for a re-embed to be promoted
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS pr_staged_embeddings (
+                    pr_id INTEGER NOT NULL,
+                    embedder_id TEXT NOT NULL,
+                    embedder_version TEXT NOT NULL,
+                    embedding_dimension INTEGER NOT NULL,
+                    content_hash TEXT,
+                    text_embedding BLOB,
+                    diff_embedding BLOB,
+                    hunk_files TEXT,
+                    hunk_embeddings BLOB,
+                    created_at INTEGER,
+                    PRIMARY KEY (pr_id, embedder_id, embedder_version, embedding_dimension)
+                )
+            `)
+
             // Create index for faster lookups
             this.db.exec(`
                 CREATE INDEX IF NOT EXISTS idx_created_at ON prs(created_at DESC);
+                CREATE INDEX IF NOT EXISTS idx_content_hash ON prs(content_hash);
+                CREATE UNIQUE INDEX IF NOT EXISTS idx_pr_key ON prs(provider, repo, pr_number);
                 CREATE INDEX IF NOT EXISTS idx_check_timestamp ON check_results(timestamp DESC);
             `)
         } catch (error) {
@@ -66,10 +182,15 @@ export class SQLiteStorage implements StorageBackend {
 
         const stmt = this.db.prepare(`
             INSERT OR REPLACE INTO prs 
-            (pr_id, title, description, files, text_embedding, diff_embedding, created_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?)
+            (pr_id, title, description, files, text_embedding, diff_embedding, created_at, minhash, content_hash, hunk_files, hunk_embeddings,
+             state, merged_at, closed_at, updated_at, revision, provider, repo, pr_number,
+             embedder_id, embedder_version, embedding_dimension, diff, author)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `)
 
+        const hunks = record.hunkEmbeddings ?? []
+        const key = normalizePRKey(record.key ?? legacyPRKey(record.prId))
+
         stmt.run(
             record.prId,
             record.title,
@@ -77,8 +198,29 @@ export class SQLiteStorage implements StorageBackend {
             JSON.stringify(record.files),
             Buffer.from(record.textEmbedding.buffer),
             Buffer.from(record.diffEmbedding.buffer),
-            record.createdAt
+            record.createdAt,
+            record.minhash
+                ? Buffer.from(record.minhash.buffer, record.minhash.byteOffset, record.minhash.byteLength)
+                : null,
+            record.contentHash ?? null,
+            hunks.length > 0 ? JSON.stringify(hunkLocations(hunks)) : null,
+            hunks.length > 0 ? Buffer.from(packHunkVectors(hunks).buffer) : null,
+            record.state ?? null,
+            record.mergedAt ?? null,
+            record.closedAt ?? null,
+            record.updatedAt ?? null,
+            record.revision ?? null,
+            key.provider,
+            key.repo,
+            String(key.number),
+            record.embedder?.id ?? null,
+            record.embedder?.version ?? null,
+            record.embedder?.dimension ?? null,
+            record.diff ?? null,
+            record.author ?? null
         )
+
+        this.index?.add(record.prId, record.textEmbedding)
     }
 
     async saveCheck(result: CheckResult): Promise<void> {
@@ -99,6 +241,190 @@ export class SQLiteStorage implements StorageBackend {
         )
     }
 
+    async updateState(prId: number, update: PRStateUpdate): Promise<void> {
+        if (!this.db) await this.init()
+
+        this.db.prepare(`
+            UPDATE prs SET state = ?, merged_at = ?, closed_at = ?, updated_at = ? WHERE pr_id = ?
+        `).run(update.state, update.mergedAt ?? null, update.closedAt ?? null, update.updatedAt, prId)
+    }
+
+    async saveRevision(revision: PRRevisionRecord): Promise<void> {
+        if (!this.db) await this.init()
+
+        this.db.prepare(`
+            INSERT OR REPLACE INTO pr_revisions
+            (pr_id, revision, content_hash, text_embedding, diff_embedding, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(
+            revision.prId,
+            revision.revision,
+            revision.contentHash ?? null,
+            Buffer.from(revision.textEmbedding.buffer, revision.textEmbedding.byteOffset, revision.textEmbedding.byteLength),
+            Buffer.from(revision.diffEmbedding.buffer, revision.diffEmbedding.byteOffset, revision.diffEmbedding.byteLength),
+            revision.createdAt
+        )
+    }
+
+    async getRevisions(prId: number): Promise<PRRevisionRecord[]> {
+        if (!this.db) await this.init()
+
+        const rows = this.db.prepare('SELECT * FROM pr_revisions WHERE pr_id = ? ORDER BY revision ASC').all(prId)
+        return rows.map((row: any) => ({
+            prId: row.pr_id,
+            revision: row.revision,
+            ...(row.content_hash ? { contentHash: row.content_hash } : {}),
+            textEmbedding: new Float32Array(new Uint8Array(row.text_embedding).buffer),
+            diffEmbedding: new Float32Array(new Uint8Array(row.diff_embedding).buffer),
+            createdAt: row.created_at
+        }))
+    }
+
+    async saveStagedEmbeddings(staged: StagedEmbeddings): Promise<void> {
+        if (!this.db) await this.init()
+
+        const hunks = staged.hunkEmbeddings ?? []
+        this.db.prepare(`
+            INSERT OR REPLACE INTO pr_staged_embeddings
+            (pr_id, embedder_id, embedder_version, embedding_dimension, content_hash, text_embedding, diff_embedding, hunk_files, hunk_embeddings, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            staged.prId,
+            staged.embedder.id,
+            staged.embedder.version,
+            staged.embedder.dimension,
+            staged.contentHash ?? null,
+            Buffer.from(staged.textEmbedding.buffer, staged.textEmbedding.byteOffset, staged.textEmbedding.byteLength),
+            Buffer.from(staged.diffEmbedding.buffer, staged.diffEmbedding.byteOffset, staged.diffEmbedding.byteLength),
+            hunks.length > 0 ? JSON.stringify(hunkLocations(hunks)) : null,
+            hunks.length > 0 ? Buffer.from(packHunkVectors(hunks).buffer) : null,
+            staged.createdAt
+        )
+    }
+
+    async listStagedEmbeddings(embedder: EmbeddingStamp): Promise<Array<{ prId: number; contentHash?: string }>> {
+        if (!this.db) await this.init()
+
+        const rows = this.db.prepare(`
+            SELECT pr_id, content_hash FROM pr_staged_embeddings
+            WHERE embedder_id = ? AND embedder_version = ? AND embedding_dimension = ?
+        `).all(embedder.id, embedder.version, embedder.dimension)
+        return rows.map((row: any) => ({ prId: row.pr_id, ...(row.content_hash ? { contentHash: row.content_hash } : {}) }))
+    }
+
+    async promoteStagedEmbeddings(embedder: EmbeddingStamp): Promise<number> {
+        if (!this.db) await this.init()
+
+        const stage = [embedder.id, embedder.version, embedder.dimension]
+        const promote = this.db.transaction((): number => {
+            // A row saved again after staging keeps its live vectors
+            const { changes } = this.db.prepare(`
+                UPDATE prs SET
+                    text_embedding = s.text_embedding,
+                    diff_embedding = s.diff_embedding,
+                    hunk_files = s.hunk_files,
+                    hunk_embeddings = s.hunk_embeddings,
+                    embedder_id = s.embedder_id,
+                    embedder_version = s.embedder_version,
+                    embedding_dimension = s.embedding_dimension
+                FROM pr_staged_embeddings s
+                WHERE s.pr_id = prs.pr_id
+                  AND s.embedder_id = ? AND s.embedder_version = ? AND s.embedding_dimension = ?
+                  AND s.content_hash IS prs.content_hash
+            `).run(...stage)
+            this.db.prepare(`
+                DELETE FROM pr_staged_embeddings WHERE embedder_id = ? AND embedder_version = ? AND embedding_dimension = ?
+            `).run(...stage)
+            return changes
+        })
+
+        const promoted = promote()
+        // Rebuilt from the new vectors on next search
+        this.index = null
+        return promoted
+    }
+
+    async listPRsOnOtherEmbedder(embedder: EmbeddingStamp, afterPrId: number, limit: number): Promise<PRRecord[]> {
+        if (!this.db) await this.init()
+
+        // An unrecorded dimension is not compared, as in sameEmbedder()
+        const rows = this.db.prepare(`
+            SELECT * FROM prs
+            WHERE pr_id > ? AND (embedder_id IS NOT ? OR embedder_version IS NOT ? OR embedding_dimension <> ?)
+            ORDER BY pr_id LIMIT ?
+        `).all(afterPrId, embedder.id, embedder.version, embedder.dimension, limit)
+        return rows.map((row: any) => this.rowToRecord(row))
+    }
+
+    async countPRsOnOtherEmbedder(embedder: EmbeddingStamp): Promise<number> {
+        if (!this.db) await this.init()
+
+        const row = this.db.prepare(`
+            SELECT COUNT(*) AS count FROM prs
+            WHERE embedder_id IS NOT ? OR embedder_version IS NOT ? OR embedding_dimension <> ?
+        `).get(embedder.id, embedder.version, embedder.dimension)
+        return Number(row.count)
+    }
+
+    async saveFeedback(feedback: FeedbackRecord): Promise<void> {
+        if (!this.db) await this.init()
+
+        this.db.prepare(`
+            INSERT INTO feedback (pr_a, pr_b, verdict, actor, timestamp)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(feedback.prA, feedback.prB, feedback.verdict, feedback.actor, feedback.timestamp)
+    }
+
+    async getFeedback(): Promise<FeedbackRecord[]> {
+        if (!this.db) await this.init()
+
+        const rows = this.db.prepare('SELECT * FROM feedback ORDER BY timestamp ASC, id ASC').all()
+        return rows.map((row: any) => ({
+            prA: row.pr_a,
+            prB: row.pr_b,
+            verdict: row.verdict,
+            actor: row.actor || 'unknown',
+            timestamp: row.timestamp
+        }))
+    }
+
+    async saveDuplicateLink(prId: number, originalPrId: number | null): Promise<void> {
+        if (!this.db) await this.init()
+
+        if (originalPrId === null) {
+            this.db.prepare('DELETE FROM duplicate_links WHERE pr_id = ?').run(prId)
+        } else {
+            this.db.prepare(`
+                INSERT INTO duplicate_links (pr_id, original_pr_id) VALUES (?, ?)
+                ON CONFLICT(pr_id) DO UPDATE SET original_pr_id = excluded.original_pr_id
+            `).run(prId, originalPrId)
+        }
+    }
+
+    async getDuplicateLinks(): Promise<Array<{ prId: number; originalPrId: number }>> {
+        if (!this.db) await this.init()
+
+        const rows = this.db.prepare('SELECT pr_id, original_pr_id FROM duplicate_links ORDER BY pr_id').all()
+        return rows.map((row: any) => ({ prId: row.pr_id, originalPrId: row.original_pr_id }))
+    }
+
+    async getCheckResults(prIds: number[]): Promise<CheckResult[]> {
+        if (!this.db) await this.init()
+
+        const rows = this.db.prepare(`
+            SELECT * FROM check_results
+            WHERE pr_id IN (SELECT value FROM json_each(?))
+            ORDER BY timestamp ASC, id ASC
+        `).all(JSON.stringify(prIds))
+        return rows.map((row: any) => ({
+            prId: row.pr_id,
+            resultType: row.result_type,
+            ...(row.original_pr_id !== null ? { originalPrId: row.original_pr_id } : {}),
+            confidence: row.confidence,
+            timestamp: row.timestamp
+        }))
+    }
+
     async getAnalytics(): Promise<AnalyticsData> {
         if (!this.db) await this.init()
 
@@ -157,6 +483,16 @@ export class SQLiteStorage implements StorageBackend {
         return this.rowToRecord(row)
     }
 
+    async getByKey(key: PRKey): Promise<PRRecord | null> {
+        if (!this.db) await this.init()
+
+        const { provider, repo, number } = normalizePRKey(key)
+        const row = this.db.prepare('SELECT * FROM prs WHERE provider = ? AND repo = ? AND pr_number = ?')
+            .get(provider, repo, String(number))
+
+        return row ? this.rowToRecord(row) : null
+    }
+
     async getAll(): Promise<PRRecord[]> {
         if (!this.db) await this.init()
 
@@ -166,25 +502,28 @@ export class SQLiteStorage implements StorageBackend {
     }
 
     async search(embedding: Float32Array, limit: number): Promise<Array<{ prId: number; score: number }>> {
-        // Simple brute-force search (for small datasets)
-        // For production, use pgvector or Faiss
-        const all = await this.getAll()
-        const scores: Array<{ prId: number; score: number }> = []
-
-        for (const record of all) {
-            const score = this.cosineSimilarity(embedding, record.textEmbedding)
-            scores.push({ prId: record.prId, score })
+        // SQLite has no native vector search, so keep an in-process ANN index
+        // that is built from the table on first use and updated on writes.
+        // For large production deployments, prefer pgvector.
+        if (!this.index) {
+            const index = createVectorIndex(this.indexConfig)
+            for (const record of await this.getAll()) {
+                index.add(record.prId, record.textEmbedding)
+            }
+            this.index = index
         }
 
-        return scores
-            .sort((a, b) => b.score - a.score)
-            .slice(0, limit)
+        return this.index.search(embedding, limit)
+            .map(hit => ({ prId: hit.id, score: hit.score }))
     }
 
     async delete(prId: number): Promise<void> {
         if (!this.db) await this.init()
 
         this.db.prepare('DELETE FROM prs WHERE pr_id = ?').run(prId)
+        this.db.prepare('DELETE FROM pr_revisions WHERE pr_id = ?').run(prId)
+        this.db.prepare('DELETE FROM pr_staged_embeddings WHERE pr_id = ?').run(prId)
+        this.index?.remove(prId)
     }
 
     async close(): Promise<void> {
@@ -192,33 +531,34 @@ export class SQLiteStorage implements StorageBackend {
             this.db.close()
             this.db = null
         }
+        this.index = null
     }
 
     private rowToRecord(row: any): PRRecord {
         return {
             prId: row.pr_id,
+            ...(row.provider ? { key: normalizePRKey({ provider: row.provider, repo: row.repo ?? '', number: row.pr_number }) } : {}),
             title: row.title,
             description: row.description,
             files: JSON.parse(row.files),
             textEmbedding: new Float32Array(row.text_embedding.buffer),
             diffEmbedding: new Float32Array(row.diff_embedding.buffer),
-            createdAt: row.created_at
-        }
-    }
-
-    private cosineSimilarity(a: Float32Array, b: Float32Array): number {
-        let dot = 0, normA = 0, normB = 0
-        const len = Math.min(a.length, b.length)
-
-        for (let i = 0; i < len; i++) {
-            const aVal = a[i] ?? 0
-            const bVal = b[i] ?? 0
-            dot += aVal * bVal
-            normA += aVal * aVal
-            normB += bVal * bVal
+            createdAt: row.created_at,
+            ...(row.minhash ? { minhash: new Uint32Array(new Uint8Array(row.minhash).buffer) } : {}),
+            ...(row.content_hash ? { contentHash: row.content_hash } : {}),
+            ...(row.hunk_files && row.hunk_embeddings
+                ? { hunkEmbeddings: unpackHunkVectors(JSON.parse(row.hunk_files), new Float32Array(new Uint8Array(row.hunk_embeddings).buffer)) }
+                : {}),
+            ...(row.state ? { state: row.state } : {}),
+            ...(row.merged_at != null ? { mergedAt: row.merged_at } : {}),
+            ...(row.closed_at != null ? { closedAt: row.closed_at } : {}),
+            ...(row.updated_at != null ? { updatedAt: row.updated_at } : {}),
+            ...(row.revision != null ? { revision: row.revision } : {}),
+            ...(row.embedder_id
+                ? { embedder: { id: row.embedder_id, version: row.embedder_version, dimension: row.embedding_dimension } }
+                : {}),
+            ...(row.diff != null ? { diff: row.diff } : {}),
+            ...(row.author != null ? { author: row.author } : {})
         }
-
-        if (normA === 0 || normB === 0) return 0
-        return dot / (Math.sqrt(normA) * Math.sqrt(normB))
     }
 }
@@ -1,12 +1,31 @@
+/**
+ * Duplicate / possible-duplicate score cut-offs
+ */
+export interface Thresholds {
+    duplicate: number
+    possible: number
+}
+
+/**
+ * Defaults used when no calibrated thresholds are configured
+ *
+ * intentionally conservative to avoid spam
+ */
+export const DEFAULT_THRESHOLDS: Readonly<Thresholds> = Object.freeze({
+    duplicate: 0.90,
+    possible: 0.82
+})
+
 /**
  * Classifies a similarity score into a confidence tier
  * 
  * Thresholds are intentionally conservative to avoid spam
  */
 export function classify(
-    score: number
+    score: number,
+    thresholds: Thresholds = DEFAULT_THRESHOLDS
 ): 'HIGH' | 'MEDIUM' | 'LOW' {
-    if (score >= 0.9) return 'HIGH'
-    if (score >= 0.82) return 'MEDIUM'
+    if (score >= thresholds.duplicate) return 'HIGH'
+    if (score >= thresholds.possible) return 'MEDIUM'
     return 'LOW'
 }
@@ -4,15 +4,44 @@ Core metadata describing a pull request
 used across indexing attribution and decision layers 
 */
 
+/**
+ * Lifecycle state of a pull request
+ */
+export type PRState = 'open' | 'closed' | 'merged'
+
+/**
+ * Which indexed PRs may be reported as matches
+ */
+export interface CandidateFilter {
+    /** Only match PRs in these states (default: any state) */
+    states?: PRState[]
+    /** Skip PRs closed without merging more than this many days ago */
+    closedMaxAgeDays?: number
+}
+
 export interface PRMetadata {
     prId: number
+    /** Provider, repository and number the PR is known by */
+    key?: import('./prKey.js').PRKey
     repoId: number
     authorId: number
     title: string
     description: string
     createdAt: number
     mergedAt?: number
+    /** Set when the PR was closed or merged; cleared on reopen */
+    closedAt?: number
+    /** Last time the PR was re-indexed or changed state */
+    updatedAt?: number
+    /** Lifecycle state (absent on records indexed before states were tracked: open) */
+    state?: PRState
+    /** Incremented each time a push changes the PR's content (first index: 1) */
+    revision?: number
+    /** Login of the PR author, when the input carried one */
+    author?: string
     files?: string[]
+    /** sha1 over title, description and diff - exact-duplicate lookup key */
+    contentHash?: string
 }
 
 /**
@@ -20,11 +49,21 @@ export interface PRMetadata {
  */
 export interface SearchResult {
     prId: number
+    key?: import('./prKey.js').PRKey
+    /** Vector similarity to the query (BM25 score relative to the best hit in lexical mode) */
     score: number
+    /** Reciprocal-rank-fusion score the results are ordered by */
+    fusedScore?: number
+    /** BM25 score, when the PR contains query terms */
+    lexicalScore?: number
+    /** Query terms found in the PR */
+    matchedTerms?: string[]
     title: string
     description: string
     createdAt: number
     files: string[]
+    author?: string
+    state?: PRState
 }
 
 /**
@@ -5,12 +5,18 @@
  */
 
 import { ValidationError, ConfigurationError } from './errors.js'
+import { normalizePRKey } from './prKey.js'
+import type { CandidateFilter } from './types.js'
+import type { PRKey } from './prKey.js'
 
 /**
  * Validate PR input data
  */
-export function validatePRInput(pr: { prId: number; title: string; description: string; files: string[]; diff?: string }): void {
-    if (!Number.isInteger(pr.prId) || pr.prId <= 0) {
+export function validatePRInput(pr: { prId?: number; key?: PRKey; title: string; description: string; files: string[]; diff?: string }): void {
+    if (pr.key !== undefined) {
+        normalizePRKey(pr.key)
+    }
+    if ((pr.prId !== undefined || pr.key === undefined) && (!Number.isInteger(pr.prId) || pr.prId! <= 0)) {
         throw new ValidationError('prId must be a positive integer', 'prId')
     }
 
@@ -143,6 +149,23 @@ export function validateConfig(config: {
     }
 }
 
+/**
+ * Validate a candidate filter (config or per-check)
+ */
+export function validateCandidateFilter(filter: CandidateFilter): void {
+    if (filter.states !== undefined) {
+        if (!Array.isArray(filter.states) || filter.states.some(s => s !== 'open' && s !== 'closed' && s !== 'merged')) {
+            throw new ValidationError('filter.states must only contain open, closed or merged', 'filter')
+        }
+    }
+
+    if (filter.closedMaxAgeDays !== undefined) {
+        if (typeof filter.closedMaxAgeDays !== 'number' || !Number.isFinite(filter.closedMaxAgeDays) || filter.closedMaxAgeDays < 0) {
+            throw new ValidationError('filter.closedMaxAgeDays must be a non-negative number', 'filter')
+        }
+    }
+}
+
 /**
  * Sanitize string input (basic XSS prevention)
  */
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import { HNSWIndex, FlatIndex, createVectorIndex } from './vectorIndex.js'
+import { ConfigurationError } from './errors.js'
+
+// Deterministic pseudo-random vectors
+function randomVectors(count: number, dim: number, seed = 1): Float32Array[] {
+    let state = seed
+    const next = () => {
+        state = (state * 1103515245 + 12345) % 2147483648
+        return state / 2147483648 - 0.5
+    }
+    return Array.from({ length: count }, () => {
+        const v = new Float32Array(dim)
+        for (let i = 0; i < dim; i++) v[i] = next()
+        return v
+    })
+}
+
+describe('FlatIndex', () => {
+    it('should return exact nearest neighbours', () => {
+        const index = new FlatIndex()
+        index.add(1, new Float32Array([1, 0, 0]))
+        index.add(2, new Float32Array([0, 1, 0]))
+        index.add(3, new Float32Array([0.9, 0.1, 0]))
+
+        const results = index.search(new Float32Array([1, 0, 0]), 2)
+        expect(results.map(r => r.id)).toEqual([1, 3])
+        expect(results[0]?.score).toBeCloseTo(1)
+    })
+
+    it('should support remove', () => {
+        const index = new FlatIndex()
+        index.add(1, new Float32Array([1, 0]))
+        expect(index.remove(1)).toBe(true)
+        expect(index.remove(1)).toBe(false)
+        expect(index.size).toBe(0)
+    })
+})
+
+describe('HNSWIndex', () => {
+    it('should match flat search on small indexes', () => {
+        const vectors = randomVectors(30, 8)
+        const hnsw = new HNSWIndex()
+        const flat = new FlatIndex()
+        vectors.forEach((v, i) => {
+            hnsw.add(i, v)
+            flat.add(i, v)
+        })
+
+        const query = randomVectors(1, 8, 99)[0]!
+        expect(hnsw.search(query, 5).map(r => r.id)).toEqual(flat.search(query, 5).map(r => r.id))
+    })
+
+    it('should achieve high recall on larger indexes', () => {
+        const vectors = randomVectors(1500, 16)
+        const hnsw = new HNSWIndex({ m: 12, efConstruction: 100, efSearch: 50 })
+        const flat = new FlatIndex()
+        vectors.forEach((v, i) => {
+            hnsw.add(i, v)
+            flat.add(i, v)
+        })
+
+        const queries = randomVectors(20, 16, 7)
+        let hits = 0
+        for (const q of queries) {
+            const truth = new Set(flat.search(q, 10).map(r => r.id))
+            hits += hnsw.search(q, 10).filter(r => truth.has(r.id)).length
+        }
+        expect(hits / (queries.length * 10)).toBeGreaterThan(0.9)
+    })
+
+    it('should stay searchable after removals', () => {
+        const vectors = randomVectors(200, 8)
+        const hnsw = new HNSWIndex({ efSearch: 10, exactThreshold: 0 })
+        vectors.forEach((v, i) => hnsw.add(i, v))
+
+        for (let i = 0; i < 100; i++) hnsw.remove(i)
+
+        expect(hnsw.size).toBe(100)
+        const results = hnsw.search(vectors[150]!, 5)
+        expect(results[0]?.id).toBe(150)
+        expect(results.every(r => r.id >= 100)).toBe(true)
+    })
+
+    it('should leave no edges to removed nodes, including after import', () => {
+        const vectors = randomVectors(200, 8)
+        const hnsw = new HNSWIndex({ m: 4, efSearch: 10, exactThreshold: 0 })
+        vectors.forEach((v, i) => hnsw.add(i, v))
+        const restored = new HNSWIndex({ efSearch: 10 })
+        restored.import(hnsw.export(), id => vectors[id])
+
+        for (const index of [hnsw, restored]) {
+            for (let i = 0; i < 200; i += 2) index.remove(i)
+            const state = index.export()
+            if (state.type !== 'hnsw') throw new Error('expected HNSW state')
+            const edges = state.nodes.flatMap(([, , neighbors]) => neighbors.flat())
+            expect(edges.length).toBeGreaterThan(0)
+            expect(edges.every(id => id % 2 === 1)).toBe(true)
+        }
+    })
+
+    it('should replace vectors on re-add', () => {
+        const hnsw = new HNSWIndex()
+        hnsw.add(1, new Float32Array([1, 0]))
+        hnsw.add(1, new Float32Array([0, 1]))
+
+        expect(hnsw.size).toBe(1)
+        expect(hnsw.search(new Float32Array([0, 1]), 1)[0]?.score).toBeCloseTo(1)
+    })
+
+    it('should round-trip through export/import', () => {
+        const vectors = randomVectors(300, 8)
+        const hnsw = new HNSWIndex({ efSearch: 20, exactThreshold: 0 })
+        vectors.forEach((v, i) => hnsw.add(i, v))
+
+        const restored = new HNSWIndex({ efSearch: 20 })
+        restored.import(JSON.parse(JSON.stringify(hnsw.export())), id => vectors[id])
+
+        const query = randomVectors(1, 8, 3)[0]!
+        expect(restored.size).toBe(300)
+        expect(restored.search(query, 5)).toEqual(hnsw.search(query, 5))
+    })
+
+    it('should drop unresolvable nodes on import', () => {
+        const vectors = randomVectors(50, 4)
+        const hnsw = new HNSWIndex({ efSearch: 5, exactThreshold: 0 })
+        vectors.forEach((v, i) => hnsw.add(i, v))
+
+        const restored = new HNSWIndex({ efSearch: 5 })
+        restored.import(hnsw.export(), id => (id % 2 === 0 ? vectors[id] : undefined))
+        expect(restored.size).toBe(25)
+        expect(restored.search(vectors[10]!, 1)[0]?.id).toBe(10)
+    })
+
+    it('should build the graph once past the exact-scan threshold', () => {
+        const vectors = randomVectors(60, 8)
+        const hnsw = new HNSWIndex({ efSearch: 5, exactThreshold: 50 })
+        vectors.forEach((v, i) => hnsw.add(i, v))
+
+        const state = hnsw.export()
+        expect(state.type === 'hnsw' && state.built).toBe(true)
+        expect(hnsw.search(vectors[42]!, 1)[0]?.id).toBe(42)
+    })
+
+    it('should reject invalid parameters', () => {
+        expect(() => new HNSWIndex({ m: 1 })).toThrow(ConfigurationError)
+        expect(() => new HNSWIndex({ efSearch: 0 })).toThrow(ConfigurationError)
+        expect(() => new HNSWIndex().import(new FlatIndex().export(), () => undefined)).toThrow(ConfigurationError)
+    })
+})
+
+describe('createVectorIndex', () => {
+    it('should default to HNSW', () => {
+        expect(createVectorIndex().type).toBe('hnsw')
+        expect(createVectorIndex({ type: 'flat' }).type).toBe('flat')
+    })
+})
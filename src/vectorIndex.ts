@@ -0,0 +1,745 @@
+/**
+ * Approximate nearest-neighbour (ANN) index over embedding vectors
+ *
+ * HNSW: hierarchical navigable small-world graph, O(log n) search
+ * Flat: exact brute-force scan, used for tiny corpora and as a baseline
+ * Quantized: exact scan over int8 or PQ codes, for memory-bound processes
+ *
+ * vectors are L2-normalised on insert so similarity is a plain dot product
+ * (equivalent to cosine)
+ */
+
+import { ConfigurationError } from './errors.js'
+import { createQuantizer } from './quantization.js'
+import type { QuantizationConfig, QuantizedVector, Quantizer } from './quantization.js'
+
+export interface VectorSearchResult {
+    id: number
+    score: number
+}
+
+/**
+ * Serialised index topology (vectors are not included, they are
+ * re-attached from the owning store on import)
+ */
+export type VectorIndexState =
+    | { type: 'flat'; version: 1; ids: number[] }
+    | { type: 'int8' | 'pq'; version: 1; ids: number[] }
+    | {
+        type: 'hnsw'
+        version: 1
+        params: { m: number; efConstruction: number; seed: number }
+        /** false while the index is still below its exact-scan threshold */
+        built: boolean
+        entryPoint: number | null
+        maxLevel: number
+        nodes: Array<[id: number, level: number, neighbors: number[][]]>
+    }
+
+/**
+ * Minimal interface for pluggable in-process vector indexes
+ */
+export interface VectorIndex {
+    readonly type: string
+    readonly size: number
+    add(id: number, vector: Float32Array): void
+    remove(id: number): boolean
+    has(id: number): boolean
+    search(query: Float32Array, k: number): VectorSearchResult[]
+    clear(): void
+    export(): VectorIndexState
+    /**
+     * Restore topology from a snapshot. `resolve` supplies the raw vector
+     * for each id; ids it cannot resolve are dropped from the graph.
+     */
+    import(state: VectorIndexState, resolve: (id: number) => Float32Array | undefined): void
+}
+
+export interface VectorIndexConfig {
+    /** Index implementation (default: 'hnsw') */
+    type?: 'hnsw' | 'flat'
+    /** Max neighbours per node on upper layers (layer 0 keeps 2*m) */
+    m?: number
+    /** Candidate list size while building - higher = better graph, slower inserts */
+    efConstruction?: number
+    /** Candidate list size while searching - higher = better recall, slower queries */
+    efSearch?: number
+    /** Seed for level assignment, keeps graphs reproducible */
+    seed?: number
+    /** HNSW only: scan exactly until the index holds more than this many vectors (default: 1000) */
+    exactThreshold?: number
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function normalize(vector: Float32Array): Float32Array {
+    let norm = 0
+    for (let i = 0; i < vector.length; i++) {
+        const v = vector[i] ?? 0
+        norm += v * v
+    }
+    const out = new Float32Array(vector.length)
+    if (norm === 0) return out
+    const inv = 1 / Math.sqrt(norm)
+    for (let i = 0; i < vector.length; i++) {
+        out[i] = (vector[i] ?? 0) * inv
+    }
+    return out
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    const len = Math.min(a.length, b.length)
+    let sum = 0
+    for (let i = 0; i < len; i++) {
+        sum += a[i]! * b[i]!
+    }
+    return sum
+}
+
+/**
+ * mulberry32 - small deterministic PRNG
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+/**
+ * Binary heap ordered by score; `max` selects a max-heap
+ */
+class ScoreHeap {
+    private items: VectorSearchResult[] = []
+
+    constructor(private max: boolean) { }
+
+    get length(): number {
+        return this.items.length
+    }
+
+    peek(): VectorSearchResult | undefined {
+        return this.items[0]
+    }
+
+    push(item: VectorSearchResult): void {
+        this.items.push(item)
+        let i = this.items.length - 1
+        while (i > 0) {
+            const parent = (i - 1) >> 1
+            if (!this.before(this.items[i]!, this.items[parent]!)) break
+            this.swap(i, parent)
+            i = parent
+        }
+    }
+
+    pop(): VectorSearchResult | undefined {
+        const top = this.items[0]
+        const last = this.items.pop()
+        if (this.items.length > 0 && last) {
+            this.items[0] = last
+            let i = 0
+            for (; ;) {
+                const left = 2 * i + 1
+                const right = left + 1
+                let best = i
+                if (left < this.items.length && this.before(this.items[left]!, this.items[best]!)) best = left
+                if (right < this.items.length && this.before(this.items[right]!, this.items[best]!)) best = right
+                if (best === i) break
+                this.swap(i, best)
+                i = best
+            }
+        }
+        return top
+    }
+
+    toArray(): VectorSearchResult[] {
+        return [...this.items]
+    }
+
+    private before(a: VectorSearchResult, b: VectorSearchResult): boolean {
+        return this.max ? a.score > b.score : a.score < b.score
+    }
+
+    private swap(i: number, j: number): void {
+        const tmp = this.items[i]!
+        this.items[i] = this.items[j]!
+        this.items[j] = tmp
+    }
+}
+
+function topK(results: VectorSearchResult[], k: number): VectorSearchResult[] {
+    return results.sort((a, b) => b.score - a.score).slice(0, k)
+}
+
+// ─── Flat index ──────────────────────────────────────────────────
+
+/**
+ * Exact brute-force index - O(n) per query
+ */
+export class FlatIndex implements VectorIndex {
+    readonly type = 'flat'
+    private vectors = new Map<number, Float32Array>()
+
+    get size(): number {
+        return this.vectors.size
+    }
+
+    add(id: number, vector: Float32Array): void {
+        this.vectors.set(id, normalize(vector))
+    }
+
+    remove(id: number): boolean {
+        return this.vectors.delete(id)
+    }
+
+    has(id: number): boolean {
+        return this.vectors.has(id)
+    }
+
+    search(query: Float32Array, k: number): VectorSearchResult[] {
+        if (k <= 0 || this.vectors.size === 0) return []
+        const q = normalize(query)
+        const results: VectorSearchResult[] = []
+        for (const [id, vector] of this.vectors) {
+            results.push({ id, score: dot(q, vector) })
+        }
+        return topK(results, k)
+    }
+
+    clear(): void {
+        this.vectors.clear()
+    }
+
+    export(): VectorIndexState {
+        return { type: 'flat', version: 1, ids: Array.from(this.vectors.keys()) }
+    }
+
+    import(state: VectorIndexState, resolve: (id: number) => Float32Array | undefined): void {
+        if (state.type !== 'flat') {
+            throw new ConfigurationError(`Cannot import ${state.type} index state into a flat index`)
+        }
+        this.vectors.clear()
+        for (const id of state.ids) {
+            const vector = resolve(id)
+            if (vector) this.add(id, vector)
+        }
+    }
+}
+
+// ─── HNSW index ──────────────────────────────────────────────────
+
+interface HNSWNode {
+    vector: Float32Array
+    level: number
+    /** neighbors[layer] = adjacent node ids on that layer */
+    neighbors: number[][]
+    /** inbound[layer] = nodes listing this one among their neighbors on that layer */
+    inbound: Array<Set<number>>
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016)
+ *
+ * The graph is only built once the index grows past `exactThreshold`
+ * vectors; below that (or below `efSearch`) queries are an exact scan,
+ * so small indexes behave identically to FlatIndex
+ */
+export class HNSWIndex implements VectorIndex {
+    readonly type = 'hnsw'
+    private nodes = new Map<number, HNSWNode>()
+    private entryPoint: number | null = null
+    private maxLevel = -1
+    private built = false
+
+    private m: number
+    private m0: number
+    private efConstruction: number
+    private efSearch: number
+    private seed: number
+    private exactThreshold: number
+    private levelMult: number
+    private random: () => number
+
+    constructor(config: Omit<VectorIndexConfig, 'type'> = {}) {
+        this.m = config.m ?? 16
+        this.efConstruction = config.efConstruction ?? 100
+        this.efSearch = config.efSearch ?? 64
+        this.seed = config.seed ?? 42
+        this.exactThreshold = config.exactThreshold ?? 1000
+
+        if (!Number.isInteger(this.m) || this.m < 2 || this.m > 128) {
+            throw new ConfigurationError('vectorIndex.m must be an integer between 2 and 128')
+        }
+        if (!Number.isInteger(this.efConstruction) || this.efConstruction < 1 || this.efConstruction > 10000) {
+            throw new ConfigurationError('vectorIndex.efConstruction must be an integer between 1 and 10000')
+        }
+        if (!Number.isInteger(this.exactThreshold) || this.exactThreshold < 0) {
+            throw new ConfigurationError('vectorIndex.exactThreshold must be a non-negative integer')
+        }
+        this.setEfSearch(this.efSearch)
+
+        this.m0 = this.m * 2
+        this.levelMult = 1 / Math.log(this.m)
+        this.random = createRandom(this.seed)
+    }
+
+    get size(): number {
+        return this.nodes.size
+    }
+
+    /**
+     * Tune the recall/latency trade-off at query time
+     */
+    setEfSearch(ef: number): void {
+        if (!Number.isInteger(ef) || ef < 1 || ef > 10000) {
+            throw new ConfigurationError('vectorIndex.efSearch must be an integer between 1 and 10000')
+        }
+        this.efSearch = ef
+    }
+
+    has(id: number): boolean {
+        return this.nodes.has(id)
+    }
+
+    add(id: number, vector: Float32Array): void {
+        if (this.nodes.has(id)) {
+            this.remove(id)
+        }
+
+        const node: HNSWNode = { vector: normalize(vector), level: 0, neighbors: [[]], inbound: [] }
+        this.nodes.set(id, node)
+
+        if (this.built) {
+            this.insert(id, node)
+        } else if (this.nodes.size > this.exactThreshold) {
+            this.buildGraph()
+        }
+    }
+
+    private buildGraph(): void {
+        this.built = true
+        this.entryPoint = null
+        this.maxLevel = -1
+        for (const [id, node] of this.nodes) {
+            this.insert(id, node)
+        }
+    }
+
+    private insert(id: number, node: HNSWNode): void {
+        const level = Math.floor(-Math.log(1 - this.random()) * this.levelMult)
+        node.level = level
+        node.neighbors = Array.from({ length: level + 1 }, () => [])
+        node.inbound = []
+
+        if (this.entryPoint === null) {
+            this.entryPoint = id
+            this.maxLevel = level
+            return
+        }
+
+        // Greedy descent through layers above the new node's level
+        let current = this.entryPoint
+        for (let layer = this.maxLevel; layer > level; layer--) {
+            current = this.greedyClosest(node.vector, current, layer)
+        }
+
+        // Connect on every layer the node participates in
+        let entries = [current]
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(node.vector, entries, this.efConstruction, layer)
+            const maxConn = layer === 0 ? this.m0 : this.m
+            const selected = topK(candidates.filter(c => c.id !== id), this.m)
+
+            this.setNeighbors(id, node, layer, selected.map(c => c.id))
+            for (const neighbor of selected) {
+                this.link(neighbor.id, id, layer, maxConn)
+            }
+            entries = candidates.map(c => c.id)
+        }
+
+        if (level > this.maxLevel) {
+            this.maxLevel = level
+            this.entryPoint = id
+        }
+    }
+
+    remove(id: number): boolean {
+        const node = this.nodes.get(id)
+        if (!node) return false
+        this.nodes.delete(id)
+        if (!this.built) return true
+
+        // Unlink and repair: nodes that pointed here reconnect among its
+        // former neighbours. Reverse edges keep this to the neighbourhood.
+        for (let layer = 0; layer <= node.level; layer++) {
+            const former = node.neighbors[layer] ?? []
+            const maxConn = layer === 0 ? this.m0 : this.m
+            for (const neighborId of former) {
+                this.nodes.get(neighborId)?.inbound[layer]?.delete(id)
+            }
+            for (const sourceId of node.inbound[layer] ?? []) {
+                const source = this.nodes.get(sourceId)
+                const list = source?.neighbors[layer]
+                if (!source || !list) continue
+                const idx = list.indexOf(id)
+                if (idx !== -1) list.splice(idx, 1)
+
+                for (const candidateId of former) {
+                    if (candidateId === sourceId || list.includes(candidateId)) continue
+                    if (!this.nodes.has(candidateId)) continue
+                    list.push(candidateId)
+                    this.inboundOf(candidateId, layer)?.add(sourceId)
+                }
+                this.prune(sourceId, source, layer, maxConn)
+            }
+        }
+
+        if (this.entryPoint === id) {
+            this.entryPoint = null
+            this.maxLevel = -1
+            // The highest former neighbour takes over; an isolated entry point means a scan
+            for (const neighborId of new Set(node.neighbors.flat())) {
+                const neighbor = this.nodes.get(neighborId)
+                if (neighbor && neighbor.level > this.maxLevel) {
+                    this.maxLevel = neighbor.level
+                    this.entryPoint = neighborId
+                }
+            }
+            if (this.entryPoint === null) {
+                for (const [otherId, other] of this.nodes) {
+                    if (other.level > this.maxLevel) {
+                        this.maxLevel = other.level
+                        this.entryPoint = otherId
+                    }
+                }
+            }
+        }
+        return true
+    }
+
+    search(query: Float32Array, k: number): VectorSearchResult[] {
+        if (k <= 0 || this.nodes.size === 0) return []
+        const q = normalize(query)
+        const ef = Math.max(this.efSearch, k)
+
+        // Exact scan is both cheaper and correct for small indexes
+        if (!this.built || this.nodes.size <= ef) {
+            const results: VectorSearchResult[] = []
+            for (const [id, node] of this.nodes) {
+                results.push({ id, score: dot(q, node.vector) })
+            }
+            return topK(results, k)
+        }
+
+        let current = this.entryPoint!
+        for (let layer = this.maxLevel; layer > 0; layer--) {
+            current = this.greedyClosest(q, current, layer)
+        }
+        return topK(this.searchLayer(q, [current], ef, 0), k)
+    }
+
+    clear(): void {
+        this.nodes.clear()
+        this.entryPoint = null
+        this.maxLevel = -1
+        this.built = false
+        this.random = createRandom(this.seed)
+    }
+
+    export(): VectorIndexState {
+        return {
+            type: 'hnsw',
+            version: 1,
+            params: { m: this.m, efConstruction: this.efConstruction, seed: this.seed },
+            built: this.built,
+            entryPoint: this.entryPoint,
+            maxLevel: this.maxLevel,
+            nodes: Array.from(this.nodes.entries()).map(([id, node]) =>
+                [id, node.level, node.neighbors.map(list => [...list])]
+            )
+        }
+    }
+
+    import(state: VectorIndexState, resolve: (id: number) => Float32Array | undefined): void {
+        if (state.type !== 'hnsw') {
+            throw new ConfigurationError(`Cannot import ${state.type} index state into an HNSW index`)
+        }
+
+        this.clear()
+        this.m = state.params.m
+        this.m0 = this.m * 2
+        this.efConstruction = state.params.efConstruction
+        this.levelMult = 1 / Math.log(this.m)
+        this.built = state.built
+
+        const missing: number[] = []
+        for (const [id, level, neighbors] of state.nodes) {
+            const vector = resolve(id)
+            if (!vector) {
+                missing.push(id)
+                continue
+            }
+            this.nodes.set(id, { vector: normalize(vector), level, neighbors: neighbors.map(list => [...list]), inbound: [] })
+        }
+
+        // Scrub edges to nodes that could not be resolved
+        if (missing.length > 0) {
+            for (const node of this.nodes.values()) {
+                node.neighbors = node.neighbors.map(list => list.filter(n => this.nodes.has(n)))
+            }
+        }
+        for (const [id, node] of this.nodes) {
+            node.neighbors.forEach((list, layer) => {
+                for (const neighborId of list) this.inboundOf(neighborId, layer)?.add(id)
+            })
+        }
+
+        if (!this.built) return
+
+        if (state.entryPoint !== null && this.nodes.has(state.entryPoint)) {
+            this.entryPoint = state.entryPoint
+            this.maxLevel = state.maxLevel
+        } else {
+            for (const [id, node] of this.nodes) {
+                if (node.level > this.maxLevel) {
+                    this.maxLevel = node.level
+                    this.entryPoint = id
+                }
+            }
+        }
+    }
+
+    // Private helpers
+
+    private greedyClosest(query: Float32Array, start: number, layer: number): number {
+        let current = start
+        let currentScore = dot(query, this.nodes.get(current)!.vector)
+        let improved = true
+        while (improved) {
+            improved = false
+            for (const neighborId of this.nodes.get(current)?.neighbors[layer] ?? []) {
+                const neighbor = this.nodes.get(neighborId)
+                if (!neighbor) continue
+                const score = dot(query, neighbor.vector)
+                if (score > currentScore) {
+                    currentScore = score
+                    current = neighborId
+                    improved = true
+                }
+            }
+        }
+        return current
+    }
+
+    private searchLayer(query: Float32Array, entries: number[], ef: number, layer: number): VectorSearchResult[] {
+        const visited = new Set<number>()
+        const candidates = new ScoreHeap(true)   // best first
+        const results = new ScoreHeap(false)     // worst on top, for eviction
+
+        for (const id of entries) {
+            const node = this.nodes.get(id)
+            if (!node || visited.has(id)) continue
+            visited.add(id)
+            const item = { id, score: dot(query, node.vector) }
+            candidates.push(item)
+            results.push(item)
+        }
+
+        while (candidates.length > 0) {
+            const best = candidates.pop()!
+            const worst = results.peek()
+            if (worst && best.score < worst.score && results.length >= ef) break
+
+            for (const neighborId of this.nodes.get(best.id)?.neighbors[layer] ?? []) {
+                if (visited.has(neighborId)) continue
+                visited.add(neighborId)
+                const neighbor = this.nodes.get(neighborId)
+                if (!neighbor) continue
+
+                const score = dot(query, neighbor.vector)
+                const floor = results.peek()
+                if (results.length < ef || (floor && score > floor.score)) {
+                    candidates.push({ id: neighborId, score })
+                    results.push({ id: neighborId, score })
+                    if (results.length > ef) results.pop()
+                }
+            }
+        }
+
+        return results.toArray()
+    }
+
+    private link(from: number, to: number, layer: number, maxConn: number): void {
+        const node = this.nodes.get(from)
+        const list = node?.neighbors[layer]
+        if (!node || !list || list.includes(to)) return
+        list.push(to)
+        this.inboundOf(to, layer)?.add(from)
+        if (list.length > maxConn) this.prune(from, node, layer, maxConn)
+    }
+
+    private prune(id: number, node: HNSWNode, layer: number, maxConn: number): void {
+        const list = node.neighbors[layer]
+        if (!list || list.length <= maxConn) return
+        const scored = list
+            .map(id => ({ id, score: dot(node.vector, this.nodes.get(id)?.vector ?? new Float32Array(0)) }))
+        this.setNeighbors(id, node, layer, topK(scored, maxConn).map(s => s.id))
+    }
+
+    /**
+     * Replace a node's neighbours on a layer, keeping reverse edges in step
+     */
+    private setNeighbors(id: number, node: HNSWNode, layer: number, neighbors: number[]): void {
+        for (const neighborId of node.neighbors[layer] ?? []) {
+            this.nodes.get(neighborId)?.inbound[layer]?.delete(id)
+        }
+        node.neighbors[layer] = neighbors
+        for (const neighborId of neighbors) {
+            this.inboundOf(neighborId, layer)?.add(id)
+        }
+    }
+
+    private inboundOf(id: number, layer: number): Set<number> | undefined {
+        const node = this.nodes.get(id)
+        if (!node) return undefined
+        return node.inbound[layer] ??= new Set()
+    }
+}
+
+// ─── Quantized index ─────────────────────────────────────────────
+
+/**
+ * Exact scan over int8 or product-quantised codes, scored asymmetrically
+ * against the full-precision query - O(n) per query, but with a fraction
+ * of the memory of the other indexes. PQ vectors are held exactly until
+ * `trainingSize` of them have arrived to train the codebooks on.
+ */
+export class QuantizedIndex implements VectorIndex {
+    readonly type: 'int8' | 'pq'
+    private quantizer: Quantizer
+    private trainingSize: number
+    private codes = new Map<number, QuantizedVector>()
+    private pending = new Map<number, Float32Array>()
+    private dimension = 0
+
+    constructor(config: QuantizationConfig) {
+        this.quantizer = createQuantizer(config)
+        this.type = this.quantizer.type
+        this.trainingSize = config.trainingSize ?? 1024
+        if (!Number.isInteger(this.trainingSize) || this.trainingSize < 1) {
+            throw new ConfigurationError('quantization.trainingSize must be a positive integer')
+        }
+    }
+
+    get size(): number {
+        return this.codes.size + this.pending.size
+    }
+
+    get trained(): boolean {
+        return this.quantizer.trained
+    }
+
+    add(id: number, vector: Float32Array): void {
+        this.remove(id)
+        const unit = normalize(vector)
+        this.dimension ||= unit.length
+        if (this.quantizer.trained) {
+            this.codes.set(id, this.quantizer.encode(unit))
+            return
+        }
+        this.pending.set(id, unit)
+        if (this.pending.size >= this.trainingSize) {
+            this.quantizer.train([...this.pending.values()])
+            for (const [pendingId, pendingVector] of this.pending) {
+                this.codes.set(pendingId, this.quantizer.encode(pendingVector))
+            }
+            this.pending.clear()
+        }
+    }
+
+    remove(id: number): boolean {
+        return this.codes.delete(id) || this.pending.delete(id)
+    }
+
+    has(id: number): boolean {
+        return this.codes.has(id) || this.pending.has(id)
+    }
+
+    search(query: Float32Array, k: number): VectorSearchResult[] {
+        if (k <= 0 || this.size === 0) return []
+        const q = normalize(query)
+        const results: VectorSearchResult[] = []
+        if (this.codes.size > 0) {
+            const score = this.quantizer.scorer(q)
+            for (const [id, code] of this.codes) {
+                results.push({ id, score: score(code) })
+            }
+        }
+        for (const [id, vector] of this.pending) {
+            results.push({ id, score: dot(q, vector) })
+        }
+        return topK(results, k)
+    }
+
+    /**
+     * The unit vector as stored: decoded from its codes, or exact while
+     * PQ training is pending
+     */
+    vector(id: number): Float32Array | undefined {
+        const code = this.codes.get(id)
+        return code ? this.quantizer.decode(code) : this.pending.get(id)
+    }
+
+    /**
+     * Bytes held for vectors (codes, pending exact vectors and codebooks)
+     * against what Float32 vectors would take
+     */
+    memory(): { bytes: number; fullPrecisionBytes: number } {
+        return {
+            bytes: this.codes.size * this.quantizer.codeBytes(this.dimension)
+                + this.pending.size * this.dimension * 4
+                + this.quantizer.tableBytes,
+            fullPrecisionBytes: this.size * this.dimension * 4
+        }
+    }
+
+    clear(): void {
+        this.codes.clear()
+        this.pending.clear()
+    }
+
+    export(): VectorIndexState {
+        return { type: this.type, version: 1, ids: [...this.codes.keys(), ...this.pending.keys()] }
+    }
+
+    import(state: VectorIndexState, resolve: (id: number) => Float32Array | undefined): void {
+        if (state.type !== this.type) {
+            throw new ConfigurationError(`Cannot import ${state.type} index state into a ${this.type} index`)
+        }
+        this.clear()
+        for (const id of state.ids) {
+            const vector = resolve(id)
+            if (vector) this.add(id, vector)
+        }
+    }
+}
+
+/**
+ * Create a vector index from configuration
+ */
+export function createVectorIndex(config: VectorIndexConfig = {}): VectorIndex {
+    const { type = 'hnsw', ...params } = config
+    switch (type) {
+        case 'flat':
+            return new FlatIndex()
+        case 'hnsw':
+            return new HNSWIndex(params)
+        default:
+            throw new ConfigurationError(`Unsupported vector index type: ${type}`)
+    }
+}